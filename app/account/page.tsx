@@ -0,0 +1,53 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { canManageCatalog, isAdmin } from '../../lib/auth/service'
+import { getCurrentUser } from '../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'My Account', robots: { index: false } }
+
+/**
+ * Account page (app/account/page.tsx) - signed-in users only.
+ */
+export default async function AccountPage() {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/account')
+
+  return (
+    <section className="max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900">My Account</h1>
+      <dl className="mt-6 space-y-3 text-sm">
+        <div className="flex">
+          <dt className="w-24 text-gray-500">Name</dt>
+          <dd className="text-gray-900">{user.name}</dd>
+        </div>
+        <div className="flex">
+          <dt className="w-24 text-gray-500">Email</dt>
+          <dd className="text-gray-900">{user.email}</dd>
+        </div>
+      </dl>
+      <div className="mt-6 flex items-center space-x-6 text-sm">
+        <Link href="/orders" className="text-indigo-600 hover:underline">
+          Order history
+        </Link>
+        <Link href="/account/wishlist" className="text-indigo-600 hover:underline">
+          Wishlist
+        </Link>
+        <Link href="/forgot-password" className="text-indigo-600 hover:underline">
+          Change password
+        </Link>
+        {canManageCatalog(user) && (
+          <Link href="/admin" className="text-indigo-600 hover:underline">
+            Catalog dashboard
+          </Link>
+        )}
+        {isAdmin(user) && (
+          <Link href="/admin/reviews" className="text-indigo-600 hover:underline">
+            Moderate reviews
+          </Link>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,13 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import WishlistManager from '../../../components/WishlistManager'
+
+export const metadata: Metadata = { title: 'Wishlist', robots: { index: false } }
+
+/**
+ * Wishlist page (app/account/wishlist/page.tsx). Works for guests too: their
+ * list is kept in this browser until they sign in.
+ */
+export default function WishlistPage() {
+  return <WishlistManager />
+}
@@ -0,0 +1,87 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import AuditLogTable from '../../../components/AuditLogTable'
+import { listAuditLog, parseAuditQuery } from '../../../lib/admin/audit'
+import { canManageCatalog } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'Audit log', robots: { index: false } }
+
+const FILTERS = [
+  { type: undefined, label: 'All' },
+  { type: 'product', label: 'Products' },
+  { type: 'category', label: 'Categories' },
+  { type: 'catalog', label: 'Featured order' },
+] as const
+
+/**
+ * Catalog audit log (app/admin/audit/page.tsx) - merchandisers and admins
+ * only. `?type=` and `?id=` narrow it to one kind of record or one record.
+ */
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: { type?: string; id?: string; page?: string }
+}) {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/audit')
+  if (!canManageCatalog(user)) notFound()
+
+  const query = parseAuditQuery(new URLSearchParams(searchParams as Record<string, string>))
+  const result = await listAuditLog(query)
+  const filterHref = (type?: string) => (type ? `/admin/audit?type=${type}` : '/admin/audit')
+  const pageHref = (n: number) => {
+    const params = new URLSearchParams(searchParams as Record<string, string>)
+    params.set('page', String(n))
+    return `/admin/audit?${params}`
+  }
+
+  return (
+    <section className="max-w-5xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900">Audit log</h1>
+      <nav aria-label="Record type" className="mt-4 flex gap-4 border-b text-sm">
+        {FILTERS.map(({ type, label }) => {
+          const current = type === query.type && !query.targetId
+          return (
+            <Link
+              key={label}
+              href={filterHref(type)}
+              aria-current={current ? 'page' : undefined}
+              className={`-mb-px border-b-2 pb-2 ${
+                current ? 'border-indigo-600 text-indigo-700 font-medium' : 'border-transparent text-gray-600'
+              }`}
+            >
+              {label}
+            </Link>
+          )
+        })}
+      </nav>
+
+      <AuditLogTable entries={result.items} />
+
+      {result.totalPages > 1 && (
+        <nav aria-label="Pagination" className="mt-6 flex items-center justify-between text-sm">
+          {result.page > 1 ? (
+            <Link href={pageHref(result.page - 1)} className="text-indigo-600 hover:underline">
+              ← Newer
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-gray-500">
+            Page {result.page} of {result.totalPages}
+          </span>
+          {result.page < result.totalPages ? (
+            <Link href={pageHref(result.page + 1)} className="text-indigo-600 hover:underline">
+              Older →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+    </section>
+  )
+}
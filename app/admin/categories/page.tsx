@@ -0,0 +1,28 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { notFound, redirect } from 'next/navigation'
+import CategoryManager from '../../../components/CategoryManager'
+import { listCategoriesForAdmin } from '../../../lib/admin/categories'
+import { canManageCatalog } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'Categories', robots: { index: false } }
+
+/**
+ * Category manager (app/admin/categories/page.tsx) - merchandisers and
+ * admins only.
+ */
+export default async function AdminCategoriesPage() {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/categories')
+  if (!canManageCatalog(user)) notFound()
+
+  const categories = await listCategoriesForAdmin()
+
+  return (
+    <section className="max-w-5xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+      <CategoryManager categories={categories} />
+    </section>
+  )
+}
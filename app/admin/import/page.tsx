@@ -0,0 +1,46 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { notFound, redirect } from 'next/navigation'
+import CatalogImportForm from '../../../components/CatalogImportForm'
+import { canManageCatalog } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'Import and export', robots: { index: false } }
+
+/**
+ * Catalog import and export (app/admin/import/page.tsx) - merchandisers and
+ * admins only. The same files work with `npx tsx scripts/catalog.ts`.
+ */
+export default async function CatalogImportPage() {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/import')
+  if (!canManageCatalog(user)) notFound()
+
+  return (
+    <section className="max-w-5xl mx-auto bg-white rounded-lg shadow-sm p-6 space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Import and export</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Rows are matched to products by SKU, then by id; anything else is added as a draft. Importing the same file
+          again changes nothing.
+        </p>
+      </div>
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Export</h2>
+        <p className="mt-1 text-sm text-gray-600">Every product, with a row for each variant after its product.</p>
+        <div className="mt-3 flex gap-2">
+          <a href="/api/admin/catalog/export?format=csv" className="btn btn-ghost">
+            Download CSV
+          </a>
+          <a href="/api/admin/catalog/export?format=json" className="btn btn-ghost">
+            Download JSON
+          </a>
+        </div>
+      </div>
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Import</h2>
+        <CatalogImportForm />
+      </div>
+    </section>
+  )
+}
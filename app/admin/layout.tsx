@@ -0,0 +1,53 @@
+import React from 'react'
+import Link from 'next/link'
+import { canManageCatalog, isAdmin } from '../../lib/auth/service'
+import { getCurrentUser } from '../../lib/auth/session'
+import { getPathname } from '../../lib/i18n/session'
+
+const SECTIONS = [
+  { href: '/admin', label: 'Overview' },
+  { href: '/admin/products', label: 'Products' },
+  { href: '/admin/categories', label: 'Categories' },
+  { href: '/admin/import', label: 'Import / export' },
+  { href: '/admin/audit', label: 'Audit log' },
+]
+
+/** Sections only admins can open. */
+const ADMIN_SECTIONS = [
+  { href: '/admin/orders', label: 'Orders' },
+  { href: '/admin/reviews', label: 'Reviews' },
+]
+
+/**
+ * Admin area layout (app/admin/layout.tsx) - adds the section nav for
+ * merchandisers and admins. Each page still checks access itself.
+ */
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const user = await getCurrentUser()
+  if (!canManageCatalog(user)) return <>{children}</>
+
+  const pathname = getPathname()
+  const sections = isAdmin(user) ? [...SECTIONS, ...ADMIN_SECTIONS] : SECTIONS
+  const isCurrent = (href: string) =>
+    href === '/admin' ? pathname === href : pathname === href || pathname.startsWith(`${href}/`)
+
+  return (
+    <>
+      <nav aria-label="Admin" className="max-w-5xl mx-auto mb-4 flex flex-wrap gap-2 text-sm print:hidden">
+        {sections.map(({ href, label }) => (
+          <Link
+            key={href}
+            href={href}
+            aria-current={isCurrent(href) ? 'page' : undefined}
+            className={`rounded-full px-3 py-1 ${
+              isCurrent(href) ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {label}
+          </Link>
+        ))}
+      </nav>
+      {children}
+    </>
+  )
+}
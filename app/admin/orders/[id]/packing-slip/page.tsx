@@ -0,0 +1,131 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import PrintButton from '../../../../../components/PrintButton'
+import { isAdmin } from '../../../../../lib/auth/service'
+import { getCurrentUser } from '../../../../../lib/auth/session'
+import { lineKey, unshippedItems } from '../../../../../lib/orders/fulfillment'
+import { getOrder } from '../../../../../lib/orders/store'
+import type { OrderItemQuantity } from '../../../../../lib/orders/types'
+import { SITE_NAME } from '../../../../../lib/site'
+
+export const metadata: Metadata = { title: 'Packing slip', robots: { index: false } }
+
+/**
+ * Printable packing slip (app/admin/orders/[id]/packing-slip/page.tsx) -
+ * admins only. Lists the items still to ship (every item once the order has
+ * shipped), or one shipment's items with `?shipment=`. Prices are left off
+ * on purpose; the slip goes in the box.
+ */
+export default async function PackingSlipPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string }
+  searchParams: { shipment?: string }
+}) {
+  const user = await getCurrentUser()
+  if (!user) redirect(`/signin?next=${encodeURIComponent(`/admin/orders/${params.id}/packing-slip`)}`)
+  if (!isAdmin(user)) notFound()
+
+  const order = await getOrder(params.id)
+  if (!order) notFound()
+
+  const shipment = searchParams.shipment
+    ? order.shipments?.find((s) => s.id === searchParams.shipment)
+    : undefined
+  if (searchParams.shipment && !shipment) notFound()
+
+  const remaining = unshippedItems(order)
+  const items: OrderItemQuantity[] = shipment
+    ? shipment.items
+    : remaining.length > 0
+      ? remaining.map(({ productId, variantId, remaining: quantity }) => ({ productId, variantId, quantity }))
+      : order.lines
+  const address = order.shippingAddress
+
+  return (
+    <section className="max-w-3xl mx-auto bg-white rounded-lg shadow-sm p-8 print:shadow-none print:p-0">
+      <div className="mb-6 flex items-center justify-between print:hidden">
+        <Link href={`/admin/orders/${order.id}`} className="text-sm text-indigo-600 hover:underline">
+          ← Order #{order.number}
+        </Link>
+        <PrintButton label="Print packing slip" />
+      </div>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="text-xl font-bold text-gray-900">{SITE_NAME}</div>
+          <h1 className="mt-1 text-lg font-semibold text-gray-900">Packing slip</h1>
+        </div>
+        <dl className="text-right text-sm text-gray-700">
+          <div>
+            <dt className="inline text-gray-500">Order </dt>
+            <dd className="inline font-medium">#{order.number}</dd>
+          </div>
+          <div>
+            <dt className="inline text-gray-500">Placed </dt>
+            <dd className="inline">{new Date(order.createdAt).toLocaleDateString()}</dd>
+          </div>
+          {shipment && (
+            <div>
+              <dt className="inline text-gray-500">Tracking </dt>
+              <dd className="inline">
+                {shipment.carrier} {shipment.trackingNumber}
+              </dd>
+            </div>
+          )}
+        </dl>
+      </div>
+
+      <div className="mt-8">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Ship to</h2>
+        <address className="mt-1 not-italic text-sm text-gray-900">
+          <div>{address.name}</div>
+          <div>{address.line1}</div>
+          {address.line2 && <div>{address.line2}</div>}
+          <div>
+            {address.city}, {address.region} {address.postalCode}
+          </div>
+          <div>{address.country}</div>
+          {address.phone && <div>{address.phone}</div>}
+        </address>
+      </div>
+
+      <table className="mt-8 min-w-full text-sm">
+        <thead>
+          <tr className="border-b-2 border-gray-900 text-left text-xs uppercase tracking-wide text-gray-700">
+            <th className="py-2 pr-3 font-medium">Item</th>
+            <th className="py-2 pr-3 font-medium">SKU</th>
+            <th className="py-2 pr-3 font-medium text-right">Qty</th>
+            <th className="py-2 font-medium text-center">Packed</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {items.map((item) => {
+            const line = order.lines.find((l) => lineKey(l) === lineKey(item))
+            return (
+              <tr key={lineKey(item)}>
+                <td className="py-2 pr-3 text-gray-900">
+                  {line?.title ?? item.productId}
+                  {line?.variantTitle && <span className="block text-xs text-gray-600">{line.variantTitle}</span>}
+                </td>
+                <td className="py-2 pr-3 text-gray-700">{line?.sku ?? item.productId}</td>
+                <td className="py-2 pr-3 text-right font-medium">{item.quantity}</td>
+                <td className="py-2 text-center">
+                  <span aria-hidden className="inline-block h-4 w-4 border border-gray-400" />
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      <p className="mt-10 text-sm text-gray-600">
+        Thanks for shopping with {SITE_NAME}! If anything is missing or damaged, contact us and quote order #
+        {order.number}.
+      </p>
+    </section>
+  )
+}
@@ -0,0 +1,181 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import OrderFulfillmentPanel from '../../../../components/OrderFulfillmentPanel'
+import OrderStatusBadge from '../../../../components/OrderStatusBadge'
+import { isAdmin } from '../../../../lib/auth/service'
+import { getCurrentUser } from '../../../../lib/auth/session'
+import { formatMoney } from '../../../../lib/money'
+import { lineKey, refundedTotal, shippedQuantities, trackingUrl } from '../../../../lib/orders/fulfillment'
+import { ORDER_STATUS_LABELS } from '../../../../lib/orders/status'
+import { getOrder } from '../../../../lib/orders/store'
+
+export const metadata: Metadata = { title: 'Order', robots: { index: false } }
+
+/**
+ * Admin order page (app/admin/orders/[id]/page.tsx) - admins only. The
+ * order with its shipments, refunds and full history, plus the fulfillment
+ * actions.
+ */
+export default async function AdminOrderPage({ params }: { params: { id: string } }) {
+  const user = await getCurrentUser()
+  if (!user) redirect(`/signin?next=${encodeURIComponent(`/admin/orders/${params.id}`)}`)
+  if (!isAdmin(user)) notFound()
+
+  const order = await getOrder(params.id)
+  if (!order) notFound()
+
+  const address = order.shippingAddress
+  const shipped = shippedQuantities(order)
+  const refunded = refundedTotal(order)
+
+  return (
+    <section className="max-w-5xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <Link href="/admin/orders" className="text-sm text-indigo-600 hover:underline">
+          ← Orders
+        </Link>
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Order #{order.number}</h1>
+            <p className="text-sm text-gray-500">
+              Placed {new Date(order.createdAt).toLocaleString()} · {order.email}
+              {!order.userId && ' (guest)'}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <OrderStatusBadge status={order.status} />
+            <Link href={`/admin/orders/${order.id}/packing-slip`} className="btn btn-ghost">
+              Packing slip
+            </Link>
+          </div>
+        </div>
+
+        <div className="mt-6 grid gap-6 sm:grid-cols-2">
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900">Ship to</h2>
+            <address className="mt-1 not-italic text-sm text-gray-700">
+              <div>{address.name}</div>
+              <div>{address.line1}</div>
+              {address.line2 && <div>{address.line2}</div>}
+              <div>
+                {address.city}, {address.region} {address.postalCode}
+              </div>
+              <div>{address.country}</div>
+              {address.phone && <div>{address.phone}</div>}
+            </address>
+          </div>
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900">Payment</h2>
+            <dl className="mt-1 text-sm text-gray-700 space-y-1">
+              <div>
+                {formatMoney(order.total)} via {order.payment.provider}
+                <span className="block text-xs text-gray-500">{order.payment.id}</span>
+              </div>
+              {order.shippingMethod && <div>Shipping: {order.shippingMethod.label}</div>}
+              {refunded.amount > 0 && <div className="text-yellow-800">Refunded {formatMoney(refunded)}</div>}
+            </dl>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900">Items</h2>
+        <table className="mt-3 min-w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-2 pr-3 font-medium">Item</th>
+              <th className="py-2 pr-3 font-medium text-right">Ordered</th>
+              <th className="py-2 pr-3 font-medium text-right">Shipped</th>
+              <th className="py-2 font-medium text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {order.lines.map((line) => (
+              <tr key={lineKey(line)}>
+                <td className="py-2 pr-3 text-gray-900">
+                  {line.title}
+                  {line.variantTitle && <span className="text-gray-500"> ({line.variantTitle})</span>}
+                  {line.sku && <span className="block text-xs text-gray-400">SKU {line.sku}</span>}
+                </td>
+                <td className="py-2 pr-3 text-right">{line.quantity}</td>
+                <td className="py-2 pr-3 text-right">{shipped[lineKey(line)] ?? 0}</td>
+                <td className="py-2 text-right">{formatMoney(line.lineTotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Fulfillment</h2>
+        {/* Keyed so the forms start over from the updated order after each action */}
+        <OrderFulfillmentPanel key={order.history.length} order={order} />
+      </div>
+
+      {(order.shipments?.length ?? 0) > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900">Shipments</h2>
+          <ul className="mt-3 divide-y text-sm">
+            {order.shipments?.map((shipment) => {
+              const url = trackingUrl(shipment)
+              return (
+                <li key={shipment.id} className="py-3">
+                  <div className="font-medium text-gray-900">
+                    {shipment.carrier}{' '}
+                    {url ? (
+                      <a href={url} target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">
+                        {shipment.trackingNumber}
+                      </a>
+                    ) : (
+                      shipment.trackingNumber
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(shipment.shippedAt).toLocaleString()} ·{' '}
+                    <Link
+                      href={`/admin/orders/${order.id}/packing-slip?shipment=${shipment.id}`}
+                      className="text-indigo-600 hover:underline"
+                    >
+                      Packing slip
+                    </Link>
+                  </div>
+                  <ul className="mt-1 text-gray-700">
+                    {shipment.items.map((item) => {
+                      const line = order.lines.find((l) => lineKey(l) === lineKey(item))
+                      return (
+                        <li key={lineKey(item)}>
+                          {item.quantity} × {line?.title ?? item.productId}
+                          {line?.variantTitle && ` (${line.variantTitle})`}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900">History</h2>
+        <ol className="mt-3 divide-y text-sm">
+          {[...order.history].reverse().map((event, i) => (
+            <li key={`${event.at}-${i}`} className="flex flex-wrap justify-between gap-2 py-2">
+              <div>
+                <span className="font-medium text-gray-900">{ORDER_STATUS_LABELS[event.status]}</span>
+                {event.note && <span className="text-gray-600"> - {event.note}</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {new Date(event.at).toLocaleString()}
+                {event.by && ` · ${event.by.name}`}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,155 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import OrderStatusBadge from '../../../components/OrderStatusBadge'
+import { listOrdersForAdmin, parseOrderQuery } from '../../../lib/admin/orders'
+import { isAdmin } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { formatMoney } from '../../../lib/money'
+import { ORDER_STATUS_LABELS } from '../../../lib/orders/status'
+import type { OrderStatus } from '../../../lib/orders/types'
+
+export const metadata: Metadata = { title: 'Orders', robots: { index: false } }
+
+const TABS = [
+  { status: 'open', label: 'To ship' },
+  { status: undefined, label: 'All' },
+  ...(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[])
+    .filter((status) => status !== 'placed')
+    .map((status) => ({ status, label: ORDER_STATUS_LABELS[status] })),
+]
+
+/**
+ * Order queue (app/admin/orders/page.tsx) - admins only. `?status=` picks a
+ * status (`open` for everything still to ship, oldest first) and `?from=` /
+ * `?to=` limit the order dates.
+ */
+export default async function AdminOrdersPage({
+  searchParams,
+}: {
+  searchParams: { status?: string; from?: string; to?: string; page?: string }
+}) {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/orders')
+  if (!isAdmin(user)) notFound()
+
+  const query = parseOrderQuery(new URLSearchParams(searchParams as Record<string, string>))
+  const result = await listOrdersForAdmin(query)
+  const href = (changes: Record<string, string | undefined>) => {
+    const params = new URLSearchParams()
+    const merged = { status: query.status, from: query.from, to: query.to, ...changes }
+    for (const [key, value] of Object.entries(merged)) if (value) params.set(key, value)
+    const search = params.toString()
+    return search ? `/admin/orders?${search}` : '/admin/orders'
+  }
+
+  return (
+    <section className="max-w-5xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900">Orders</h1>
+      <nav aria-label="Order status" className="mt-4 flex flex-wrap gap-x-4 border-b text-sm">
+        {TABS.map((tab) => {
+          const current = tab.status === query.status
+          return (
+            <Link
+              key={tab.label}
+              href={href({ status: tab.status, page: undefined })}
+              aria-current={current ? 'page' : undefined}
+              className={`-mb-px border-b-2 pb-2 ${
+                current ? 'border-indigo-600 text-indigo-700 font-medium' : 'border-transparent text-gray-600'
+              }`}
+            >
+              {tab.label}
+            </Link>
+          )
+        })}
+      </nav>
+
+      <form method="get" action="/admin/orders" className="mt-4 flex flex-wrap items-end gap-3 text-sm">
+        {query.status && <input type="hidden" name="status" value={query.status} />}
+        <div>
+          <label htmlFor="orders-from" className="block font-medium text-gray-700">
+            From
+          </label>
+          <input id="orders-from" type="date" name="from" defaultValue={query.from} className="input mt-1" />
+        </div>
+        <div>
+          <label htmlFor="orders-to" className="block font-medium text-gray-700">
+            To
+          </label>
+          <input id="orders-to" type="date" name="to" defaultValue={query.to} className="input mt-1" />
+        </div>
+        <button type="submit" className="btn btn-ghost">
+          Filter
+        </button>
+        {(query.from || query.to) && (
+          <Link href={href({ from: undefined, to: undefined })} className="pb-2 text-indigo-600 hover:underline">
+            Clear dates
+          </Link>
+        )}
+      </form>
+
+      {result.total === 0 ? (
+        <p className="mt-6 text-sm text-gray-600">No orders match these filters.</p>
+      ) : (
+        <table className="mt-4 min-w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-2 pr-3 font-medium">Order</th>
+              <th className="py-2 pr-3 font-medium">Placed</th>
+              <th className="py-2 pr-3 font-medium">Customer</th>
+              <th className="py-2 pr-3 font-medium text-right">Items</th>
+              <th className="py-2 pr-3 font-medium text-right">Total</th>
+              <th className="py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {result.items.map((order) => (
+              <tr key={order.id}>
+                <td className="py-2 pr-3">
+                  <Link href={`/admin/orders/${order.id}`} className="font-medium text-indigo-600 hover:underline">
+                    #{order.number}
+                  </Link>
+                </td>
+                <td className="py-2 pr-3 text-gray-600">{new Date(order.createdAt).toLocaleString()}</td>
+                <td className="py-2 pr-3 text-gray-700">
+                  {order.shippingAddress.name}
+                  <span className="block text-xs text-gray-500">{order.email}</span>
+                </td>
+                <td className="py-2 pr-3 text-right text-gray-700">
+                  {order.lines.reduce((sum, line) => sum + line.quantity, 0)}
+                </td>
+                <td className="py-2 pr-3 text-right text-gray-900">{formatMoney(order.total)}</td>
+                <td className="py-2">
+                  <OrderStatusBadge status={order.status} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {result.totalPages > 1 && (
+        <nav aria-label="Pagination" className="mt-6 flex items-center justify-between text-sm">
+          {result.page > 1 ? (
+            <Link href={href({ page: String(result.page - 1) })} className="text-indigo-600 hover:underline">
+              ← Previous
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-gray-500">
+            Page {result.page} of {result.totalPages}
+          </span>
+          {result.page < result.totalPages ? (
+            <Link href={href({ page: String(result.page + 1) })} className="text-indigo-600 hover:underline">
+              Next →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+    </section>
+  )
+}
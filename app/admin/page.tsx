@@ -0,0 +1,65 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import AuditLogTable from '../../components/AuditLogTable'
+import { listAuditLog } from '../../lib/admin/audit'
+import { listCategoriesForAdmin } from '../../lib/admin/categories'
+import { countProductsByStatus } from '../../lib/admin/products'
+import { canManageCatalog } from '../../lib/auth/service'
+import { getCurrentUser } from '../../lib/auth/session'
+import { PRODUCT_STATUSES } from '../../lib/products/types'
+
+export const metadata: Metadata = { title: 'Catalog dashboard', robots: { index: false } }
+
+const STATUS_LABELS = { draft: 'Drafts', published: 'Published', archived: 'Archived' }
+
+const RECENT_CHANGES = 10
+
+/**
+ * Catalog dashboard (app/admin/page.tsx) - merchandisers and admins only;
+ * other signed-in users get a 404. Product counts and the latest changes.
+ */
+export default async function AdminDashboardPage() {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin')
+  if (!canManageCatalog(user)) notFound()
+
+  const [counts, categories, recent] = await Promise.all([
+    countProductsByStatus(),
+    listCategoriesForAdmin(),
+    listAuditLog({ pageSize: RECENT_CHANGES }),
+  ])
+
+  return (
+    <section className="max-w-5xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900">Catalog dashboard</h1>
+      <ul className="mt-6 grid gap-4 sm:grid-cols-4">
+        {PRODUCT_STATUSES.map((status) => (
+          <li key={status}>
+            <Link href={`/admin/products?status=${status}`} className="block rounded-lg border p-4 hover:bg-gray-50">
+              <span className="block text-2xl font-semibold text-gray-900">{counts[status]}</span>
+              <span className="text-sm text-gray-600">{STATUS_LABELS[status]}</span>
+            </Link>
+          </li>
+        ))}
+        <li>
+          <Link href="/admin/categories" className="block rounded-lg border p-4 hover:bg-gray-50">
+            <span className="block text-2xl font-semibold text-gray-900">{categories.length}</span>
+            <span className="text-sm text-gray-600">Categories</span>
+          </Link>
+        </li>
+      </ul>
+
+      <div className="mt-8 flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Recent changes</h2>
+        {recent.total > RECENT_CHANGES && (
+          <Link href="/admin/audit" className="text-sm text-indigo-600 hover:underline">
+            Full audit log →
+          </Link>
+        )}
+      </div>
+      <AuditLogTable entries={recent.items} />
+    </section>
+  )
+}
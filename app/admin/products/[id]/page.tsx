@@ -0,0 +1,60 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import AuditLogTable from '../../../../components/AuditLogTable'
+import ProductEditor from '../../../../components/ProductEditor'
+import { listAuditLog } from '../../../../lib/admin/audit'
+import { listCategoriesForAdmin } from '../../../../lib/admin/categories'
+import { getProductForAdmin } from '../../../../lib/admin/products'
+import { canManageCatalog } from '../../../../lib/auth/service'
+import { getCurrentUser } from '../../../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'Edit product', robots: { index: false } }
+
+const HISTORY_SIZE = 20
+
+/**
+ * Product editor (app/admin/products/[id]/page.tsx) - merchandisers and
+ * admins only, for products in any status. Shows the product's change
+ * history below the form.
+ */
+export default async function EditProductPage({ params }: { params: { id: string } }) {
+  const user = await getCurrentUser()
+  if (!user) redirect(`/signin?next=${encodeURIComponent(`/admin/products/${params.id}`)}`)
+  if (!canManageCatalog(user)) notFound()
+
+  const [product, categories, history] = await Promise.all([
+    getProductForAdmin(params.id),
+    listCategoriesForAdmin(),
+    listAuditLog({ type: 'product', targetId: params.id, pageSize: HISTORY_SIZE }),
+  ])
+  if (!product) notFound()
+
+  return (
+    <section className="max-w-3xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <Link href="/admin/products" className="text-sm text-indigo-600 hover:underline">
+        ← Products
+      </Link>
+      <h1 className="mt-2 text-2xl font-bold text-gray-900">{product.title}</h1>
+      <p className="mt-1 text-xs text-gray-500">
+        {product.id}
+        {product.updatedAt && ` · last edited ${new Date(product.updatedAt).toLocaleString()}`}
+      </p>
+      <ProductEditor product={product} categories={categories.map((c) => c.name)} />
+
+      <div className="mt-10 flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">History</h2>
+        {history.total > HISTORY_SIZE && (
+          <Link
+            href={`/admin/audit?type=product&id=${encodeURIComponent(product.id)}`}
+            className="text-sm text-indigo-600 hover:underline"
+          >
+            All {history.total} changes →
+          </Link>
+        )}
+      </div>
+      <AuditLogTable entries={history.items} />
+    </section>
+  )
+}
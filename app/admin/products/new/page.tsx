@@ -0,0 +1,32 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import ProductEditor from '../../../../components/ProductEditor'
+import { listCategoriesForAdmin } from '../../../../lib/admin/categories'
+import { canManageCatalog } from '../../../../lib/auth/service'
+import { getCurrentUser } from '../../../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'New product', robots: { index: false } }
+
+/**
+ * New product form (app/admin/products/new/page.tsx) - merchandisers and
+ * admins only. Saving opens the product's edit page.
+ */
+export default async function NewProductPage() {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/products/new')
+  if (!canManageCatalog(user)) notFound()
+
+  const categories = await listCategoriesForAdmin()
+
+  return (
+    <section className="max-w-3xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <Link href="/admin/products" className="text-sm text-indigo-600 hover:underline">
+        ← Products
+      </Link>
+      <h1 className="mt-2 text-2xl font-bold text-gray-900">New product</h1>
+      <ProductEditor categories={categories.map((c) => c.name)} />
+    </section>
+  )
+}
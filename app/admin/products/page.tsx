@@ -0,0 +1,68 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import ProductAdminTable from '../../../components/ProductAdminTable'
+import { listCategoriesForAdmin } from '../../../lib/admin/categories'
+import { listProductsForAdmin, parseProductStatus } from '../../../lib/admin/products'
+import { canManageCatalog } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { PRODUCT_STATUSES } from '../../../lib/products/types'
+
+export const metadata: Metadata = { title: 'Products', robots: { index: false } }
+
+const TABS = [
+  { status: null, label: 'All' },
+  ...PRODUCT_STATUSES.map((status) => ({ status, label: status[0].toUpperCase() + status.slice(1) })),
+]
+
+/**
+ * Product list (app/admin/products/page.tsx) - merchandisers and admins only.
+ * `?status=` filters by status; the unfiltered list is in featured order and
+ * can be reordered.
+ */
+export default async function AdminProductsPage({ searchParams }: { searchParams: { status?: string } }) {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/products')
+  if (!canManageCatalog(user)) notFound()
+
+  const status = parseProductStatus(searchParams.status) ?? undefined
+  const [products, categories] = await Promise.all([listProductsForAdmin(status), listCategoriesForAdmin()])
+
+  return (
+    <section className="max-w-5xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Products</h1>
+        <Link href="/admin/products/new" className="btn btn-primary">
+          New product
+        </Link>
+      </div>
+      <nav aria-label="Product status" className="mt-4 flex gap-4 border-b text-sm">
+        {TABS.map((tab) => {
+          const current = (tab.status ?? undefined) === status
+          return (
+            <Link
+              key={tab.label}
+              href={tab.status ? `/admin/products?status=${tab.status}` : '/admin/products'}
+              aria-current={current ? 'page' : undefined}
+              className={`-mb-px border-b-2 pb-2 ${
+                current ? 'border-indigo-600 text-indigo-700 font-medium' : 'border-transparent text-gray-600'
+              }`}
+            >
+              {tab.label}
+            </Link>
+          )
+        })}
+      </nav>
+
+      {/* Keyed so switching tabs resets selection and any unsaved reordering */}
+      <ProductAdminTable
+        key={status ?? 'all'}
+        initialProducts={products}
+        categories={categories.map((c) => c.name)}
+        status={status}
+        reorderable={!status}
+      />
+    </section>
+  )
+}
@@ -0,0 +1,77 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import ReviewModerationQueue from '../../../components/ReviewModerationQueue'
+import { isAdmin } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { listReviewsForModeration, parseReviewStatus } from '../../../lib/reviews/service'
+import { REVIEW_STATUSES } from '../../../lib/reviews/types'
+
+export const metadata: Metadata = { title: 'Moderate reviews', robots: { index: false } }
+
+const STATUS_LABELS = { pending: 'Pending', approved: 'Approved', rejected: 'Rejected' }
+
+/**
+ * Review moderation queue (app/admin/reviews/page.tsx) - admins only; other
+ * signed-in users get a 404. `?status=` switches between the queues.
+ */
+export default async function ReviewModerationPage({
+  searchParams,
+}: {
+  searchParams: { status?: string; page?: string }
+}) {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/admin/reviews')
+  if (!isAdmin(user)) notFound()
+
+  const status = parseReviewStatus(searchParams.status) ?? 'pending'
+  const page = Math.max(1, Number.parseInt(searchParams.page ?? '1', 10) || 1)
+  const result = await listReviewsForModeration(status, { page })
+  const pageHref = (n: number) => `/admin/reviews?status=${status}&page=${n}`
+
+  return (
+    <section className="max-w-4xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900">Moderate reviews</h1>
+      <nav aria-label="Review status" className="mt-4 flex gap-4 border-b text-sm">
+        {REVIEW_STATUSES.map((s) => (
+          <Link
+            key={s}
+            href={`/admin/reviews?status=${s}`}
+            aria-current={s === status ? 'page' : undefined}
+            className={`-mb-px border-b-2 pb-2 ${
+              s === status ? 'border-indigo-600 text-indigo-700 font-medium' : 'border-transparent text-gray-600'
+            }`}
+          >
+            {STATUS_LABELS[s]}
+          </Link>
+        ))}
+      </nav>
+
+      {/* Keyed so switching queues or pages resets the client-side list */}
+      <ReviewModerationQueue key={`${status}:${page}`} initialReviews={result.items} />
+
+      {result.totalPages > 1 && (
+        <nav aria-label="Pagination" className="mt-6 flex items-center justify-between text-sm">
+          {page > 1 ? (
+            <Link href={pageHref(page - 1)} className="text-indigo-600 hover:underline">
+              ← Previous
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-gray-500">
+            Page {result.page} of {result.totalPages}
+          </span>
+          {page < result.totalPages ? (
+            <Link href={pageHref(page + 1)} className="text-indigo-600 hover:underline">
+              Next →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+    </section>
+  )
+}
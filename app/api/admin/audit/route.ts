@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireCatalogManager } from '../../../../lib/admin/access'
+import { listAuditLog, parseAuditQuery } from '../../../../lib/admin/audit'
+import { errorResponse } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/audit - catalog changes, newest first (merchandisers and
+ * admins only).
+ *
+ * Query params: type (product | category | catalog), id (of the changed
+ * record), page and pageSize.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireCatalogManager()
+    return NextResponse.json(await listAuditLog(parseAuditQuery(req.nextUrl.searchParams)))
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/audit failed')
+  }
+}
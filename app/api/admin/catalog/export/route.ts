@@ -0,0 +1,28 @@
+import { type NextRequest } from 'next/server'
+import { requireCatalogManager } from '../../../../../lib/admin/access'
+import { exportCatalog } from '../../../../../lib/admin/export'
+import { errorResponse } from '../../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/catalog/export?format=csv|json - download every product and
+ * variant as a file the import accepts back (merchandisers and admins only).
+ * Defaults to CSV.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireCatalogManager()
+    const format = req.nextUrl.searchParams.get('format') === 'json' ? 'json' : 'csv'
+    const { filename, contentType, body } = await exportCatalog(format)
+    return new Response(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/catalog/export failed')
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireCatalogManager } from '../../../../../lib/admin/access'
+import { importCatalog } from '../../../../../lib/admin/import'
+import type { ImportRequest } from '../../../../../lib/admin/types'
+import { errorResponse, readJson } from '../../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/catalog/import - create and update products from a CSV or
+ * JSON file (merchandisers and admins only).
+ *
+ * Body: ImportRequest. Responds with an ImportReport; with `dryRun` (or when
+ * any row has an error) nothing is saved and the report shows what would be.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await requireCatalogManager()
+    return NextResponse.json(await importCatalog(user, await readJson<ImportRequest>(req)))
+  } catch (err) {
+    return errorResponse(err, 'POST /api/admin/catalog/import failed')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { requireCatalogManager } from '../../../../../lib/admin/access'
+import { deleteCategory, updateCategory } from '../../../../../lib/admin/categories'
+import type { CategoryInput } from '../../../../../lib/admin/types'
+import { errorResponse, readJson } from '../../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PATCH  /api/admin/categories/:id - edit a category; renaming it moves its products along
+ * DELETE /api/admin/categories/:id - delete an empty category (409 otherwise)
+ *
+ * Merchandisers and admins only.
+ */
+
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireCatalogManager()
+    return NextResponse.json(await updateCategory(user, params.id, await readJson<CategoryInput>(req)))
+  } catch (err) {
+    return errorResponse(err, 'PATCH /api/admin/categories/:id failed')
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireCatalogManager()
+    await deleteCategory(user, params.id)
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/admin/categories/:id failed')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { requireCatalogManager } from '../../../../lib/admin/access'
+import { createCategory, listCategoriesForAdmin } from '../../../../lib/admin/categories'
+import type { CategoryInput } from '../../../../lib/admin/types'
+import { errorResponse, readJson } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET  /api/admin/categories - categories in tree order with product counts
+ * POST /api/admin/categories - create a category (CategoryInput)
+ *
+ * Merchandisers and admins only.
+ */
+
+export async function GET() {
+  try {
+    await requireCatalogManager()
+    return NextResponse.json({ items: await listCategoriesForAdmin() })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/categories failed')
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await requireCatalogManager()
+    const category = await createCategory(user, await readJson<CategoryInput>(req))
+    return NextResponse.json(category, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/admin/categories failed')
+  }
+}
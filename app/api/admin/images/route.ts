@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireCatalogManager } from '../../../../lib/admin/access'
+import { saveCatalogImage } from '../../../../lib/admin/images'
+import { errorResponse, readJson } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/images - upload a product or category image
+ * (merchandisers and admins only).
+ *
+ * Body: { image } as a JPEG, PNG or WebP data URL. Responds with the `url`
+ * to store on the product or category.
+ */
+export async function POST(req: Request) {
+  try {
+    await requireCatalogManager()
+    const { image } = await readJson<{ image?: unknown }>(req)
+    return NextResponse.json({ url: await saveCatalogImage(image) }, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/admin/images failed')
+  }
+}
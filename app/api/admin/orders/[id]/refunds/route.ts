@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { requireOrderManager } from '../../../../../../lib/admin/access'
+import { refundOrder } from '../../../../../../lib/admin/orders'
+import { errorResponse, readJson } from '../../../../../../lib/http'
+import type { RefundInput } from '../../../../../../lib/orders/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/orders/:id/refunds - refund part or all of an order
+ * through the payment provider (admins only).
+ *
+ * Body: RefundInput ({ amount, reason? }), the amount in the order's
+ * currency. Responds with the order.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireOrderManager()
+    const order = await refundOrder(user, params.id, await readJson<RefundInput>(req))
+    return NextResponse.json(order, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/admin/orders/:id/refunds failed')
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { requireOrderManager } from '../../../../../lib/admin/access'
+import { updateOrderStatus } from '../../../../../lib/admin/orders'
+import { HttpError, errorResponse, readJson } from '../../../../../lib/http'
+import { getOrder } from '../../../../../lib/orders/store'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET   /api/admin/orders/:id - one order, whoever placed it
+ * PATCH /api/admin/orders/:id - { status: 'picking' | 'packed' | 'delivered' | 'cancelled', note? }
+ *
+ * Admins only. Cancelling refunds the rest of the payment and restocks the
+ * items; the customer is emailed either way.
+ */
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireOrderManager()
+    const order = await getOrder(params.id)
+    if (!order) throw new HttpError(404, 'Order not found.')
+    return NextResponse.json(order)
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/orders/:id failed')
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireOrderManager()
+    const body = await readJson<{ status?: unknown; note?: unknown }>(req)
+    return NextResponse.json(await updateOrderStatus(user, params.id, body))
+  } catch (err) {
+    return errorResponse(err, 'PATCH /api/admin/orders/:id failed')
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { requireOrderManager } from '../../../../../../lib/admin/access'
+import { shipOrder } from '../../../../../../lib/admin/orders'
+import { errorResponse, readJson } from '../../../../../../lib/http'
+import type { ShipmentInput } from '../../../../../../lib/orders/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/orders/:id/shipments - ship some or all of an order
+ * (admins only).
+ *
+ * Body: ShipmentInput ({ carrier, trackingNumber, items? }); without
+ * `items` everything not shipped yet goes out. Responds with the order.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireOrderManager()
+    const order = await shipOrder(user, params.id, await readJson<ShipmentInput>(req))
+    return NextResponse.json(order, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/admin/orders/:id/shipments failed')
+  }
+}
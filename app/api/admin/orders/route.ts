@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireOrderManager } from '../../../../lib/admin/access'
+import { listOrdersForAdmin, parseOrderQuery } from '../../../../lib/admin/orders'
+import { errorResponse } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/orders - every customer's orders, newest first (admins
+ * only).
+ *
+ * Query params: status (an order status, or `open` for orders still to ship,
+ * oldest first), from and to (YYYY-MM-DD, inclusive), page and pageSize.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireOrderManager()
+    return NextResponse.json(await listOrdersForAdmin(parseOrderQuery(req.nextUrl.searchParams)))
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/orders failed')
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { requireCatalogManager } from '../../../../../lib/admin/access'
+import { getProductForAdmin, updateProduct } from '../../../../../lib/admin/products'
+import type { ProductInput } from '../../../../../lib/admin/types'
+import { HttpError, errorResponse, readJson } from '../../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET   /api/admin/products/:id - one product, whatever its status
+ * PATCH /api/admin/products/:id - edit fields (ProductInput); `status: 'archived'` archives it
+ *
+ * Merchandisers and admins only.
+ */
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireCatalogManager()
+    const product = await getProductForAdmin(params.id)
+    if (!product) throw new HttpError(404, 'Product not found.')
+    return NextResponse.json(product)
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/products/:id failed')
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireCatalogManager()
+    return NextResponse.json(await updateProduct(user, params.id, await readJson<ProductInput>(req)))
+  } catch (err) {
+    return errorResponse(err, 'PATCH /api/admin/products/:id failed')
+  }
+}
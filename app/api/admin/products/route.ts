@@ -0,0 +1,63 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { requireCatalogManager } from '../../../../lib/admin/access'
+import {
+  bulkUpdateProducts,
+  createProduct,
+  listProductsForAdmin,
+  parseProductStatus,
+  reorderProducts,
+} from '../../../../lib/admin/products'
+import type { BulkProductUpdate, ProductInput } from '../../../../lib/admin/types'
+import { errorResponse, readJson } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Product management for the /admin dashboard (merchandisers and admins).
+ * Unlike /api/products this sees drafts and archived products too.
+ *
+ * GET    ?status=draft|published|archived      every product in featured order
+ * POST   ProductInput                          create a product (a draft unless `status` is set)
+ * PATCH  { ids, changes: { status?, category?, taxClass? } }  bulk edit
+ * PUT    { ids }                               move these to the front of the featured order
+ */
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireCatalogManager()
+    const status = parseProductStatus(req.nextUrl.searchParams.get('status')) ?? undefined
+    return NextResponse.json({ items: await listProductsForAdmin(status) })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/admin/products failed')
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const user = await requireCatalogManager()
+    const product = await createProduct(user, await readJson<ProductInput>(req))
+    return NextResponse.json(product, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/admin/products failed')
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const user = await requireCatalogManager()
+    const items = await bulkUpdateProducts(user, await readJson<BulkProductUpdate>(req))
+    return NextResponse.json({ items })
+  } catch (err) {
+    return errorResponse(err, 'PATCH /api/admin/products failed')
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const user = await requireCatalogManager()
+    const ids = await reorderProducts(user, await readJson<{ ids?: unknown }>(req))
+    return NextResponse.json({ ids })
+  } catch (err) {
+    return errorResponse(err, 'PUT /api/admin/products failed')
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { resetPassword } from '../../../../../lib/auth/service'
+import { startSession } from '../../../../../lib/auth/session'
+import { adoptGuestCart } from '../../../../../lib/cart/session'
+import { errorResponse, readJson } from '../../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/auth/password-reset/confirm  Body: { token, password }.
+ * Every existing session is revoked; the caller gets a fresh one.
+ */
+export async function POST(req: Request) {
+  try {
+    const { token, password } = await readJson<{ token?: unknown; password?: unknown }>(req)
+    const user = await resetPassword(token, password)
+    await startSession(user.id)
+    await adoptGuestCart(user.id)
+    return NextResponse.json({ user })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/auth/password-reset/confirm failed')
+  }
+}
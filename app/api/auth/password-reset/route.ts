@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requestPasswordReset } from '../../../../lib/auth/service'
+import { errorResponse, readJson } from '../../../../lib/http'
+import { getMailer } from '../../../../lib/mail'
+import { SITE_NAME, absoluteUrl } from '../../../../lib/site'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/auth/password-reset  Body: { email }.
+ * Always responds the same way so callers can't probe for accounts.
+ */
+export async function POST(req: Request) {
+  try {
+    const { email } = await readJson<{ email?: unknown }>(req)
+    const reset = await requestPasswordReset(email)
+    if (reset) {
+      await getMailer().send({
+        to: reset.user.email,
+        subject: `Reset your ${SITE_NAME} password`,
+        text: [
+          `Hi ${reset.user.name},`,
+          '',
+          'Someone asked to reset the password for your account. To choose a new one, open:',
+          absoluteUrl(`/reset-password?token=${reset.token}`),
+          '',
+          "The link expires in an hour. If you didn't ask for this, you can ignore this email.",
+        ].join('\n'),
+      })
+    }
+    return NextResponse.json({
+      message: 'If an account exists for that email, a reset link is on its way.',
+    })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/auth/password-reset failed')
+  }
+}
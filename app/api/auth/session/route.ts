@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '../../../../lib/auth/session'
+import { errorResponse } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/** GET /api/auth/session  Responds with { user } (null when signed out). */
+export async function GET() {
+  try {
+    return NextResponse.json({ user: await getCurrentUser() })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/auth/session failed')
+  }
+}
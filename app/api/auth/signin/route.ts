@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { signIn } from '../../../../lib/auth/service'
+import { startSession } from '../../../../lib/auth/session'
+import { adoptGuestCart } from '../../../../lib/cart/session'
+import { errorResponse, readJson } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/auth/signin  Body: { email, password }.
+ * Sets the session cookie and merges the guest cart into the account cart.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await signIn(await readJson(req))
+    await startSession(user.id)
+    await adoptGuestCart(user.id)
+    return NextResponse.json({ user })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/auth/signin failed')
+  }
+}
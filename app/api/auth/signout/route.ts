@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { endSession } from '../../../../lib/auth/session'
+import { errorResponse } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/** POST /api/auth/signout */
+export async function POST() {
+  try {
+    await endSession()
+    return NextResponse.json({ ok: true })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/auth/signout failed')
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { signUp } from '../../../../lib/auth/service'
+import { startSession } from '../../../../lib/auth/session'
+import { adoptGuestCart } from '../../../../lib/cart/session'
+import { errorResponse, readJson } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/** POST /api/auth/signup  Body: { name, email, password }. Signs the new user in. */
+export async function POST(req: Request) {
+  try {
+    const user = await signUp(await readJson(req))
+    await startSession(user.id)
+    await adoptGuestCart(user.id)
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/auth/signup failed')
+  }
+}
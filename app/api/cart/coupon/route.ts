@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { applyCoupon, removeCoupon } from '../../../../lib/cart/service'
+import { resolveCartId } from '../../../../lib/cart/session'
+import { getCurrency } from '../../../../lib/currency/session'
+import { errorResponse, readJson } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Coupon code on the current cart. Both methods respond with the CartView.
+ *
+ * POST    { code } - 400 with the reason when the code doesn't apply
+ * DELETE  remove the coupon
+ */
+
+export async function POST(req: Request) {
+  try {
+    const { code } = await readJson<{ code?: unknown }>(req)
+    return NextResponse.json(await applyCoupon(await resolveCartId({ create: true }), code, getCurrency()))
+  } catch (err) {
+    return errorResponse(err, 'POST /api/cart/coupon failed')
+  }
+}
+
+export async function DELETE() {
+  try {
+    return NextResponse.json(await removeCoupon(await resolveCartId({ create: true }), getCurrency()))
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/cart/coupon failed')
+  }
+}
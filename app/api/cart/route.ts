@@ -0,0 +1,79 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  addManyToCart,
+  addToCart,
+  clearCart,
+  getCart,
+  hydrateCart,
+  removeCartLine,
+  updateCartLine,
+} from '../../../lib/cart/service'
+import { resolveCartId } from '../../../lib/cart/session'
+import type { CartLine } from '../../../lib/cart/types'
+import { getCurrency } from '../../../lib/currency/session'
+import { errorResponse, readJson } from '../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Cart API. Signed-in users get their account cart, guests a cart identified
+ * by the `cart_id` cookie. Every method responds with the hydrated CartView,
+ * priced in the shopper's currency (`currency` cookie).
+ *
+ * GET                                            current cart
+ * POST   { productId, variantId?, quantity? }    add to a line
+ * POST   { items: [{ productId, variantId?, quantity }] }  merge many lines (legacy migration, reorder)
+ * PATCH  { productId, variantId?, quantity }     set a line's quantity (0 removes)
+ * DELETE ?productId=...&variantId=...            remove a line; without productId, clear the cart
+ *
+ * `variantId` is required for products with variants.
+ */
+
+export async function GET() {
+  try {
+    const cartId = await resolveCartId()
+    const currency = getCurrency()
+    return NextResponse.json(cartId ? await getCart(cartId, currency) : await hydrateCart(null, { currency }))
+  } catch (err) {
+    return errorResponse(err, 'GET /api/cart failed')
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await readJson<Partial<CartLine> & { items?: CartLine[] }>(req)
+    const cartId = await resolveCartId({ create: true })
+    const cart = body.items
+      ? await addManyToCart(cartId, body.items, getCurrency())
+      : await addToCart(cartId, body, getCurrency())
+    return NextResponse.json(cart)
+  } catch (err) {
+    return errorResponse(err, 'POST /api/cart failed')
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const body = await readJson<Partial<CartLine>>(req)
+    const cartId = await resolveCartId({ create: true })
+    return NextResponse.json(await updateCartLine(cartId, body, body.quantity, getCurrency()))
+  } catch (err) {
+    return errorResponse(err, 'PATCH /api/cart failed')
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const cartId = await resolveCartId({ create: true })
+    const params = req.nextUrl.searchParams
+    const productId = params.get('productId')
+    const variantId = params.get('variantId') ?? undefined
+    return NextResponse.json(
+      productId
+        ? await removeCartLine(cartId, { productId, variantId }, getCurrency())
+        : await clearCart(cartId, getCurrency()),
+    )
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/cart failed')
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { resolveCartId } from '../../../../lib/cart/session'
+import { getCart } from '../../../../lib/cart/service'
+import { getCurrency } from '../../../../lib/currency/session'
+import { HttpError, errorResponse } from '../../../../lib/http'
+import { releaseReservation, reserveStock } from '../../../../lib/inventory/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Checkout stock hold for the current cart.
+ *
+ * POST    reserve everything in the cart -> { reservationId, expiresAt }
+ *         (409 with a message when something is no longer in stock)
+ * DELETE  release the hold, e.g. when the shopper leaves the payment step
+ *
+ * Holds also lapse on their own after RESERVATION_TTL_MS.
+ */
+export async function POST() {
+  try {
+    const cartId = await resolveCartId()
+    const cart = cartId ? await getCart(cartId, getCurrency()) : null
+    if (!cartId || !cart || cart.lines.length === 0) throw new HttpError(400, 'Your cart is empty.')
+    const reservation = await reserveStock(cartId, cart.lines)
+    return NextResponse.json({ reservationId: reservation.id, expiresAt: reservation.expiresAt })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/checkout/reservation failed')
+  }
+}
+
+export async function DELETE() {
+  try {
+    const cartId = await resolveCartId()
+    if (cartId) await releaseReservation(cartId)
+    return new NextResponse(null, { status: 204 })
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/checkout/reservation failed')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getCurrency, setCurrency } from '../../../lib/currency/session'
+import { HttpError, errorResponse, readJson } from '../../../lib/http'
+import { CURRENCY_CODES, isCurrencyCode } from '../../../lib/money'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * The shopper's display and checkout currency.
+ *
+ * GET   { currency, currencies }
+ * POST  { currency } - remember the choice in a cookie; 400 if unsupported
+ */
+
+export async function GET() {
+  return NextResponse.json({ currency: getCurrency(), currencies: CURRENCY_CODES })
+}
+
+export async function POST(req: Request) {
+  try {
+    const { currency } = await readJson<{ currency?: unknown }>(req)
+    if (!isCurrencyCode(currency)) {
+      throw new HttpError(400, `Currency must be one of ${CURRENCY_CODES.join(', ')}.`)
+    }
+    setCurrency(currency)
+    return NextResponse.json({ currency })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/currency failed')
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { readCatalogImage } from '../../../../lib/admin/images'
+import { HttpError, errorResponse } from '../../../../lib/http'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/images/:name - a product or category image uploaded in /admin.
+ * File names are random, so images can be cached indefinitely.
+ */
+export async function GET(_req: Request, { params }: { params: { name: string } }) {
+  try {
+    const image = await readCatalogImage(params.name)
+    if (!image) throw new HttpError(404, 'Image not found.')
+    return new NextResponse(new Uint8Array(image.bytes), {
+      headers: {
+        'Content-Type': image.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/images/:name failed')
+  }
+}
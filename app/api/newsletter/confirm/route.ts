@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { confirmSubscription } from '../../../../lib/newsletter/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/newsletter/confirm?token=...  Target of the confirmation email;
+ * redirects to /newsletter with the outcome.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const subscriber = await confirmSubscription(req.nextUrl.searchParams.get('token'))
+    const status = subscriber ? 'confirmed' : 'invalid'
+    return NextResponse.redirect(new URL(`/newsletter?status=${status}`, req.url), 303)
+  } catch (err) {
+    console.error('GET /api/newsletter/confirm failed', err)
+    return NextResponse.redirect(new URL('/newsletter?status=error', req.url), 303)
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { clientIp, errorResponse, readJson } from '../../../lib/http'
+import { subscribe } from '../../../lib/newsletter/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/newsletter  Body: { email }.
+ * Stores a pending subscriber and emails a confirmation link (double opt-in).
+ * 409 when already subscribed, 429 when rate limited.
+ */
+export async function POST(req: Request) {
+  try {
+    const { email } = await readJson<{ email?: unknown }>(req)
+    await subscribe(email, { ip: clientIp(req) })
+    return NextResponse.json(
+      { message: 'Almost there! Check your inbox to confirm your subscription.' },
+      { status: 202 },
+    )
+  } catch (err) {
+    return errorResponse(err, 'POST /api/newsletter failed')
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { errorResponse } from '../../../../lib/http'
+import { unsubscribe } from '../../../../lib/newsletter/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/newsletter/unsubscribe?token=...
+ *
+ * Two callers: mail clients doing an RFC 8058 one-click unsubscribe (form body
+ * `List-Unsubscribe=One-Click`, answered with JSON) and the button on
+ * /newsletter/unsubscribe (form field `token`, redirected to /newsletter).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData().catch(() => null)
+    const oneClick = form?.get('List-Unsubscribe') === 'One-Click'
+    const token = req.nextUrl.searchParams.get('token') ?? form?.get('token')
+    const subscriber = await unsubscribe(token)
+
+    if (oneClick) {
+      return subscriber
+        ? NextResponse.json({ message: 'You have been unsubscribed.' })
+        : NextResponse.json({ message: 'This unsubscribe link is invalid.' }, { status: 400 })
+    }
+    const status = subscriber ? 'unsubscribed' : 'invalid'
+    return NextResponse.redirect(new URL(`/newsletter?status=${status}`, req.url), 303)
+  } catch (err) {
+    return errorResponse(err, 'POST /api/newsletter/unsubscribe failed')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '../../../../../lib/auth/session'
+import { addManyToCart, userCartId } from '../../../../../lib/cart/service'
+import { getCurrency } from '../../../../../lib/currency/session'
+import { HttpError, errorResponse } from '../../../../../lib/http'
+import { getOrder } from '../../../../../lib/orders/store'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/orders/:id/reorder ("Buy again")
+ *
+ * Adds the order's items to the signed-in user's cart. The cart stores only
+ * product and variant ids, so lines are charged at current catalog prices;
+ * products and variants that are no longer sold are skipped.
+ */
+export async function POST(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) throw new HttpError(401, 'Please sign in to reorder.')
+    const order = await getOrder(params.id)
+    if (!order || order.userId !== user.id) throw new HttpError(404, 'Order not found.')
+
+    const cart = await addManyToCart(
+      userCartId(user.id),
+      order.lines.map((line) => ({ productId: line.productId, variantId: line.variantId, quantity: line.quantity })),
+      getCurrency(),
+    )
+    return NextResponse.json(cart)
+  } catch (err) {
+    return errorResponse(err, 'POST /api/orders/:id/reorder failed')
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { getCurrency } from '../../../../lib/currency/session'
+import { errorResponse, readJson } from '../../../../lib/http'
+import { quoteOrder } from '../../../../lib/orders/service'
+import type { OrderItemInput } from '../../../../lib/orders/types'
+import type { ShippingDestination } from '../../../../lib/shipping/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/orders/quote
+ *
+ * Body: { items, shippingMethodId?, destination?, couponCode?, email? }.
+ * Returns server-side totals, including promotions and shipping to
+ * `destination` ({ country, region? }), for the checkout review step without
+ * charging anything. Amounts are in the shopper's currency. 400 if the coupon doesn't apply or the shipping method
+ * isn't offered there.
+ */
+export async function POST(req: Request) {
+  try {
+    const { items, shippingMethodId, destination, couponCode, email } = await readJson<{
+      items?: OrderItemInput[]
+      shippingMethodId?: string
+      destination?: Partial<ShippingDestination>
+      couponCode?: string
+      email?: string
+    }>(req)
+    const customer = typeof email === 'string' && email.trim() ? email : undefined
+    const country = typeof destination?.country === 'string' ? destination.country.trim() : ''
+    const region = typeof destination?.region === 'string' ? destination.region : undefined
+    return NextResponse.json(
+      await quoteOrder(items, shippingMethodId, {
+        couponCode,
+        email: customer,
+        currency: getCurrency(),
+        destination: country ? { country, region } : undefined,
+      }),
+    )
+  } catch (err) {
+    return errorResponse(err, 'POST /api/orders/quote failed')
+  }
+}
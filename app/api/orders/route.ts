@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { resolveCartId } from '../../../lib/cart/session'
+import { getCurrency } from '../../../lib/currency/session'
+import { errorResponse, readJson } from '../../../lib/http'
+import { placeOrder } from '../../../lib/orders/service'
+import type { CreateOrderInput } from '../../../lib/orders/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/orders
+ *
+ * Body: CreateOrderInput. Items are re-priced from the product repository;
+ * any prices sent by the client are ignored. Orders placed while signed in
+ * are attached to the account and show up under /orders. Stock held for the
+ * shopper's cart (see /api/checkout/reservation) is used for the order. The
+ * order is priced and charged in the shopper's currency.
+ */
+export async function POST(req: Request) {
+  try {
+    const input = await readJson<Partial<CreateOrderInput>>(req)
+    const user = await getCurrentUser()
+    const order = await placeOrder(input, {
+      userId: user?.id,
+      cartId: await resolveCartId(),
+      currency: getCurrency(),
+    })
+    return NextResponse.json(order, { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/orders failed')
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getCurrentUser } from '../../../../../lib/auth/session'
+import { HttpError, errorResponse, readJson } from '../../../../../lib/http'
+import { listProductReviews, parseReviewQuery, submitReview } from '../../../../../lib/reviews/service'
+import type { ReviewInput } from '../../../../../lib/reviews/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Reviews for one product.
+ *
+ * GET   approved reviews plus the rating summary. Query params: sort
+ *       (newest | helpful | rating-desc | rating-asc), stars (1-5), photos=1,
+ *       page and pageSize.
+ * POST  { rating, title?, body, photos? } - verified purchasers only; the
+ *       review is created as `pending` until a moderator approves it.
+ */
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    const query = parseReviewQuery(req.nextUrl.searchParams)
+    return NextResponse.json(await listProductReviews(params.id, query, user?.id))
+  } catch (err) {
+    return errorResponse(err, 'GET /api/products/:id/reviews failed')
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) throw new HttpError(401, 'Please sign in to write a review.')
+    const body = await readJson<Partial<ReviewInput>>(req)
+    return NextResponse.json(await submitReview(user, params.id, body), { status: 201 })
+  } catch (err) {
+    return errorResponse(err, 'POST /api/products/:id/reviews failed')
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { withAvailability } from '../../../lib/inventory/service'
+import { parseProductQuery, queryProducts } from '../../../lib/products/query'
+import { getProductRepository } from '../../../lib/products/repository'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/products
+ *
+ * Query params: q, category, sort (featured | price-asc | price-desc | rating),
+ * page (1-based) and pageSize. Responds with a ProductPage envelope whose
+ * items carry live `availability`.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const query = parseProductQuery(req.nextUrl.searchParams)
+    const repo = await getProductRepository()
+    const products = await repo.list()
+    const page = queryProducts(products, query)
+    return NextResponse.json({ ...page, items: await withAvailability(page.items) })
+  } catch (err) {
+    console.error('GET /api/products failed', err)
+    return NextResponse.json({ message: 'Failed to load products.' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '../../../../../lib/auth/session'
+import { HttpError, errorResponse } from '../../../../../lib/http'
+import { setHelpfulVote } from '../../../../../lib/reviews/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * "Was this review helpful?" votes, one per signed-in shopper.
+ *
+ * POST    vote; responds with the updated review
+ * DELETE  take the vote back
+ */
+
+async function requireUserId() {
+  const user = await getCurrentUser()
+  if (!user) throw new HttpError(401, 'Please sign in to vote on reviews.')
+  return user.id
+}
+
+export async function POST(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(await setHelpfulVote(params.id, await requireUserId(), true))
+  } catch (err) {
+    return errorResponse(err, 'POST /api/reviews/:id/helpful failed')
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(await setHelpfulVote(params.id, await requireUserId(), false))
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/reviews/:id/helpful failed')
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { isAdmin } from '../../../../lib/auth/service'
+import { getCurrentUser } from '../../../../lib/auth/session'
+import { HttpError, errorResponse, readJson } from '../../../../lib/http'
+import { moderateReview } from '../../../../lib/reviews/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PATCH /api/reviews/:id - approve or reject a review (admins only).
+ *
+ * Body: { status: 'approved' | 'rejected', note? }. The product's rating
+ * aggregate is recomputed straight away.
+ */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) throw new HttpError(401, 'Please sign in.')
+    if (!isAdmin(user)) throw new HttpError(403, 'Only admins can moderate reviews.')
+    const body = await readJson<{ status?: unknown; note?: unknown }>(req)
+    return NextResponse.json(await moderateReview(params.id, user, body))
+  } catch (err) {
+    return errorResponse(err, 'PATCH /api/reviews/:id failed')
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { HttpError, errorResponse } from '../../../../../lib/http'
+import { readReviewPhoto } from '../../../../../lib/reviews/photos'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reviews/photos/:name - a photo attached to a review. File names
+ * are random, so photos can be cached indefinitely.
+ */
+export async function GET(_req: Request, { params }: { params: { name: string } }) {
+  try {
+    const photo = await readReviewPhoto(params.name)
+    if (!photo) throw new HttpError(404, 'Photo not found.')
+    return new NextResponse(new Uint8Array(photo.bytes), {
+      headers: {
+        'Content-Type': photo.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/reviews/photos/:name failed')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { isAdmin } from '../../../lib/auth/service'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { HttpError, errorResponse } from '../../../lib/http'
+import { listReviewsForModeration, parseReviewStatus } from '../../../lib/reviews/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reviews - the moderation queue (admins only).
+ *
+ * Query params: status (pending | approved | rejected, default pending) and
+ * page. Oldest reviews come first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) throw new HttpError(401, 'Please sign in.')
+    if (!isAdmin(user)) throw new HttpError(403, 'Only admins can moderate reviews.')
+    const params = req.nextUrl.searchParams
+    const page = Number.parseInt(params.get('page') ?? '1', 10)
+    return NextResponse.json(
+      await listReviewsForModeration(parseReviewStatus(params.get('status')) ?? 'pending', {
+        page: Number.isFinite(page) && page > 0 ? page : 1,
+      }),
+    )
+  } catch (err) {
+    return errorResponse(err, 'GET /api/reviews failed')
+  }
+}
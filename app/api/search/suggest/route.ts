@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { errorResponse } from '../../../../lib/http'
+import { suggest } from '../../../../lib/search/engine'
+import { getSearchIndex } from '../../../../lib/search'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_QUERY_LENGTH = 100
+
+/**
+ * GET /api/search/suggest?q=...
+ *
+ * Search-as-you-type for the header: up to six products (id, title, price,
+ * image) and three matching categories.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const q = (req.nextUrl.searchParams.get('q') ?? '').trim().slice(0, MAX_QUERY_LENGTH)
+    const index = await getSearchIndex()
+    return NextResponse.json(suggest(index, q), {
+      headers: { 'Cache-Control': 'public, max-age=60' },
+    })
+  } catch (err) {
+    return errorResponse(err, 'GET /api/search/suggest')
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { getCurrency } from '../../../../lib/currency/session'
+import { HttpError, errorResponse, readJson } from '../../../../lib/http'
+import { quoteShippingOptions } from '../../../../lib/orders/service'
+import type { OrderItemInput } from '../../../../lib/orders/types'
+import type { ShippingDestination } from '../../../../lib/shipping/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/shipping/rates
+ *
+ * Body: { items, destination: { country, region? }, couponCode?, email? }.
+ * Returns the shipping methods offered for the destination, priced for the
+ * cart after discounts, plus the free-shipping threshold if it has one. 400
+ * when we don't ship there.
+ */
+export async function POST(req: Request) {
+  try {
+    const { items, destination, couponCode, email } = await readJson<{
+      items?: OrderItemInput[]
+      destination?: Partial<ShippingDestination>
+      couponCode?: string
+      email?: string
+    }>(req)
+    if (typeof destination?.country !== 'string' || !destination.country.trim()) {
+      throw new HttpError(400, 'destination.country is required.')
+    }
+    const region = typeof destination.region === 'string' ? destination.region : undefined
+    const customer = typeof email === 'string' && email.trim() ? email : undefined
+    return NextResponse.json(
+      await quoteShippingOptions(
+        items,
+        { country: destination.country, region },
+        { couponCode, email: customer, currency: getCurrency() },
+      ),
+    )
+  } catch (err) {
+    return errorResponse(err, 'POST /api/shipping/rates failed')
+  }
+}
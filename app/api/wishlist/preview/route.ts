@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { errorResponse, readJson } from '../../../../lib/http'
+import { previewWishlist } from '../../../../lib/wishlist/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/wishlist/preview  Body: { items: [{ productId, variantId? }] }
+ *
+ * Hydrates a guest's localStorage wishlist with current product data and
+ * stock. Nothing is stored.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await readJson<{ items?: unknown }>(req)
+    return NextResponse.json(await previewWishlist(body.items))
+  } catch (err) {
+    return errorResponse(err, 'POST /api/wishlist/preview failed')
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { HttpError, errorResponse, readJson } from '../../../lib/http'
+import {
+  getWishlist,
+  mergeIntoWishlist,
+  removeFromWishlist,
+  saveToWishlist,
+} from '../../../lib/wishlist/service'
+import type { WishlistItemRef } from '../../../lib/wishlist/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Wishlist API for signed-in users (guests keep theirs in localStorage and
+ * use /api/wishlist/preview). Every method responds with the WishlistView.
+ *
+ * GET                                    current wishlist
+ * POST   { productId, variantId? }       save a product (replaces its entry)
+ * POST   { items: [{ productId, variantId? }] }  merge a guest list after sign-in
+ * DELETE ?productId=...                  remove a product
+ */
+
+async function requireUserId() {
+  const user = await getCurrentUser()
+  if (!user) throw new HttpError(401, 'Please sign in to use your wishlist.')
+  return user.id
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getWishlist(await requireUserId()))
+  } catch (err) {
+    return errorResponse(err, 'GET /api/wishlist failed')
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const userId = await requireUserId()
+    const body = await readJson<Partial<WishlistItemRef> & { items?: unknown }>(req)
+    return NextResponse.json(
+      body.items ? await mergeIntoWishlist(userId, body.items) : await saveToWishlist(userId, body),
+    )
+  } catch (err) {
+    return errorResponse(err, 'POST /api/wishlist failed')
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await requireUserId()
+    const productId = req.nextUrl.searchParams.get('productId')
+    if (!productId) throw new HttpError(400, 'productId is required.')
+    return NextResponse.json(await removeFromWishlist(userId, productId))
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/wishlist failed')
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser } from '../../../../lib/auth/session'
+import { HttpError, errorResponse } from '../../../../lib/http'
+import { shareWishlist, stopSharingWishlist } from '../../../../lib/wishlist/service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Public share link for the signed-in user's wishlist (/wishlist/<shareId>).
+ *
+ * POST    start sharing; responds with the WishlistView including `shareId`
+ * DELETE  stop sharing; the old link stops working
+ */
+
+async function requireUserId() {
+  const user = await getCurrentUser()
+  if (!user) throw new HttpError(401, 'Please sign in to share your wishlist.')
+  return user.id
+}
+
+export async function POST() {
+  try {
+    return NextResponse.json(await shareWishlist(await requireUserId()))
+  } catch (err) {
+    return errorResponse(err, 'POST /api/wishlist/share failed')
+  }
+}
+
+export async function DELETE() {
+  try {
+    return NextResponse.json(await stopSharingWishlist(await requireUserId()))
+  } catch (err) {
+    return errorResponse(err, 'DELETE /api/wishlist/share failed')
+  }
+}
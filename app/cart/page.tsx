@@ -0,0 +1,144 @@
+'use client'
+
+import React from 'react'
+import { useCart } from '../../components/CartProvider'
+import CartSummary from '../../components/CartSummary'
+import FreeShippingProgress from '../../components/FreeShippingProgress'
+import { useI18n } from '../../components/I18nProvider'
+import Link from '../../components/LocaleLink'
+import StockBadge from '../../components/StockBadge'
+import { useSaveForLater } from '../../components/WishlistProvider'
+import { localizeProduct } from '../../lib/i18n/products'
+import { atStockLimit } from '../../lib/inventory/status'
+import { formatMoney } from '../../lib/money'
+import { variantImage, variantTitle } from '../../lib/products/variants'
+
+/**
+ * Cart page (app/cart/page.tsx)
+ *
+ * Full-page view of the shared cart; reads the same CartProvider state as the
+ * Header badge and the CartDrawer.
+ */
+export default function CartPage() {
+  const { cart, loading, error, updateQuantity, removeItem, clear } = useCart()
+  const saveForLater = useSaveForLater()
+  const { locale, t } = useI18n()
+
+  if (loading) {
+    return <div className="py-20 text-center text-gray-500">{t('cart.loading')}</div>
+  }
+
+  if (cart.lines.length === 0) {
+    return (
+      <section className="max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+        <h1 className="text-xl font-semibold">{t('cart.empty')}</h1>
+        <Link href="/" className="inline-block mt-4 text-indigo-600 hover:underline">
+          {t('cart.browse')}
+        </Link>
+      </section>
+    )
+  }
+
+  return (
+    <section className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 bg-white rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold text-gray-900">{t('cart.title')}</h1>
+          <button onClick={() => clear()} className="text-sm text-red-600 hover:underline">
+            {t('cart.clearCart')}
+          </button>
+        </div>
+
+        <ul className="divide-y">
+          {cart.lines.map((line) => (
+            <li key={line.key} className="py-4 flex items-center space-x-4">
+              <div className="w-20 h-20 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+                {variantImage(line.product, line.variant) ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={variantImage(line.product, line.variant)}
+                    alt={line.product.title}
+                    className="object-contain h-full"
+                  />
+                ) : (
+                  <div className="text-xs text-gray-400">{t('product.noImage')}</div>
+                )}
+              </div>
+              <div className="flex-1">
+                <Link
+                  href={`/products/${encodeURIComponent(line.productId)}${
+                    line.variantId ? `?variant=${encodeURIComponent(line.variantId)}` : ''
+                  }`}
+                  className="text-sm font-medium hover:text-indigo-600"
+                >
+                  {localizeProduct(line.product, locale).title}
+                </Link>
+                {line.variant && (
+                  <div className="text-xs text-gray-500">{variantTitle(line.product, line.variant)}</div>
+                )}
+                <div className="text-xs text-gray-500">{t('cart.each', { price: formatMoney(line.unitPrice) })}</div>
+                <StockBadge stock={line.stock} showInStock={false} className="mt-1" />
+                <div className="mt-2 flex items-center space-x-2">
+                  <button
+                    onClick={() => updateQuantity(line, Math.max(1, line.quantity - 1))}
+                    className="px-2 py-1 rounded border text-sm"
+                    aria-label="Decrease quantity"
+                  >
+                    -
+                  </button>
+                  <div className="text-sm">{line.quantity}</div>
+                  <button
+                    onClick={() => updateQuantity(line, line.quantity + 1)}
+                    disabled={atStockLimit(line.stock, line.quantity)}
+                    className="px-2 py-1 rounded border text-sm disabled:opacity-40"
+                    aria-label="Increase quantity"
+                  >
+                    +
+                  </button>
+                  <button
+                    onClick={() => removeItem(line)}
+                    className="ml-3 text-xs text-red-600 hover:underline"
+                  >
+                    {t('cart.remove')}
+                  </button>
+                  <button
+                    onClick={() => saveForLater(line)}
+                    className="text-xs text-indigo-600 hover:underline"
+                  >
+                    {t('cart.saveForLater')}
+                  </button>
+                </div>
+              </div>
+              <div className="text-sm font-semibold">{formatMoney(line.lineTotal)}</div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <aside className="bg-white rounded-lg shadow-sm p-6 h-fit">
+        <h2 className="text-lg font-semibold mb-4">{t('cart.orderSummary')}</h2>
+        {error && (
+          <div role="alert" className="mb-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+        {cart.notices?.map((notice) => (
+          <div key={notice} role="status" className="mb-3 rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {notice}
+          </div>
+        ))}
+        {cart.shipping?.freeShipping && <FreeShippingProgress progress={cart.shipping.freeShipping} />}
+        <CartSummary subtotalLabel={t('cart.subtotalItems', { count: cart.itemCount })} />
+        <Link
+          href="/checkout"
+          className="block w-full py-2 rounded bg-indigo-600 text-white text-center"
+        >
+          {t('cart.checkout')}
+        </Link>
+        <Link href="/" className="block w-full mt-2 py-2 rounded border text-sm text-center">
+          {t('cart.continueShopping')}
+        </Link>
+      </aside>
+    </section>
+  )
+}
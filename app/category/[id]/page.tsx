@@ -0,0 +1,70 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, permanentRedirect } from 'next/navigation'
+import ProductListing, { listingPage } from '../../../components/ProductListing'
+import { loadCategoryListing } from '../../../lib/catalog/service'
+import { categoryPath } from '../../../lib/catalog/tree'
+import { localeAlternates } from '../../../lib/i18n/metadata'
+import { getLocale } from '../../../lib/i18n/session'
+import { decodeSegment } from '../../../lib/params'
+
+interface CategoryPageProps {
+  params: { id: string }
+  searchParams: { page?: string }
+}
+
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const listing = await loadCategoryListing(decodeSegment(params.id))
+  if (!listing) return { title: 'Category not found', robots: { index: false } }
+  const { category } = listing
+  return {
+    title: category.name,
+    description: category.description,
+    alternates: localeAlternates(categoryPath(category), getLocale()),
+    openGraph: {
+      title: category.name,
+      description: category.description,
+      url: categoryPath(category),
+      images: category.heroImage ? [{ url: category.heroImage, alt: category.name }] : undefined,
+    },
+  }
+}
+
+/**
+ * Category listing (app/category/[id]/page.tsx). Accepts an id or slug;
+ * ids redirect to the slug URL. Lists products from subcategories too.
+ */
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
+  const idOrSlug = decodeSegment(params.id)
+  const listing = await loadCategoryListing(idOrSlug)
+  if (!listing) notFound()
+  const { category, breadcrumbs, subcategories, products } = listing
+  if (category.slug !== idOrSlug) permanentRedirect(categoryPath(category))
+
+  return (
+    <ProductListing
+      title={category.name}
+      description={category.description}
+      heroImage={category.heroImage}
+      breadcrumbs={breadcrumbs}
+      products={products}
+      page={listingPage(searchParams.page)}
+      basePath={categoryPath(category)}
+    >
+      {subcategories.length > 0 && (
+        <nav aria-label={`${category.name} subcategories`} className="flex flex-wrap gap-2">
+          {subcategories.map((sub) => (
+            <Link
+              key={sub.id}
+              href={categoryPath(sub)}
+              className="px-3 py-1 rounded-full bg-white border border-gray-200 text-sm text-gray-700 hover:border-indigo-300 hover:text-indigo-600"
+            >
+              {sub.name}
+            </Link>
+          ))}
+        </nav>
+      )}
+    </ProductListing>
+  )
+}
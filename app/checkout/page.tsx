@@ -0,0 +1,447 @@
+'use client'
+
+import React, { useEffect, useState, FormEvent } from 'react'
+import Link from 'next/link'
+import { useCart } from '../../components/CartProvider'
+import { useCurrency } from '../../components/CurrencyProvider'
+import { postJson } from '../../lib/api'
+import { formatMoney } from '../../lib/money'
+import type { Order, OrderQuote, ShippingAddress } from '../../lib/orders/types'
+import type { ShippingQuote } from '../../lib/shipping/types'
+
+/**
+ * Checkout page (app/checkout/page.tsx)
+ *
+ * Steps: shipping address -> shipping method -> review -> payment.
+ * Methods offered on the delivery step come from POST /api/shipping/rates
+ * for the address. Totals shown on the review step come from POST
+ * /api/orders/quote, and the order itself is priced again by POST
+ * /api/orders; both apply the cart's coupon and any automatic promotions.
+ * Stock is held while the shopper is on the payment step (POST/DELETE
+ * /api/checkout/reservation). Everything is priced in the shopper's
+ * currency; switching it sends them back to the address step.
+ */
+
+function releaseStockHold() {
+  // keepalive lets the request finish while the page unloads
+  fetch('/api/checkout/reservation', { method: 'DELETE', keepalive: true }).catch(() => undefined)
+}
+
+const STEPS = ['Address', 'Delivery', 'Review', 'Payment'] as const
+type Step = (typeof STEPS)[number]
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  name: '',
+  email: '',
+  line1: '',
+  line2: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  country: 'US',
+  phone: '',
+}
+
+const ADDRESS_FIELDS: { key: keyof ShippingAddress; label: string; type?: string; required?: boolean }[] = [
+  { key: 'name', label: 'Full name', required: true },
+  { key: 'email', label: 'Email', type: 'email', required: true },
+  { key: 'line1', label: 'Address', required: true },
+  { key: 'line2', label: 'Apartment, suite, etc.' },
+  { key: 'city', label: 'City', required: true },
+  { key: 'region', label: 'State / Region', required: true },
+  { key: 'postalCode', label: 'Postal code', required: true },
+  { key: 'country', label: 'Country code', required: true },
+  { key: 'phone', label: 'Phone', type: 'tel' },
+]
+
+function StepIndicator({ current }: { current: Step }) {
+  const currentIndex = STEPS.indexOf(current)
+  return (
+    <ol className="flex items-center space-x-4 text-sm mb-6" aria-label="Checkout progress">
+      {STEPS.map((step, i) => (
+        <li
+          key={step}
+          aria-current={step === current ? 'step' : undefined}
+          className={
+            i === currentIndex
+              ? 'font-semibold text-indigo-600'
+              : i < currentIndex
+              ? 'text-gray-700'
+              : 'text-gray-400'
+          }
+        >
+          {i + 1}. {step}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export default function CheckoutPage() {
+  const { cart, loading: cartLoading, clear, refresh } = useCart()
+  const { currency } = useCurrency()
+  const [step, setStep] = useState<Step>('Address')
+  const [address, setAddress] = useState<ShippingAddress>(EMPTY_ADDRESS)
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null)
+  const [shippingMethodId, setShippingMethodId] = useState('')
+  const [quote, setQuote] = useState<OrderQuote | null>(null)
+  const [cardNumber, setCardNumber] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [order, setOrder] = useState<Order | null>(null)
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null)
+
+  // Rates and totals quoted in another currency are stale
+  useEffect(() => {
+    setShippingQuote(null)
+    setQuote(null)
+    setStep('Address')
+  }, [currency])
+
+  // Release the stock hold when leaving the payment step, including closing the tab
+  useEffect(() => {
+    if (step !== 'Payment') return
+    window.addEventListener('pagehide', releaseStockHold)
+    return () => {
+      window.removeEventListener('pagehide', releaseStockHold)
+      releaseStockHold()
+    }
+  }, [step])
+
+  const items = cart.lines.map((line) => ({
+    productId: line.productId,
+    variantId: line.variantId,
+    quantity: line.quantity,
+  }))
+
+  const goTo = (next: Step) => {
+    setError(null)
+    setStep(next)
+  }
+
+  const destination = { country: address.country, region: address.region }
+
+  const handleAddressSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const rates = await postJson<ShippingQuote>('/api/shipping/rates', {
+        items,
+        destination,
+        couponCode: cart.couponCode,
+        email: address.email,
+      })
+      setShippingQuote(rates)
+      // Keep the shopper's earlier choice if it's still offered for this address
+      setShippingMethodId((current) =>
+        rates.options.some((o) => o.id === current) ? current : rates.options[0]?.id ?? '',
+      )
+      setStep('Delivery')
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDeliverySubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      setQuote(
+        await postJson<OrderQuote>('/api/orders/quote', {
+          items,
+          shippingMethodId,
+          destination,
+          couponCode: cart.couponCode,
+          email: address.email,
+        }),
+      )
+      setStep('Review')
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleContinueToPayment = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const hold = await postJson<{ expiresAt: string }>('/api/checkout/reservation', {})
+      setHoldExpiresAt(hold.expiresAt)
+      setStep('Payment')
+    } catch (err) {
+      setError((err as Error).message)
+      // Pick up any quantities the server reduced to what's in stock
+      await refresh()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handlePaymentSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const placed = await postJson<Order>('/api/orders', {
+        items,
+        shippingAddress: address,
+        shippingMethodId,
+        paymentToken: cardNumber,
+        couponCode: cart.couponCode,
+      })
+      setOrder(placed)
+      await clear()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (order) {
+    return (
+      <section className="max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-6">
+        <h1 className="text-2xl font-bold text-gray-900">Thank you for your order!</h1>
+        <p className="mt-2 text-gray-600">
+          Order #{order.number} is confirmed. A receipt will be sent to {order.email}.
+        </p>
+        <div className="mt-4 text-lg font-semibold">Total paid: {formatMoney(order.total)}</div>
+        <div className="mt-6 flex items-center space-x-6">
+          {order.userId && (
+            <Link href={`/orders/${order.id}`} className="text-indigo-600 hover:underline">
+              View order
+            </Link>
+          )}
+          <Link href="/" className="text-indigo-600 hover:underline">
+            Continue shopping
+          </Link>
+        </div>
+      </section>
+    )
+  }
+
+  if (!cartLoading && cart.lines.length === 0) {
+    return (
+      <section className="max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+        <h1 className="text-xl font-semibold">Your cart is empty.</h1>
+        <Link href="/" className="inline-block mt-4 text-indigo-600 hover:underline">
+          Browse products
+        </Link>
+      </section>
+    )
+  }
+
+  return (
+    <section className="max-w-2xl mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900 mb-4">Checkout</h1>
+      <StepIndicator current={step} />
+
+      {step === 'Address' && (
+        <form onSubmit={handleAddressSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {ADDRESS_FIELDS.map((field) => (
+            <div key={field.key} className={field.key === 'line1' || field.key === 'line2' ? 'sm:col-span-2' : ''}>
+              <label htmlFor={`checkout-${field.key}`} className="label">
+                {field.label}
+              </label>
+              <input
+                id={`checkout-${field.key}`}
+                type={field.type ?? 'text'}
+                required={field.required}
+                value={address[field.key] ?? ''}
+                onChange={(e) => setAddress((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                className="input"
+              />
+            </div>
+          ))}
+          <div className="sm:col-span-2 flex justify-end">
+            <button type="submit" disabled={busy} className="px-4 py-2 rounded bg-indigo-600 text-white disabled:opacity-60">
+              {busy ? 'Finding shipping options...' : 'Continue to delivery'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'Delivery' && shippingQuote && (
+        <form onSubmit={handleDeliverySubmit} className="space-y-3">
+          {shippingQuote.freeShipping && shippingQuote.freeShipping.remaining.amount > 0 && (
+            <p className="text-sm text-gray-600">
+              Spend {formatMoney(shippingQuote.freeShipping.remaining)} more to get free shipping to{' '}
+              {shippingQuote.destination.country}.
+            </p>
+          )}
+          {shippingQuote.options.length === 0 && (
+            <p className="text-sm text-red-600">
+              We can&apos;t ship this order to {shippingQuote.destination.country}. Try removing some items.
+            </p>
+          )}
+          <fieldset className="space-y-3">
+            <legend className="sr-only">Shipping method</legend>
+            {shippingQuote.options.map((method) => (
+              <label
+                key={method.id}
+                className="flex items-center justify-between border rounded p-3 cursor-pointer"
+              >
+                <span className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    name="shippingMethod"
+                    value={method.id}
+                    checked={shippingMethodId === method.id}
+                    onChange={() => setShippingMethodId(method.id)}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium">{method.label}</span>
+                    <span className="block text-xs text-gray-500">{method.description}</span>
+                  </span>
+                </span>
+                {method.price.amount === 0 ? (
+                  <span className="text-sm font-semibold text-green-700">
+                    {method.regularPrice.amount > 0 && (
+                      <span className="mr-1 text-xs font-normal text-gray-400 line-through">
+                        {formatMoney(method.regularPrice)}
+                      </span>
+                    )}
+                    Free
+                  </span>
+                ) : (
+                  <span className="text-sm font-semibold">{formatMoney(method.price)}</span>
+                )}
+              </label>
+            ))}
+          </fieldset>
+          <div className="flex justify-between">
+            <button type="button" onClick={() => goTo('Address')} className="px-4 py-2 rounded border text-sm">
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !shippingMethodId}
+              className="px-4 py-2 rounded bg-indigo-600 text-white disabled:opacity-60"
+            >
+              {busy ? 'Calculating...' : 'Review order'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'Review' && quote && (
+        <div className="space-y-4">
+          <ul className="divide-y">
+            {quote.lines.map((line) => (
+              <li
+                key={`${line.productId}:${line.variantId ?? ''}`}
+                className="py-2 flex items-center justify-between text-sm"
+              >
+                <span>
+                  {line.title}
+                  {line.variantTitle && <span className="text-gray-500"> ({line.variantTitle})</span>} ×{' '}
+                  {line.quantity}
+                </span>
+                <span>{formatMoney(line.lineTotal)}</span>
+              </li>
+            ))}
+          </ul>
+          <dl className="text-sm space-y-1 border-t pt-3">
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Subtotal</dt>
+              <dd>{formatMoney(quote.subtotal)}</dd>
+            </div>
+            {quote.discounts?.map((discount) => (
+              <div key={discount.promotionId} className="flex justify-between text-green-700">
+                <dt>
+                  {discount.title}
+                  {discount.code && ` (${discount.code})`}
+                </dt>
+                <dd>-{formatMoney(discount.amount)}</dd>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Shipping ({quote.shippingMethod?.label})</dt>
+              <dd>{quote.shippingTotal.amount === 0 ? 'Free' : formatMoney(quote.shippingTotal)}</dd>
+            </div>
+            {quote.tax && !quote.tax.inclusive && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600">
+                  {quote.tax.label} ({quote.tax.jurisdiction})
+                </dt>
+                <dd>{formatMoney(quote.tax.amount)}</dd>
+              </div>
+            )}
+            <div className="flex justify-between text-lg font-semibold">
+              <dt>Total</dt>
+              <dd>{formatMoney(quote.total)}</dd>
+            </div>
+            {quote.tax?.inclusive && (
+              <div className="flex justify-between text-xs text-gray-500">
+                <dt>
+                  Includes {quote.tax.label} ({quote.tax.jurisdiction})
+                </dt>
+                <dd>{formatMoney(quote.tax.amount)}</dd>
+              </div>
+            )}
+          </dl>
+          <div className="text-sm text-gray-600">
+            Shipping to {address.name}, {address.line1}, {address.city} {address.postalCode}, {address.country}
+          </div>
+          <div className="flex justify-between">
+            <button type="button" onClick={() => goTo('Delivery')} className="px-4 py-2 rounded border text-sm">
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleContinueToPayment}
+              disabled={busy}
+              className="px-4 py-2 rounded bg-indigo-600 text-white disabled:opacity-60"
+            >
+              {busy ? 'Checking stock...' : 'Continue to payment'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'Payment' && (
+        <form onSubmit={handlePaymentSubmit} className="space-y-4">
+          {holdExpiresAt && (
+            <p className="text-sm text-gray-600">
+              We&apos;re holding your items until{' '}
+              {new Date(holdExpiresAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.
+            </p>
+          )}
+          <div>
+            <label htmlFor="checkout-card" className="label">
+              Card number
+            </label>
+            <input
+              id="checkout-card"
+              inputMode="numeric"
+              autoComplete="cc-number"
+              required
+              value={cardNumber}
+              onChange={(e) => setCardNumber(e.target.value)}
+              placeholder="4242 4242 4242 4242"
+              className="input"
+            />
+          </div>
+          <div className="flex justify-between">
+            <button type="button" onClick={() => goTo('Review')} className="px-4 py-2 rounded border text-sm">
+              Back
+            </button>
+            <button type="submit" disabled={busy} className="px-4 py-2 rounded bg-indigo-600 text-white disabled:opacity-60">
+              {busy ? 'Placing order...' : quote ? `Pay ${formatMoney(quote.total)}` : 'Place order'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div role="status" aria-live="polite" className="mt-4 min-h-[1.25rem] text-sm text-red-600">
+        {error}
+      </div>
+    </section>
+  )
+}
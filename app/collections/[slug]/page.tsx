@@ -0,0 +1,28 @@
+import React from 'react'
+import { permanentRedirect } from 'next/navigation'
+import CollectionPage, { collectionMetadata } from '../../../components/CollectionPage'
+import { getCatalog } from '../../../lib/catalog/service'
+import { collectionPath } from '../../../lib/catalog/tree'
+import { decodeSegment } from '../../../lib/params'
+
+interface CollectionRouteProps {
+  params: { slug: string }
+  searchParams: { page?: string }
+}
+
+export function generateMetadata({ params }: CollectionRouteProps) {
+  return collectionMetadata(decodeSegment(params.slug))
+}
+
+/**
+ * Collection (app/collections/[slug]/page.tsx). Collections that live at a
+ * dedicated path (e.g. /shop/sale) redirect there.
+ */
+export default async function CollectionRoute({ params, searchParams }: CollectionRouteProps) {
+  const slug = decodeSegment(params.slug)
+  const { collections } = await getCatalog()
+  const collection = collections.find((c) => c.slug === slug)
+  if (collection?.path) permanentRedirect(collectionPath(collection))
+
+  return <CollectionPage slug={slug} page={searchParams.page} />
+}
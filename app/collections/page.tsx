@@ -0,0 +1,58 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import Breadcrumbs from '../../components/Breadcrumbs'
+import { getCatalog } from '../../lib/catalog/service'
+import { collectionPath } from '../../lib/catalog/tree'
+import { localeAlternates } from '../../lib/i18n/metadata'
+import { getLocale } from '../../lib/i18n/session'
+
+export function generateMetadata(): Metadata {
+  return {
+    title: 'Collections',
+    description: 'Browse our curated collections.',
+    alternates: localeAlternates('/collections', getLocale()),
+  }
+}
+
+/**
+ * Collections index (app/collections/page.tsx).
+ */
+export default async function CollectionsPage() {
+  const { collections } = await getCatalog()
+
+  return (
+    <section className="space-y-6">
+      <Breadcrumbs
+        items={[
+          { label: 'Home', href: '/' },
+          { label: 'Collections', href: '/collections' },
+        ]}
+      />
+      <h1 className="text-3xl font-bold text-gray-900">Collections</h1>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {collections.map((collection) => (
+          <li key={collection.id}>
+            <Link
+              href={collectionPath(collection)}
+              className="block h-full bg-white rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-shadow"
+            >
+              <div className="h-36 bg-indigo-50 flex items-center justify-center overflow-hidden">
+                {collection.heroImage ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={collection.heroImage} alt="" className="object-cover h-full w-full" />
+                ) : (
+                  <span className="text-2xl font-semibold text-indigo-300">{collection.title}</span>
+                )}
+              </div>
+              <div className="p-4">
+                <h2 className="text-lg font-semibold text-gray-900">{collection.title}</h2>
+                {collection.description && <p className="mt-1 text-sm text-gray-600">{collection.description}</p>}
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
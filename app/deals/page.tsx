@@ -0,0 +1,142 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import ProductGrid from '../../components/ProductGrid'
+import { getCatalog } from '../../lib/catalog/service'
+import { categoryPath, findCategory } from '../../lib/catalog/tree'
+import type { Category } from '../../lib/catalog/types'
+import { getCurrency } from '../../lib/currency/session'
+import { localeAlternates } from '../../lib/i18n/metadata'
+import { getLocale } from '../../lib/i18n/session'
+import { formatMoney, type CurrencyCode } from '../../lib/money'
+import { listActiveDeals, localizePromotion } from '../../lib/promotions/service'
+import type { Promotion } from '../../lib/promotions/types'
+
+export const dynamic = 'force-dynamic'
+
+export function generateMetadata(): Metadata {
+  return {
+    title: "Today's deals",
+    description: 'Current promotions and coupon codes.',
+    alternates: localeAlternates('/deals', getLocale()),
+  }
+}
+
+function discountLabel({ discount }: Promotion, currency: CurrencyCode) {
+  switch (discount.type) {
+    case 'percentage':
+      return `${discount.percent}% off`
+    case 'fixed':
+      return `${formatMoney(discount.amount, currency)} off`
+    case 'buy-x-get-y': {
+      const percent = discount.percent ?? 100
+      return `Buy ${discount.buy}, get ${discount.get} ${percent >= 100 ? 'free' : `${percent}% off`}`
+    }
+  }
+}
+
+function conditions(promotion: Promotion, categories: Category[], currency: CurrencyCode): string[] {
+  const result: string[] = []
+  const names = (promotion.scope?.categoryIds ?? [])
+    .map((id) => findCategory(categories, id)?.name)
+    .filter((name): name is string => !!name)
+  if (names.length) result.push(`On ${names.join(', ')}`)
+  if (promotion.minSubtotal) {
+    result.push(`When you spend ${formatMoney(promotion.minSubtotal, currency)} or more`)
+  }
+  if (promotion.perCustomerLimit === 1) result.push('One use per customer')
+  if (promotion.endsAt) {
+    const ends = new Date(promotion.endsAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    result.push(`Ends ${ends}`)
+  }
+  return result
+}
+
+/** Where "Shop the deal" goes: the one category or product it covers, else the whole shop. */
+function dealHref(promotion: Promotion, categories: Category[]) {
+  const categoryIds = promotion.scope?.categoryIds ?? []
+  const productIds = promotion.scope?.productIds ?? []
+  if (categoryIds.length === 1 && productIds.length === 0) {
+    const category = findCategory(categories, categoryIds[0])
+    if (category) return categoryPath(category)
+  }
+  if (productIds.length === 1 && categoryIds.length === 0) return `/products/${encodeURIComponent(productIds[0])}`
+  return '/shop'
+}
+
+/**
+ * Deals page (app/deals/page.tsx) - every live, advertised promotion with
+ * its coupon code (if it needs one) and a few of the products it covers.
+ * Linked from the home page hero. Amounts are shown in the shopper's currency.
+ */
+export default async function DealsPage() {
+  const [deals, { categories }] = await Promise.all([listActiveDeals(), getCatalog()])
+  const currency = getCurrency()
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Today&rsquo;s deals</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Automatic deals are applied in your cart; enter coupon codes in the cart before checking out.
+        </p>
+      </div>
+
+      {deals.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-600">
+          There are no deals running right now.{' '}
+          <Link href="/shop" className="text-indigo-600 hover:underline">
+            Browse all products
+          </Link>
+        </div>
+      ) : (
+        <ul className="space-y-6">
+          {deals.map(({ promotion: deal, products }) => {
+            const promotion = localizePromotion(deal, currency)
+            const notes = conditions(promotion, categories, currency)
+            return (
+              <li key={promotion.id} className="bg-white rounded-lg shadow-sm p-6">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div>
+                    <div className="text-sm font-semibold uppercase tracking-wider text-indigo-600">
+                      {discountLabel(promotion, currency)}
+                    </div>
+                    <h2 className="mt-1 text-xl font-bold text-gray-900">{promotion.title}</h2>
+                    {promotion.description && <p className="mt-1 text-gray-700">{promotion.description}</p>}
+                    {notes.length > 0 && (
+                      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                        {notes.map((condition) => (
+                          <li key={condition}>{condition}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="shrink-0 text-right">
+                    {promotion.code ? (
+                      <div className="inline-block rounded border-2 border-dashed border-indigo-300 px-3 py-1.5">
+                        <span className="text-xs text-gray-500">Use code </span>
+                        <span className="font-mono font-semibold select-all">{promotion.code}</span>
+                      </div>
+                    ) : (
+                      <div className="text-sm text-green-700">Applied automatically</div>
+                    )}
+                    <div className="mt-2">
+                      <Link href={dealHref(promotion, categories)} className="text-sm text-indigo-600 hover:underline">
+                        Shop the deal →
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+                {products.length > 0 && (
+                  <div className="mt-6">
+                    <ProductGrid products={products} />
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
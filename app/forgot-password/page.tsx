@@ -0,0 +1,9 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { ForgotPasswordForm } from '../../components/AuthForms'
+
+export const metadata: Metadata = { title: 'Reset your password', robots: { index: false } }
+
+export default function ForgotPasswordPage() {
+  return <ForgotPasswordForm />
+}
@@ -2,8 +2,20 @@ import React from "react";
 import type { Metadata } from "next";
 import "../app/globals.css";
 import { Inter } from "next/font/google";
-import Header from "../components/Header";
+import SiteHeader from "../components/SiteHeader";
 import Footer from "../components/Footer";
+import CartDrawer from "../components/CartDrawer";
+import { CartProvider } from "../components/CartProvider";
+import { CurrencyProvider } from "../components/CurrencyProvider";
+import { I18nProvider } from "../components/I18nProvider";
+import { WishlistProvider } from "../components/WishlistProvider";
+import { getCurrentUser } from "../lib/auth/session";
+import { getNavCategories } from "../lib/catalog/service";
+import { getCurrency } from "../lib/currency/session";
+import { LOCALES, LOCALE_CODES } from "../lib/i18n/config";
+import { languageAlternates } from "../lib/i18n/metadata";
+import { getLocale, getPathname } from "../lib/i18n/session";
+import { SITE_URL } from "../lib/site";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -11,7 +23,8 @@ const inter = Inter({
   display: "swap",
 });
 
-export const metadata: Metadata = {
+const siteMetadata: Metadata = {
+  metadataBase: new URL(SITE_URL),
   title: {
     default: "Acme Shop",
     template: "%s | Acme Shop",
@@ -59,7 +72,6 @@ export const metadata: Metadata = {
         alt: "Acme Shop Open Graph Image",
       },
     ],
-    locale: "en_US",
     type: "website",
   },
   twitter: {
@@ -76,6 +88,26 @@ export const metadata: Metadata = {
   },
 };
 
+/**
+ * Site-wide metadata plus the locale bits: Open Graph locale and hreflang
+ * alternates for the current page. Pages with a canonical URL set their own
+ * `alternates` (see localeAlternates).
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = getLocale();
+  return {
+    ...siteMetadata,
+    alternates: { languages: languageAlternates(getPathname()) },
+    openGraph: {
+      ...siteMetadata.openGraph,
+      locale: LOCALES[locale].ogLocale,
+      alternateLocale: LOCALE_CODES.filter((code) => code !== locale).map(
+        (code) => LOCALES[code].ogLocale
+      ),
+    },
+  };
+}
+
 interface RootLayoutProps {
   children: React.ReactNode;
 }
@@ -85,11 +117,22 @@ interface RootLayoutProps {
  * - Provides HTML structure (<html>, <body>)
  * - Imports global styles and fonts
  * - Renders header, footer and the page content
+ * - Reads the session so Header shows the signed-in user
+ * - Loads the category menu from the catalog
+ * - Reads the shopper's currency for CurrencyProvider (cart prices follow it)
+ * - Sets <html lang> and I18nProvider from the locale in the URL
+ * - Mounts the shared CartProvider, WishlistProvider and the cart drawer
  * - Adds accessibility helpers and responsive container
  */
-export default function RootLayout({ children }: RootLayoutProps) {
+export default async function RootLayout({ children }: RootLayoutProps) {
+  const [user, categories] = await Promise.all([
+    getCurrentUser(),
+    getNavCategories(),
+  ]);
+  const locale = getLocale();
+
   return (
-    <html lang="en" className={`${inter.variable}`}>
+    <html lang={locale} className={`${inter.variable}`}>
       <head />
       <body className="antialiased bg-gray-50 text-gray-900 selection:bg-indigo-500 selection:text-white">
         {/* Skip link for keyboard users */}
@@ -100,18 +143,28 @@ export default function RootLayout({ children }: RootLayoutProps) {
           Skip to content
         </a>
 
-        <div className="min-h-screen flex flex-col">
-          <Header />
+        <I18nProvider locale={locale}>
+          <CurrencyProvider initialCurrency={getCurrency()}>
+            <CartProvider>
+              <WishlistProvider userId={user?.id ?? null}>
+                <div className="min-h-screen flex flex-col">
+                  <SiteHeader user={user} categories={categories} />
+
+                  <main
+                    id="content"
+                    className="flex-1 w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8"
+                  >
+                    {children}
+                  </main>
 
-          <main
-            id="content"
-            className="flex-1 w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8"
-          >
-            {children}
-          </main>
+                  <Footer className="print:hidden" />
+                </div>
 
-          <Footer />
-        </div>
+                <CartDrawer />
+              </WishlistProvider>
+            </CartProvider>
+          </CurrencyProvider>
+        </I18nProvider>
 
         <noscript className="block text-center text-sm text-gray-600 py-4">
           JavaScript is disabled in your browser. Some features of this site may
@@ -0,0 +1,45 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+
+export const metadata: Metadata = { title: 'Newsletter', robots: { index: false } }
+
+const MESSAGES: Record<string, { title: string; body: string }> = {
+  confirmed: {
+    title: "You're subscribed!",
+    body: 'Thanks for confirming. Look out for our next newsletter in your inbox.',
+  },
+  unsubscribed: {
+    title: "You've been unsubscribed",
+    body: "You won't receive any more newsletters from us. You can sign up again at any time.",
+  },
+  invalid: {
+    title: 'This link is invalid or has expired',
+    body: 'Please sign up again from the form at the bottom of any page.',
+  },
+  error: {
+    title: 'Something went wrong',
+    body: 'Please try the link again in a few minutes.',
+  },
+}
+
+/**
+ * Newsletter status (app/newsletter/page.tsx) - landing page for the
+ * confirm and unsubscribe links.
+ */
+export default function NewsletterPage({ searchParams }: { searchParams: { status?: string } }) {
+  const message = MESSAGES[searchParams.status ?? ''] ?? {
+    title: 'Newsletter',
+    body: 'Subscribe with the form at the bottom of any page to get news and offers.',
+  }
+
+  return (
+    <section className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+      <h1 className="text-2xl font-bold text-gray-900">{message.title}</h1>
+      <p className="mt-3 text-gray-600">{message.body}</p>
+      <Link href="/" className="mt-6 inline-block text-indigo-600 hover:underline">
+        Continue shopping
+      </Link>
+    </section>
+  )
+}
@@ -0,0 +1,24 @@
+import React from 'react'
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = { title: 'Unsubscribe', robots: { index: false } }
+
+/**
+ * Unsubscribe confirmation (app/newsletter/unsubscribe/page.tsx). Emailed
+ * links land here rather than unsubscribing directly, so link scanners that
+ * prefetch URLs can't unsubscribe anyone. Plain form post; works without JS.
+ */
+export default function UnsubscribePage({ searchParams }: { searchParams: { token?: string } }) {
+  return (
+    <section className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+      <h1 className="text-2xl font-bold text-gray-900">Unsubscribe from our newsletter?</h1>
+      <p className="mt-3 text-gray-600">You&apos;ll stop receiving news and offers by email.</p>
+      <form action="/api/newsletter/unsubscribe" method="post" className="mt-6">
+        <input type="hidden" name="token" value={searchParams.token ?? ''} />
+        <button type="submit" className="px-6 py-2 rounded bg-indigo-600 hover:bg-indigo-700 text-white">
+          Unsubscribe
+        </button>
+      </form>
+    </section>
+  )
+}
@@ -0,0 +1,210 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import BuyAgainButton from '../../../components/BuyAgainButton'
+import OrderStatusBadge from '../../../components/OrderStatusBadge'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { formatMoney } from '../../../lib/money'
+import { lineKey, trackingUrl } from '../../../lib/orders/fulfillment'
+import { ORDER_STATUS_LABELS, buildOrderTimeline } from '../../../lib/orders/status'
+import { getOrder } from '../../../lib/orders/store'
+
+export const metadata: Metadata = { title: 'Order details', robots: { index: false } }
+
+/**
+ * Order detail (app/orders/[id]/page.tsx) - line items, totals, shipping
+ * address, status timeline, shipments with tracking links and refunds. Only
+ * visible to the order's owner.
+ */
+export default async function OrderDetailPage({ params }: { params: { id: string } }) {
+  const user = await getCurrentUser()
+  if (!user) redirect(`/signin?next=${encodeURIComponent(`/orders/${params.id}`)}`)
+
+  const order = await getOrder(params.id)
+  if (!order || order.userId !== user.id) notFound()
+
+  const address = order.shippingAddress
+  const timeline = buildOrderTimeline(order)
+
+  return (
+    <section className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/orders" className="text-sm text-indigo-600 hover:underline">
+            ← All orders
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900">Order #{order.number}</h1>
+          <div className="text-sm text-gray-500">
+            Placed {new Date(order.createdAt).toLocaleString()}
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <OrderStatusBadge status={order.status} />
+          <BuyAgainButton orderId={order.id} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold mb-4">Status</h2>
+        <ol className="space-y-3">
+          {timeline.map((step, i) => (
+            <li key={`${step.status}-${i}`} className="flex items-start space-x-3">
+              <span
+                aria-hidden
+                className={`mt-1 h-3 w-3 rounded-full ${step.reached ? 'bg-indigo-600' : 'bg-gray-200'}`}
+              />
+              <div>
+                <div className={`text-sm ${step.reached ? 'font-medium text-gray-900' : 'text-gray-400'}`}>
+                  {ORDER_STATUS_LABELS[step.status]}
+                </div>
+                {step.at && (
+                  <div className="text-xs text-gray-500">{new Date(step.at).toLocaleString()}</div>
+                )}
+                {step.note && <div className="text-xs text-gray-600">{step.note}</div>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {order.shipments && order.shipments.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-4">Shipments</h2>
+          <ul className="divide-y">
+            {order.shipments.map((shipment) => {
+              const url = trackingUrl(shipment)
+              return (
+                <li key={shipment.id} className="py-3 text-sm">
+                  <div className="flex flex-wrap justify-between gap-2">
+                    <div className="font-medium text-gray-900">
+                      {shipment.carrier}{' '}
+                      {url ? (
+                        <a href={url} target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">
+                          {shipment.trackingNumber}
+                        </a>
+                      ) : (
+                        shipment.trackingNumber
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Shipped {new Date(shipment.shippedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <ul className="mt-1 text-gray-600">
+                    {shipment.items.map((item) => {
+                      const line = order.lines.find((l) => lineKey(l) === lineKey(item))
+                      return (
+                        <li key={lineKey(item)}>
+                          {item.quantity} × {line?.title}
+                          {line?.variantTitle && ` (${line.variantTitle})`}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold mb-4">Items</h2>
+        <ul className="divide-y">
+          {order.lines.map((line) => (
+            <li key={lineKey(line)} className="py-3 flex items-center space-x-4">
+              <div className="w-14 h-14 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+                {line.image ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={line.image} alt={line.title} className="object-contain h-full" />
+                ) : (
+                  <div className="text-xs text-gray-400">No image</div>
+                )}
+              </div>
+              <div className="flex-1">
+                <Link
+                  href={`/products/${encodeURIComponent(line.productId)}`}
+                  className="text-sm font-medium hover:text-indigo-600"
+                >
+                  {line.title}
+                </Link>
+                {line.variantTitle && (
+                  <div className="text-xs text-gray-500">
+                    {line.variantTitle}
+                    {line.sku && <span className="ml-2 text-gray-400">SKU {line.sku}</span>}
+                  </div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {line.quantity} × {formatMoney(line.unitPrice)}
+                </div>
+              </div>
+              <div className="text-sm font-semibold">{formatMoney(line.lineTotal)}</div>
+            </li>
+          ))}
+        </ul>
+        <dl className="mt-4 border-t pt-4 text-sm space-y-1">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Subtotal</dt>
+            <dd>{formatMoney(order.subtotal)}</dd>
+          </div>
+          {order.discounts?.map((discount) => (
+            <div key={discount.promotionId} className="flex justify-between text-green-700">
+              <dt>
+                {discount.title}
+                {discount.code && ` (${discount.code})`}
+              </dt>
+              <dd>-{formatMoney(discount.amount)}</dd>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Shipping ({order.shippingMethod?.label})</dt>
+            <dd>{order.shippingTotal.amount === 0 ? 'Free' : formatMoney(order.shippingTotal)}</dd>
+          </div>
+          {order.tax && !order.tax.inclusive && (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">
+                {order.tax.label} ({order.tax.jurisdiction})
+              </dt>
+              <dd>{formatMoney(order.tax.amount)}</dd>
+            </div>
+          )}
+          <div className="flex justify-between text-base font-semibold">
+            <dt>Total</dt>
+            <dd>{formatMoney(order.total)}</dd>
+          </div>
+          {order.tax?.inclusive && (
+            <div className="flex justify-between text-xs text-gray-500">
+              <dt>
+                Includes {order.tax.label} ({order.tax.jurisdiction})
+              </dt>
+              <dd>{formatMoney(order.tax.amount)}</dd>
+            </div>
+          )}
+          {order.refunds?.map((refund) => (
+            <div key={refund.id} className="flex justify-between text-yellow-800">
+              <dt>
+                Refunded {new Date(refund.at).toLocaleDateString()}
+                {refund.reason && ` (${refund.reason})`}
+              </dt>
+              <dd>-{formatMoney(refund.amount)}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold mb-2">Shipping address</h2>
+        <address className="not-italic text-sm text-gray-700">
+          <div>{address.name}</div>
+          <div>{address.line1}</div>
+          {address.line2 && <div>{address.line2}</div>}
+          <div>
+            {address.city}, {address.region} {address.postalCode}
+          </div>
+          <div>{address.country}</div>
+        </address>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,84 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import OrderStatusBadge from '../../components/OrderStatusBadge'
+import { getCurrentUser } from '../../lib/auth/session'
+import { formatMoney } from '../../lib/money'
+import { listOrdersForUser } from '../../lib/orders/store'
+
+export const metadata: Metadata = { title: 'Orders', robots: { index: false } }
+
+const PAGE_SIZE = 10
+
+/**
+ * Order history (app/orders/page.tsx) - the signed-in user's orders, newest first.
+ */
+export default async function OrdersPage({ searchParams }: { searchParams: { page?: string } }) {
+  const user = await getCurrentUser()
+  if (!user) redirect('/signin?next=/orders')
+
+  const requested = Number.parseInt(searchParams.page ?? '1', 10)
+  const page = Number.isFinite(requested) && requested > 0 ? requested : 1
+  const result = await listOrdersForUser(user.id, { page, pageSize: PAGE_SIZE })
+
+  return (
+    <section className="max-w-3xl mx-auto">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Orders</h1>
+
+      {result.total === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-600">
+          You haven&apos;t placed any orders yet.{' '}
+          <Link href="/" className="text-indigo-600 hover:underline">
+            Start shopping
+          </Link>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg shadow-sm divide-y">
+          {result.items.map((order) => (
+            <li key={order.id}>
+              <Link
+                href={`/orders/${order.id}`}
+                className="flex items-center justify-between p-4 hover:bg-gray-50"
+              >
+                <div>
+                  <div className="text-sm font-semibold text-gray-900">Order #{order.number}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(order.createdAt).toLocaleDateString()} ·{' '}
+                    {order.lines.reduce((sum, line) => sum + line.quantity, 0)} items
+                  </div>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <OrderStatusBadge status={order.status} />
+                  <div className="text-sm font-semibold">{formatMoney(order.total)}</div>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result.totalPages > 1 && (
+        <nav aria-label="Pagination" className="mt-6 flex items-center justify-between text-sm">
+          {page > 1 ? (
+            <Link href={`/orders?page=${page - 1}`} className="text-indigo-600 hover:underline">
+              ← Newer
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-gray-500">
+            Page {result.page} of {result.totalPages}
+          </span>
+          {page < result.totalPages ? (
+            <Link href={`/orders?page=${page + 1}`} className="text-indigo-600 hover:underline">
+              Older →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+    </section>
+  )
+}
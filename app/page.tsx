@@ -1,108 +1,116 @@
 'use client'
 
-import React, { useEffect, useMemo, useState } from 'react'
-import Header from '../components/Header'
-import Footer from '../components/Footer'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { useCart } from '../components/CartProvider'
+import { useCurrency } from '../components/CurrencyProvider'
+import { useI18n } from '../components/I18nProvider'
+import Link from '../components/LocaleLink'
+import StockBadge from '../components/StockBadge'
+import VariantPicker from '../components/VariantPicker'
+import WishlistButton from '../components/WishlistButton'
+import { localizedPrice, localizedPriceRange } from '../lib/currency/prices'
+import { localizeProduct } from '../lib/i18n/products'
+import { isOutOfStock } from '../lib/inventory/status'
+import { formatMoney } from '../lib/money'
+import { parseProductQuery, queryProducts, toProductSearchParams } from '../lib/products/query'
+import { SAMPLE_PRODUCTS } from '../lib/products/sample'
+import { describeIssues, parseProductPage } from '../lib/products/schema'
+import type { Product, ProductPage, ProductQuery, ProductSort, ProductVariant } from '../lib/products/types'
+import { defaultVariant, hasVariants, variantImage } from '../lib/products/variants'
 
 /**
  * Main Home Page for the e-commerce site (app/page.tsx)
  *
  * - Client component providing interactive product browsing and cart management.
- * - Fetches products from /api/products with a fallback to sample products.
- * - Implements search, category filter, sorting, and a persistent cart (localStorage).
+ * - Fetches products from /api/products, checked against the product schema;
+ *   when the API is down it shows sample products with a notice.
+ * - Search, category filter and sorting are applied by the API and kept in the
+ *   URL (?q=&category=&sort=), so they survive reloads, can be shared and
+ *   follow back/forward. Category and sort changes add a history entry; the
+ *   search box replaces the current one as the shopper types.
+ * - The grid loads a page at a time: more load as the end of the grid scrolls
+ *   into view, with a "Load more" button as the fallback.
+ * - The cart comes from the shared CartProvider mounted in RootLayout.
  *
- * Note: This file is a self-contained interactive page. In a real project,
- * product fetching should be implemented via server-side functions or API routes connected to the DB.
+ * Note: products are served by the repository behind /api/products (see lib/products).
  */
 
-/* ----------------------------- Types / Interfaces ---------------------------- */
-
-export interface Product {
-  id: string
-  title: string
-  description: string
-  price: number
-  image?: string
-  category?: string
-  rating?: { rate: number; count: number }
-}
-
-interface CartItem {
-  product: Product
-  quantity: number
-}
+/* ----------------------------- Helpers & Utils ------------------------------- */
 
-/* ----------------------------- Sample Data Fallback --------------------------- */
-
-const SAMPLE_PRODUCTS: Product[] = [
-  {
-    id: 'p1',
-    title: 'Minimal Leather Wallet',
-    description: 'Handcrafted full-grain leather wallet with RFID protection.',
-    price: 49.0,
-    category: 'Accessories',
-    image: '/products/wallet.jpg',
-    rating: { rate: 4.6, count: 132 },
-  },
-  {
-    id: 'p2',
-    title: 'Cotton Crew T-Shirt',
-    description: 'Soft, breathable cotton tee with modern fit.',
-    price: 19.99,
-    category: 'Clothing',
-    image: '/products/tshirt.jpg',
-    rating: { rate: 4.3, count: 210 },
-  },
-  {
-    id: 'p3',
-    title: 'Wireless Headphones',
-    description: 'Noise-cancelling over-ear headphones with 30h battery.',
-    price: 129.0,
-    category: 'Electronics',
-    image: '/products/headphones.jpg',
-    rating: { rate: 4.7, count: 540 },
-  },
-  {
-    id: 'p4',
-    title: 'Ceramic Coffee Mug',
-    description: '350ml mug, dishwasher safe with matte finish.',
-    price: 12.5,
-    category: 'Home',
-    image: '/products/mug.jpg',
-    rating: { rate: 4.5, count: 88 },
-  },
-]
+// Divides evenly into the grid's 1-4 columns
+const PAGE_SIZE = 12
+const SKELETON_COUNT = 8
+const SEARCH_DEBOUNCE_MS = 250
+// Start loading the next page a little before the end of the grid is visible
+const SCROLL_MARGIN = '400px'
 
-/* ----------------------------- Helpers & Utils ------------------------------- */
+type ProductFilters = Pick<ProductQuery, 'q' | 'category' | 'sort'>
 
-const CART_STORAGE_KEY = 'ecom_cart_v1'
+/**
+ * A page of products and where it came from. `degraded` means the API was
+ * unreachable or answered with something unusable, and the sample catalog
+ * is shown instead so the page can say so.
+ */
+interface ProductFeed {
+  page: ProductPage
+  degraded: boolean
+}
 
-async function fetchProductsFromApi(): Promise<Product[]> {
+async function fetchProductsFromApi(query: ProductQuery): Promise<ProductFeed> {
   try {
-    const res = await fetch('/api/products', { cache: 'no-store' })
-    if (!res.ok) throw new Error('API fetch failed')
-    const data = await res.json()
-    // Basic validation
-    if (!Array.isArray(data)) throw new Error('Invalid product response')
-    return data.map((p: any) => ({
-      id: String(p.id ?? p._id ?? p.slug ?? Math.random().toString(36).slice(2)),
-      title: p.title ?? p.name ?? 'Untitled product',
-      description: p.description ?? '',
-      price: Number(p.price ?? 0),
-      category: p.category ?? 'Uncategorized',
-      image: p.image ?? p.imageUrl ?? '',
-      rating: p.rating ?? undefined,
-    }))
+    const params = toProductSearchParams({ ...query, pageSize: PAGE_SIZE })
+    const res = await fetch(`/api/products?${params}`, { cache: 'no-store' })
+    if (!res.ok) throw new Error(`GET /api/products responded with ${res.status}`)
+    const parsed = parseProductPage(await res.json())
+    if (!parsed) throw new Error('GET /api/products returned an invalid product page')
+    if (parsed.issues.length > 0) {
+      console.warn(`Skipped invalid products from /api/products:\n${describeIssues(parsed.issues)}`)
+    }
+    return { page: parsed.page, degraded: false }
   } catch (err) {
-    // Fallback to sample products
-    return SAMPLE_PRODUCTS
+    // Sample products, filtered the same way the API would
+    console.error('Falling back to sample products', err)
+    return { page: queryProducts(SAMPLE_PRODUCTS, { ...query, pageSize: PAGE_SIZE }), degraded: true }
   }
 }
 
+/**
+ * Write the filters into the address bar, keeping any other params. Plain
+ * history calls: useSearchParams picks them up without a server round trip.
+ */
+function writeFiltersToUrl(filters: ProductFilters, mode: 'push' | 'replace') {
+  const url = new URL(window.location.href)
+  ;['q', 'category', 'sort'].forEach((key) => url.searchParams.delete(key))
+  toProductSearchParams(filters).forEach((value, key) => url.searchParams.set(key, value))
+  if (url.href === window.location.href) return
+  if (mode === 'push') window.history.pushState(window.history.state, '', url)
+  else window.history.replaceState(window.history.state, '', url)
+}
+
 /* ----------------------------- UI Components -------------------------------- */
 
+/** Placeholder with a product card's shape, shown while a page of products loads. */
+function ProductCardSkeleton() {
+  return (
+    <div aria-hidden="true" className="bg-white rounded-lg shadow-sm overflow-hidden flex flex-col animate-pulse">
+      <div className="h-44 bg-gray-100" />
+      <div className="p-4 space-y-2">
+        <div className="h-4 w-3/4 rounded bg-gray-200" />
+        <div className="h-3 w-full rounded bg-gray-100" />
+        <div className="h-3 w-5/6 rounded bg-gray-100" />
+        <div className="pt-2 flex items-center justify-between">
+          <div className="h-6 w-16 rounded bg-gray-200" />
+          <div className="h-7 w-14 rounded bg-gray-200" />
+        </div>
+      </div>
+    </div>
+  )
+}
+
 /**
- * ProductCard - presentational card for a product
+ * ProductCard - presentational card for a product. Products with variants
+ * open the quick view to pick options instead of adding straight away.
  */
 function ProductCard({
   product,
@@ -113,9 +121,17 @@ function ProductCard({
   onAdd: (p: Product) => void
   onQuickView: (p: Product) => void
 }) {
+  const { currency } = useCurrency()
+  const { t } = useI18n()
+  const { min, max } = localizedPriceRange(product, currency)
   return (
     <article className="bg-white rounded-lg shadow-sm overflow-hidden flex flex-col">
-      <div className="h-44 bg-gray-50 flex items-center justify-center overflow-hidden">
+      <div className="relative h-44 bg-gray-50 flex items-center justify-center overflow-hidden">
+        <WishlistButton
+          productId={product.id}
+          productTitle={product.title}
+          className="absolute top-2 right-2 bg-white/80"
+        />
         {product.image ? (
           // eslint-disable-next-line @next/next/no-img-element
           <img
@@ -124,7 +140,7 @@ function ProductCard({
             className="object-contain h-full w-full"
           />
         ) : (
-          <div className="text-sm text-gray-400">No image</div>
+          <div className="text-sm text-gray-400">{t('product.noImage')}</div>
         )}
       </div>
       <div className="p-4 flex-1 flex flex-col">
@@ -136,21 +152,30 @@ function ProductCard({
         </p>
         <div className="flex items-center justify-between">
           <div>
-            <div className="text-lg font-bold text-indigo-600">${product.price.toFixed(2)}</div>
+            <div className="text-lg font-bold text-indigo-600">
+              {min < max && <span className="text-xs font-normal text-gray-500">{t('product.from')} </span>}
+              {formatMoney(min, currency)}
+            </div>
             <div className="text-xs text-gray-400">{product.category}</div>
+            <StockBadge stock={product.availability} showInStock={false} className="mt-1" />
           </div>
           <div className="flex flex-col items-end space-y-2">
             <button
-              onClick={() => onAdd(product)}
-              className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white text-sm"
+              onClick={() => (hasVariants(product) ? onQuickView(product) : onAdd(product))}
+              disabled={isOutOfStock(product.availability)}
+              className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-60"
             >
-              Add
+              {isOutOfStock(product.availability)
+                ? t('product.soldOut')
+                : hasVariants(product)
+                ? t('product.options')
+                : t('product.add')}
             </button>
             <button
               onClick={() => onQuickView(product)}
               className="text-xs text-gray-500 hover:text-gray-700"
             >
-              Quick view
+              {t('product.quickView')}
             </button>
           </div>
         </div>
@@ -159,422 +184,357 @@ function ProductCard({
   )
 }
 
-/**
- * CartDrawer - simple cart panel with ability to update quantity and checkout
- */
-function CartDrawer({
-  isOpen,
-  onClose,
-  cart,
-  onUpdateQty,
-  onRemove,
-  onClear,
-}: {
-  isOpen: boolean
-  onClose: () => void
-  cart: CartItem[]
-  onUpdateQty: (productId: string, qty: number) => void
-  onRemove: (productId: string) => void
-  onClear: () => void
-}) {
-  const subtotal = cart.reduce((sum, item) => sum + item.product.price * item.quantity, 0)
-  return (
-    <aside
-      className={`fixed top-0 right-0 h-full w-full md:w-96 bg-white shadow-xl transform transition-transform duration-300 z-50 ${
-        isOpen ? 'translate-x-0' : 'translate-x-full'
-      }`}
-      aria-hidden={!isOpen}
-    >
-      <div className="h-full flex flex-col">
-        <div className="p-4 border-b flex items-center justify-between">
-          <h2 className="text-lg font-semibold">Your Cart</h2>
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={onClear}
-              className="text-xs text-red-600 hover:underline"
-              aria-label="Clear cart"
-            >
-              Clear
-            </button>
-            <button
-              onClick={onClose}
-              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-sm"
-              aria-label="Close cart"
-            >
-              Close
-            </button>
-          </div>
-        </div>
-
-        <div className="p-4 flex-1 overflow-y-auto space-y-4">
-          {cart.length === 0 ? (
-            <div className="text-sm text-gray-500">Your cart is empty.</div>
-          ) : (
-            cart.map((item) => (
-              <div key={item.product.id} className="flex items-center space-x-3">
-                <div className="w-16 h-16 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
-                  {item.product.image ? (
-                    // eslint-disable-next-line @next/next/no-img-element
-                    <img src={item.product.image} alt={item.product.title} className="object-contain h-full" />
-                  ) : (
-                    <div className="text-xs text-gray-400">No image</div>
-                  )}
-                </div>
-                <div className="flex-1">
-                  <div className="text-sm font-medium">{item.product.title}</div>
-                  <div className="text-xs text-gray-500">${item.product.price.toFixed(2)}</div>
-                  <div className="mt-2 flex items-center space-x-2">
-                    <button
-                      onClick={() => onUpdateQty(item.product.id, Math.max(1, item.quantity - 1))}
-                      className="px-2 py-1 rounded border text-sm"
-                      aria-label="Decrease quantity"
-                    >
-                      -
-                    </button>
-                    <div className="text-sm">{item.quantity}</div>
-                    <button
-                      onClick={() => onUpdateQty(item.product.id, item.quantity + 1)}
-                      className="px-2 py-1 rounded border text-sm"
-                      aria-label="Increase quantity"
-                    >
-                      +
-                    </button>
-                    <button
-                      onClick={() => onRemove(item.product.id)}
-                      className="ml-3 text-xs text-red-600 hover:underline"
-                    >
-                      Remove
-                    </button>
-                  </div>
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-
-        <div className="p-4 border-t">
-          <div className="flex items-center justify-between mb-3">
-            <div className="text-sm text-gray-600">Subtotal</div>
-            <div className="text-lg font-semibold">${subtotal.toFixed(2)}</div>
-          </div>
-          <div className="space-y-2">
-            <button
-              onClick={() => alert('Proceed to checkout (demo)')}
-              disabled={cart.length === 0}
-              className="w-full py-2 rounded bg-indigo-600 text-white disabled:opacity-60"
-            >
-              Checkout
-            </button>
-            <button
-              onClick={onClose}
-              className="w-full py-2 rounded border text-sm"
-            >
-              Continue shopping
-            </button>
-          </div>
-        </div>
-      </div>
-    </aside>
-  )
-}
-
 /* ----------------------------- Main Page Component --------------------------- */
 
 export default function Page() {
   const [products, setProducts] = useState<Product[]>([])
+  const [categoryNames, setCategoryNames] = useState<string[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
   const [loading, setLoading] = useState<boolean>(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [degraded, setDegraded] = useState(false)
 
-  // Filters & UI state
-  const [search, setSearch] = useState('')
-  const [category, setCategory] = useState('All')
-  const [sortBy, setSortBy] = useState<'featured' | 'price-asc' | 'price-desc' | 'rating'>('featured')
+  // Filters live in the URL; the search box keeps its own text while typing
+  const searchParams = useSearchParams()
+  const { q, category: categoryParam, sort: sortBy } = useMemo(
+    () => parseProductQuery(new URLSearchParams(searchParams?.toString())),
+    [searchParams],
+  )
+  const category = categoryParam || 'All'
+  const [search, setSearch] = useState(q)
 
   // Cart state
-  const [cart, setCart] = useState<CartItem[]>([])
-  const [isCartOpen, setIsCartOpen] = useState(false)
+  const { cart, addItem, openCart } = useCart()
+  const { currency } = useCurrency()
+  const { locale, t } = useI18n()
 
   // Quick view modal state
   const [quickProduct, setQuickProduct] = useState<Product | null>(null)
+  const [quickVariant, setQuickVariant] = useState<ProductVariant | undefined>(undefined)
 
-  // Fetch products on mount
+  // Bumped whenever the filters change, so responses for the old ones are dropped
+  const generation = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const setFilters = (changes: ProductFilters, mode: 'push' | 'replace' = 'push') =>
+    writeFiltersToUrl({ q, category, sort: sortBy, ...changes }, mode)
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
   useEffect(() => {
-    let mounted = true
+    const timer = setTimeout(() => {
+      if (search.trim() !== q) writeFiltersToUrl({ q: search.trim(), category, sort: sortBy }, 'replace')
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search, q, category, sortBy])
+
+  // Back/forward (or a shared link) can change the query under the search box
+  useEffect(() => {
+    setSearch((current) => (current.trim() === q ? current : q))
+  }, [q])
+
+  // Start over from the first page whenever the filters change
+  useEffect(() => {
+    const current = ++generation.current
     setLoading(true)
+    setLoadingMore(false)
     setError(null)
-    fetchProductsFromApi()
-      .then((data) => {
-        if (!mounted) return
-        setProducts(data)
+    fetchProductsFromApi({ q, category, sort: sortBy, page: 1 })
+      .then(({ page, degraded }) => {
+        if (current !== generation.current) return
+        setProducts(page.items.map((product) => localizeProduct(product, locale)))
+        setCategoryNames(page.categories)
+        setTotal(page.total)
+        setPage(page.page)
+        setTotalPages(page.totalPages)
+        setDegraded(degraded)
       })
       .catch((err) => {
         console.error(err)
-        if (!mounted) return
-        setError('Failed to load products.')
+        if (current !== generation.current) return
+        setError(t('home.loadFailed'))
       })
-      .finally(() => mounted && setLoading(false))
-    return () => {
-      mounted = false
-    }
-  }, [])
-
-  // Load cart from localStorage
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(CART_STORAGE_KEY)
-      if (raw) {
-        const parsed = JSON.parse(raw) as { product: Product; quantity: number }[]
-        setCart(parsed)
-      }
-    } catch {
-      // ignore
-    }
-  }, [])
+      .finally(() => current === generation.current && setLoading(false))
+  }, [q, category, sortBy, locale, t])
+
+  const hasMore = !loading && !error && page < totalPages
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || loadingMore) return
+    const current = generation.current
+    setLoadingMore(true)
+    fetchProductsFromApi({ q, category, sort: sortBy, page: page + 1 })
+      .then(({ page: next, degraded }) => {
+        if (current !== generation.current) return
+        setProducts((list) => {
+          // Skip products that moved onto this page since the last one loaded
+          const seen = new Set(list.map((p) => p.id))
+          const added = next.items.filter((p) => !seen.has(p.id)).map((p) => localizeProduct(p, locale))
+          return [...list, ...added]
+        })
+        setTotal(next.total)
+        setPage(next.page)
+        setTotalPages(next.totalPages)
+        setDegraded(degraded)
+      })
+      .catch((err) => console.error(err))
+      .finally(() => current === generation.current && setLoadingMore(false))
+  }, [hasMore, loadingMore, q, category, sortBy, page, locale])
 
-  // Persist cart to localStorage when it changes
+  // Infinite scroll: load the next page once the end of the grid comes into view
   useEffect(() => {
-    try {
-      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart))
-    } catch {
-      // ignore storage errors
-    }
-  }, [cart])
-
-  // Derived categories
-  const categories = useMemo(() => {
-    const set = new Set<string>()
-    products.forEach((p) => {
-      if (p.category) set.add(p.category)
-    })
-    return ['All', ...Array.from(set).sort()]
-  }, [products])
-
-  // Filtered & sorted products
-  const visibleProducts = useMemo(() => {
-    let list = products.slice()
-    if (search.trim()) {
-      const q = search.toLowerCase()
-      list = list.filter((p) => p.title.toLowerCase().includes(q) || p.description.toLowerCase().includes(q))
-    }
-    if (category !== 'All') {
-      list = list.filter((p) => p.category === category)
-    }
-    if (sortBy === 'price-asc') {
-      list.sort((a, b) => a.price - b.price)
-    } else if (sortBy === 'price-desc') {
-      list.sort((a, b) => b.price - a.price)
-    } else if (sortBy === 'rating') {
-      list.sort((a, b) => (b.rating?.rate ?? 0) - (a.rating?.rate ?? 0))
-    }
-    // featured = original order
-    return list
-  }, [products, search, category, sortBy])
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore()
+      },
+      { rootMargin: SCROLL_MARGIN },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore])
+
+  const categories = useMemo(() => ['All', ...categoryNames], [categoryNames])
 
   /* ----------------------------- Cart helpers ----------------------------- */
 
-  const handleAddToCart = (product: Product, qty = 1) => {
-    setCart((prev) => {
-      const idx = prev.findIndex((it) => it.product.id === product.id)
-      if (idx >= 0) {
-        const copy = prev.slice()
-        copy[idx] = { ...copy[idx], quantity: copy[idx].quantity + qty }
-        return copy
-      }
-      return [...prev, { product, quantity: qty }]
-    })
-    setIsCartOpen(true)
+  const handleAddToCart = (product: Product, qty = 1, variant?: ProductVariant) => {
+    addItem({ productId: product.id, variantId: variant?.id }, qty)
+    openCart()
   }
 
-  const handleUpdateQty = (productId: string, quantity: number) => {
-    setCart((prev) => prev
-      .map((it) => (it.product.id === productId ? { ...it, quantity } : it))
-      .filter((it) => it.quantity > 0))
+  const openQuickView = (product: Product) => {
+    setQuickProduct(product)
+    setQuickVariant(defaultVariant(product))
   }
 
-  const handleRemove = (productId: string) => {
-    setCart((prev) => prev.filter((it) => it.product.id !== productId))
-  }
-
-  const handleClearCart = () => {
-    setCart([])
-  }
+  const quickStock = quickVariant ? quickVariant.availability : quickProduct?.availability
 
   /* ----------------------------- UI Rendering ----------------------------- */
 
   return (
-    <div className="min-h-screen flex flex-col bg-gray-50">
-      <Header />
-
-      <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
-        {/* Hero / Banner */}
-        <section className="rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 text-white p-6 mb-8 flex flex-col md:flex-row items-center justify-between">
-          <div className="max-w-2xl">
-            <h1 className="text-3xl md:text-4xl font-extrabold">Discover modern essentials</h1>
-            <p className="mt-2 text-indigo-100">Quality products curated for everyday life. Shop with fast shipping and easy returns.</p>
-            <div className="mt-4 flex items-center space-x-3">
-              <button
-                onClick={() => window.scrollTo({ top: 500, behavior: 'smooth' })}
-                className="px-4 py-2 rounded bg-white text-indigo-600 font-semibold"
-              >
-                Shop Now
-              </button>
-              <button
-                onClick={() => alert('Open deals (demo)')}
-                className="px-3 py-2 rounded border border-white text-white text-sm"
-              >
-                Today's deals
-              </button>
-            </div>
+    <>
+      {/* Hero / Banner */}
+      <section className="rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 text-white p-6 mb-8 flex flex-col md:flex-row items-center justify-between">
+        <div className="max-w-2xl">
+          <h1 className="text-3xl md:text-4xl font-extrabold">{t('home.title')}</h1>
+          <p className="mt-2 text-indigo-100">{t('home.intro')}</p>
+          <div className="mt-4 flex items-center space-x-3">
+            <button
+              onClick={() => window.scrollTo({ top: 500, behavior: 'smooth' })}
+              className="px-4 py-2 rounded bg-white text-indigo-600 font-semibold"
+            >
+              {t('home.shopNow')}
+            </button>
+            <Link href="/deals" className="px-3 py-2 rounded border border-white text-white text-sm">
+              {t('home.deals')}
+            </Link>
           </div>
-          <div className="mt-6 md:mt-0 md:ml-6">
-            <div className="bg-white rounded-lg p-4 text-gray-700">
-              <div className="text-sm">Free shipping</div>
-              <div className="text-lg font-semibold">On orders over $50</div>
-            </div>
+        </div>
+        <div className="mt-6 md:mt-0 md:ml-6">
+          <div className="bg-white rounded-lg p-4 text-gray-700">
+            <div className="text-sm">{t('home.freeShipping')}</div>
+            <div className="text-lg font-semibold">{t('home.freeShippingOver')}</div>
+          </div>
+        </div>
+      </section>
+
+      {/* Controls */}
+      <section className="mb-6">
+        <div className="flex flex-col md:flex-row md:items-center md:space-x-4 space-y-3 md:space-y-0">
+          <div className="flex-1">
+            <label className="relative block">
+              <span className="sr-only">{t('search.label')}</span>
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="placeholder-gray-400 w-full rounded-md border border-gray-200 bg-white py-2 pl-3 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder={t('home.searchPlaceholder')}
+              />
+              <span className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 text-sm">
+                ⌕
+              </span>
+            </label>
           </div>
-        </section>
-
-        {/* Controls */}
-        <section className="mb-6">
-          <div className="flex flex-col md:flex-row md:items-center md:space-x-4 space-y-3 md:space-y-0">
-            <div className="flex-1">
-              <label className="relative block">
-                <span className="sr-only">Search products</span>
-                <input
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  className="placeholder-gray-400 w-full rounded-md border border-gray-200 bg-white py-2 pl-3 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  placeholder="Search products, categories, brands..."
-                />
-                <span className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 text-sm">
-                  ⌕
-                </span>
-              </label>
-            </div>
 
-            <div className="flex items-center space-x-3">
-              <select
-                value={category}
-                onChange={(e) => setCategory(e.target.value)}
-                className="rounded border border-gray-200 bg-white py-2 px-3 text-sm"
-                aria-label="Filter by category"
-              >
-                {categories.map((c) => (
-                  <option key={c} value={c}>
-                    {c}
-                  </option>
-                ))}
-              </select>
-
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as any)}
-                className="rounded border border-gray-200 bg-white py-2 px-3 text-sm"
-                aria-label="Sort products"
-              >
-                <option value="featured">Featured</option>
-                <option value="price-asc">Price: Low to high</option>
-                <option value="price-desc">Price: High to low</option>
-                <option value="rating">Rating</option>
-              </select>
-
-              <button
-                onClick={() => setIsCartOpen(true)}
-                className="px-3 py-2 rounded bg-indigo-600 text-white text-sm"
-              >
-                Cart ({cart.reduce((s, it) => s + it.quantity, 0)})
-              </button>
-            </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={category}
+              onChange={(e) => setFilters({ category: e.target.value })}
+              className="rounded border border-gray-200 bg-white py-2 px-3 text-sm"
+              aria-label={t('home.filterCategory')}
+            >
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {c === 'All' ? t('home.allCategories') : c}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={sortBy}
+              onChange={(e) => setFilters({ sort: e.target.value as ProductSort })}
+              className="rounded border border-gray-200 bg-white py-2 px-3 text-sm"
+              aria-label={t('home.sort')}
+            >
+              <option value="featured">{t('sort.featured')}</option>
+              <option value="price-asc">{t('sort.priceAsc')}</option>
+              <option value="price-desc">{t('sort.priceDesc')}</option>
+              <option value="rating">{t('sort.rating')}</option>
+            </select>
+
+            <button
+              onClick={openCart}
+              className="px-3 py-2 rounded bg-indigo-600 text-white text-sm"
+            >
+              {t('home.cartButton', { count: cart.itemCount })}
+            </button>
           </div>
-        </section>
-
-        {/* Content */}
-        <section>
-          {loading ? (
-            <div className="py-20 text-center text-gray-500">Loading products...</div>
-          ) : error ? (
-            <div className="py-20 text-center text-red-600">{error}</div>
-          ) : visibleProducts.length === 0 ? (
-            <div className="py-20 text-center text-gray-500">No products found.</div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {visibleProducts.map((p) => (
+        </div>
+      </section>
+
+      {/* Content */}
+      <section>
+        {degraded && !loading && (
+          <div role="status" className="mb-4 rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {t('home.degraded')}
+          </div>
+        )}
+        {loading ? (
+          <div aria-busy="true" className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            <span className="sr-only">{t('home.loading')}</span>
+            {Array.from({ length: SKELETON_COUNT }, (_, i) => (
+              <ProductCardSkeleton key={i} />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="py-20 text-center text-red-600">{error}</div>
+        ) : products.length === 0 ? (
+          <div className="py-20 text-center text-gray-500">{t('home.noProducts')}</div>
+        ) : (
+          <>
+            <div
+              aria-busy={loadingMore}
+              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
+            >
+              {products.map((p) => (
                 <ProductCard
                   key={p.id}
                   product={p}
                   onAdd={(prod) => handleAddToCart(prod, 1)}
-                  onQuickView={(prod) => setQuickProduct(prod)}
+                  onQuickView={openQuickView}
                 />
               ))}
+              {loadingMore &&
+                Array.from({ length: Math.min(PAGE_SIZE, total - products.length, 4) }, (_, i) => (
+                  <ProductCardSkeleton key={`more-${i}`} />
+                ))}
             </div>
-          )}
-        </section>
-
-        {/* Quick view modal */}
-        {quickProduct && (
+            <div ref={sentinelRef} className="mt-8 flex flex-col items-center gap-3 text-sm text-gray-500">
+              <span>{t('home.showing', { shown: products.length, total })}</span>
+              {hasMore && (
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-4 py-2 rounded border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                >
+                  {loadingMore ? t('home.loading') : t('home.loadMore')}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </section>
+
+      {/* Quick view modal */}
+      {quickProduct && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40"
+          onClick={() => setQuickProduct(null)}
+        >
           <div
-            role="dialog"
-            aria-modal="true"
-            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40"
-            onClick={() => setQuickProduct(null)}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg max-w-2xl w-full overflow-hidden"
           >
-            <div
-              onClick={(e) => e.stopPropagation()}
-              className="bg-white rounded-lg max-w-2xl w-full overflow-hidden"
-            >
-              <div className="p-4 flex items-start space-x-4">
-                <div className="w-40 h-40 bg-gray-50 flex items-center justify-center rounded">
-                  {quickProduct.image ? (
-                    // eslint-disable-next-line @next/next/no-img-element
-                    <img src={quickProduct.image} alt={quickProduct.title} className="object-contain h-full" />
-                  ) : (
-                    <div className="text-xs text-gray-400">No image</div>
-                  )}
-                </div>
-                <div className="flex-1">
+            <div className="p-4 flex items-start space-x-4">
+              <div className="w-40 h-40 bg-gray-50 flex items-center justify-center rounded">
+                {variantImage(quickProduct, quickVariant) ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={variantImage(quickProduct, quickVariant)}
+                    alt={quickProduct.title}
+                    className="object-contain h-full"
+                  />
+                ) : (
+                  <div className="text-xs text-gray-400">{t('product.noImage')}</div>
+                )}
+              </div>
+              <div className="flex-1">
+                <div className="flex items-start justify-between gap-2">
                   <h3 className="text-lg font-semibold">{quickProduct.title}</h3>
-                  <p className="text-sm text-gray-600 mt-1">{quickProduct.description}</p>
-                  <div className="mt-4 flex items-center justify-between">
-                    <div className="text-xl font-bold">${quickProduct.price.toFixed(2)}</div>
-                    <div>
-                      <button
-                        onClick={() => {
-                          handleAddToCart(quickProduct)
-                          setQuickProduct(null)
-                        }}
-                        className="px-4 py-2 rounded bg-indigo-600 text-white"
-                      >
-                        Add to cart
-                      </button>
+                  <WishlistButton
+                    productId={quickProduct.id}
+                    variantId={quickVariant?.id}
+                    productTitle={quickProduct.title}
+                  />
+                </div>
+                <p className="text-sm text-gray-600 mt-1">{quickProduct.description}</p>
+                <Link
+                  href={`/products/${encodeURIComponent(quickProduct.id)}`}
+                  className="inline-block mt-2 text-sm text-indigo-600 hover:underline"
+                >
+                  {t('product.viewDetails')}
+                </Link>
+                {hasVariants(quickProduct) && (
+                  <div className="mt-4">
+                    <VariantPicker
+                      product={quickProduct}
+                      variant={quickVariant}
+                      onChange={setQuickVariant}
+                      idPrefix="quick-view"
+                    />
+                  </div>
+                )}
+                <div className="mt-4 flex items-center justify-between">
+                  <div>
+                    <div className="text-xl font-bold">
+                      {formatMoney(localizedPrice(quickProduct, quickVariant, currency), currency)}
                     </div>
+                    <StockBadge stock={quickStock} className="mt-1" />
+                  </div>
+                  <div>
+                    <button
+                      onClick={() => {
+                        handleAddToCart(quickProduct, 1, quickVariant)
+                        setQuickProduct(null)
+                      }}
+                      disabled={isOutOfStock(quickStock)}
+                      className="px-4 py-2 rounded bg-indigo-600 text-white disabled:opacity-60"
+                    >
+                      {isOutOfStock(quickStock) ? t('product.outOfStock') : t('product.addToCart')}
+                    </button>
                   </div>
                 </div>
-                <div>
-                  <button
-                    onClick={() => setQuickProduct(null)}
-                    className="text-gray-500 hover:text-gray-700"
-                    aria-label="Close quick view"
-                  >
-                    ✕
-                  </button>
-                </div>
+              </div>
+              <div>
+                <button
+                  onClick={() => setQuickProduct(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                  aria-label={t('product.closeQuickView')}
+                >
+                  ✕
+                </button>
               </div>
             </div>
           </div>
-        )}
-      </main>
-
-      <Footer />
-
-      {/* Cart Drawer */}
-      <CartDrawer
-        isOpen={isCartOpen}
-        onClose={() => setIsCartOpen(false)}
-        cart={cart}
-        onUpdateQty={handleUpdateQty}
-        onRemove={handleRemove}
-        onClear={handleClearCart}
-      />
-    </div>
+        </div>
+      )}
+    </>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,229 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import Breadcrumbs from '../../../components/Breadcrumbs'
+import ProductPurchase from '../../../components/ProductPurchase'
+import ProductReviews from '../../../components/ProductReviews'
+import StarRating from '../../../components/StarRating'
+import { getCurrentUser } from '../../../lib/auth/session'
+import { getCatalog } from '../../../lib/catalog/service'
+import { categoryBreadcrumbs, categoryForProduct } from '../../../lib/catalog/tree'
+import type { Crumb } from '../../../lib/catalog/types'
+import { localizedPrice } from '../../../lib/currency/prices'
+import { getCurrency } from '../../../lib/currency/session'
+import { LOCALES } from '../../../lib/i18n/config'
+import { localeAlternates } from '../../../lib/i18n/metadata'
+import { localizeProduct } from '../../../lib/i18n/products'
+import { getLocale } from '../../../lib/i18n/session'
+import { withAvailability } from '../../../lib/inventory/service'
+import { isOutOfStock } from '../../../lib/inventory/status'
+import type { CurrencyCode } from '../../../lib/money'
+import { decodeSegment } from '../../../lib/params'
+import { getProductRepository } from '../../../lib/products/repository'
+import type { Product, ProductVariant } from '../../../lib/products/types'
+import { hasVariants, variantImage } from '../../../lib/products/variants'
+import { getReviewEligibility, listProductReviews, parseReviewQuery } from '../../../lib/reviews/service'
+import type { PublicReview, ReviewQuery } from '../../../lib/reviews/types'
+import { SITE_NAME, absoluteUrl } from '../../../lib/site'
+
+/**
+ * Product detail page (app/products/[id]/page.tsx)
+ *
+ * - Server-rendered so products can be shared, indexed and deep-linked.
+ * - Emits per-product metadata and schema.org Product/Offer JSON-LD.
+ * - `?variant=<id>` preselects a variant for products with options.
+ * - `?sort`, `?stars`, `?photos=1` and `?page` sort, filter and page the reviews.
+ */
+
+interface ProductPageProps {
+  params: { id: string }
+  searchParams: { variant?: string; sort?: string; stars?: string; photos?: string; page?: string }
+}
+
+/** The product in the page's language, with live stock. */
+async function loadProduct(id: string): Promise<Product | null> {
+  const repo = await getProductRepository()
+  const product = await repo.get(decodeSegment(id))
+  if (!product) return null
+  const [withStock] = await withAvailability([product])
+  return localizeProduct(withStock, getLocale())
+}
+
+function productPath(product: Product) {
+  return `/products/${encodeURIComponent(product.id)}`
+}
+
+/** Link to the reviews with some of the query changed. Changing a filter goes back to page 1. */
+function reviewsHref(
+  product: Product,
+  variant: string | undefined,
+  query: ReviewQuery,
+  changes: Partial<ReviewQuery>,
+) {
+  const next = { ...query, page: 1, ...changes }
+  const params = new URLSearchParams()
+  if (variant) params.set('variant', variant)
+  if (next.sort !== 'newest') params.set('sort', next.sort)
+  if (next.stars) params.set('stars', String(next.stars))
+  if (next.withPhotos) params.set('photos', '1')
+  if (next.page > 1) params.set('page', String(next.page))
+  const qs = params.toString()
+  return `${productPath(product)}${qs ? `?${qs}` : ''}#reviews`
+}
+
+/** Home / Shop / <category trail> / product, or just Home / product when uncategorized. */
+async function productBreadcrumbs(product: Product): Promise<Crumb[]> {
+  const { categories } = await getCatalog()
+  const category = categoryForProduct(categories, product)
+  const trail = category ? categoryBreadcrumbs(categories, category) : [{ label: 'Home', href: '/' }]
+  return [...trail, { label: product.title, href: productPath(product) }]
+}
+
+function offerJsonLd(product: Product, currency: CurrencyCode, variant?: ProductVariant) {
+  const stock = variant ? variant.availability : product.availability
+  const path = variant ? `${productPath(product)}?variant=${encodeURIComponent(variant.id)}` : productPath(product)
+  return {
+    '@type': 'Offer',
+    url: absoluteUrl(path),
+    sku: variant?.sku,
+    price: localizedPrice(product, variant, currency).toFixed(2),
+    priceCurrency: currency,
+    availability: isOutOfStock(stock) ? 'https://schema.org/OutOfStock' : 'https://schema.org/InStock',
+    seller: { '@type': 'Organization', name: SITE_NAME },
+  }
+}
+
+/**
+ * schema.org Product with one Offer, or one per variant, and the reviews
+ * on the current page, see https://schema.org/Product. Offers are in the
+ * shopper's currency so they match the price on the page.
+ */
+function productJsonLd(product: Product, reviews: PublicReview[], currency: CurrencyCode) {
+  const images = [product.image, ...(product.variants ?? []).map((v) => variantImage(product, v))]
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    productID: product.id,
+    name: product.title,
+    description: product.description,
+    image: images.some(Boolean)
+      ? Array.from(new Set(images.filter((src): src is string => !!src)), absoluteUrl)
+      : undefined,
+    category: product.category,
+    aggregateRating: product.rating
+      ? {
+          '@type': 'AggregateRating',
+          ratingValue: product.rating.rate,
+          reviewCount: product.rating.count,
+        }
+      : undefined,
+    review: reviews.length
+      ? reviews.map((review) => ({
+          '@type': 'Review',
+          author: { '@type': 'Person', name: review.authorName },
+          datePublished: review.createdAt.slice(0, 10),
+          name: review.title,
+          reviewBody: review.body,
+          reviewRating: { '@type': 'Rating', ratingValue: review.rating, bestRating: 5 },
+        }))
+      : undefined,
+    offers: hasVariants(product)
+      ? product.variants!.map((variant) => offerJsonLd(product, currency, variant))
+      : offerJsonLd(product, currency),
+  }
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const product = await loadProduct(params.id)
+  if (!product) {
+    return { title: 'Product not found', robots: { index: false } }
+  }
+
+  const images = product.image ? [{ url: product.image, alt: product.title }] : undefined
+  const locale = getLocale()
+  return {
+    title: product.title,
+    description: product.description,
+    alternates: localeAlternates(productPath(product), locale),
+    openGraph: {
+      title: product.title,
+      description: product.description,
+      url: productPath(product),
+      siteName: SITE_NAME,
+      images,
+      locale: LOCALES[locale].ogLocale,
+      type: 'website',
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: product.title,
+      description: product.description,
+      images: product.image ? [product.image] : undefined,
+    },
+  }
+}
+
+export default async function ProductPage({ params, searchParams }: ProductPageProps) {
+  const product = await loadProduct(params.id)
+  if (!product) notFound()
+
+  const user = await getCurrentUser()
+  const reviewQuery = parseReviewQuery(new URLSearchParams(searchParams as Record<string, string>))
+  const [reviews, eligibility] = await Promise.all([
+    listProductReviews(product.id, reviewQuery, user?.id),
+    getReviewEligibility(user, product.id),
+  ])
+
+  return (
+    <article className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <script
+        type="application/ld+json"
+        // JSON.stringify output is safe to inline once "<" is escaped
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(productJsonLd(product, reviews.items, getCurrency())).replace(/</g, '\\u003c'),
+        }}
+      />
+
+      <Breadcrumbs items={await productBreadcrumbs(product)} className="px-6 pt-6" />
+
+      <ProductPurchase
+        product={product}
+        initialVariantId={searchParams.variant}
+        header={
+          <>
+            {product.category && (
+              <div className="text-xs uppercase tracking-wider text-gray-400">{product.category}</div>
+            )}
+            <h1 className="mt-1 text-2xl md:text-3xl font-bold text-gray-900">{product.title}</h1>
+            {product.rating && (
+              <a href="#reviews" className="mt-2 inline-flex items-center gap-1 text-sm text-gray-600 hover:underline">
+                <StarRating rating={product.rating.rate} />
+                {product.rating.rate.toFixed(1)}{' '}
+                <span className="text-gray-400">({product.rating.count} reviews)</span>
+              </a>
+            )}
+          </>
+        }
+        footer={
+          <div className="mt-8">
+            <Link href="/" className="text-sm text-indigo-600 hover:underline">
+              ← Continue shopping
+            </Link>
+          </div>
+        }
+      >
+        <p className="mt-4 text-gray-700">{product.description}</p>
+      </ProductPurchase>
+
+      <ProductReviews
+        productId={product.id}
+        reviews={reviews}
+        query={reviewQuery}
+        eligibility={eligibility}
+        hrefFor={(changes) => reviewsHref(product, searchParams.variant, reviewQuery, changes)}
+        signInHref={`/signin?next=${encodeURIComponent(`${productPath(product)}#reviews`)}`}
+      />
+    </article>
+  )
+}
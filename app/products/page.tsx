@@ -0,0 +1,6 @@
+import { permanentRedirect } from 'next/navigation'
+
+/** /products (linked from the Footer) is the full catalog at /shop. */
+export default function ProductsIndexPage() {
+  permanentRedirect('/shop')
+}
@@ -0,0 +1,20 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { ResetPasswordForm } from '../../components/AuthForms'
+
+export const metadata: Metadata = { title: 'Choose a new password', robots: { index: false } }
+
+export default function ResetPasswordPage({ searchParams }: { searchParams: { token?: string } }) {
+  if (!searchParams.token) {
+    return (
+      <section className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-6 text-center">
+        <p className="text-gray-700">This reset link is invalid or has expired.</p>
+        <Link href="/forgot-password" className="inline-block mt-4 text-indigo-600 hover:underline">
+          Request a new link
+        </Link>
+      </section>
+    )
+  }
+  return <ResetPasswordForm token={searchParams.token} />
+}
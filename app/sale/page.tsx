@@ -0,0 +1,6 @@
+import { permanentRedirect } from 'next/navigation'
+
+/** /sale (linked from the Footer) lives at /shop/sale. */
+export default function SaleRedirectPage() {
+  permanentRedirect('/shop/sale')
+}
@@ -0,0 +1,216 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import ProductGrid from '../../components/ProductGrid'
+import { withAvailability } from '../../lib/inventory/service'
+import { PRICE_BUCKETS, type FacetValue, type PriceBucketId } from '../../lib/search/engine'
+import { search } from '../../lib/search'
+
+const PAGE_SIZE = 24
+
+type SearchParam = string | string[] | undefined
+
+interface SearchPageProps {
+  searchParams: {
+    q?: SearchParam
+    category?: SearchParam
+    price?: SearchParam
+    rating?: SearchParam
+    page?: SearchParam
+  }
+}
+
+/** A repeated key (`?q=a&q=b`) arrives as a list; the first value wins. */
+function first(value: SearchParam): string {
+  return (Array.isArray(value) ? value[0] : value) ?? ''
+}
+
+interface SearchState {
+  q: string
+  category?: string
+  price?: PriceBucketId
+  rating?: number
+  page: number
+}
+
+function parseSearchParams(params: SearchPageProps['searchParams']): SearchState {
+  const price = PRICE_BUCKETS.find((b) => b.id === first(params.price))?.id
+  const rating = Number.parseInt(first(params.rating), 10)
+  const page = Number.parseInt(first(params.page) || '1', 10)
+  return {
+    q: first(params.q).trim(),
+    category: first(params.category).trim() || undefined,
+    price,
+    rating: rating >= 1 && rating <= 5 ? rating : undefined,
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  }
+}
+
+/** Link to /search with some state changed. Changing a filter always goes back to page 1. */
+function searchHref(state: SearchState, changes: Partial<SearchState>) {
+  const next = { ...state, page: 1, ...changes }
+  const params = new URLSearchParams()
+  if (next.q) params.set('q', next.q)
+  if (next.category) params.set('category', next.category)
+  if (next.price) params.set('price', next.price)
+  if (next.rating) params.set('rating', String(next.rating))
+  if (next.page > 1) params.set('page', String(next.page))
+  const qs = params.toString()
+  return qs ? `/search?${qs}` : '/search'
+}
+
+export function generateMetadata({ searchParams }: SearchPageProps): Metadata {
+  const q = first(searchParams.q).trim()
+  return { title: q ? `Search results for "${q}"` : 'Search', robots: { index: false } }
+}
+
+function FacetGroup<T extends string | number>({
+  title,
+  values,
+  active,
+  hrefFor,
+}: {
+  title: string
+  values: FacetValue<T>[]
+  active?: T
+  hrefFor: (value: T | undefined) => string
+}) {
+  if (values.length === 0) return null
+  return (
+    <div>
+      <h2 className="text-sm font-semibold text-gray-900 mb-2">{title}</h2>
+      <ul className="space-y-1 text-sm">
+        {values.map((facet) => {
+          const selected = facet.value === active
+          return (
+            <li key={String(facet.value)}>
+              <Link
+                href={hrefFor(selected ? undefined : facet.value)}
+                aria-current={selected ? 'true' : undefined}
+                className={`flex justify-between rounded px-2 py-1 ${
+                  selected ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span>{facet.label}</span>
+                <span className="text-gray-400">{facet.count}</span>
+              </Link>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Search results (app/search/page.tsx) - ranked matches from the in-process
+ * index with category, price and rating facets. Fully server-rendered; every
+ * filter is a plain link so results can be shared and bookmarked.
+ */
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const state = parseSearchParams(searchParams)
+  const result = await search(state.q, {
+    category: state.category,
+    price: state.price,
+    minRating: state.rating,
+    page: state.page,
+    pageSize: PAGE_SIZE,
+  })
+  const products = await withAvailability(result.items.map((hit) => hit.product))
+  const hasFilters = Boolean(state.category || state.price || state.rating)
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {state.q ? <>Results for &ldquo;{state.q}&rdquo;</> : 'All products'}
+        </h1>
+        <p className="text-sm text-gray-500">
+          {result.total} {result.total === 1 ? 'product' : 'products'}
+        </p>
+        <form action="/search" method="get" role="search" className="mt-4 flex max-w-xl">
+          <label htmlFor="search-page-q" className="sr-only">
+            Search products
+          </label>
+          <input
+            id="search-page-q"
+            name="q"
+            type="search"
+            defaultValue={state.q}
+            placeholder="Search products..."
+            className="flex-1 border rounded-l px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button type="submit" className="px-4 py-2 rounded-r bg-indigo-600 hover:bg-indigo-700 text-white">
+            Search
+          </button>
+        </form>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <aside aria-label="Filters" className="bg-white rounded-lg shadow-sm p-4 space-y-6 self-start">
+          <FacetGroup
+            title="Category"
+            values={result.facets.category}
+            active={state.category}
+            hrefFor={(category) => searchHref(state, { category })}
+          />
+          <FacetGroup
+            title="Price"
+            values={result.facets.price}
+            active={state.price}
+            hrefFor={(price) => searchHref(state, { price })}
+          />
+          <FacetGroup
+            title="Rating"
+            values={result.facets.rating}
+            active={state.rating}
+            hrefFor={(rating) => searchHref(state, { rating })}
+          />
+          {hasFilters && (
+            <Link
+              href={searchHref(state, { category: undefined, price: undefined, rating: undefined })}
+              className="block text-sm text-indigo-600 hover:underline"
+            >
+              Clear filters
+            </Link>
+          )}
+        </aside>
+
+        <div className="md:col-span-3">
+          {result.total === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-600">
+              No products match your search.{' '}
+              <Link href="/" className="text-indigo-600 hover:underline">
+                Browse all products
+              </Link>
+            </div>
+          ) : (
+            <ProductGrid products={products} />
+          )}
+
+          {result.totalPages > 1 && (
+            <nav aria-label="Pagination" className="mt-6 flex items-center justify-between text-sm">
+              {state.page > 1 ? (
+                <Link href={searchHref(state, { page: state.page - 1 })} className="text-indigo-600 hover:underline">
+                  ← Previous
+                </Link>
+              ) : (
+                <span />
+              )}
+              <span className="text-gray-500">
+                Page {result.page} of {result.totalPages}
+              </span>
+              {state.page < result.totalPages ? (
+                <Link href={searchHref(state, { page: state.page + 1 })} className="text-indigo-600 hover:underline">
+                  Next →
+                </Link>
+              ) : (
+                <span />
+              )}
+            </nav>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,11 @@
+import React from 'react'
+import CollectionPage, { collectionMetadata } from '../../../components/CollectionPage'
+
+export function generateMetadata() {
+  return collectionMetadata('new')
+}
+
+/** New arrivals (app/shop/new/page.tsx) */
+export default function NewArrivalsPage({ searchParams }: { searchParams: { page?: string } }) {
+  return <CollectionPage slug="new" page={searchParams.page} />
+}
@@ -0,0 +1,36 @@
+import React from 'react'
+import Link from 'next/link'
+import CollectionPage, { collectionMetadata } from '../../components/CollectionPage'
+import { getCatalog } from '../../lib/catalog/service'
+import { categoryPath, childCategories } from '../../lib/catalog/tree'
+
+export function generateMetadata() {
+  return collectionMetadata('all')
+}
+
+/**
+ * Shop (app/shop/page.tsx) - every product, with shortcuts into the
+ * top-level categories.
+ */
+export default async function ShopPage({ searchParams }: { searchParams: { page?: string } }) {
+  const { categories } = await getCatalog()
+  const topLevel = childCategories(categories, null)
+
+  return (
+    <CollectionPage slug="all" page={searchParams.page}>
+      {topLevel.length > 0 && (
+        <nav aria-label="Categories" className="flex flex-wrap gap-2">
+          {topLevel.map((category) => (
+            <Link
+              key={category.id}
+              href={categoryPath(category)}
+              className="px-3 py-1 rounded-full bg-white border border-gray-200 text-sm text-gray-700 hover:border-indigo-300 hover:text-indigo-600"
+            >
+              {category.name}
+            </Link>
+          ))}
+        </nav>
+      )}
+    </CollectionPage>
+  )
+}
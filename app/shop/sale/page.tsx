@@ -0,0 +1,11 @@
+import React from 'react'
+import CollectionPage, { collectionMetadata } from '../../../components/CollectionPage'
+
+export function generateMetadata() {
+  return collectionMetadata('sale')
+}
+
+/** Sale (app/shop/sale/page.tsx) */
+export default function SalePage({ searchParams }: { searchParams: { page?: string } }) {
+  return <CollectionPage slug="sale" page={searchParams.page} />
+}
@@ -0,0 +1,12 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { SignInForm } from '../../components/AuthForms'
+import { getCurrentUser } from '../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'Sign in', robots: { index: false } }
+
+export default async function SignInPage({ searchParams }: { searchParams: { next?: string } }) {
+  if (await getCurrentUser()) redirect('/account')
+  return <SignInForm next={searchParams.next} />
+}
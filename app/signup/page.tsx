@@ -0,0 +1,12 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { SignUpForm } from '../../components/AuthForms'
+import { getCurrentUser } from '../../lib/auth/session'
+
+export const metadata: Metadata = { title: 'Create account', robots: { index: false } }
+
+export default async function SignUpPage({ searchParams }: { searchParams: { next?: string } }) {
+  if (await getCurrentUser()) redirect('/account')
+  return <SignUpForm next={searchParams.next} />
+}
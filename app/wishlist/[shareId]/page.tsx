@@ -0,0 +1,42 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import ProductGrid from '../../../components/ProductGrid'
+import { getSharedWishlist } from '../../../lib/wishlist/service'
+
+interface SharedWishlistPageProps {
+  params: { shareId: string }
+}
+
+export async function generateMetadata({ params }: SharedWishlistPageProps): Promise<Metadata> {
+  const wishlist = await getSharedWishlist(params.shareId)
+  return {
+    title: wishlist ? `${wishlist.ownerName}'s wishlist` : 'Wishlist not found',
+    robots: { index: false },
+  }
+}
+
+/**
+ * Shared wishlist (app/wishlist/[shareId]/page.tsx) - read-only view of a
+ * list its owner chose to share. Visitors can add items to their own cart.
+ */
+export default async function SharedWishlistPage({ params }: SharedWishlistPageProps) {
+  const wishlist = await getSharedWishlist(params.shareId)
+  if (!wishlist) notFound()
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">{wishlist.ownerName}&rsquo;s wishlist</h1>
+        <p className="text-sm text-gray-500">
+          {wishlist.items.length} {wishlist.items.length === 1 ? 'item' : 'items'}
+        </p>
+      </div>
+      {wishlist.items.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-600">This wishlist is empty.</div>
+      ) : (
+        <ProductGrid products={wishlist.items.map((item) => item.product)} />
+      )}
+    </section>
+  )
+}
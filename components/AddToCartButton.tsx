@@ -0,0 +1,41 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useCart } from './CartProvider'
+
+/**
+ * AddToCartButton - client island for server-rendered pages (e.g. product detail).
+ * Pass `variantId` for products with variants.
+ */
+export default function AddToCartButton({
+  productId,
+  variantId,
+  outOfStock = false,
+  className = '',
+}: {
+  productId: string
+  variantId?: string
+  outOfStock?: boolean
+  className?: string
+}) {
+  const { addItem, openCart } = useCart()
+  const [adding, setAdding] = useState(false)
+
+  const handleClick = async () => {
+    setAdding(true)
+    await addItem({ productId, variantId })
+    setAdding(false)
+    openCart()
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={adding || outOfStock}
+      className={`px-6 py-3 rounded bg-indigo-600 hover:bg-indigo-700 text-white font-semibold disabled:opacity-60 ${className}`}
+    >
+      {outOfStock ? 'Out of stock' : adding ? 'Adding...' : 'Add to cart'}
+    </button>
+  )
+}
@@ -0,0 +1,96 @@
+import React from 'react'
+import Link from 'next/link'
+import type { AuditAction, AuditChange, AuditEntry } from '../lib/admin/types'
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'product.created': 'Created product',
+  'product.updated': 'Edited product',
+  'product.reordered': 'Reordered',
+  'category.created': 'Created category',
+  'category.updated': 'Edited category',
+  'category.deleted': 'Deleted category',
+}
+
+const MAX_VALUE_LENGTH = 60
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+}
+
+/** The featured order is logged as two id lists; show how many products moved instead. */
+function describeChange({ field, from, to }: AuditChange): string {
+  if (field === 'order' && Array.isArray(from) && Array.isArray(to)) {
+    const moved = to.filter((id, index) => from[index] !== id).length
+    return `${moved} product${moved === 1 ? '' : 's'} moved`
+  }
+  return `${field}: ${formatValue(from)} → ${formatValue(to)}`
+}
+
+function targetHref(entry: AuditEntry): string | null {
+  if (entry.target.type === 'product') return `/admin/products/${encodeURIComponent(entry.target.id)}`
+  if (entry.target.type === 'category' && entry.action !== 'category.deleted') return '/admin/categories'
+  return null
+}
+
+/**
+ * AuditLogTable - who changed what in the catalog, newest first. Entries
+ * from one bulk edit share a batch id, shown so they can be told apart.
+ */
+export default function AuditLogTable({ entries }: { entries: AuditEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="mt-4 text-sm text-gray-600">No changes recorded yet.</p>
+  }
+
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+            <th className="py-2 pr-4 font-medium">When</th>
+            <th className="py-2 pr-4 font-medium">Who</th>
+            <th className="py-2 pr-4 font-medium">What</th>
+            <th className="py-2 font-medium">Changes</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {entries.map((entry) => {
+            const href = targetHref(entry)
+            return (
+              <tr key={entry.id} className="align-top">
+                <td className="py-2 pr-4 whitespace-nowrap text-gray-500">
+                  <time dateTime={entry.at}>{new Date(entry.at).toLocaleString()}</time>
+                </td>
+                <td className="py-2 pr-4">
+                  <span className="text-gray-900">{entry.actor.name}</span>
+                  <span className="block text-xs text-gray-500">{entry.actor.email}</span>
+                </td>
+                <td className="py-2 pr-4">
+                  <span className="text-gray-500">{ACTION_LABELS[entry.action]} </span>
+                  {href ? (
+                    <Link href={href} className="text-indigo-600 hover:underline">
+                      {entry.target.label}
+                    </Link>
+                  ) : (
+                    <span className="text-gray-900">{entry.target.label}</span>
+                  )}
+                  {entry.batchId && <span className="block text-xs text-gray-400">Batch {entry.batchId.slice(-6)}</span>}
+                </td>
+                <td className="py-2">
+                  <ul className="space-y-0.5 text-gray-700">
+                    {entry.changes.map((change) => (
+                      <li key={change.field} className="break-words">
+                        {describeChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
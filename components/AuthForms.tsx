@@ -0,0 +1,283 @@
+'use client'
+
+import React, { useId, useState, FormEvent } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { postJson } from '../lib/api'
+import { useCart } from './CartProvider'
+
+/**
+ * Client forms for /signin, /signup, /forgot-password and /reset-password.
+ * Each posts to the matching /api/auth route and shows its `{ message }`.
+ */
+
+type Status = 'idle' | 'loading' | 'success' | 'error'
+
+/**
+ * Only allow same-site relative redirects after sign-in. Browsers read "\"
+ * as "/", so "/\evil.com" is as protocol-relative as "//evil.com"; the
+ * resolved URL must also stay on this origin.
+ */
+function safeNextPath(next: string | undefined): string {
+  if (!next || !/^\/(?![/\\])/.test(next)) return '/'
+  const url = new URL(next, window.location.origin)
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/'
+}
+
+function useAuthSubmit() {
+  const [status, setStatus] = useState<Status>('idle')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<string | void>) => {
+    setStatus('loading')
+    setMessage(null)
+    try {
+      const successMessage = await action()
+      setStatus('success')
+      if (successMessage) setMessage(successMessage)
+    } catch (err) {
+      setStatus('error')
+      setMessage((err as Error).message)
+    }
+  }
+
+  return { status, message, run }
+}
+
+/** After the session cookie changes, reload server data and the (now merged) cart. */
+function useAfterSignIn(next: string) {
+  const router = useRouter()
+  const { refresh } = useCart()
+  return async () => {
+    await refresh()
+    router.push(safeNextPath(next))
+    router.refresh()
+  }
+}
+
+function Field({
+  label,
+  type = 'text',
+  value,
+  onChange,
+  autoComplete,
+}: {
+  label: string
+  type?: string
+  value: string
+  onChange: (value: string) => void
+  autoComplete?: string
+}) {
+  const id = useId()
+  return (
+    <div>
+      <label htmlFor={id} className="label">
+        {label}
+      </label>
+      <input
+        id={id}
+        type={type}
+        required
+        value={value}
+        autoComplete={autoComplete}
+        onChange={(e) => onChange(e.target.value)}
+        className="input"
+      />
+    </div>
+  )
+}
+
+function FormShell({
+  title,
+  children,
+  onSubmit,
+  status,
+  message,
+  submitLabel,
+  footer,
+}: {
+  title: string
+  children: React.ReactNode
+  onSubmit: (e: FormEvent) => void
+  status: Status
+  message: string | null
+  submitLabel: string
+  footer?: React.ReactNode
+}) {
+  return (
+    <section className="max-w-md mx-auto bg-white rounded-lg shadow-sm p-6">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">{title}</h1>
+      <form onSubmit={onSubmit} className="space-y-4">
+        {children}
+        <button
+          type="submit"
+          disabled={status === 'loading'}
+          className="w-full py-2 rounded bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-60"
+        >
+          {status === 'loading' ? 'Please wait...' : submitLabel}
+        </button>
+      </form>
+      <div role="status" aria-live="polite" className="mt-3 min-h-[1.25rem] text-sm">
+        {message && (
+          <p className={status === 'error' ? 'text-red-600' : 'text-green-600'}>{message}</p>
+        )}
+      </div>
+      {footer && <div className="mt-4 text-sm text-gray-600 space-y-1">{footer}</div>}
+    </section>
+  )
+}
+
+export function SignInForm({ next = '/' }: { next?: string }) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const { status, message, run } = useAuthSubmit()
+  const afterSignIn = useAfterSignIn(next)
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      await postJson('/api/auth/signin', { email, password })
+      await afterSignIn()
+    })
+  }
+
+  return (
+    <FormShell
+      title="Sign in"
+      onSubmit={handleSubmit}
+      status={status}
+      message={message}
+      submitLabel="Sign in"
+      footer={
+        <>
+          <p>
+            <Link href="/forgot-password" className="text-indigo-600 hover:underline">
+              Forgot your password?
+            </Link>
+          </p>
+          <p>
+            New here?{' '}
+            <Link href={`/signup?next=${encodeURIComponent(next)}`} className="text-indigo-600 hover:underline">
+              Create an account
+            </Link>
+          </p>
+        </>
+      }
+    >
+      <Field label="Email" type="email" value={email} onChange={setEmail} autoComplete="email" />
+      <Field
+        label="Password"
+        type="password"
+        value={password}
+        onChange={setPassword}
+        autoComplete="current-password"
+      />
+    </FormShell>
+  )
+}
+
+export function SignUpForm({ next = '/' }: { next?: string }) {
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const { status, message, run } = useAuthSubmit()
+  const afterSignIn = useAfterSignIn(next)
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      await postJson('/api/auth/signup', { name, email, password })
+      await afterSignIn()
+    })
+  }
+
+  return (
+    <FormShell
+      title="Create account"
+      onSubmit={handleSubmit}
+      status={status}
+      message={message}
+      submitLabel="Create account"
+      footer={
+        <p>
+          Already have an account?{' '}
+          <Link href={`/signin?next=${encodeURIComponent(next)}`} className="text-indigo-600 hover:underline">
+            Sign in
+          </Link>
+        </p>
+      }
+    >
+      <Field label="Name" value={name} onChange={setName} autoComplete="name" />
+      <Field label="Email" type="email" value={email} onChange={setEmail} autoComplete="email" />
+      <Field
+        label="Password"
+        type="password"
+        value={password}
+        onChange={setPassword}
+        autoComplete="new-password"
+      />
+    </FormShell>
+  )
+}
+
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState('')
+  const { status, message, run } = useAuthSubmit()
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const res = await postJson<{ message: string }>('/api/auth/password-reset', { email })
+      return res.message
+    })
+  }
+
+  return (
+    <FormShell
+      title="Reset your password"
+      onSubmit={handleSubmit}
+      status={status}
+      message={message}
+      submitLabel="Send reset link"
+      footer={
+        <Link href="/signin" className="text-indigo-600 hover:underline">
+          Back to sign in
+        </Link>
+      }
+    >
+      <Field label="Email" type="email" value={email} onChange={setEmail} autoComplete="email" />
+    </FormShell>
+  )
+}
+
+export function ResetPasswordForm({ token }: { token: string }) {
+  const [password, setPassword] = useState('')
+  const { status, message, run } = useAuthSubmit()
+  const afterSignIn = useAfterSignIn('/account')
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      await postJson('/api/auth/password-reset/confirm', { token, password })
+      await afterSignIn()
+    })
+  }
+
+  return (
+    <FormShell
+      title="Choose a new password"
+      onSubmit={handleSubmit}
+      status={status}
+      message={message}
+      submitLabel="Update password"
+    >
+      <Field
+        label="New password"
+        type="password"
+        value={password}
+        onChange={setPassword}
+        autoComplete="new-password"
+      />
+    </FormShell>
+  )
+}
@@ -0,0 +1,49 @@
+import React from 'react'
+import Link from 'next/link'
+import type { Crumb } from '../lib/catalog/types'
+import { absoluteUrl } from '../lib/site'
+
+/**
+ * Breadcrumbs - trail of links plus schema.org BreadcrumbList JSON-LD.
+ * The last crumb is the current page and isn't linked.
+ */
+export default function Breadcrumbs({ items, className = '' }: { items: Crumb[]; className?: string }) {
+  const jsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: item.label,
+      item: absoluteUrl(item.href),
+    })),
+  }
+
+  return (
+    <nav aria-label="Breadcrumb" className={`text-sm text-gray-500 ${className}`}>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, '\\u003c') }}
+      />
+      <ol className="flex flex-wrap items-center">
+        {items.map((item, i) => {
+          const last = i === items.length - 1
+          return (
+            <li key={item.href} className="flex items-center">
+              {i > 0 && <span className="mx-2">/</span>}
+              {last ? (
+                <span aria-current="page" className="text-gray-700">
+                  {item.label}
+                </span>
+              ) : (
+                <Link href={item.href} className="hover:text-indigo-600">
+                  {item.label}
+                </Link>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </nav>
+  )
+}
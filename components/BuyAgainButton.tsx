@@ -0,0 +1,46 @@
+'use client'
+
+import React, { useState } from 'react'
+import { postJson } from '../lib/api'
+import { useCart } from './CartProvider'
+
+/**
+ * BuyAgainButton - refills the cart with a past order's items at current prices.
+ */
+export default function BuyAgainButton({ orderId }: { orderId: string }) {
+  const { refresh, openCart } = useCart()
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClick = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      await postJson(`/api/orders/${encodeURIComponent(orderId)}/reorder`, {})
+      await refresh()
+      openCart()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={busy}
+        className="px-4 py-2 rounded bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-60"
+      >
+        {busy ? 'Adding...' : 'Buy again'}
+      </button>
+      {error && (
+        <p role="alert" className="mt-2 text-xs text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
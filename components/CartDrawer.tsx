@@ -0,0 +1,157 @@
+'use client'
+
+import React from 'react'
+import { useRouter } from 'next/navigation'
+import { useCart } from './CartProvider'
+import CartSummary from './CartSummary'
+import FreeShippingProgress from './FreeShippingProgress'
+import { useI18n } from './I18nProvider'
+import StockBadge from './StockBadge'
+import { useSaveForLater } from './WishlistProvider'
+import { localizePath } from '../lib/i18n/config'
+import { localizeProduct } from '../lib/i18n/products'
+import { atStockLimit } from '../lib/inventory/status'
+import { formatMoney } from '../lib/money'
+import { variantImage, variantTitle } from '../lib/products/variants'
+
+/**
+ * CartDrawer - slide-over cart panel with ability to update quantity and checkout.
+ * Rendered once in RootLayout and opened through useCart().openCart().
+ */
+export default function CartDrawer() {
+  const router = useRouter()
+  const { cart, error, isOpen, closeCart, updateQuantity, removeItem, clear } = useCart()
+  const saveForLater = useSaveForLater()
+  const { locale, t } = useI18n()
+  return (
+    <aside
+      className={`fixed top-0 right-0 h-full w-full md:w-96 bg-white shadow-xl transform transition-transform duration-300 z-50 ${
+        isOpen ? 'translate-x-0' : 'translate-x-full'
+      }`}
+      aria-hidden={!isOpen}
+    >
+      <div className="h-full flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <h2 className="text-lg font-semibold">
+            {t('cart.title')}{' '}
+            {cart.itemCount > 0 && (
+              <span className="text-sm font-normal text-gray-500">
+                ({t('cart.itemCount', { count: cart.itemCount })})
+              </span>
+            )}
+          </h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => clear()}
+              className="text-xs text-red-600 hover:underline"
+              aria-label={t('cart.clearCart')}
+            >
+              {t('cart.clear')}
+            </button>
+            <button
+              onClick={closeCart}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-sm"
+              aria-label="Close cart"
+            >
+              {t('cart.close')}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 flex-1 overflow-y-auto space-y-4">
+          {cart.lines.length === 0 ? (
+            <div className="text-sm text-gray-500">{t('cart.empty')}</div>
+          ) : (
+            cart.lines.map((item) => (
+              <div key={item.key} className="flex items-center space-x-3">
+                <div className="w-16 h-16 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+                  {variantImage(item.product, item.variant) ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      src={variantImage(item.product, item.variant)}
+                      alt={item.product.title}
+                      className="object-contain h-full"
+                    />
+                  ) : (
+                    <div className="text-xs text-gray-400">{t('product.noImage')}</div>
+                  )}
+                </div>
+                <div className="flex-1">
+                  <div className="text-sm font-medium">{localizeProduct(item.product, locale).title}</div>
+                  {item.variant && (
+                    <div className="text-xs text-gray-500">{variantTitle(item.product, item.variant)}</div>
+                  )}
+                  <div className="text-xs text-gray-500">{formatMoney(item.unitPrice)}</div>
+                  <StockBadge stock={item.stock} showInStock={false} className="mt-1" />
+                  <div className="mt-2 flex items-center space-x-2">
+                    <button
+                      onClick={() => updateQuantity(item, Math.max(1, item.quantity - 1))}
+                      className="px-2 py-1 rounded border text-sm"
+                      aria-label="Decrease quantity"
+                    >
+                      -
+                    </button>
+                    <div className="text-sm">{item.quantity}</div>
+                    <button
+                      onClick={() => updateQuantity(item, item.quantity + 1)}
+                      disabled={atStockLimit(item.stock, item.quantity)}
+                      className="px-2 py-1 rounded border text-sm disabled:opacity-40"
+                      aria-label="Increase quantity"
+                    >
+                      +
+                    </button>
+                    <button
+                      onClick={() => removeItem(item)}
+                      className="ml-3 text-xs text-red-600 hover:underline"
+                    >
+                      {t('cart.remove')}
+                    </button>
+                    <button
+                      onClick={() => saveForLater(item)}
+                      className="text-xs text-indigo-600 hover:underline"
+                    >
+                      {t('cart.saveForLater')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t">
+          {error && (
+            <div role="alert" className="mb-3 text-sm text-red-600">
+              {error}
+            </div>
+          )}
+          {cart.notices?.map((notice) => (
+            <div key={notice} role="status" className="mb-3 rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              {notice}
+            </div>
+          ))}
+          {cart.shipping?.freeShipping && <FreeShippingProgress progress={cart.shipping.freeShipping} />}
+          <CartSummary />
+          <div className="space-y-2">
+            <button
+              onClick={() => {
+                closeCart()
+                router.push(localizePath('/checkout', locale))
+              }}
+              disabled={cart.lines.length === 0}
+              className="w-full py-2 rounded bg-indigo-600 text-white disabled:opacity-60"
+            >
+              {t('cart.checkout')}
+            </button>
+            <button
+              onClick={closeCart}
+              className="w-full py-2 rounded border text-sm"
+            >
+              {t('cart.continueShopping')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </aside>
+  )
+}
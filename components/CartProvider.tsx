@@ -0,0 +1,149 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { useCurrency } from './CurrencyProvider'
+import {
+  addCartItem,
+  applyCartCoupon,
+  clearCartItems,
+  fetchCart,
+  removeCartCoupon,
+  removeCartItem,
+  updateCartItem,
+} from '../lib/cart/client'
+import type { CartLineRef, CartView } from '../lib/cart/types'
+import { BASE_CURRENCY, money } from '../lib/money'
+
+/**
+ * CartProvider - single source of truth for the cart on the client.
+ *
+ * Mounted once in RootLayout; Header, CartDrawer, /cart and /checkout all read
+ * from it via useCart(). Other tabs are told to refetch through the `storage`
+ * event whenever this tab changes the cart. The cart is refetched when the
+ * shopper switches currency, since the server prices it in their currency.
+ */
+
+const CART_SYNC_KEY = 'ecom_cart_sync'
+
+const EMPTY_CART: CartView = {
+  currency: BASE_CURRENCY,
+  lines: [],
+  itemCount: 0,
+  subtotal: money(0, BASE_CURRENCY),
+  discounts: [],
+  discountTotal: money(0, BASE_CURRENCY),
+  total: money(0, BASE_CURRENCY),
+  shipping: null,
+  tax: null,
+}
+
+interface CartContextValue {
+  cart: CartView
+  loading: boolean
+  error: string | null
+  isOpen: boolean
+  openCart: () => void
+  closeCart: () => void
+  /** `item.variantId` is required for products with variants. */
+  addItem: (item: CartLineRef, quantity?: number) => Promise<void>
+  updateQuantity: (line: CartLineRef, quantity: number) => Promise<void>
+  removeItem: (line: CartLineRef) => Promise<void>
+  clear: () => Promise<void>
+  /** Rejects with the API's message so the coupon field can show why a code didn't apply. */
+  applyCoupon: (code: string) => Promise<void>
+  removeCoupon: () => Promise<void>
+  refresh: () => Promise<void>
+}
+
+const CartContext = createContext<CartContextValue | null>(null)
+
+function notifyOtherTabs() {
+  try {
+    localStorage.setItem(CART_SYNC_KEY, String(Date.now()))
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [cart, setCart] = useState<CartView>(EMPTY_CART)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setCart(await fetchCart())
+      setError(null)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Apply the CartView returned by a mutation and let other tabs know
+  const apply = useCallback(async (request: Promise<CartView>) => {
+    try {
+      setCart(await request)
+      setError(null)
+      notifyOtherTabs()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [])
+
+  const applyCoupon = useCallback(async (code: string) => {
+    setCart(await applyCartCoupon(code))
+    setError(null)
+    notifyOtherTabs()
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const { currency } = useCurrency()
+  const pricedIn = useRef(currency)
+  useEffect(() => {
+    if (pricedIn.current === currency) return
+    pricedIn.current = currency
+    refresh()
+  }, [currency, refresh])
+
+  // Cross-tab sync
+  useEffect(() => {
+    function handleStorage(e: StorageEvent) {
+      if (e.key === CART_SYNC_KEY) refresh()
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [refresh])
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      cart,
+      loading,
+      error,
+      isOpen,
+      openCart: () => setIsOpen(true),
+      closeCart: () => setIsOpen(false),
+      addItem: (item, quantity = 1) => apply(addCartItem(item, quantity)),
+      updateQuantity: (line, quantity) => apply(updateCartItem(line, quantity)),
+      removeItem: (line) => apply(removeCartItem(line)),
+      clear: () => apply(clearCartItems()),
+      applyCoupon,
+      removeCoupon: () => apply(removeCartCoupon()),
+      refresh,
+    }),
+    [cart, loading, error, isOpen, apply, applyCoupon, refresh],
+  )
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>
+}
+
+export function useCart(): CartContextValue {
+  const ctx = useContext(CartContext)
+  if (!ctx) throw new Error('useCart must be used inside <CartProvider>')
+  return ctx
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import React, { useId, useState, type FormEvent } from 'react'
+import { useCart } from './CartProvider'
+import { useI18n } from './I18nProvider'
+import { formatMoney, sumMoney } from '../lib/money'
+
+/**
+ * CartSummary - subtotal, promotion discounts, coupon field, estimated
+ * shipping and tax, and total for the cart drawer and /cart. Shipping and tax
+ * are estimated for the store's default country; checkout prices them for
+ * the shopper's address.
+ */
+export default function CartSummary({ subtotalLabel }: { subtotalLabel?: string }) {
+  const { cart, applyCoupon, removeCoupon } = useCart()
+  const { t } = useI18n()
+  const id = useId()
+  const [code, setCode] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [couponError, setCouponError] = useState<string | null>(null)
+  const shipping = cart.shipping?.option
+  const { tax } = cart
+  const estimatedTotal = sumMoney(
+    [cart.total, ...(shipping ? [shipping.price] : []), ...(tax && !tax.inclusive ? [tax.amount] : [])],
+    cart.currency,
+  )
+
+  const handleApply = async (e: FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setCouponError(null)
+    try {
+      await applyCoupon(code)
+      setCode('')
+    } catch (err) {
+      setCouponError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="text-gray-600">{subtotalLabel ?? t('cart.subtotal')}</div>
+        <div className="text-gray-900">{formatMoney(cart.subtotal)}</div>
+      </div>
+
+      {cart.discounts.map((discount) => (
+        <div key={discount.promotionId} className="flex items-center justify-between text-green-700">
+          <div>
+            {discount.title}
+            {discount.code && <span className="ml-1 text-xs uppercase">({discount.code})</span>}
+          </div>
+          <div>-{formatMoney(discount.amount)}</div>
+        </div>
+      ))}
+
+      {cart.couponCode ? (
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-gray-600">
+            {t('cart.coupon')} <span className="font-medium uppercase">{cart.couponCode}</span>
+          </span>
+          <button type="button" onClick={() => removeCoupon()} className="text-red-600 hover:underline">
+            {t('cart.remove')}
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleApply} className="flex gap-2">
+          <label htmlFor={`${id}-coupon`} className="sr-only">
+            {t('cart.couponCode')}
+          </label>
+          <input
+            id={`${id}-coupon`}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder={t('cart.couponCode')}
+            autoComplete="off"
+            className="input flex-1 uppercase"
+          />
+          <button
+            type="submit"
+            disabled={busy || !code.trim()}
+            className="px-3 py-1.5 rounded border text-sm disabled:opacity-60"
+          >
+            {busy ? t('cart.applying') : t('cart.apply')}
+          </button>
+        </form>
+      )}
+      {(couponError ?? cart.couponError) && (
+        <p role="alert" className="text-xs text-red-600">
+          {couponError ?? cart.couponError}
+        </p>
+      )}
+
+      {shipping && (
+        <div className="flex items-center justify-between">
+          <div className="text-gray-600">{t('cart.estimatedShipping', { method: shipping.label })}</div>
+          {shipping.price.amount === 0 ? (
+            <div className="text-green-700">
+              {shipping.regularPrice.amount > 0 && (
+                <span className="mr-1 text-xs text-gray-400 line-through">{formatMoney(shipping.regularPrice)}</span>
+              )}
+              {t('cart.free')}
+            </div>
+          ) : (
+            <div className="text-gray-900">{formatMoney(shipping.price)}</div>
+          )}
+        </div>
+      )}
+
+      {tax && !tax.inclusive ? (
+        <div className="flex items-center justify-between">
+          <div className="text-gray-600">{t('cart.estimatedTax', { tax: tax.label.toLowerCase() })}</div>
+          <div className="text-gray-900">{formatMoney(tax.amount)}</div>
+        </div>
+      ) : (
+        !tax &&
+        cart.lines.length > 0 && (
+          <div className="flex items-center justify-between">
+            <div className="text-gray-600">{t('cart.tax')}</div>
+            <div className="text-gray-500">{t('cart.taxAtCheckout')}</div>
+          </div>
+        )
+      )}
+
+      <div className="flex items-center justify-between border-t pt-2">
+        <div className="text-gray-600">{shipping ? t('cart.estimatedTotal') : t('cart.total')}</div>
+        <div className="text-lg font-semibold">{formatMoney(estimatedTotal)}</div>
+      </div>
+      {tax?.inclusive && (
+        <p className="text-right text-xs text-gray-500">
+          {t('cart.includesTax', { amount: formatMoney(tax.amount), tax: tax.label })}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import React, { useState } from 'react'
+import { importCatalog } from '../lib/admin/client'
+import {
+  CATALOG_FIELDS,
+  type AuditChange,
+  type CatalogField,
+  type CatalogFileFormat,
+  type ImportMapping,
+  type ImportReport,
+} from '../lib/admin/types'
+
+const FIELD_LABELS: Record<CatalogField, string> = {
+  sku: 'SKU',
+  id: 'Id',
+  parentId: 'Parent id (variants)',
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  price: 'Price',
+  compareAtPrice: 'Compare-at price',
+  category: 'Category',
+  image: 'Image',
+  taxClass: 'Tax class',
+  weight: 'Weight (kg)',
+}
+
+const ACTION_LABELS = { create: 'New', update: 'Update', unchanged: 'No change' } as const
+
+const MAX_VALUE_LENGTH = 40
+
+function formatChange({ field, from, to }: AuditChange): string {
+  const format = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—'
+    const text = String(value)
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+  }
+  return `${field}: ${format(from)} → ${format(to)}`
+}
+
+/**
+ * Only the fields moved away from the guessed columns ("" for fields taken
+ * out), so the server keeps its per-record fallbacks for the rest.
+ */
+function changedMapping(guessed: ImportMapping, mapping: ImportMapping): ImportMapping {
+  return Object.fromEntries(
+    CATALOG_FIELDS.filter((field) => mapping[field] !== guessed[field]).map((field) => [field, mapping[field] ?? '']),
+  )
+}
+
+/**
+ * CatalogImportForm - pick a CSV or JSON file, check how its columns map to
+ * product fields, validate it (a dry run) and then import it. Import stays
+ * disabled until the current file and mapping have validated without errors.
+ */
+export default function CatalogImportForm() {
+  const [file, setFile] = useState<{ name: string; format: CatalogFileFormat; data: string } | null>(null)
+  const [guessed, setGuessed] = useState<ImportMapping | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [validated, setValidated] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const overrides = guessed && mapping ? changedMapping(guessed, mapping) : null
+
+  const run = async (dryRun: boolean, source = file, mappingOverrides = overrides) => {
+    if (!source) return
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await importCatalog({
+        format: source.format,
+        data: source.data,
+        mapping: mappingOverrides ?? undefined,
+        dryRun,
+      })
+      if (!mappingOverrides) setGuessed(result.mapping)
+      setReport(result)
+      setMapping(result.mapping)
+      setValidated(dryRun && result.errors.length === 0)
+    } catch (err) {
+      setReport(null)
+      setValidated(false)
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0]
+    e.target.value = ''
+    if (!picked) return
+    const format = picked.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+    const next = { name: picked.name, format, data: await picked.text() } as const
+    setFile(next)
+    setGuessed(null)
+    setMapping(null)
+    // Validate straight away so the guessed mapping and any problems show up
+    await run(true, next, null)
+  }
+
+  const handleMapping = (field: CatalogField, column: string) => {
+    setMapping((current) => ({ ...current, [field]: column || undefined }))
+    setValidated(false)
+  }
+
+  const handleImport = () => {
+    if (!report) return
+    const { created, updated } = report.summary
+    if (!window.confirm(`Add ${created} and update ${updated} products?`)) return
+    run(false)
+  }
+
+  const errorsByRow = new Map<number, string[]>()
+  for (const issue of report?.errors ?? []) {
+    errorsByRow.set(issue.row, [...(errorsByRow.get(issue.row) ?? []), issue.message])
+  }
+
+  return (
+    <div className="mt-3 space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="btn btn-ghost">
+          {file ? 'Choose another file' : 'Choose a CSV or JSON file'}
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="sr-only" />
+        </label>
+        {file && (
+          <span className="text-gray-600">
+            {file.name} ({file.format.toUpperCase()})
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      {report && mapping && (
+        <fieldset className="rounded-lg border p-4">
+          <legend className="px-1 text-sm font-semibold text-gray-900">Columns</legend>
+          <p className="text-xs text-gray-500">
+            Fields without a column are left as they are. Rows need a SKU or an id to be matched.
+          </p>
+          <div className="mt-3 grid gap-3 sm:grid-cols-3">
+            {CATALOG_FIELDS.map((field) => (
+              <div key={field}>
+                <label htmlFor={`map-${field}`} className="block text-sm font-medium text-gray-700">
+                  {FIELD_LABELS[field]}
+                </label>
+                <select
+                  id={`map-${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMapping(field, e.target.value)}
+                  className="input mt-1"
+                >
+                  <option value="">Not imported</option>
+                  {report.columns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {file && (
+        <div className="flex flex-wrap items-center gap-3">
+          <button type="button" disabled={busy} onClick={() => run(true)} className="btn btn-ghost">
+            {busy ? 'Checking...' : 'Validate'}
+          </button>
+          <button type="button" disabled={busy || !validated} onClick={handleImport} className="btn btn-primary">
+            Import
+          </button>
+          {report && !validated && !report.applied && report.errors.length === 0 && (
+            <span className="text-xs text-gray-500">Validate again after changing the columns.</span>
+          )}
+        </div>
+      )}
+
+      {report && (
+        <div>
+          <p role="status" className="text-sm text-gray-700">
+            {report.applied ? 'Imported' : report.errors.length > 0 ? 'Not imported' : 'Ready to import'}:{' '}
+            {report.summary.total} rows, {report.summary.created} new, {report.summary.updated} updated,{' '}
+            {report.summary.unchanged} unchanged
+            {report.errors.length > 0 && (
+              <span className="text-red-600">
+                , {report.errors.length} error{report.errors.length === 1 ? '' : 's'}
+              </span>
+            )}
+            .
+          </p>
+          {errorsByRow.size > 0 && (
+            <ul className="mt-3 space-y-1 text-sm text-red-600">
+              {[...errorsByRow].map(([row, messages]) => (
+                <li key={row}>
+                  Row {row}: {messages.join(' ')}
+                </li>
+              ))}
+            </ul>
+          )}
+          {report.rows.some((row) => row.action !== 'unchanged') && (
+            <div className="mt-4 overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Row</th>
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.rows
+                    .filter((row) => row.action !== 'unchanged')
+                    .map((row) => (
+                      <tr key={row.row} className="align-top">
+                        <td className="py-2 pr-4 text-gray-500">{row.row}</td>
+                        <td className="py-2 pr-4 text-gray-900">{row.label}</td>
+                        <td className="py-2 pr-4 text-gray-600">{ACTION_LABELS[row.action]}</td>
+                        <td className="py-2 text-gray-600">
+                          <ul>
+                            {row.changes.map((change) => (
+                              <li key={change.field}>{formatChange(change)}</li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createCategory, deleteCategory, updateCategory } from '../lib/admin/client'
+import type { AdminCategory, CategoryInput } from '../lib/admin/types'
+import ImageUploadField from './ImageUploadField'
+
+interface FormState {
+  name: string
+  slug: string
+  parentId: string
+  description: string
+  heroImage: string
+  taxClass: string
+}
+
+const EMPTY_FORM: FormState = { name: '', slug: '', parentId: '', description: '', heroImage: '', taxClass: '' }
+
+function toForm(category: AdminCategory): FormState {
+  return {
+    name: category.name,
+    slug: category.slug,
+    parentId: category.parentId ?? '',
+    description: category.description ?? '',
+    heroImage: category.heroImage ?? '',
+    taxClass: category.taxClass ?? '',
+  }
+}
+
+function toInput(form: FormState): CategoryInput {
+  return {
+    name: form.name,
+    // A blank slug on a new category is derived from the name
+    slug: form.slug.trim() || undefined,
+    parentId: form.parentId || null,
+    description: form.description.trim() || null,
+    heroImage: form.heroImage.trim() || null,
+    taxClass: form.taxClass.trim() || null,
+  }
+}
+
+/** The category and the rows nested under it; `categories` is in tree order. */
+function subtreeIds(categories: AdminCategory[], id: string): Set<string> {
+  const start = categories.findIndex((c) => c.id === id)
+  const ids = new Set([id])
+  for (let i = start + 1; i < categories.length && categories[i].depth > categories[start].depth; i++) {
+    ids.add(categories[i].id)
+  }
+  return ids
+}
+
+/**
+ * CategoryManager - the category tree with an editor for adding, editing
+ * and deleting categories. The list comes from the server page and is
+ * refreshed after every change, since a rename can move products too.
+ */
+export default function CategoryManager({ categories }: { categories: AdminCategory[] }) {
+  const router = useRouter()
+  // null: nothing open; '': a new category; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const set = (field: keyof FormState, value: string) => setForm((current) => ({ ...current, [field]: value }))
+
+  const open = (category?: AdminCategory) => {
+    setEditingId(category ? category.id : '')
+    setForm(category ? toForm(category) : EMPTY_FORM)
+    setError(null)
+  }
+
+  const run = async (task: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await task()
+      setEditingId(null)
+      router.refresh()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const input = toInput(form)
+    run(() => (editingId ? updateCategory(editingId, input) : createCategory(input)))
+  }
+
+  const handleDelete = (category: AdminCategory) => {
+    if (!window.confirm(`Delete the "${category.name}" category?`)) return
+    run(() => deleteCategory(category.id))
+  }
+
+  const excluded = editingId ? subtreeIds(categories, editingId) : new Set<string>()
+  const parentOptions = categories.filter((c) => !excluded.has(c.id))
+
+  return (
+    <>
+      <div className="mt-4 flex justify-end">
+        <button type="button" onClick={() => open()} className="btn btn-primary">
+          New category
+        </button>
+      </div>
+
+      {error && (
+        <div role="alert" className="mt-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4 rounded-lg border p-4">
+          <h2 className="font-semibold text-gray-900">{editingId ? 'Edit category' : 'New category'}</h2>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="category-name" className="block text-sm font-medium text-gray-700">
+                Name
+              </label>
+              <input
+                id="category-name"
+                required
+                maxLength={80}
+                value={form.name}
+                onChange={(e) => set('name', e.target.value)}
+                className="input mt-1"
+              />
+            </div>
+            <div>
+              <label htmlFor="category-slug" className="block text-sm font-medium text-gray-700">
+                Slug
+              </label>
+              <input
+                id="category-slug"
+                required={!!editingId}
+                placeholder="From the name"
+                pattern="[a-z0-9]+(-[a-z0-9]+)*"
+                value={form.slug}
+                onChange={(e) => set('slug', e.target.value)}
+                className="input mt-1"
+              />
+            </div>
+            <div>
+              <label htmlFor="category-parent" className="block text-sm font-medium text-gray-700">
+                Parent
+              </label>
+              <select
+                id="category-parent"
+                value={form.parentId}
+                onChange={(e) => set('parentId', e.target.value)}
+                className="input mt-1"
+              >
+                <option value="">None (top level)</option>
+                {parentOptions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {`${'— '.repeat(c.depth)}${c.name}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="category-description" className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              id="category-description"
+              rows={2}
+              maxLength={1000}
+              value={form.description}
+              onChange={(e) => set('description', e.target.value)}
+              className="input mt-1"
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="sm:col-span-2">
+              <ImageUploadField label="Hero image" value={form.heroImage} onChange={(url) => set('heroImage', url)} />
+            </div>
+            <div>
+              <label htmlFor="category-tax-class" className="block text-sm font-medium text-gray-700">
+                Tax class
+              </label>
+              <input
+                id="category-tax-class"
+                placeholder="From parent"
+                value={form.taxClass}
+                onChange={(e) => set('taxClass', e.target.value)}
+                className="input mt-1"
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button type="submit" disabled={busy} className="btn btn-primary">
+              {busy ? 'Saving...' : editingId ? 'Save changes' : 'Create category'}
+            </button>
+            <button type="button" onClick={() => setEditingId(null)} className="btn btn-ghost">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {categories.length === 0 ? (
+        <p className="mt-6 text-sm text-gray-600">No categories yet.</p>
+      ) : (
+        <table className="mt-4 min-w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-2 pr-3 font-medium">Name</th>
+              <th className="py-2 pr-3 font-medium">Slug</th>
+              <th className="py-2 pr-3 font-medium text-right">Products</th>
+              <th className="py-2 font-medium">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {categories.map((category) => (
+              <tr key={category.id}>
+                <td className="py-2 pr-3 text-gray-900" style={{ paddingLeft: `${category.depth * 1.25}rem` }}>
+                  {category.name}
+                </td>
+                <td className="py-2 pr-3 text-gray-500">{category.slug}</td>
+                <td className="py-2 pr-3 text-right text-gray-700">{category.productCount}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    onClick={() => open(category)}
+                    className="px-2 text-indigo-600 hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(category)}
+                    disabled={busy}
+                    className="px-2 text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,66 @@
+import React from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import ProductListing, { listingPage } from './ProductListing'
+import { loadCollectionListing } from '../lib/catalog/service'
+import { collectionPath } from '../lib/catalog/tree'
+import type { Collection, Crumb } from '../lib/catalog/types'
+
+/**
+ * CollectionPage - server-rendered listing for one collection. Backs /shop,
+ * /shop/new, /shop/sale and /collections/[slug].
+ */
+
+function collectionBreadcrumbs(collection: Collection): Crumb[] {
+  const path = collectionPath(collection)
+  const parent: Crumb =
+    path.startsWith('/shop') ? { label: 'Shop', href: '/shop' } : { label: 'Collections', href: '/collections' }
+  const trail: Crumb[] = [{ label: 'Home', href: '/' }, parent]
+  if (path !== parent.href) trail.push({ label: collection.title, href: path })
+  return trail
+}
+
+export async function collectionMetadata(slug: string): Promise<Metadata> {
+  const listing = await loadCollectionListing(slug)
+  if (!listing) return { title: 'Collection not found', robots: { index: false } }
+  const { collection } = listing
+  return {
+    title: collection.title,
+    description: collection.description,
+    alternates: { canonical: collectionPath(collection) },
+    openGraph: {
+      title: collection.title,
+      description: collection.description,
+      url: collectionPath(collection),
+      images: collection.heroImage ? [{ url: collection.heroImage, alt: collection.title }] : undefined,
+    },
+  }
+}
+
+export default async function CollectionPage({
+  slug,
+  page,
+  children,
+}: {
+  slug: string
+  page?: string
+  children?: React.ReactNode
+}) {
+  const listing = await loadCollectionListing(slug)
+  if (!listing) notFound()
+  const { collection, products } = listing
+
+  return (
+    <ProductListing
+      title={collection.title}
+      description={collection.description}
+      heroImage={collection.heroImage}
+      breadcrumbs={collectionBreadcrumbs(collection)}
+      products={products}
+      page={listingPage(page)}
+      basePath={collectionPath(collection)}
+    >
+      {children}
+    </ProductListing>
+  )
+}
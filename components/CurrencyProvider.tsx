@@ -0,0 +1,51 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { postJson } from '../lib/api'
+import type { CurrencyCode } from '../lib/money'
+
+/**
+ * CurrencyProvider - the shopper's currency on the client.
+ *
+ * RootLayout reads the `currency` cookie and passes it in, so server and
+ * client render the same prices. Switching saves the cookie through
+ * /api/currency and refreshes server components; CartProvider refetches the
+ * cart, which is priced in the new currency.
+ */
+
+interface CurrencyContextValue {
+  currency: CurrencyCode
+  setCurrency: (currency: CurrencyCode) => Promise<void>
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null)
+
+export function CurrencyProvider({
+  initialCurrency,
+  children,
+}: {
+  initialCurrency: CurrencyCode
+  children: React.ReactNode
+}) {
+  const router = useRouter()
+  const [currency, setCurrencyState] = useState(initialCurrency)
+
+  const setCurrency = useCallback(
+    async (next: CurrencyCode) => {
+      const saved = await postJson<{ currency: CurrencyCode }>('/api/currency', { currency: next })
+      setCurrencyState(saved.currency)
+      router.refresh()
+    },
+    [router],
+  )
+
+  const value = useMemo(() => ({ currency, setCurrency }), [currency, setCurrency])
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>
+}
+
+export function useCurrency(): CurrencyContextValue {
+  const ctx = useContext(CurrencyContext)
+  if (!ctx) throw new Error('useCurrency must be used inside <CurrencyProvider>')
+  return ctx
+}
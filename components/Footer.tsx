@@ -1,7 +1,10 @@
 'use client'
 
 import React, { useId, useState, FormEvent } from 'react'
-import Link from 'next/link'
+import { useI18n } from './I18nProvider'
+import LanguageSwitcher from './LanguageSwitcher'
+import Link from './LocaleLink'
+import { EMAIL_REGEX } from '../lib/validation'
 
 interface FooterProps {
   className?: string
@@ -11,15 +14,13 @@ interface FooterProps {
 
 type Status = 'idle' | 'loading' | 'success' | 'error'
 
-const EMAIL_REGEX =
-  /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-
 const Footer: React.FC<FooterProps> = ({
   className = '',
   showNewsletter = true,
   onSubscribe,
 }) => {
   const id = useId()
+  const { t } = useI18n()
   const [email, setEmail] = useState('')
   const [status, setStatus] = useState<Status>('idle')
   const [message, setMessage] = useState<string | null>(null)
@@ -32,7 +33,7 @@ const Footer: React.FC<FooterProps> = ({
 
     if (!EMAIL_REGEX.test(email)) {
       setStatus('error')
-      setMessage('Please enter a valid email address.')
+      setMessage(t('newsletter.invalidEmail'))
       return
     }
 
@@ -43,7 +44,7 @@ const Footer: React.FC<FooterProps> = ({
       if (onSubscribe) {
         await onSubscribe(email)
         setStatus('success')
-        setMessage('Subscribed successfully. Check your inbox!')
+        setMessage(t('newsletter.success'))
         setEmail('')
         return
       }
@@ -59,20 +60,18 @@ const Footer: React.FC<FooterProps> = ({
 
       if (!res.ok) {
         const err = await res.json().catch(() => null)
-        const errMsg =
-          err?.message ||
-          'Something went wrong while subscribing. Please try again later.'
+        const errMsg = err?.message || t('newsletter.failed')
         setStatus('error')
         setMessage(errMsg)
         return
       }
 
       setStatus('success')
-      setMessage('Subscribed successfully. Check your inbox!')
+      setMessage(t('newsletter.success'))
       setEmail('')
     } catch (error) {
       setStatus('error')
-      setMessage('Network error. Please try again later.')
+      setMessage(t('newsletter.networkError'))
     }
   }
 
@@ -109,10 +108,7 @@ const Footer: React.FC<FooterProps> = ({
               </svg>
               <span className="ml-3 text-lg font-semibold">E-Shop</span>
             </Link>
-            <p className="mt-4 text-sm text-gray-300">
-              Hand-picked products, fast shipping, easy returns. Built for
-              shoppers who want quality and speed.
-            </p>
+            <p className="mt-4 text-sm text-gray-300">{t('footer.tagline')}</p>
 
             <div className="mt-6 flex space-x-4">
               <a
@@ -193,27 +189,27 @@ const Footer: React.FC<FooterProps> = ({
           <div className="md:col-span-5 grid grid-cols-2 gap-8">
             <div>
               <h3 className="text-sm font-semibold text-gray-200 tracking-wider uppercase">
-                Shop
+                {t('footer.shop')}
               </h3>
               <ul className="mt-4 space-y-3 text-sm text-gray-300">
                 <li>
                   <Link href="/collections" className="hover:text-white">
-                    Collections
+                    {t('footer.collections')}
                   </Link>
                 </li>
                 <li>
                   <Link href="/products" className="hover:text-white">
-                    All Products
+                    {t('footer.allProducts')}
                   </Link>
                 </li>
                 <li>
                   <Link href="/sale" className="hover:text-white">
-                    Sale
+                    {t('footer.sale')}
                   </Link>
                 </li>
                 <li>
                   <Link href="/gift-cards" className="hover:text-white">
-                    Gift Cards
+                    {t('footer.giftCards')}
                   </Link>
                 </li>
               </ul>
@@ -221,27 +217,27 @@ const Footer: React.FC<FooterProps> = ({
 
             <div>
               <h3 className="text-sm font-semibold text-gray-200 tracking-wider uppercase">
-                Support
+                {t('footer.support')}
               </h3>
               <ul className="mt-4 space-y-3 text-sm text-gray-300">
                 <li>
                   <Link href="/about" className="hover:text-white">
-                    About Us
+                    {t('footer.aboutUs')}
                   </Link>
                 </li>
                 <li>
                   <Link href="/contact" className="hover:text-white">
-                    Contact
+                    {t('footer.contact')}
                   </Link>
                 </li>
                 <li>
                   <Link href="/faq" className="hover:text-white">
-                    FAQ
+                    {t('footer.faq')}
                   </Link>
                 </li>
                 <li>
                   <Link href="/shipping-returns" className="hover:text-white">
-                    Shipping & Returns
+                    {t('footer.shippingReturns')}
                   </Link>
                 </li>
               </ul>
@@ -250,7 +246,7 @@ const Footer: React.FC<FooterProps> = ({
 
           <div className="md:col-span-3">
             <h3 className="text-sm font-semibold text-gray-200 tracking-wider uppercase">
-              Contact
+              {t('footer.contact')}
             </h3>
             <address className="not-italic mt-4 text-sm text-gray-300 space-y-2">
               <div>123 Commerce St.</div>
@@ -276,7 +272,7 @@ const Footer: React.FC<FooterProps> = ({
 
             <div className="mt-6">
               <h4 className="text-xs uppercase text-gray-400 tracking-wider">
-                We accept
+                {t('footer.weAccept')}
               </h4>
               <div className="mt-3 flex items-center space-x-3">
                 <div className="h-8 w-12 bg-white/5 rounded flex items-center justify-center">
@@ -322,11 +318,10 @@ const Footer: React.FC<FooterProps> = ({
           <div className="mt-10 border-t border-gray-800 pt-8">
             <div className="max-w-3xl">
               <h3 className="text-lg font-semibold text-gray-100">
-                Subscribe to our newsletter
+                {t('newsletter.title')}
               </h3>
               <p className="mt-2 text-sm text-gray-300">
-                Get updates on new products, sales and more — delivered to your
-                inbox once a week.
+                {t('newsletter.description')}
               </p>
 
               <form
@@ -334,7 +329,7 @@ const Footer: React.FC<FooterProps> = ({
                 className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3"
               >
                 <label htmlFor={`${id}-email`} className="sr-only">
-                  Email address
+                  {t('newsletter.emailLabel')}
                 </label>
                 <input
                   id={`${id}-email`}
@@ -352,7 +347,9 @@ const Footer: React.FC<FooterProps> = ({
                   disabled={status === 'loading'}
                   className="inline-flex items-center justify-center rounded-md bg-indigo-500 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-600 disabled:opacity-60 transition-colors"
                 >
-                  {status === 'loading' ? 'Subscribing...' : 'Subscribe'}
+                  {status === 'loading'
+                    ? t('newsletter.subscribing')
+                    : t('newsletter.subscribe')}
                 </button>
               </form>
 
@@ -382,20 +379,21 @@ const Footer: React.FC<FooterProps> = ({
         <div className="mt-8 border-t border-gray-800 pt-6">
           <div className="flex flex-col md:flex-row items-center justify-between gap-4">
             <p className="text-sm text-gray-400">
-              &copy; {currentYear} E-Shop. All rights reserved.
+              {t('footer.copyright', { year: String(currentYear) })}
             </p>
 
             <div className="flex items-center space-x-4 text-sm text-gray-400">
               <Link href="/terms" className="hover:text-white">
-                Terms
+                {t('footer.terms')}
               </Link>
               <Link href="/privacy" className="hover:text-white">
-                Privacy
+                {t('footer.privacy')}
               </Link>
               <span className="hidden sm:inline">|</span>
               <Link href="/sitemap.xml" className="hover:text-white">
-                Sitemap
+                {t('footer.sitemap')}
               </Link>
+              <LanguageSwitcher className="rounded-md border border-gray-700 bg-gray-800 text-gray-300 py-1 pl-2 pr-7 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500" />
             </div>
           </div>
         </div>
@@ -0,0 +1,40 @@
+'use client'
+
+import React from 'react'
+import { useI18n } from './I18nProvider'
+import { formatMoney, fromCents, toMajor } from '../lib/money'
+import type { FreeShippingProgress as Progress } from '../lib/shipping/types'
+
+/**
+ * FreeShippingProgress - "spend $X more for free shipping" bar for the cart,
+ * driven by the threshold in the cart's shipping estimate.
+ */
+export default function FreeShippingProgress({ progress }: { progress: Progress }) {
+  const { t } = useI18n()
+  const threshold = progress.threshold.amount
+  const remaining = progress.remaining.amount
+  const percent = threshold > 0 ? Math.min(100, Math.round(((threshold - remaining) / threshold) * 100)) : 100
+
+  return (
+    <div className="mb-3 text-sm">
+      <p className={remaining === 0 ? 'text-green-700 font-medium' : 'text-gray-700'}>
+        {remaining === 0
+          ? t('cart.freeShippingReached')
+          : t('cart.freeShippingRemaining', { amount: formatMoney(progress.remaining) })}
+      </p>
+      <div
+        role="progressbar"
+        aria-label={t('cart.freeShippingProgress')}
+        aria-valuemin={0}
+        aria-valuemax={toMajor(progress.threshold)}
+        aria-valuenow={fromCents(threshold - remaining)}
+        className="mt-1.5 h-2 rounded-full bg-gray-200 overflow-hidden"
+      >
+        <div
+          className={`h-full rounded-full transition-all ${remaining === 0 ? 'bg-green-500' : 'bg-indigo-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
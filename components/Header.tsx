@@ -1,9 +1,17 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
-import Link from "next/link";
+import Link from "./LocaleLink";
 import Image from "next/image";
 import { usePathname, useRouter } from "next/navigation";
+import { localizePath } from "../lib/i18n/config";
+import { CURRENCIES, CURRENCY_CODES, isCurrencyCode } from "../lib/money";
+import { addRecentSearch } from "../lib/search/recent";
+import { useCart } from "./CartProvider";
+import { useCurrency } from "./CurrencyProvider";
+import { useI18n } from "./I18nProvider";
+import LanguageSwitcher from "./LanguageSwitcher";
+import SearchCombobox from "./SearchCombobox";
 
 interface Category {
   id: string;
@@ -21,7 +29,9 @@ interface User {
 interface HeaderProps {
   logoSrc?: string;
   logoAlt?: string;
+  /** Overrides the count from the shared cart (useCart). */
   cartItemCount?: number;
+  /** Category menu entries; RootLayout passes the catalog's (see getNavCategories). */
   categories?: Category[];
   user?: User | null;
   onSearch?: (query: string) => void;
@@ -29,17 +39,11 @@ interface HeaderProps {
   onSignIn?: () => void;
 }
 
-const DEFAULT_CATEGORIES: Category[] = [
-  { id: "all", name: "All Products", href: "/shop" },
-  { id: "new", name: "New Arrivals", href: "/shop/new" },
-  { id: "sale", name: "Sale", href: "/shop/sale" },
-];
-
 export default function Header({
   logoSrc = "/logo.png",
   logoAlt = "Store logo",
-  cartItemCount = 0,
-  categories = DEFAULT_CATEGORIES,
+  cartItemCount,
+  categories = [],
   user = null,
   onSearch,
   onSignOut,
@@ -52,6 +56,10 @@ export default function Header({
   const mobileMenuRef = useRef<HTMLDivElement | null>(null);
   const router = useRouter();
   const pathname = usePathname();
+  const { cart } = useCart();
+  const itemCount = cartItemCount ?? cart.itemCount;
+  const { currency, setCurrency } = useCurrency();
+  const { locale, t } = useI18n();
 
   // Close menus on route change
   useEffect(() => {
@@ -89,30 +97,48 @@ export default function Header({
     };
   }, []);
 
-  const handleSearchSubmit = (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    const q = searchValue.trim();
+  const runSearch = (query: string) => {
+    const q = query.trim();
     if (!q) return;
+    addRecentSearch(q);
     // If parent provided handler, call it; otherwise navigate to /search
     if (onSearch) {
       onSearch(q);
     } else {
       // Use router to navigate to search results
-      router.push(`/search?q=${encodeURIComponent(q)}`);
+      router.push(localizePath(`/search?q=${encodeURIComponent(q)}`, locale));
     }
     // Close mobile menu if open (mobile UX)
     setMobileMenuOpen(false);
   };
 
+  const handleSearchSubmit = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    runSearch(searchValue);
+  };
+
+  const handleCurrencyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value;
+    if (isCurrencyCode(next) && next !== currency) {
+      setCurrency(next).catch(() => null);
+    }
+  };
+
+  const currencyOptions = CURRENCY_CODES.map((code) => (
+    <option key={code} value={code} title={CURRENCIES[code].name}>
+      {code}
+    </option>
+  ));
+
   return (
-    <header className="w-full bg-white border-b border-gray-200">
+    <header className="w-full bg-white border-b border-gray-200 print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
           {/* Left: Logo */}
           <div className="flex items-center gap-4">
             <button
-              onClick={() => router.push("/")}
-              aria-label="Home"
+              onClick={() => router.push(localizePath("/", locale))}
+              aria-label={t("nav.home")}
               className="flex items-center gap-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
             >
               <Image
@@ -123,7 +149,7 @@ export default function Header({
                 className="object-contain"
                 priority
               />
-              <span className="sr-only">Home</span>
+              <span className="sr-only">{t("nav.home")}</span>
               <span className="hidden sm:inline-block text-xl font-semibold text-gray-800">
                 MyStore
               </span>
@@ -135,7 +161,7 @@ export default function Header({
                 href="/shop"
                 className="px-3 py-2 text-sm text-gray-700 hover:text-indigo-600 hover:bg-indigo-50 rounded"
               >
-                Shop
+                {t("nav.shop")}
               </Link>
 
               {/* Categories dropdown (simple hover) */}
@@ -146,7 +172,7 @@ export default function Header({
                   aria-expanded={false}
                   className="px-3 py-2 text-sm text-gray-700 hover:text-indigo-600 hover:bg-indigo-50 rounded inline-flex items-center"
                 >
-                  Categories
+                  {t("nav.categories")}
                   <svg
                     className="ml-1 h-4 w-4 text-gray-500"
                     viewBox="0 0 20 20"
@@ -181,13 +207,13 @@ export default function Header({
                 href="/about"
                 className="px-3 py-2 text-sm text-gray-700 hover:text-indigo-600 hover:bg-indigo-50 rounded"
               >
-                About
+                {t("nav.about")}
               </Link>
               <Link
                 href="/contact"
                 className="px-3 py-2 text-sm text-gray-700 hover:text-indigo-600 hover:bg-indigo-50 rounded"
               >
-                Contact
+                {t("nav.contact")}
               </Link>
             </nav>
           </div>
@@ -201,24 +227,23 @@ export default function Header({
               aria-label="Site search"
             >
               <label htmlFor="site-search" className="sr-only">
-                Search products
+                {t("search.label")}
               </label>
               <div className="relative">
-                <input
+                <SearchCombobox
                   id="site-search"
-                  name="q"
                   value={searchValue}
-                  onChange={(e) => setSearchValue(e.target.value)}
-                  type="search"
-                  placeholder="Search products, brands and categories"
+                  onValueChange={setSearchValue}
+                  onSearch={runSearch}
+                  placeholder={t("search.placeholder")}
                   className="w-full border border-gray-200 rounded-md py-2 pl-3 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                 />
                 <button
                   type="submit"
-                  aria-label="Search"
+                  aria-label={t("search.submit")}
                   className="absolute right-1 top-1/2 -translate-y-1/2 bg-indigo-600 text-white px-3 py-1 rounded text-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 >
-                  Search
+                  {t("search.submit")}
                 </button>
               </div>
             </form>
@@ -231,7 +256,7 @@ export default function Header({
               <button
                 onClick={() => setMobileMenuOpen((s) => !s)}
                 type="button"
-                aria-label="Toggle menu"
+                aria-label={t("nav.toggleMenu")}
                 aria-expanded={mobileMenuOpen}
                 className="inline-flex items-center justify-center p-2 rounded-md text-gray-600 hover:text-indigo-600 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
@@ -257,20 +282,39 @@ export default function Header({
               </button>
             </div>
 
+            {/* Language & currency */}
+            <div className="hidden sm:flex items-center gap-2">
+              <LanguageSwitcher
+                id="site-language"
+                className="border border-gray-200 rounded-md py-1.5 pl-2 pr-7 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <label htmlFor="site-currency" className="sr-only">
+                {t("header.currency")}
+              </label>
+              <select
+                id="site-currency"
+                value={currency}
+                onChange={handleCurrencyChange}
+                className="border border-gray-200 rounded-md py-1.5 pl-2 pr-7 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {currencyOptions}
+              </select>
+            </div>
+
             {/* Cart */}
             <Link
               href="/cart"
               className="relative inline-flex items-center p-2 rounded-md text-gray-600 hover:text-indigo-600 hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              aria-label="View cart"
+              aria-label={t("header.viewCart")}
             >
               <svg className="h-6 w-6" viewBox="0 0 24 24" fill="none" stroke="currentColor">
                 <path strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" d="M3 3h2l.4 2M7 13h10l4-8H5.4" />
                 <circle cx="7" cy="21" r="1" />
                 <circle cx="20" cy="21" r="1" />
               </svg>
-              {cartItemCount > 0 && (
+              {itemCount > 0 && (
                 <span className="absolute -top-1 -right-1 text-xs bg-red-600 text-white rounded-full px-1.5 py-0.5">
-                  {cartItemCount}
+                  {itemCount}
                 </span>
               )}
             </Link>
@@ -300,7 +344,7 @@ export default function Header({
                   </div>
                 )}
                 <span className="hidden sm:inline-block text-sm text-gray-700">
-                  {user ? user.name : "Account"}
+                  {user ? user.name : t("account.account")}
                 </span>
                 <svg className="hidden sm:inline-block h-4 w-4 text-gray-500" viewBox="0 0 20 20" fill="currentColor">
                   <path d="M5.23 7.21a.75.75 0 011.06.02L10 10.94l3.71-3.71a.75.75 0 111.06 1.06L10.53 13a.75.75 0 01-1.06 0L5.21 8.29a.75.75 0 01.02-1.08z" />
@@ -312,23 +356,29 @@ export default function Header({
                 <div
                   role="menu"
                   aria-orientation="vertical"
-                  aria-label="Account options"
+                  aria-label={t("account.options")}
                   className="absolute right-0 mt-2 w-44 bg-white border border-gray-200 rounded shadow-lg z-30"
                 >
                   <div className="py-1">
                     {user ? (
                       <>
                         <Link href="/account" className="block px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50">
-                          My Account
+                          {t("account.myAccount")}
                         </Link>
                         <Link href="/orders" className="block px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50">
-                          Orders
+                          {t("account.orders")}
+                        </Link>
+                        <Link
+                          href="/account/wishlist"
+                          className="block px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50"
+                        >
+                          {t("account.wishlist")}
                         </Link>
                         <button
                           onClick={() => onSignOut?.()}
                           className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50"
                         >
-                          Sign out
+                          {t("account.signOut")}
                         </button>
                       </>
                     ) : (
@@ -337,10 +387,16 @@ export default function Header({
                           onClick={() => onSignIn?.()}
                           className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50"
                         >
-                          Sign in
+                          {t("account.signIn")}
                         </button>
                         <Link href="/signup" className="block px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50">
-                          Create account
+                          {t("account.createAccount")}
+                        </Link>
+                        <Link
+                          href="/account/wishlist"
+                          className="block px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50"
+                        >
+                          {t("account.wishlist")}
                         </Link>
                       </>
                     )}
@@ -357,20 +413,21 @@ export default function Header({
             <div className="space-y-3 border-t border-gray-200 pt-4">
               <form onSubmit={handleSearchSubmit} className="px-2">
                 <div className="relative">
-                  <input
-                    type="search"
-                    name="q"
+                  <SearchCombobox
+                    id="site-search-mobile"
+                    ariaLabel={t("search.label")}
                     value={searchValue}
-                    onChange={(e) => setSearchValue(e.target.value)}
-                    placeholder="Search products"
+                    onValueChange={setSearchValue}
+                    onSearch={runSearch}
+                    placeholder={t("search.placeholderShort")}
                     className="w-full border border-gray-200 rounded-md py-2 pl-3 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   />
                   <button
                     type="submit"
-                    aria-label="Search"
+                    aria-label={t("search.submit")}
                     className="absolute right-1 top-1/2 -translate-y-1/2 bg-indigo-600 text-white px-3 py-1 rounded text-sm hover:bg-indigo-700 focus:outline-none"
                   >
-                    Search
+                    {t("search.submit")}
                   </button>
                 </div>
               </form>
@@ -380,7 +437,7 @@ export default function Header({
                   href="/shop"
                   className="block px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                 >
-                  Shop
+                  {t("nav.shop")}
                 </Link>
                 <div className="border-t border-gray-100"></div>
                 {categories.map((cat) => (
@@ -396,13 +453,13 @@ export default function Header({
                   href="/about"
                   className="block px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                 >
-                  About
+                  {t("nav.about")}
                 </Link>
                 <Link
                   href="/contact"
                   className="block px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                 >
-                  Contact
+                  {t("nav.contact")}
                 </Link>
               </div>
 
@@ -416,13 +473,33 @@ export default function Header({
                     <circle cx="7" cy="21" r="1" />
                     <circle cx="20" cy="21" r="1" />
                   </svg>
-                  Cart
-                  {cartItemCount > 0 && (
+                  {t("header.cart")}
+                  {itemCount > 0 && (
                     <span className="ml-auto text-sm bg-red-600 text-white rounded-full px-2 py-0.5">
-                      {cartItemCount}
+                      {itemCount}
                     </span>
                   )}
                 </Link>
+                <Link
+                  href="/account/wishlist"
+                  className="block px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
+                >
+                  {t("account.wishlist")}
+                </Link>
+                <label className="flex items-center justify-between px-3 py-2 text-base text-gray-700">
+                  {t("header.language")}
+                  <LanguageSwitcher className="border border-gray-200 rounded-md py-1 pl-2 pr-7 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+                </label>
+                <label className="flex items-center justify-between px-3 py-2 text-base text-gray-700">
+                  {t("header.currency")}
+                  <select
+                    value={currency}
+                    onChange={handleCurrencyChange}
+                    className="border border-gray-200 rounded-md py-1 pl-2 pr-7 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {currencyOptions}
+                  </select>
+                </label>
 
                 {user ? (
                   <>
@@ -430,7 +507,7 @@ export default function Header({
                       href="/account"
                       className="block px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                     >
-                      My Account
+                      {t("account.myAccount")}
                     </Link>
                     <button
                       onClick={() => {
@@ -439,7 +516,7 @@ export default function Header({
                       }}
                       className="w-full text-left px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                     >
-                      Sign out
+                      {t("account.signOut")}
                     </button>
                   </>
                 ) : (
@@ -451,13 +528,13 @@ export default function Header({
                       }}
                       className="w-full text-left px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                     >
-                      Sign in
+                      {t("account.signIn")}
                     </button>
                     <Link
                       href="/signup"
                       className="block px-3 py-2 rounded text-base text-gray-700 hover:bg-indigo-50"
                     >
-                      Create account
+                      {t("account.createAccount")}
                     </Link>
                   </>
                 )}
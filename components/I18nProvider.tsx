@@ -0,0 +1,30 @@
+'use client'
+
+import React, { createContext, useContext, useMemo } from 'react'
+import type { Locale } from '../lib/i18n/config'
+import { createTranslator, type Translate } from '../lib/i18n/translate'
+
+/**
+ * I18nProvider - the page's UI locale on the client. RootLayout passes in the
+ * locale middleware resolved from the URL, and useI18n() hands components a
+ * translator for it. Switching language is a full navigation (see
+ * LanguageSwitcher), so the locale never changes under a mounted tree.
+ */
+
+interface I18nContextValue {
+  locale: Locale
+  t: Translate
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const value = useMemo(() => ({ locale, t: createTranslator(locale) }), [locale])
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n(): I18nContextValue {
+  const ctx = useContext(I18nContext)
+  if (!ctx) throw new Error('useI18n must be used inside <I18nProvider>')
+  return ctx
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import React, { useId, useState } from 'react'
+import { uploadImage } from '../lib/admin/client'
+import { readPhoto } from '../lib/reviews/client'
+
+/**
+ * ImageUploadField - an image URL with a preview. Picking a file uploads it
+ * to /api/admin/images and fills in the stored image's URL; the URL can
+ * also be typed, e.g. for files in /public.
+ */
+export default function ImageUploadField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: string
+  onChange: (url: string) => void
+}) {
+  const id = useId()
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setUploading(true)
+    setError(null)
+    try {
+      const { url } = await uploadImage(await readPhoto(file))
+      onChange(url)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        {label}
+      </label>
+      <div className="mt-1 flex items-start gap-3">
+        <div className="h-20 w-20 flex-none overflow-hidden rounded border bg-gray-50 flex items-center justify-center">
+          {value ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={value} alt="" className="h-full w-full object-contain" />
+          ) : (
+            <span className="text-xs text-gray-400">No image</span>
+          )}
+        </div>
+        <div className="flex-1 space-y-2">
+          <input
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="/products/example.jpg"
+            className="input"
+          />
+          <div className="flex items-center gap-3 text-sm">
+            <label className="btn btn-ghost">
+              {uploading ? 'Uploading...' : 'Upload image'}
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                onChange={handleFile}
+                disabled={uploading}
+                className="sr-only"
+              />
+            </label>
+            {value && (
+              <button type="button" onClick={() => onChange('')} className="text-gray-600 hover:underline">
+                Remove
+              </button>
+            )}
+          </div>
+          {error && (
+            <p role="alert" className="text-sm text-red-600">
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
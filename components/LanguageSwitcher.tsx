@@ -0,0 +1,31 @@
+'use client'
+
+import React from 'react'
+import { useI18n } from './I18nProvider'
+import { LOCALES, LOCALE_CODES, isLocale, splitLocalePath } from '../lib/i18n/config'
+
+/**
+ * LanguageSwitcher - reloads the current page under another locale prefix.
+ * It always goes through the prefixed URL (/en/... included) so middleware
+ * saves the choice before redirecting to the canonical one.
+ */
+export default function LanguageSwitcher({ id, className = '' }: { id?: string; className?: string }) {
+  const { locale, t } = useI18n()
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value
+    if (!isLocale(next) || next === locale) return
+    const { path } = splitLocalePath(window.location.pathname)
+    window.location.assign(`/${next}${path === '/' ? '' : path}${window.location.search}`)
+  }
+
+  return (
+    <select id={id} value={locale} onChange={handleChange} aria-label={t('header.language')} className={className}>
+      {LOCALE_CODES.map((code) => (
+        <option key={code} value={code} lang={code}>
+          {LOCALES[code].name}
+        </option>
+      ))}
+    </select>
+  )
+}
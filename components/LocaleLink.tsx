@@ -0,0 +1,15 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { useI18n } from './I18nProvider'
+import { localizePath } from '../lib/i18n/config'
+
+/**
+ * LocaleLink - next/link that keeps the current locale prefix on app paths,
+ * saving the middleware redirect a plain "/cart" link would take.
+ */
+export default function LocaleLink({ href, ...props }: React.ComponentProps<typeof Link>) {
+  const { locale } = useI18n()
+  return <Link href={typeof href === 'string' ? localizePath(href, locale) : href} {...props} />
+}
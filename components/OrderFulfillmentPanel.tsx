@@ -0,0 +1,244 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { refundOrder, shipOrder, updateOrderStatus } from '../lib/admin/client'
+import { formatMoney, toMajor } from '../lib/money'
+import {
+  CANCELLABLE_STATUSES,
+  CARRIERS,
+  SHIPPABLE_STATUSES,
+  lineKey,
+  refundableAmount,
+  unshippedItems,
+} from '../lib/orders/fulfillment'
+import type { Order, OrderStatus } from '../lib/orders/types'
+
+const OTHER_CARRIER = 'other'
+
+/** One-click transitions, and the statuses each is offered from. */
+const STATUS_ACTIONS: { status: OrderStatus; label: string; from: OrderStatus[] }[] = [
+  { status: 'picking', label: 'Start picking', from: ['paid'] },
+  { status: 'packed', label: 'Mark packed', from: ['paid', 'picking'] },
+  { status: 'delivered', label: 'Mark delivered', from: ['shipped'] },
+]
+
+/**
+ * OrderFulfillmentPanel - the admin actions for one order: move it through
+ * picking and packing, ship some or all of its items with a tracking
+ * number, refund or cancel it. The server page reloads the order after each
+ * action and remounts the panel (keyed by history length) so the forms start
+ * from the new state; the API emails the customer.
+ */
+export default function OrderFulfillmentPanel({ order }: { order: Order }) {
+  const router = useRouter()
+  const remaining = unshippedItems(order)
+  const refundable = refundableAmount(order)
+  const [carrier, setCarrier] = useState(CARRIERS[0].name)
+  const [otherCarrier, setOtherCarrier] = useState('')
+  const [trackingNumber, setTrackingNumber] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(remaining.map((line) => [lineKey(line), line.remaining])),
+  )
+  const [refundAmount, setRefundAmount] = useState('')
+  const [note, setNote] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (task: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await task()
+      router.refresh()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleShip = (e: React.FormEvent) => {
+    e.preventDefault()
+    const items = remaining
+      .map((line) => ({ productId: line.productId, variantId: line.variantId, quantity: quantities[lineKey(line)] }))
+      .filter((item) => item.quantity > 0)
+    const carrierName = carrier === OTHER_CARRIER ? otherCarrier : carrier
+    run(() => shipOrder(order.id, { carrier: carrierName, trackingNumber, items }))
+  }
+
+  const handleRefund = (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(refundAmount)
+    if (!window.confirm(`Refund ${formatMoney(amount, order.currency)} to the customer?`)) return
+    run(() => refundOrder(order.id, { amount, reason: note.trim() || undefined }))
+  }
+
+  const handleCancel = () => {
+    const refund = refundable.amount > 0 ? ` and refund ${formatMoney(refundable)}` : ''
+    if (!window.confirm(`Cancel order #${order.number}${refund}? Its items go back into stock.`)) return
+    run(() => updateOrderStatus(order.id, 'cancelled', note.trim() || undefined))
+  }
+
+  const statusActions = STATUS_ACTIONS.filter((action) => action.from.includes(order.status))
+  const canShip = SHIPPABLE_STATUSES.includes(order.status) && remaining.length > 0
+  const canCancel = CANCELLABLE_STATUSES.includes(order.status)
+
+  if (statusActions.length === 0 && !canShip && !canCancel && refundable.amount === 0) {
+    return <p className="text-sm text-gray-600">Nothing left to do for this order.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div role="alert" className="text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {statusActions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {statusActions.map((action) => (
+            <button
+              key={action.status}
+              type="button"
+              disabled={busy}
+              onClick={() => run(() => updateOrderStatus(order.id, action.status))}
+              className="btn btn-ghost"
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {canShip && (
+        <form onSubmit={handleShip} className="space-y-3 rounded-lg border p-4">
+          <h3 className="font-semibold text-gray-900">Ship items</h3>
+          <ul className="divide-y text-sm">
+            {remaining.map((line) => {
+              const key = lineKey(line)
+              return (
+                <li key={key} className="flex items-center justify-between gap-3 py-2">
+                  <label htmlFor={`ship-${key}`} className="flex-1 text-gray-700">
+                    {line.title}
+                    {line.variantTitle && <span className="text-gray-500"> ({line.variantTitle})</span>}
+                    {line.sku && <span className="ml-2 text-xs text-gray-400">SKU {line.sku}</span>}
+                  </label>
+                  <input
+                    id={`ship-${key}`}
+                    type="number"
+                    min={0}
+                    max={line.remaining}
+                    value={quantities[key] ?? 0}
+                    onChange={(e) => setQuantities((current) => ({ ...current, [key]: Number(e.target.value) }))}
+                    className="input w-20"
+                  />
+                  <span className="w-16 text-xs text-gray-500">of {line.remaining}</span>
+                </li>
+              )
+            })}
+          </ul>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div>
+              <label htmlFor="ship-carrier" className="block text-sm font-medium text-gray-700">
+                Carrier
+              </label>
+              <select
+                id="ship-carrier"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                className="input mt-1"
+              >
+                {CARRIERS.map((c) => (
+                  <option key={c.name} value={c.name}>
+                    {c.name}
+                  </option>
+                ))}
+                <option value={OTHER_CARRIER}>Other</option>
+              </select>
+            </div>
+            {carrier === OTHER_CARRIER && (
+              <div>
+                <label htmlFor="ship-carrier-name" className="block text-sm font-medium text-gray-700">
+                  Carrier name
+                </label>
+                <input
+                  id="ship-carrier-name"
+                  required
+                  maxLength={40}
+                  value={otherCarrier}
+                  onChange={(e) => setOtherCarrier(e.target.value)}
+                  className="input mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="ship-tracking" className="block text-sm font-medium text-gray-700">
+                Tracking number
+              </label>
+              <input
+                id="ship-tracking"
+                required
+                maxLength={60}
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                className="input mt-1"
+              />
+            </div>
+          </div>
+          <button type="submit" disabled={busy} className="btn btn-primary">
+            {busy ? 'Saving...' : 'Mark shipped'}
+          </button>
+        </form>
+      )}
+
+      {(refundable.amount > 0 || canCancel) && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <h3 className="font-semibold text-gray-900">Refund or cancel</h3>
+          <div>
+            <label htmlFor="order-note" className="block text-sm font-medium text-gray-700">
+              Reason (shown to the customer)
+            </label>
+            <input
+              id="order-note"
+              maxLength={200}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="input mt-1"
+            />
+          </div>
+          {refundable.amount > 0 && (
+            <form onSubmit={handleRefund} className="flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="refund-amount" className="block text-sm font-medium text-gray-700">
+                  Amount ({order.currency})
+                </label>
+                <input
+                  id="refund-amount"
+                  type="number"
+                  required
+                  min={0.01}
+                  max={toMajor(refundable)}
+                  step={0.01}
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  className="input mt-1 w-32"
+                />
+              </div>
+              <button type="submit" disabled={busy} className="btn btn-ghost">
+                Refund
+              </button>
+              <span className="text-xs text-gray-500">Up to {formatMoney(refundable)}</span>
+            </form>
+          )}
+          {canCancel && (
+            <button type="button" disabled={busy} onClick={handleCancel} className="btn btn-ghost text-red-600">
+              Cancel order
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import React from 'react'
+import { ORDER_STATUS_BADGE_CLASSES, ORDER_STATUS_LABELS } from '../lib/orders/status'
+import type { OrderStatus } from '../lib/orders/types'
+
+export default function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ${ORDER_STATUS_BADGE_CLASSES[status]}`}
+    >
+      {ORDER_STATUS_LABELS[status]}
+    </span>
+  )
+}
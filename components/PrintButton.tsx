@@ -0,0 +1,15 @@
+'use client'
+
+import React from 'react'
+
+/**
+ * PrintButton - opens the browser's print dialog. Hidden in the printout
+ * itself.
+ */
+export default function PrintButton({ label = 'Print' }: { label?: string }) {
+  return (
+    <button type="button" onClick={() => window.print()} className="btn btn-primary print:hidden">
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,250 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { bulkUpdateProducts, reorderProducts } from '../lib/admin/client'
+import type { BulkProductChanges } from '../lib/admin/types'
+import { BASE_CURRENCY, formatMoney } from '../lib/money'
+import type { Product, ProductStatus } from '../lib/products/types'
+
+const STATUS_STYLES: Record<ProductStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  published: 'bg-green-100 text-green-800',
+  archived: 'bg-gray-100 text-gray-600',
+}
+
+/**
+ * ProductAdminTable - the product list in /admin/products. Rows can be
+ * selected for bulk status and category changes, and when the whole catalog
+ * is shown (`reorderable`) moved up and down to set the "featured" order.
+ * With a `status` filter, products bulk-edited out of it drop off the list.
+ */
+export default function ProductAdminTable({
+  initialProducts,
+  categories,
+  status,
+  reorderable,
+}: {
+  initialProducts: Product[]
+  categories: string[]
+  status?: ProductStatus
+  reorderable: boolean
+}) {
+  const [products, setProducts] = useState(initialProducts)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [category, setCategory] = useState('')
+  const [orderChanged, setOrderChanged] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const allSelected = products.length > 0 && selected.size === products.length
+
+  const toggle = (id: string) =>
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(products.map((p) => p.id)))
+
+  const run = async (task: () => Promise<string>) => {
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      setNotice(await task())
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const applyBulk = (changes: BulkProductChanges) =>
+    run(async () => {
+      const { items } = await bulkUpdateProducts({ ids: Array.from(selected), changes })
+      const byId = new Map(items.map((p) => [p.id, p]))
+      setProducts((current) =>
+        current
+          .map((p) => byId.get(p.id) ?? p)
+          .filter((p) => !status || (p.status ?? 'published') === status),
+      )
+      setSelected(new Set())
+      return `Updated ${items.length} product${items.length === 1 ? '' : 's'}.`
+    })
+
+  const move = (index: number, offset: number) => {
+    setProducts((current) => {
+      const next = current.slice()
+      const [product] = next.splice(index, 1)
+      next.splice(index + offset, 0, product)
+      return next
+    })
+    setOrderChanged(true)
+    setNotice(null)
+  }
+
+  const saveOrder = () =>
+    run(async () => {
+      await reorderProducts(products.map((p) => p.id))
+      setOrderChanged(false)
+      return 'Featured order saved.'
+    })
+
+  if (products.length === 0) {
+    return <p className="mt-6 text-sm text-gray-600">No products here.</p>
+  }
+
+  return (
+    <>
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm" aria-label="Bulk actions" role="toolbar">
+        <span className="text-gray-600">{selected.size} selected</span>
+        <button
+          type="button"
+          disabled={busy || selected.size === 0}
+          onClick={() => applyBulk({ status: 'published' })}
+          className="btn btn-ghost"
+        >
+          Publish
+        </button>
+        <button
+          type="button"
+          disabled={busy || selected.size === 0}
+          onClick={() => applyBulk({ status: 'draft' })}
+          className="btn btn-ghost"
+        >
+          Move to draft
+        </button>
+        <button
+          type="button"
+          disabled={busy || selected.size === 0}
+          onClick={() => applyBulk({ status: 'archived' })}
+          className="btn btn-ghost"
+        >
+          Archive
+        </button>
+        <select
+          aria-label="Category for selected products"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="input w-auto"
+        >
+          <option value="">Uncategorized</option>
+          {categories.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={busy || selected.size === 0}
+          onClick={() => applyBulk({ category: category || null })}
+          className="btn btn-ghost"
+        >
+          Set category
+        </button>
+        {reorderable && (
+          <button type="button" disabled={busy || !orderChanged} onClick={saveOrder} className="btn btn-primary ml-auto">
+            Save featured order
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div role="alert" className="mt-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div role="status" className="mt-3 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-2 pr-3">
+                <input type="checkbox" aria-label="Select all" checked={allSelected} onChange={toggleAll} />
+              </th>
+              <th className="py-2 pr-3 font-medium">Product</th>
+              <th className="py-2 pr-3 font-medium">Status</th>
+              <th className="py-2 pr-3 font-medium">Category</th>
+              <th className="py-2 pr-3 font-medium text-right">Price</th>
+              {reorderable && <th className="py-2 font-medium">Order</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {products.map((product, index) => {
+              const productStatus = product.status ?? 'published'
+              return (
+                <tr key={product.id}>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${product.title}`}
+                      checked={selected.has(product.id)}
+                      onChange={() => toggle(product.id)}
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-3">
+                      <div className="h-10 w-10 flex-none overflow-hidden rounded bg-gray-50">
+                        {product.image && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={product.image} alt="" className="h-full w-full object-contain" />
+                        )}
+                      </div>
+                      <Link
+                        href={`/admin/products/${encodeURIComponent(product.id)}`}
+                        className="font-medium text-indigo-600 hover:underline"
+                      >
+                        {product.title}
+                      </Link>
+                    </div>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[productStatus]}`}
+                    >
+                      {productStatus}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700">{product.category ?? '—'}</td>
+                  <td className="py-2 pr-3 text-right text-gray-900">{formatMoney(product.price, BASE_CURRENCY)}</td>
+                  {reorderable && (
+                    <td className="py-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        aria-label={`Move ${product.title} up`}
+                        disabled={busy || index === 0}
+                        onClick={() => move(index, -1)}
+                        className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        aria-label={`Move ${product.title} down`}
+                        disabled={busy || index === products.length - 1}
+                        onClick={() => move(index, 1)}
+                        className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  )
+}
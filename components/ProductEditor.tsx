@@ -0,0 +1,270 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { createProduct, updateProduct } from '../lib/admin/client'
+import type { ProductInput } from '../lib/admin/types'
+import { PRODUCT_STATUSES, type Product, type ProductStatus } from '../lib/products/types'
+import ImageUploadField from './ImageUploadField'
+
+const STATUS_LABELS: Record<ProductStatus, string> = { draft: 'Draft', published: 'Published', archived: 'Archived' }
+
+interface FormState {
+  title: string
+  sku: string
+  description: string
+  status: ProductStatus
+  price: string
+  compareAtPrice: string
+  category: string
+  image: string
+  taxClass: string
+  weight: string
+}
+
+function toForm(product?: Product): FormState {
+  return {
+    title: product?.title ?? '',
+    sku: product?.sku ?? '',
+    description: product?.description ?? '',
+    status: product?.status ?? (product ? 'published' : 'draft'),
+    price: product ? String(product.price) : '',
+    compareAtPrice: product?.compareAtPrice === undefined ? '' : String(product.compareAtPrice),
+    category: product?.category ?? '',
+    image: product?.image ?? '',
+    taxClass: product?.taxClass ?? '',
+    weight: product?.weight === undefined ? '' : String(product.weight),
+  }
+}
+
+/** Blank optional fields are sent as null so the server clears them. */
+function toInput(form: FormState): ProductInput {
+  const optionalNumber = (value: string) => (value.trim() ? Number(value) : null)
+  return {
+    title: form.title,
+    sku: form.sku.trim() || null,
+    description: form.description,
+    status: form.status,
+    price: Number(form.price),
+    compareAtPrice: optionalNumber(form.compareAtPrice),
+    category: form.category || null,
+    image: form.image.trim() || null,
+    taxClass: form.taxClass.trim() || null,
+    weight: optionalNumber(form.weight),
+  }
+}
+
+/**
+ * ProductEditor - create or edit a product's catalog fields. Variants,
+ * translations and stock aren't edited here and are kept as they are.
+ */
+export default function ProductEditor({ product, categories }: { product?: Product; categories: string[] }) {
+  const router = useRouter()
+  const [form, setForm] = useState(() => toForm(product))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const set = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setForm((current) => ({ ...current, [field]: value }))
+    setSaved(false)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      if (product) {
+        const input = toInput(form)
+        // An unchanged category is left out, so a stale one doesn't block other edits
+        if (form.category === (product.category ?? '')) delete input.category
+        setForm(toForm(await updateProduct(product.id, input)))
+        setSaved(true)
+        // Reloads the change history below the form
+        router.refresh()
+      } else {
+        const created = await createProduct(toInput(form))
+        router.push(`/admin/products/${encodeURIComponent(created.id)}`)
+      }
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Products filed under a category that no longer exists keep it as an option until changed
+  const categoryOptions =
+    form.category && !categories.includes(form.category) ? [form.category, ...categories] : categories
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 space-y-5">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="sm:col-span-2">
+          <label htmlFor="product-title" className="block text-sm font-medium text-gray-700">
+            Title
+          </label>
+          <input
+            id="product-title"
+            required
+            maxLength={200}
+            value={form.title}
+            onChange={(e) => set('title', e.target.value)}
+            className="input mt-1"
+          />
+        </div>
+        <div>
+          <label htmlFor="product-sku" className="block text-sm font-medium text-gray-700">
+            SKU
+          </label>
+          <input
+            id="product-sku"
+            maxLength={64}
+            placeholder={product?.variants?.length ? 'Set per variant' : undefined}
+            value={form.sku}
+            onChange={(e) => set('sku', e.target.value)}
+            className="input mt-1"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="product-description" className="block text-sm font-medium text-gray-700">
+          Description
+        </label>
+        <textarea
+          id="product-description"
+          rows={5}
+          maxLength={5000}
+          value={form.description}
+          onChange={(e) => set('description', e.target.value)}
+          className="input mt-1"
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label htmlFor="product-status" className="block text-sm font-medium text-gray-700">
+            Status
+          </label>
+          <select
+            id="product-status"
+            value={form.status}
+            onChange={(e) => set('status', e.target.value as ProductStatus)}
+            className="input mt-1"
+          >
+            {PRODUCT_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="product-price" className="block text-sm font-medium text-gray-700">
+            Price (USD)
+          </label>
+          <input
+            id="product-price"
+            type="number"
+            required
+            min={0}
+            step="0.01"
+            value={form.price}
+            onChange={(e) => set('price', e.target.value)}
+            className="input mt-1"
+          />
+        </div>
+        <div>
+          <label htmlFor="product-compare-at" className="block text-sm font-medium text-gray-700">
+            Compare-at price
+          </label>
+          <input
+            id="product-compare-at"
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Not on sale"
+            value={form.compareAtPrice}
+            onChange={(e) => set('compareAtPrice', e.target.value)}
+            className="input mt-1"
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label htmlFor="product-category" className="block text-sm font-medium text-gray-700">
+            Category
+          </label>
+          <select
+            id="product-category"
+            value={form.category}
+            onChange={(e) => set('category', e.target.value)}
+            className="input mt-1"
+          >
+            <option value="">Uncategorized</option>
+            {categoryOptions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="product-tax-class" className="block text-sm font-medium text-gray-700">
+            Tax class
+          </label>
+          <input
+            id="product-tax-class"
+            placeholder="From category"
+            value={form.taxClass}
+            onChange={(e) => set('taxClass', e.target.value)}
+            className="input mt-1"
+          />
+        </div>
+        <div>
+          <label htmlFor="product-weight" className="block text-sm font-medium text-gray-700">
+            Weight (kg)
+          </label>
+          <input
+            id="product-weight"
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Default"
+            value={form.weight}
+            onChange={(e) => set('weight', e.target.value)}
+            className="input mt-1"
+          />
+        </div>
+      </div>
+
+      <ImageUploadField label="Image" value={form.image} onChange={(url) => set('image', url)} />
+
+      {error && (
+        <div role="alert" className="text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button type="submit" disabled={saving} className="btn btn-primary">
+          {saving ? 'Saving...' : product ? 'Save changes' : 'Create product'}
+        </button>
+        {saved && (
+          <span role="status" className="text-sm text-green-700">
+            Saved
+          </span>
+        )}
+        {product && (product.status ?? 'published') === 'published' && (
+          <Link href={`/products/${encodeURIComponent(product.id)}`} className="text-sm text-indigo-600 hover:underline">
+            View in store
+          </Link>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,83 @@
+import React from 'react'
+import Link from 'next/link'
+import AddToCartButton from './AddToCartButton'
+import StockBadge from './StockBadge'
+import WishlistButton from './WishlistButton'
+import { localizedCompareAtPrice, localizedPriceRange } from '../lib/currency/prices'
+import { getCurrency } from '../lib/currency/session'
+import { localizeProduct } from '../lib/i18n/products'
+import { getLocale } from '../lib/i18n/session'
+import { isOutOfStock } from '../lib/inventory/status'
+import { formatMoney } from '../lib/money'
+import type { Product } from '../lib/products/types'
+import { hasVariants } from '../lib/products/variants'
+
+/**
+ * ProductGrid - server-rendered product cards for listing pages (search,
+ * categories, collections). Add to cart and the wishlist heart are the client islands; products
+ * with variants link to their page to pick options instead. Pass products
+ * through withAvailability() first to get stock badges. Prices are shown in
+ * the shopper's currency, titles in the page's language.
+ */
+export default function ProductGrid({ products }: { products: Product[] }) {
+  const currency = getCurrency()
+  const locale = getLocale()
+  return (
+    <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      {products.map((item) => {
+        const product = localizeProduct(item, locale)
+        const href = `/products/${encodeURIComponent(product.id)}`
+        const { min, max } = localizedPriceRange(product, currency)
+        const compareAtPrice = localizedCompareAtPrice(product, undefined, currency)
+        return (
+          <li key={product.id} className="relative bg-white rounded-lg shadow-sm p-4 flex flex-col">
+            <WishlistButton
+              productId={product.id}
+              productTitle={product.title}
+              className="absolute top-5 right-5 z-10 bg-white/80"
+            />
+            <Link href={href} className="group flex-1">
+              <div className="h-40 bg-gray-50 rounded flex items-center justify-center overflow-hidden">
+                {product.image ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={product.image} alt={product.title} className="object-contain h-full" />
+                ) : (
+                  <div className="text-sm text-gray-400">No image</div>
+                )}
+              </div>
+              {product.category && (
+                <div className="mt-3 text-xs uppercase tracking-wider text-gray-400">{product.category}</div>
+              )}
+              <h2 className="mt-1 text-sm font-medium text-gray-900 group-hover:text-indigo-600">{product.title}</h2>
+              {product.rating && (
+                <div className="mt-1 text-xs text-gray-500">★ {product.rating.rate.toFixed(1)}</div>
+              )}
+              <StockBadge stock={product.availability} showInStock={false} className="mt-2" />
+            </Link>
+            <div className="mt-3 flex items-center justify-between">
+              <span>
+                <span className="text-lg font-semibold text-indigo-600">
+                  {min < max && <span className="text-sm font-normal text-gray-500">From </span>}
+                  {formatMoney(min, currency)}
+                </span>
+                {compareAtPrice !== undefined && compareAtPrice > min && (
+                  <s className="ml-2 text-sm text-gray-400">{formatMoney(compareAtPrice, currency)}</s>
+                )}
+              </span>
+              {hasVariants(product) ? (
+                <Link
+                  href={href}
+                  className="px-6 py-3 rounded bg-indigo-600 hover:bg-indigo-700 text-white font-semibold"
+                >
+                  Choose options
+                </Link>
+              ) : (
+                <AddToCartButton productId={product.id} outOfStock={isOutOfStock(product.availability)} />
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,99 @@
+import React from 'react'
+import Link from 'next/link'
+import Breadcrumbs from './Breadcrumbs'
+import ProductGrid from './ProductGrid'
+import type { Crumb } from '../lib/catalog/types'
+import type { Product } from '../lib/products/types'
+
+export const LISTING_PAGE_SIZE = 24
+
+/** Parse the `page` search param shared by every listing page. */
+export function listingPage(value: string | undefined) {
+  const page = Number.parseInt(value ?? '1', 10)
+  return Number.isFinite(page) && page > 0 ? page : 1
+}
+
+/**
+ * ProductListing - layout shared by category and collection pages: hero,
+ * breadcrumbs, optional sub-navigation, product grid and pagination.
+ */
+export default function ProductListing({
+  title,
+  description,
+  heroImage,
+  breadcrumbs,
+  products,
+  page,
+  basePath,
+  children,
+}: {
+  title: string
+  description?: string
+  heroImage?: string
+  breadcrumbs: Crumb[]
+  products: Product[]
+  page: number
+  basePath: string
+  /** Rendered between the hero and the grid, e.g. subcategory links. */
+  children?: React.ReactNode
+}) {
+  const totalPages = Math.max(1, Math.ceil(products.length / LISTING_PAGE_SIZE))
+  const current = Math.min(page, totalPages)
+  const items = products.slice((current - 1) * LISTING_PAGE_SIZE, current * LISTING_PAGE_SIZE)
+  const pageHref = (n: number) => (n > 1 ? `${basePath}?page=${n}` : basePath)
+
+  return (
+    <section className="space-y-6">
+      <Breadcrumbs items={breadcrumbs} />
+
+      <header className="relative overflow-hidden rounded-lg bg-indigo-50">
+        {heroImage && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={heroImage} alt="" className="absolute inset-0 h-full w-full object-cover opacity-30" />
+        )}
+        <div className="relative p-8">
+          <h1 className="text-3xl font-bold text-gray-900">{title}</h1>
+          {description && <p className="mt-2 max-w-2xl text-gray-700">{description}</p>}
+          <p className="mt-2 text-sm text-gray-500">
+            {products.length} {products.length === 1 ? 'product' : 'products'}
+          </p>
+        </div>
+      </header>
+
+      {children}
+
+      {products.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-600">
+          Nothing here yet.{' '}
+          <Link href="/shop" className="text-indigo-600 hover:underline">
+            Browse all products
+          </Link>
+        </div>
+      ) : (
+        <ProductGrid products={items} />
+      )}
+
+      {totalPages > 1 && (
+        <nav aria-label="Pagination" className="flex items-center justify-between text-sm">
+          {current > 1 ? (
+            <Link href={pageHref(current - 1)} className="text-indigo-600 hover:underline">
+              ← Previous
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-gray-500">
+            Page {current} of {totalPages}
+          </span>
+          {current < totalPages ? (
+            <Link href={pageHref(current + 1)} className="text-indigo-600 hover:underline">
+              Next →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import React, { useState } from 'react'
+import AddToCartButton from './AddToCartButton'
+import { useCurrency } from './CurrencyProvider'
+import StockBadge from './StockBadge'
+import VariantPicker from './VariantPicker'
+import WishlistButton from './WishlistButton'
+import { localizedCompareAtPrice, localizedPrice } from '../lib/currency/prices'
+import { isOutOfStock } from '../lib/inventory/status'
+import { formatMoney } from '../lib/money'
+import type { Product, ProductVariant } from '../lib/products/types'
+import { defaultVariant, findVariant, hasVariants, variantImage } from '../lib/products/variants'
+
+/**
+ * ProductPurchase - the interactive body of the product page: image, price,
+ * stock, option pickers and Add to cart, all following the selected variant.
+ * The server-rendered title and description come in as `header` and
+ * `children`. The selection is mirrored to `?variant=` so it can be shared.
+ */
+export default function ProductPurchase({
+  product,
+  initialVariantId,
+  header,
+  footer,
+  children,
+}: {
+  product: Product
+  initialVariantId?: string
+  header: React.ReactNode
+  footer?: React.ReactNode
+  children?: React.ReactNode
+}) {
+  const [variant, setVariant] = useState(() => findVariant(product, initialVariantId) ?? defaultVariant(product))
+  const { currency } = useCurrency()
+  const price = localizedPrice(product, variant, currency)
+  const compareAtPrice = localizedCompareAtPrice(product, variant, currency)
+  const image = variantImage(product, variant)
+  const stock = variant ? variant.availability : product.availability
+
+  const handleVariantChange = (next: ProductVariant) => {
+    setVariant(next)
+    const url = new URL(window.location.href)
+    url.searchParams.set('variant', next.id)
+    // Plain replaceState: no need to re-render the server component for this
+    window.history.replaceState(window.history.state, '', url)
+  }
+
+  return (
+    <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
+      <div className="aspect-square bg-gray-50 rounded flex items-center justify-center overflow-hidden">
+        {image ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={image} alt={product.title} className="object-contain h-full w-full" />
+        ) : (
+          <div className="text-sm text-gray-400">No image</div>
+        )}
+      </div>
+
+      <div className="flex flex-col">
+        {header}
+        <div className="mt-4 text-3xl font-bold text-indigo-600">
+          {formatMoney(price, currency)}
+          {compareAtPrice !== undefined && compareAtPrice > price && (
+            <s className="ml-3 text-lg font-normal text-gray-400">{formatMoney(compareAtPrice, currency)}</s>
+          )}
+        </div>
+        <StockBadge stock={stock} className="mt-3 self-start" />
+        {children}
+
+        {hasVariants(product) && (
+          <div className="mt-6">
+            <VariantPicker
+              product={product}
+              variant={variant}
+              onChange={handleVariantChange}
+              idPrefix={`product-${product.id}`}
+            />
+            {variant && <div className="mt-2 text-xs text-gray-400">SKU {variant.sku}</div>}
+          </div>
+        )}
+
+        <div className="mt-6 flex items-center gap-3">
+          <AddToCartButton productId={product.id} variantId={variant?.id} outOfStock={isOutOfStock(stock)} />
+          <WishlistButton productId={product.id} variantId={variant?.id} productTitle={product.title} />
+        </div>
+
+        {footer}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+import React from 'react'
+import Link from 'next/link'
+import type { ProductReviews as ProductReviewsData, ReviewEligibility, ReviewQuery, ReviewSort } from '../lib/reviews/types'
+import ReviewForm from './ReviewForm'
+import ReviewHelpfulButton from './ReviewHelpfulButton'
+import StarRating from './StarRating'
+
+/**
+ * ProductReviews - rating summary with a star histogram, sortable and
+ * filterable review list, and the review form for verified purchasers.
+ * Server-rendered; sorting, filtering and paging are plain links built by
+ * `hrefFor` so the product page owns its URL.
+ */
+
+const SORT_LABELS: Record<ReviewSort, string> = {
+  newest: 'Newest',
+  helpful: 'Most helpful',
+  'rating-desc': 'Highest rated',
+  'rating-asc': 'Lowest rated',
+}
+
+const INELIGIBLE_MESSAGES = {
+  'not-purchased': 'Only customers who bought this item can review it.',
+  'already-reviewed': 'Thanks, you have already reviewed this product.',
+}
+
+export default function ProductReviews({
+  productId,
+  reviews,
+  query,
+  eligibility,
+  hrefFor,
+  signInHref,
+}: {
+  productId: string
+  reviews: ProductReviewsData
+  query: ReviewQuery
+  eligibility: ReviewEligibility
+  hrefFor: (changes: Partial<ReviewQuery>) => string
+  signInHref: string
+}) {
+  const { summary } = reviews
+  const filtered = Boolean(query.stars || query.withPhotos)
+
+  return (
+    <section id="reviews" aria-labelledby="reviews-heading" className="border-t px-6 py-8">
+      <h2 id="reviews-heading" className="text-xl font-bold text-gray-900">
+        Customer reviews
+      </h2>
+
+      <div className="mt-6 grid gap-8 md:grid-cols-3">
+        <div>
+          {summary.count > 0 ? (
+            <>
+              <div className="flex items-center gap-2">
+                <StarRating rating={summary.rate} className="text-xl" />
+                <span className="text-lg font-semibold text-gray-900">{summary.rate.toFixed(1)} out of 5</span>
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                {summary.count} {summary.count === 1 ? 'review' : 'reviews'}
+              </p>
+              <ul className="mt-4 space-y-1 text-sm">
+                {[5, 4, 3, 2, 1].map((stars) => {
+                  const count = summary.histogram[stars - 1]
+                  const percent = Math.round((count / summary.count) * 100)
+                  const selected = query.stars === stars
+                  return (
+                    <li key={stars}>
+                      <Link
+                        href={hrefFor({ stars: selected ? undefined : stars })}
+                        aria-current={selected ? 'true' : undefined}
+                        aria-label={`${stars} star reviews: ${count}`}
+                        className={`flex items-center gap-2 rounded px-1 py-0.5 ${
+                          selected ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="w-12 shrink-0">{stars} star</span>
+                        <span className="h-2 flex-1 overflow-hidden rounded bg-gray-200">
+                          <span className="block h-full bg-amber-500" style={{ width: `${percent}%` }} />
+                        </span>
+                        <span className="w-10 shrink-0 text-right text-gray-500">{percent}%</span>
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ul>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">No reviews yet.</p>
+          )}
+
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Review this product</h3>
+            {eligibility.canReview ? (
+              <ReviewForm productId={productId} />
+            ) : eligibility.reason === 'signed-out' ? (
+              <p className="text-sm text-gray-600">
+                <Link href={signInHref} className="text-indigo-600 hover:underline">
+                  Sign in
+                </Link>{' '}
+                to review a product you have bought.
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600">{INELIGIBLE_MESSAGES[eligibility.reason]}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="md:col-span-2">
+          {summary.count > 0 && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+              <span className="text-gray-500">Sort by:</span>
+              {(Object.keys(SORT_LABELS) as ReviewSort[]).map((sort) => (
+                <Link
+                  key={sort}
+                  href={hrefFor({ sort })}
+                  aria-current={query.sort === sort ? 'true' : undefined}
+                  className={query.sort === sort ? 'font-medium text-indigo-700' : 'text-gray-700 hover:underline'}
+                >
+                  {SORT_LABELS[sort]}
+                </Link>
+              ))}
+              <Link
+                href={hrefFor({ withPhotos: !query.withPhotos })}
+                aria-current={query.withPhotos ? 'true' : undefined}
+                className={`ml-auto rounded border px-2 py-1 ${
+                  query.withPhotos ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                With photos
+              </Link>
+            </div>
+          )}
+
+          {filtered && (
+            <p className="mt-3 text-sm text-gray-600">
+              Showing {reviews.total} {reviews.total === 1 ? 'review' : 'reviews'}
+              {query.stars ? ` with ${query.stars} ${query.stars === 1 ? 'star' : 'stars'}` : ''}
+              {query.withPhotos ? ' with photos' : ''}.{' '}
+              <Link href={hrefFor({ stars: undefined, withPhotos: false })} className="text-indigo-600 hover:underline">
+                Show all reviews
+              </Link>
+            </p>
+          )}
+
+          <ul className="mt-4 divide-y">
+            {reviews.items.map((review) => (
+              <li key={review.id} className="py-5">
+                <div className="flex items-center gap-2">
+                  <StarRating rating={review.rating} />
+                  {review.title && <h3 className="font-semibold text-gray-900">{review.title}</h3>}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {review.authorName} · {new Date(review.createdAt).toLocaleDateString()} ·{' '}
+                  <span className="text-green-700">Verified purchase</span>
+                  {review.variantTitle && ` · ${review.variantTitle}`}
+                </p>
+                <p className="mt-2 whitespace-pre-line text-sm text-gray-700">{review.body}</p>
+                {review.photos.length > 0 && (
+                  <ul className="mt-3 flex gap-2">
+                    {review.photos.map((src, index) => (
+                      <li key={src}>
+                        <a href={src} target="_blank" rel="noreferrer">
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img
+                            src={src}
+                            alt={`Photo ${index + 1} from ${review.authorName}`}
+                            loading="lazy"
+                            className="h-20 w-20 rounded object-cover"
+                          />
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <ReviewHelpfulButton
+                  reviewId={review.id}
+                  initialCount={review.helpfulCount}
+                  initialVoted={review.votedHelpful}
+                />
+              </li>
+            ))}
+          </ul>
+
+          {summary.count > 0 && reviews.total === 0 && (
+            <p className="mt-4 text-sm text-gray-600">No reviews match these filters.</p>
+          )}
+
+          {reviews.totalPages > 1 && (
+            <nav aria-label="Review pages" className="mt-4 flex items-center justify-between text-sm">
+              {query.page > 1 ? (
+                <Link href={hrefFor({ page: query.page - 1 })} className="text-indigo-600 hover:underline">
+                  ← Previous
+                </Link>
+              ) : (
+                <span />
+              )}
+              <span className="text-gray-500">
+                Page {reviews.page} of {reviews.totalPages}
+              </span>
+              {query.page < reviews.totalPages ? (
+                <Link href={hrefFor({ page: query.page + 1 })} className="text-indigo-600 hover:underline">
+                  Next →
+                </Link>
+              ) : (
+                <span />
+              )}
+            </nav>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import React, { useId, useState, type ChangeEvent, type FormEvent } from 'react'
+import { readPhoto, submitReview } from '../lib/reviews/client'
+import { MAX_PHOTO_BYTES, MAX_REVIEW_PHOTOS } from '../lib/reviews/types'
+
+/**
+ * ReviewForm - star rating, text and up to MAX_REVIEW_PHOTOS photos for a
+ * verified purchaser. Submitted reviews wait for moderation, so the form is
+ * replaced by a thank-you note rather than the new review.
+ */
+
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+type Status = 'idle' | 'loading' | 'success' | 'error'
+
+export default function ReviewForm({ productId }: { productId: string }) {
+  const id = useId()
+  const [rating, setRating] = useState(0)
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [photos, setPhotos] = useState<string[]>([])
+  const [status, setStatus] = useState<Status>('idle')
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handlePhotos = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    setMessage(null)
+    if (photos.length + files.length > MAX_REVIEW_PHOTOS) {
+      setStatus('error')
+      setMessage(`You can add at most ${MAX_REVIEW_PHOTOS} photos.`)
+      return
+    }
+    const invalid = files.find((f) => !PHOTO_TYPES.includes(f.type) || f.size > MAX_PHOTO_BYTES)
+    if (invalid) {
+      setStatus('error')
+      setMessage(`${invalid.name} must be a JPEG, PNG or WebP image under ${MAX_PHOTO_BYTES / 1024 / 1024} MB.`)
+      return
+    }
+    try {
+      const added = await Promise.all(files.map(readPhoto))
+      setPhotos((current) => [...current, ...added])
+    } catch (err) {
+      setStatus('error')
+      setMessage((err as Error).message)
+    }
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!rating) {
+      setStatus('error')
+      setMessage('Please choose a star rating.')
+      return
+    }
+    setStatus('loading')
+    setMessage(null)
+    try {
+      await submitReview(productId, { rating, title, body, photos })
+      setStatus('success')
+    } catch (err) {
+      setStatus('error')
+      setMessage((err as Error).message)
+    }
+  }
+
+  if (status === 'success') {
+    return (
+      <p role="status" className="rounded bg-green-50 px-4 py-3 text-sm text-green-800">
+        Thanks for your review! It will appear here once it has been approved.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <fieldset>
+        <legend className="label">Your rating</legend>
+        <div className="flex gap-1 text-2xl">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <label key={star} className="cursor-pointer">
+              <input
+                type="radio"
+                name={`${id}-rating`}
+                value={star}
+                checked={rating === star}
+                onChange={() => setRating(star)}
+                className="sr-only peer"
+              />
+              <span
+                aria-hidden
+                className={`peer-focus-visible:ring-2 peer-focus-visible:ring-indigo-500 rounded ${
+                  star <= rating ? 'text-amber-500' : 'text-gray-300 hover:text-amber-300'
+                }`}
+              >
+                ★
+              </span>
+              <span className="sr-only">
+                {star} {star === 1 ? 'star' : 'stars'}
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <label htmlFor={`${id}-title`} className="label">
+          Title (optional)
+        </label>
+        <input
+          id={`${id}-title`}
+          value={title}
+          maxLength={120}
+          onChange={(e) => setTitle(e.target.value)}
+          className="input"
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-body`} className="label">
+          Your review
+        </label>
+        <textarea
+          id={`${id}-body`}
+          required
+          rows={5}
+          maxLength={5000}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className="input"
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-photos`} className="label">
+          Photos (optional, up to {MAX_REVIEW_PHOTOS})
+        </label>
+        <input
+          id={`${id}-photos`}
+          type="file"
+          accept={PHOTO_TYPES.join(',')}
+          multiple
+          disabled={photos.length >= MAX_REVIEW_PHOTOS}
+          onChange={handlePhotos}
+          className="text-sm"
+        />
+        {photos.length > 0 && (
+          <ul className="mt-2 flex gap-2">
+            {photos.map((src, index) => (
+              <li key={index} className="relative">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={src} alt={`Photo ${index + 1}`} className="h-16 w-16 rounded object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setPhotos((current) => current.filter((_, i) => i !== index))}
+                  aria-label={`Remove photo ${index + 1}`}
+                  className="absolute -right-1 -top-1 h-5 w-5 rounded-full bg-gray-800 text-xs text-white"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={status === 'loading'}
+        className="px-4 py-2 rounded bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-60"
+      >
+        {status === 'loading' ? 'Submitting...' : 'Submit review'}
+      </button>
+      {message && (
+        <p role="alert" className="text-sm text-red-600">
+          {message}
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import React, { useState } from 'react'
+import { voteHelpful } from '../lib/reviews/client'
+
+/**
+ * ReviewHelpfulButton - "Helpful (n)" toggle under a review. Signed-out
+ * shoppers get the API's sign-in message.
+ */
+export default function ReviewHelpfulButton({
+  reviewId,
+  initialCount,
+  initialVoted,
+}: {
+  reviewId: string
+  initialCount: number
+  initialVoted: boolean
+}) {
+  const [count, setCount] = useState(initialCount)
+  const [voted, setVoted] = useState(initialVoted)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClick = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const review = await voteHelpful(reviewId, !voted)
+      setCount(review.helpfulCount)
+      setVoted(review.votedHelpful)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 text-xs">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={busy}
+        aria-pressed={voted}
+        className={`rounded border px-2 py-1 disabled:opacity-60 ${
+          voted ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+        }`}
+      >
+        Helpful ({count})
+      </button>
+      {error && (
+        <p role="alert" className="mt-1 text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { moderateReview } from '../lib/reviews/client'
+import type { ModerationReview, ReviewStatus } from '../lib/reviews/types'
+import StarRating from './StarRating'
+
+/**
+ * ReviewModerationQueue - approve or reject reviews with an optional note.
+ * Handled reviews drop out of the list; the server page reloads the queue
+ * on navigation.
+ */
+export default function ReviewModerationQueue({ initialReviews }: { initialReviews: ModerationReview[] }) {
+  const [reviews, setReviews] = useState(initialReviews)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleModerate = async (review: ModerationReview, status: Exclude<ReviewStatus, 'pending'>) => {
+    setBusyId(review.id)
+    setError(null)
+    try {
+      await moderateReview(review.id, status, notes[review.id]?.trim() || undefined)
+      setReviews((current) => current.filter((r) => r.id !== review.id))
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (reviews.length === 0) {
+    return <p className="mt-6 text-sm text-gray-600">Nothing to review here.</p>
+  }
+
+  return (
+    <>
+      {error && (
+        <div role="alert" className="mt-4 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+      <ul className="mt-4 divide-y">
+        {reviews.map((review) => (
+          <li key={review.id} className="py-5">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Link href={`/products/${encodeURIComponent(review.productId)}`} className="font-medium text-indigo-600 hover:underline">
+                {review.productTitle}
+              </Link>
+              {review.variantTitle && <span className="text-gray-500">({review.variantTitle})</span>}
+              <StarRating rating={review.rating} />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {review.authorName} · {new Date(review.createdAt).toLocaleString()}
+              {review.moderation && ` · ${review.status} ${new Date(review.moderation.at).toLocaleDateString()}`}
+              {review.moderation?.note && ` - ${review.moderation.note}`}
+            </p>
+            {review.title && <h3 className="mt-2 font-semibold text-gray-900">{review.title}</h3>}
+            <p className="mt-1 whitespace-pre-line text-sm text-gray-700">{review.body}</p>
+            {review.photos.length > 0 && (
+              <ul className="mt-3 flex gap-2">
+                {review.photos.map((src, index) => (
+                  <li key={src}>
+                    <a href={src} target="_blank" rel="noreferrer">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={src} alt={`Photo ${index + 1}`} className="h-20 w-20 rounded object-cover" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <input
+                aria-label="Moderation note"
+                placeholder="Note (optional)"
+                value={notes[review.id] ?? ''}
+                onChange={(e) => setNotes((current) => ({ ...current, [review.id]: e.target.value }))}
+                maxLength={120}
+                className="input max-w-xs"
+              />
+              {review.status !== 'approved' && (
+                <button
+                  type="button"
+                  onClick={() => handleModerate(review, 'approved')}
+                  disabled={busyId === review.id}
+                  className="px-3 py-1.5 rounded bg-green-600 hover:bg-green-700 text-sm text-white disabled:opacity-60"
+                >
+                  Approve
+                </button>
+              )}
+              {review.status !== 'rejected' && (
+                <button
+                  type="button"
+                  onClick={() => handleModerate(review, 'rejected')}
+                  disabled={busyId === review.id}
+                  className="px-3 py-1.5 rounded border border-red-300 text-sm text-red-700 hover:bg-red-50 disabled:opacity-60"
+                >
+                  Reject
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useCurrency } from './CurrencyProvider'
+import { convertAmount } from '../lib/currency/prices'
+import { formatMoney } from '../lib/money'
+import { fetchSuggestions } from '../lib/search/client'
+import type { SearchSuggestions } from '../lib/search/engine'
+import { readRecentSearches } from '../lib/search/recent'
+
+/**
+ * SearchCombobox - the Header search input with search-as-you-type suggestions
+ * (products, categories and recent searches), following the ARIA 1.2 combobox
+ * pattern. Render it inside a `relative` container in a <form>: Enter without
+ * an active option submits the form as before.
+ */
+
+const DEBOUNCE_MS = 150
+
+type Option =
+  | { kind: 'recent'; query: string }
+  | { kind: 'category'; name: string; count: number }
+  | { kind: 'product'; product: SearchSuggestions['products'][number] }
+
+const GROUP_LABELS: Record<Option['kind'], string> = {
+  recent: 'Recent searches',
+  category: 'Categories',
+  product: 'Products',
+}
+
+function optionKey(option: Option) {
+  if (option.kind === 'recent') return `recent:${option.query}`
+  if (option.kind === 'category') return `category:${option.name}`
+  return `product:${option.product.id}`
+}
+
+interface SearchComboboxProps {
+  id: string
+  value: string
+  onValueChange: (value: string) => void
+  /** Run a free-text search, e.g. when a recent search is picked. */
+  onSearch: (query: string) => void
+  placeholder?: string
+  ariaLabel?: string
+  className?: string
+}
+
+export default function SearchCombobox({
+  id,
+  value,
+  onValueChange,
+  onSearch,
+  placeholder,
+  ariaLabel,
+  className = '',
+}: SearchComboboxProps) {
+  const router = useRouter()
+  const { currency } = useCurrency()
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [recent, setRecent] = useState<string[]>([])
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null)
+  const listboxId = `${id}-listbox`
+  const query = value.trim()
+
+  // Debounced fetch; a newer keystroke aborts the previous request
+  useEffect(() => {
+    if (!query) {
+      setSuggestions(null)
+      return
+    }
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      fetchSuggestions(query, controller.signal)
+        .then(setSuggestions)
+        .catch(() => {
+          if (!controller.signal.aborted) setSuggestions(null)
+        })
+    }, DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query])
+
+  const lowered = query.toLowerCase()
+  const options: Option[] = [
+    ...recent
+      .filter((q) => q.toLowerCase().startsWith(lowered) && q.toLowerCase() !== lowered)
+      .slice(0, query ? 3 : 5)
+      .map((q): Option => ({ kind: 'recent', query: q })),
+    ...(suggestions && suggestions.query === query
+      ? [
+          ...suggestions.categories.map((c): Option => ({ kind: 'category', ...c })),
+          ...suggestions.products.map((product): Option => ({ kind: 'product', product })),
+        ]
+      : []),
+  ]
+  const expanded = open && options.length > 0
+
+  // Reset the highlight whenever the option list changes shape
+  const optionsSignature = options.map(optionKey).join('|')
+  useEffect(() => {
+    setActiveIndex(-1)
+  }, [optionsSignature])
+
+  // Keep the highlighted option in view
+  useEffect(() => {
+    if (activeIndex < 0) return
+    document.getElementById(`${id}-option-${activeIndex}`)?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex, id])
+
+  const openList = () => {
+    setRecent(readRecentSearches())
+    setOpen(true)
+  }
+
+  const select = (option: Option) => {
+    setOpen(false)
+    if (option.kind === 'recent') {
+      onValueChange(option.query)
+      onSearch(option.query)
+    } else if (option.kind === 'category') {
+      router.push(`/search?category=${encodeURIComponent(option.name)}`)
+    } else {
+      router.push(`/products/${encodeURIComponent(option.product.id)}`)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        if (!expanded) {
+          openList()
+        } else {
+          setActiveIndex((i) => (i + 1) % options.length)
+        }
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        if (expanded) setActiveIndex((i) => (i <= 0 ? options.length - 1 : i - 1))
+        break
+      case 'Enter':
+        if (expanded && activeIndex >= 0) {
+          e.preventDefault()
+          select(options[activeIndex])
+        } else {
+          // Let the surrounding form submit
+          setOpen(false)
+        }
+        break
+      case 'Escape':
+        if (expanded) {
+          // Close just the listbox, not the menu the Header closes on Escape
+          e.preventDefault()
+          e.nativeEvent.stopPropagation()
+          setOpen(false)
+        } else if (value) {
+          onValueChange('')
+        }
+        break
+      case 'Tab':
+        setOpen(false)
+        break
+    }
+  }
+
+  let lastKind: Option['kind'] | null = null
+
+  return (
+    <>
+      <input
+        id={id}
+        name="q"
+        type="search"
+        role="combobox"
+        aria-label={ariaLabel}
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={expanded && activeIndex >= 0 ? `${id}-option-${activeIndex}` : undefined}
+        autoComplete="off"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onValueChange(e.target.value)
+          openList()
+        }}
+        onFocus={openList}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={className}
+      />
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Search suggestions"
+        hidden={!expanded}
+        className="absolute left-0 right-0 top-full mt-1 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg z-40 py-1 text-sm"
+      >
+        {options.map((option, i) => {
+          const heading = option.kind !== lastKind ? GROUP_LABELS[option.kind] : null
+          lastKind = option.kind
+          const active = i === activeIndex
+          return (
+            <React.Fragment key={optionKey(option)}>
+              {heading && (
+                <li role="presentation" className="px-3 pt-2 pb-1 text-xs uppercase tracking-wider text-gray-400">
+                  {heading}
+                </li>
+              )}
+              <li
+                id={`${id}-option-${i}`}
+                role="option"
+                aria-selected={active}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(option)}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`flex items-center gap-3 px-3 py-2 cursor-pointer ${active ? 'bg-indigo-50' : ''}`}
+              >
+                {option.kind === 'recent' && (
+                  <>
+                    <span aria-hidden className="text-gray-400">↺</span>
+                    <span className="text-gray-700">{option.query}</span>
+                  </>
+                )}
+                {option.kind === 'category' && (
+                  <>
+                    <span className="text-gray-700">
+                      in <span className="font-medium">{option.name}</span>
+                    </span>
+                    <span className="ml-auto text-xs text-gray-400">{option.count}</span>
+                  </>
+                )}
+                {option.kind === 'product' && (
+                  <>
+                    <span className="w-10 h-10 flex-shrink-0 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+                      {option.product.image ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={option.product.image} alt="" className="object-contain h-full" />
+                      ) : null}
+                    </span>
+                    <span className="flex-1 text-gray-800 truncate">{option.product.title}</span>
+                    <span className="font-semibold text-indigo-600">
+                      {formatMoney(
+                        option.product.prices?.[currency] ?? convertAmount(option.product.price, currency),
+                        currency,
+                      )}
+                    </span>
+                  </>
+                )}
+              </li>
+            </React.Fragment>
+          )
+        })}
+      </ul>
+
+      <span role="status" aria-live="polite" className="sr-only">
+        {expanded ? `${options.length} suggestion${options.length === 1 ? '' : 's'} available.` : ''}
+      </span>
+    </>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import React from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import Header from './Header'
+import { useCart } from './CartProvider'
+import type { User } from '../lib/auth/types'
+import type { NavCategory } from '../lib/catalog/types'
+
+/**
+ * SiteHeader - binds Header to the auth routes. RootLayout (a server
+ * component) reads the session and the category menu and passes them in;
+ * the sign in/out callbacks have to be created on the client.
+ */
+export default function SiteHeader({
+  user,
+  categories,
+}: {
+  user: User | null
+  categories: NavCategory[]
+}) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { refresh } = useCart()
+
+  const handleSignIn = () => {
+    router.push(`/signin?next=${encodeURIComponent(pathname ?? '/')}`)
+  }
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/signout', { method: 'POST' }).catch(() => null)
+    await refresh()
+    router.push('/')
+    router.refresh()
+  }
+
+  return (
+    <Header user={user} categories={categories} onSignIn={handleSignIn} onSignOut={handleSignOut} />
+  )
+}
@@ -0,0 +1,22 @@
+import React from 'react'
+
+/**
+ * StarRating - read-only five-star display. `rating` may be fractional; it
+ * is rounded to the nearest whole star for display and read out exactly.
+ */
+export default function StarRating({ rating, className = '' }: { rating: number; className?: string }) {
+  const filled = Math.round(rating)
+  return (
+    <span
+      role="img"
+      aria-label={`${Number(rating.toFixed(1))} out of 5 stars`}
+      className={`inline-flex text-amber-500 ${className}`}
+    >
+      {[1, 2, 3, 4, 5].map((star) => (
+        <span key={star} aria-hidden className={star <= filled ? undefined : 'text-gray-300'}>
+          ★
+        </span>
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,26 @@
+import React from 'react'
+import { STOCK_BADGE_CLASSES, stockLabel } from '../lib/inventory/status'
+import type { StockInfo } from '../lib/inventory/types'
+
+/**
+ * StockBadge - "In stock" / "Only 3 left" / "Out of stock" pill. Renders
+ * nothing for untracked items unless `showInStock` is set.
+ */
+export default function StockBadge({
+  stock,
+  showInStock = true,
+  className = '',
+}: {
+  stock?: StockInfo
+  showInStock?: boolean
+  className?: string
+}) {
+  if (!stock || (stock.status === 'in_stock' && (!showInStock || stock.available === null))) return null
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STOCK_BADGE_CLASSES[stock.status]} ${className}`}
+    >
+      {stockLabel(stock)}
+    </span>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import React from 'react'
+import type { Product, ProductVariant } from '../lib/products/types'
+import { selectOption } from '../lib/products/variants'
+
+/**
+ * VariantPicker - one group of pill-style radio buttons per product option
+ * (Size, Color, ...). Picking a value always lands on a real variant (see
+ * selectOption); values whose best match is sold out are struck through but
+ * stay selectable so the shopper can see what they're missing.
+ */
+export default function VariantPicker({
+  product,
+  variant,
+  onChange,
+  idPrefix,
+}: {
+  product: Product
+  variant: ProductVariant | undefined
+  onChange: (variant: ProductVariant) => void
+  /** Keeps radio group names unique when several pickers are on the page. */
+  idPrefix: string
+}) {
+  return (
+    <div className="space-y-4">
+      {(product.options ?? []).map((option) => {
+        const selected = variant?.options[option.name]
+        return (
+          <fieldset key={option.name}>
+            <legend className="text-sm font-medium text-gray-900">
+              {option.name}
+              {selected && <span className="font-normal text-gray-600">: {selected}</span>}
+            </legend>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {option.values.map((value) => {
+                const target = selectOption(product, variant, option.name, value)
+                if (!target) return null
+                const soldOut = target.availability?.available === 0
+                return (
+                  <label key={value} className="cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`${idPrefix}-${option.name}`}
+                      value={value}
+                      checked={selected === value}
+                      onChange={() => onChange(target)}
+                      className="peer sr-only"
+                    />
+                    <span
+                      className={`inline-block min-w-[2.75rem] px-3 py-1.5 rounded border text-sm text-center peer-checked:border-indigo-600 peer-checked:bg-indigo-50 peer-checked:text-indigo-700 peer-focus-visible:ring-2 peer-focus-visible:ring-indigo-500 ${
+                        soldOut ? 'text-gray-400 line-through' : 'text-gray-800 hover:border-gray-400'
+                      }`}
+                    >
+                      {value}
+                      {soldOut && <span className="sr-only"> (sold out)</span>}
+                    </span>
+                  </label>
+                )
+              })}
+            </div>
+          </fieldset>
+        )
+      })}
+    </div>
+  )
+}
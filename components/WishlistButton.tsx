@@ -0,0 +1,54 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useWishlist } from './WishlistProvider'
+
+/**
+ * WishlistButton - heart toggle that saves a product to (or removes it from)
+ * the wishlist.
+ */
+export default function WishlistButton({
+  productId,
+  variantId,
+  productTitle,
+  className = '',
+}: {
+  productId: string
+  variantId?: string
+  productTitle: string
+  className?: string
+}) {
+  const { isSaved, toggle } = useWishlist()
+  const [busy, setBusy] = useState(false)
+  const saved = isSaved(productId)
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards wrap the heart in links/clickable areas
+    e.preventDefault()
+    e.stopPropagation()
+    setBusy(true)
+    await toggle({ productId, variantId })
+    setBusy(false)
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={busy}
+      aria-pressed={saved}
+      aria-label={saved ? `Remove ${productTitle} from wishlist` : `Save ${productTitle} to wishlist`}
+      title={saved ? 'Saved to wishlist' : 'Save to wishlist'}
+      className={`p-1.5 rounded-full hover:bg-gray-100 disabled:opacity-60 ${saved ? 'text-red-600' : 'text-gray-400'} ${className}`}
+    >
+      <svg className="h-5 w-5" viewBox="0 0 24 24" fill={saved ? 'currentColor' : 'none'} stroke="currentColor" aria-hidden>
+        <path
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          d="M12 21s-7.5-4.6-9.5-9.1C1.1 8.6 3.2 5 6.7 5c2 0 3.6 1.1 4.3 2.6h2C13.7 6.1 15.3 5 17.3 5c3.5 0 5.6 3.6 4.2 6.9C19.5 16.4 12 21 12 21z"
+        />
+      </svg>
+    </button>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import StockBadge from './StockBadge'
+import { useCart } from './CartProvider'
+import { useCurrency } from './CurrencyProvider'
+import { useWishlist } from './WishlistProvider'
+import { localizedPrice } from '../lib/currency/prices'
+import { isOutOfStock } from '../lib/inventory/status'
+import { formatMoney } from '../lib/money'
+import { hasVariants, variantImage, variantTitle } from '../lib/products/variants'
+import type { WishlistViewItem } from '../lib/wishlist/types'
+
+/**
+ * WishlistManager - body of /account/wishlist: saved products with "Move to
+ * cart" and "Remove", plus the share link controls for signed-in users.
+ */
+
+function productHref(item: WishlistViewItem) {
+  const base = `/products/${encodeURIComponent(item.productId)}`
+  return item.variantId ? `${base}?variant=${encodeURIComponent(item.variantId)}` : base
+}
+
+function ShareControls() {
+  const { wishlist, share, stopSharing } = useWishlist()
+  const [origin, setOrigin] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => setOrigin(window.location.origin), [])
+
+  if (!wishlist.shareId) {
+    return (
+      <button onClick={() => share()} className="text-sm text-indigo-600 hover:underline">
+        Share wishlist
+      </button>
+    )
+  }
+
+  const url = `${origin}/wishlist/${wishlist.shareId}`
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard blocked; the field is still selectable
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="wishlist-share-url" className="block text-sm text-gray-600">
+        Anyone with this link can view your wishlist:
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="wishlist-share-url"
+          readOnly
+          value={url}
+          onFocus={(e) => e.target.select()}
+          className="flex-1 border rounded px-3 py-2 text-sm bg-gray-50"
+        />
+        <button onClick={copy} className="px-3 py-2 rounded border text-sm hover:bg-gray-50">
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <button onClick={() => stopSharing()} className="text-sm text-red-600 hover:underline">
+        Stop sharing
+      </button>
+    </div>
+  )
+}
+
+export default function WishlistManager() {
+  const { wishlist, loading, error, signedIn, remove } = useWishlist()
+  const { addItem, openCart } = useCart()
+  const { currency } = useCurrency()
+
+  const moveToCart = async (item: WishlistViewItem) => {
+    await addItem({ productId: item.productId, variantId: item.variantId })
+    await remove(item.productId)
+    openCart()
+  }
+
+  if (loading) {
+    return <div className="py-20 text-center text-gray-500">Loading wishlist...</div>
+  }
+
+  return (
+    <section className="max-w-3xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h1 className="text-2xl font-bold text-gray-900">Wishlist</h1>
+        {!signedIn && (
+          <p className="mt-2 text-sm text-gray-600">
+            Your wishlist is saved in this browser.{' '}
+            <Link href="/signin?next=/account/wishlist" className="text-indigo-600 hover:underline">
+              Sign in
+            </Link>{' '}
+            to keep it in your account and share it.
+          </p>
+        )}
+        {error && (
+          <div role="alert" className="mt-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {wishlist.items.length === 0 ? (
+          <div className="mt-6 text-sm text-gray-500">
+            Nothing saved yet. Tap the heart on any product to save it here.{' '}
+            <Link href="/" className="text-indigo-600 hover:underline">
+              Browse products
+            </Link>
+          </div>
+        ) : (
+          <ul className="mt-4 divide-y">
+            {wishlist.items.map((item) => {
+              const stock = item.variant ? item.variant.availability : item.product.availability
+              const needsOptions = hasVariants(item.product) && !item.variant
+              return (
+                <li key={item.productId} className="py-4 flex items-center space-x-4">
+                  <div className="w-20 h-20 bg-gray-50 rounded overflow-hidden flex items-center justify-center">
+                    {variantImage(item.product, item.variant) ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={variantImage(item.product, item.variant)}
+                        alt={item.product.title}
+                        className="object-contain h-full"
+                      />
+                    ) : (
+                      <div className="text-xs text-gray-400">No image</div>
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <Link href={productHref(item)} className="text-sm font-medium hover:text-indigo-600">
+                      {item.product.title}
+                    </Link>
+                    {item.variant && (
+                      <div className="text-xs text-gray-500">{variantTitle(item.product, item.variant)}</div>
+                    )}
+                    <div className="text-sm font-semibold text-gray-900">
+                      {formatMoney(localizedPrice(item.product, item.variant, currency), currency)}
+                    </div>
+                    <StockBadge stock={stock} showInStock={false} className="mt-1" />
+                  </div>
+                  <div className="flex flex-col items-end space-y-2">
+                    {needsOptions ? (
+                      <Link
+                        href={productHref(item)}
+                        className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white text-sm"
+                      >
+                        Choose options
+                      </Link>
+                    ) : (
+                      <button
+                        onClick={() => moveToCart(item)}
+                        disabled={isOutOfStock(stock)}
+                        className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-60"
+                      >
+                        {isOutOfStock(stock) ? 'Out of stock' : 'Move to cart'}
+                      </button>
+                    )}
+                    <button onClick={() => remove(item.productId)} className="text-xs text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {signedIn && wishlist.items.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold mb-3">Share</h2>
+          <ShareControls />
+        </div>
+      )}
+    </section>
+  )
+}
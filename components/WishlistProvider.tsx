@@ -0,0 +1,153 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { useCart } from './CartProvider'
+import type { CartLineRef } from '../lib/cart/types'
+import {
+  fetchWishlist,
+  mergeWishlistItems,
+  previewWishlist,
+  removeWishlistItem,
+  saveWishlistItem,
+  shareWishlist,
+  stopSharingWishlist,
+} from '../lib/wishlist/client'
+import {
+  WISHLIST_STORAGE_KEY,
+  clearLocalWishlist,
+  readLocalWishlist,
+  writeLocalWishlist,
+} from '../lib/wishlist/local'
+import type { WishlistItem, WishlistItemRef, WishlistView } from '../lib/wishlist/types'
+
+/**
+ * WishlistProvider - the shopper's saved products on the client.
+ *
+ * Guests' lists live in localStorage and are hydrated through
+ * /api/wishlist/preview; signed-in users' lists live on the server. When
+ * `userId` changes to a signed-in user (RootLayout re-renders after sign-in),
+ * the local list is merged into the account and cleared.
+ */
+
+const EMPTY_WISHLIST: WishlistView = { items: [] }
+
+interface WishlistContextValue {
+  wishlist: WishlistView
+  loading: boolean
+  error: string | null
+  signedIn: boolean
+  isSaved: (productId: string) => boolean
+  /** Each action resolves to false (with `error` set) when it failed. */
+  save: (item: WishlistItemRef) => Promise<boolean>
+  remove: (productId: string) => Promise<boolean>
+  toggle: (item: WishlistItemRef) => Promise<boolean>
+  share: () => Promise<boolean>
+  stopSharing: () => Promise<boolean>
+}
+
+const WishlistContext = createContext<WishlistContextValue | null>(null)
+
+export function WishlistProvider({ userId, children }: { userId: string | null; children: React.ReactNode }) {
+  const signedIn = userId !== null
+  const [wishlist, setWishlist] = useState<WishlistView>(EMPTY_WISHLIST)
+  // Guest list as stored; drives the hearts before hydration finishes
+  const [local, setLocal] = useState<WishlistItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async (request: () => Promise<WishlistView>) => {
+    try {
+      setWishlist(await request())
+      setError(null)
+      return true
+    } catch (err) {
+      setError((err as Error).message)
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const load = useCallback(async () => {
+    const stored = readLocalWishlist()
+    if (!signedIn) {
+      setLocal(stored)
+      return run(() => (stored.length ? previewWishlist(stored) : Promise.resolve(EMPTY_WISHLIST)))
+    }
+    setLocal([])
+    return run(async () => {
+      if (stored.length === 0) return fetchWishlist()
+      const merged = await mergeWishlistItems(stored)
+      clearLocalWishlist()
+      return merged
+    })
+  }, [signedIn, run])
+
+  useEffect(() => {
+    load()
+  }, [load, userId])
+
+  // Keep guest tabs in sync
+  useEffect(() => {
+    if (signedIn) return
+    function handleStorage(e: StorageEvent) {
+      if (e.key === WISHLIST_STORAGE_KEY) load()
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [signedIn, load])
+
+  const updateLocal = useCallback(
+    (fn: (items: WishlistItem[]) => WishlistItem[]) => {
+      const next = fn(readLocalWishlist())
+      writeLocalWishlist(next)
+      setLocal(next)
+      return run(() => (next.length ? previewWishlist(next) : Promise.resolve(EMPTY_WISHLIST)))
+    },
+    [run],
+  )
+
+  const value = useMemo<WishlistContextValue>(() => {
+    const saved = new Set((signedIn ? wishlist.items : local).map((i) => i.productId))
+    const save = (item: WishlistItemRef) =>
+      signedIn
+        ? run(() => saveWishlistItem(item))
+        : updateLocal((items) => [
+            { productId: item.productId, variantId: item.variantId, addedAt: new Date().toISOString() },
+            ...items.filter((i) => i.productId !== item.productId),
+          ])
+    const remove = (productId: string) =>
+      signedIn
+        ? run(() => removeWishlistItem(productId))
+        : updateLocal((items) => items.filter((i) => i.productId !== productId))
+    return {
+      wishlist,
+      loading,
+      error,
+      signedIn,
+      isSaved: (productId) => saved.has(productId),
+      save,
+      remove,
+      toggle: (item) => (saved.has(item.productId) ? remove(item.productId) : save(item)),
+      share: () => run(shareWishlist),
+      stopSharing: () => run(stopSharingWishlist),
+    }
+  }, [wishlist, local, loading, error, signedIn, run, updateLocal])
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>
+}
+
+export function useWishlist(): WishlistContextValue {
+  const ctx = useContext(WishlistContext)
+  if (!ctx) throw new Error('useWishlist must be used inside <WishlistProvider>')
+  return ctx
+}
+
+/** "Save for later": move a cart line to the wishlist, keeping its variant. */
+export function useSaveForLater() {
+  const { save } = useWishlist()
+  const { removeItem } = useCart()
+  return async (line: CartLineRef) => {
+    if (await save({ productId: line.productId, variantId: line.variantId })) await removeItem(line)
+  }
+}
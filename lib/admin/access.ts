@@ -0,0 +1,20 @@
+import { canManageCatalog, isAdmin } from '../auth/service'
+import { getCurrentUser } from '../auth/session'
+import type { User } from '../auth/types'
+import { HttpError } from '../http'
+
+/** The signed-in merchandiser or admin; throws 401/403 for everyone else. */
+export async function requireCatalogManager(): Promise<User> {
+  const user = await getCurrentUser()
+  if (!user) throw new HttpError(401, 'Please sign in.')
+  if (!canManageCatalog(user)) throw new HttpError(403, 'Only merchandisers and admins can manage the catalog.')
+  return user
+}
+
+/** The signed-in admin; throws 401/403 for everyone else. */
+export async function requireOrderManager(): Promise<User> {
+  const user = await getCurrentUser()
+  if (!user) throw new HttpError(401, 'Please sign in.')
+  if (!isAdmin(user)) throw new HttpError(403, 'Only admins can manage orders.')
+  return user
+}
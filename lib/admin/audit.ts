@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto'
+import type { User } from '../auth/types'
+import { createJsonStore } from '../db/jsonStore'
+import { toPositiveInt } from '../validation'
+import type { AuditAction, AuditChange, AuditEntry, AuditPage, AuditQuery, AuditTargetType } from './types'
+
+/**
+ * Append-only log of catalog changes made in /admin. Entries are stored
+ * oldest first and listed newest first. Server-only.
+ */
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50
+const MAX_AUDIT_PAGE_SIZE = 200
+
+const AUDIT_TARGET_TYPES: AuditTargetType[] = ['product', 'category', 'catalog']
+
+const auditStore = createJsonStore<AuditEntry[]>('audit-log', () => [])
+
+export interface AuditRecord {
+  action: AuditAction
+  target: AuditEntry['target']
+  changes: AuditChange[]
+}
+
+export function newBatchId() {
+  return `batch_${randomBytes(6).toString('hex')}`
+}
+
+/** Append one entry per record, all stamped with the same time and actor. */
+export async function recordAudit(actor: User, records: AuditRecord[], batchId?: string): Promise<void> {
+  if (records.length === 0) return
+  const at = new Date().toISOString()
+  await auditStore.update((entries) => {
+    for (const record of records) {
+      entries.push({
+        id: `aud_${randomBytes(8).toString('hex')}`,
+        at,
+        actor: { id: actor.id, name: actor.name, email: actor.email },
+        ...record,
+        batchId,
+      })
+    }
+  })
+}
+
+/** Parse an AuditQuery out of URL search params (`type`, `id`, `page`, `pageSize`). */
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+  const type = params.get('type') as AuditTargetType | null
+  return {
+    type: type && AUDIT_TARGET_TYPES.includes(type) ? type : undefined,
+    targetId: params.get('id') || undefined,
+    page: toPositiveInt(params.get('page'), 1),
+    pageSize: Math.min(toPositiveInt(params.get('pageSize'), DEFAULT_AUDIT_PAGE_SIZE), MAX_AUDIT_PAGE_SIZE),
+  }
+}
+
+export async function listAuditLog({
+  type,
+  targetId,
+  page = 1,
+  pageSize = DEFAULT_AUDIT_PAGE_SIZE,
+}: AuditQuery = {}): Promise<AuditPage> {
+  const matching = (await auditStore.read())
+    .filter((e) => (!type || e.target.type === type) && (!targetId || e.target.id === targetId))
+    .reverse()
+  const start = (page - 1) * pageSize
+  return {
+    items: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(matching.length / pageSize)),
+  }
+}
+
+/** Field-by-field differences between two versions of a record, for the audit log. */
+export function diffFields<T extends object>(
+  before: T,
+  after: T,
+  fields: readonly (keyof T & string)[],
+): AuditChange[] {
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, from: before[field], to: after[field] }))
+}
@@ -0,0 +1,170 @@
+import type { User } from '../auth/types'
+import { getCatalog } from '../catalog/service'
+import { getCatalogRepository } from '../catalog/repository'
+import { categoryForProduct, childCategories, descendantCategories } from '../catalog/tree'
+import type { Category } from '../catalog/types'
+import { HttpError } from '../http'
+import { getEditableProductRepository } from '../products/repository'
+import { diffFields, newBatchId, recordAudit, type AuditRecord } from './audit'
+import { applyFields, has, optionalImageUrl, optionalTaxClass, optionalText, requiredText } from './fields'
+import { reassignCategory } from './products'
+import type { AdminCategory, CategoryInput } from './types'
+
+/**
+ * Category management for the /admin dashboard. Products refer to their
+ * category by name (see categoryForProduct), so renaming a category moves
+ * its products along, and a category with products can't be deleted.
+ * Server-only.
+ */
+
+const MAX_NAME_LENGTH = 80
+const MAX_DESCRIPTION_LENGTH = 1000
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+const CATEGORY_FIELDS = ['name', 'slug', 'description', 'heroImage', 'parentId', 'taxClass'] as const
+
+/** "Home & Garden" -> "home-garden" */
+export function slugify(text: string) {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_NAME_LENGTH)
+}
+
+function parseSlug(value: unknown): string {
+  const slug = requiredText(value, MAX_NAME_LENGTH, 'Slug')
+  if (!SLUG.test(slug)) throw new HttpError(400, 'Slug must be lowercase letters and digits separated by dashes.')
+  return slug
+}
+
+/** Validate against the current tree; `self` is the category being edited, if any. */
+function parseCategoryFields(input: unknown, categories: Category[], self?: Category): Partial<Category> {
+  if (!input || typeof input !== 'object') throw new HttpError(400, 'Category details must be an object.')
+  const raw = input as Record<string, unknown>
+  const fields: Partial<Category> = {}
+  if (has(raw, 'name')) fields.name = requiredText(raw.name, MAX_NAME_LENGTH, 'Name')
+  if (has(raw, 'slug')) fields.slug = parseSlug(raw.slug)
+  if (has(raw, 'description')) fields.description = optionalText(raw.description, MAX_DESCRIPTION_LENGTH, 'Description')
+  if (has(raw, 'heroImage')) fields.heroImage = optionalImageUrl(raw.heroImage, 'Hero image')
+  if (has(raw, 'taxClass')) fields.taxClass = optionalTaxClass(raw.taxClass)
+  if (has(raw, 'parentId')) {
+    const parentId = optionalText(raw.parentId, MAX_NAME_LENGTH, 'Parent')
+    if (parentId !== undefined) {
+      const parent = categories.find((c) => c.id === parentId)
+      if (!parent) throw new HttpError(400, 'Parent category not found.')
+      if (self && descendantCategories(categories, self).includes(parent)) {
+        throw new HttpError(400, 'A category cannot be moved under itself or one of its subcategories.')
+      }
+    }
+    fields.parentId = parentId
+  }
+  return fields
+}
+
+/** Names are matched case-insensitively by products, so they must be unique too. */
+function assertUnique(categories: Category[], category: Category) {
+  const others = categories.filter((c) => c.id !== category.id)
+  if (others.some((c) => c.slug === category.slug || c.id === category.slug)) {
+    throw new HttpError(409, `Another category already uses the slug "${category.slug}".`)
+  }
+  if (others.some((c) => c.name.toLowerCase() === category.name.toLowerCase())) {
+    throw new HttpError(409, `Another category is already called "${category.name}".`)
+  }
+}
+
+function categoryTarget(category: Category): AuditRecord['target'] {
+  return { type: 'category', id: category.id, label: category.name }
+}
+
+/** Categories in tree order (each parent followed by its subcategories) with their product counts. */
+export async function listCategoriesForAdmin(): Promise<AdminCategory[]> {
+  const [{ categories }, products] = await Promise.all([
+    getCatalog(),
+    getEditableProductRepository().then((repo) => repo.list()),
+  ])
+  const counts = new Map<string, number>()
+  for (const product of products) {
+    const category = categoryForProduct(categories, product)
+    if (category) counts.set(category.id, (counts.get(category.id) ?? 0) + 1)
+  }
+  const result: AdminCategory[] = []
+  const seen = new Set<string>()
+  const walk = (parentId: string | null, depth: number) => {
+    for (const category of childCategories(categories, parentId)) {
+      if (seen.has(category.id)) continue
+      seen.add(category.id)
+      result.push({ ...category, depth, productCount: counts.get(category.id) ?? 0 })
+      walk(category.id, depth + 1)
+    }
+  }
+  walk(null, 0)
+  return result
+}
+
+export async function createCategory(user: User, input: CategoryInput): Promise<Category> {
+  const raw = (input ?? {}) as Record<string, unknown>
+  const name = requiredText(raw.name, MAX_NAME_LENGTH, 'Name')
+  const slug = raw.slug === undefined || raw.slug === '' ? slugify(name) : parseSlug(raw.slug)
+  if (!slug) throw new HttpError(400, 'Add a slug made of letters or digits.')
+
+  const category = await (await getCatalogRepository()).update((catalog) => {
+    const category: Category = { id: slug, slug, name }
+    applyFields(category, parseCategoryFields({ ...raw, name, slug }, catalog.categories))
+    assertUnique(catalog.categories, category)
+    catalog.categories.push(category)
+    return category
+  })
+  const changes = diffFields({} as Category, category, CATEGORY_FIELDS)
+  await recordAudit(user, [{ action: 'category.created', target: categoryTarget(category), changes }])
+  return category
+}
+
+export async function updateCategory(user: User, id: string, input: CategoryInput): Promise<Category> {
+  const { before, category, previous, changes } = await (await getCatalogRepository()).update((catalog) => {
+    const index = catalog.categories.findIndex((c) => c.id === id)
+    if (index < 0) throw new HttpError(404, 'Category not found.')
+    const before = structuredClone(catalog.categories)
+    const previous = catalog.categories[index]
+    const next = { ...previous }
+    applyFields(next, parseCategoryFields(input, catalog.categories, previous))
+    assertUnique(catalog.categories, next)
+    catalog.categories[index] = next
+    return { before, category: next, previous, changes: diffFields(previous, next, CATEGORY_FIELDS) }
+  })
+  if (changes.length === 0) return category
+
+  const renamed = previous.name !== category.name || previous.slug !== category.slug
+  const productRecords = renamed ? await reassignCategory(previous, before, category.name) : []
+  const records: AuditRecord[] = [
+    { action: 'category.updated', target: categoryTarget(category), changes },
+    ...productRecords,
+  ]
+  await recordAudit(user, records, records.length > 1 ? newBatchId() : undefined)
+  return category
+}
+
+/** Only empty categories can be deleted: no subcategories, products or collections pointing at it. */
+export async function deleteCategory(user: User, id: string): Promise<void> {
+  const products = await (await getEditableProductRepository()).list()
+  const category = await (await getCatalogRepository()).update((catalog) => {
+    const category = catalog.categories.find((c) => c.id === id)
+    if (!category) throw new HttpError(404, 'Category not found.')
+    if (childCategories(catalog.categories, id).length > 0) {
+      throw new HttpError(409, 'Move or delete its subcategories first.')
+    }
+    const productCount = products.filter((p) => categoryForProduct(catalog.categories, p)?.id === id).length
+    if (productCount > 0) {
+      const products = `${productCount} product${productCount === 1 ? '' : 's'}`
+      throw new HttpError(409, `Move its ${products} to another category first.`)
+    }
+    const collection = catalog.collections.find((c) => c.rule.type === 'category' && c.rule.categoryId === id)
+    if (collection) throw new HttpError(409, `The "${collection.title}" collection is built from this category.`)
+    catalog.categories = catalog.categories.filter((c) => c.id !== id)
+    return category
+  })
+  const changes = diffFields(category, {} as Category, CATEGORY_FIELDS)
+  await recordAudit(user, [{ action: 'category.deleted', target: categoryTarget(category), changes }])
+}
@@ -0,0 +1,72 @@
+import type { Category } from '../catalog/types'
+import type { Order, OrderStatus, RefundInput, ShipmentInput } from '../orders/types'
+import type { Product } from '../products/types'
+import type { BulkProductUpdate, CategoryInput, ImportReport, ImportRequest, ProductInput } from './types'
+
+/**
+ * Browser helpers for the /api/admin routes. Each rejects with the API's
+ * `{ message }` on failure.
+ */
+
+async function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: 'no-store',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(data?.message || 'Something went wrong. Please try again later.')
+  return data as T
+}
+
+export function createProduct(input: ProductInput) {
+  return request<Product>('/api/admin/products', 'POST', input)
+}
+
+export function updateProduct(id: string, input: ProductInput) {
+  return request<Product>(`/api/admin/products/${encodeURIComponent(id)}`, 'PATCH', input)
+}
+
+export function bulkUpdateProducts(update: BulkProductUpdate) {
+  return request<{ items: Product[] }>('/api/admin/products', 'PATCH', update)
+}
+
+/** Listed products move to the front of the featured order. */
+export function reorderProducts(ids: string[]) {
+  return request<{ ids: string[] }>('/api/admin/products', 'PUT', { ids })
+}
+
+export function createCategory(input: CategoryInput) {
+  return request<Category>('/api/admin/categories', 'POST', input)
+}
+
+export function updateCategory(id: string, input: CategoryInput) {
+  return request<Category>(`/api/admin/categories/${encodeURIComponent(id)}`, 'PATCH', input)
+}
+
+export function deleteCategory(id: string) {
+  return request<void>(`/api/admin/categories/${encodeURIComponent(id)}`, 'DELETE')
+}
+
+/** Upload an image data URL (see readPhoto in lib/reviews/client); resolves to its URL. */
+export function uploadImage(image: string) {
+  return request<{ url: string }>('/api/admin/images', 'POST', { image })
+}
+
+/** Validate (with `dryRun`) or apply a catalog file; rejects only when the file can't be read at all. */
+export function importCatalog(input: ImportRequest) {
+  return request<ImportReport>('/api/admin/catalog/import', 'POST', input)
+}
+
+export function updateOrderStatus(id: string, status: OrderStatus, note?: string) {
+  return request<Order>(`/api/admin/orders/${encodeURIComponent(id)}`, 'PATCH', { status, note })
+}
+
+export function shipOrder(id: string, input: ShipmentInput) {
+  return request<Order>(`/api/admin/orders/${encodeURIComponent(id)}/shipments`, 'POST', input)
+}
+
+export function refundOrder(id: string, input: RefundInput) {
+  return request<Order>(`/api/admin/orders/${encodeURIComponent(id)}/refunds`, 'POST', input)
+}
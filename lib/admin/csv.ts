@@ -0,0 +1,74 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing for catalog imports and exports:
+ * comma-separated, double-quoted fields with "" escapes, CRLF or LF line
+ * endings and an optional UTF-8 byte order mark (as Excel writes it).
+ */
+
+export class CsvError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CsvError'
+  }
+}
+
+export interface CsvRow {
+  /** Line the row starts on, counting from 1; quoted cells can span lines. */
+  line: number
+  cells: string[]
+}
+
+/** The non-blank rows of a CSV file. */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0] !== '') rows.push({ line: rowLine, cells: row })
+    row = []
+    cell = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+  if (quoted) throw new CsvError(`Row ${rowLine} has an unclosed quote.`)
+  if (cell !== '' || row.length > 0) endRow()
+  return rows
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
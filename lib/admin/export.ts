@@ -0,0 +1,65 @@
+import { getEditableProductRepository } from '../products/repository'
+import type { Product } from '../products/types'
+import { displayTitle } from '../products/variants'
+import { toCsv } from './csv'
+import { CATALOG_FIELDS, type CatalogField, type CatalogFileFormat } from './types'
+
+/**
+ * Catalog export in the layout lib/admin/import.ts reads back: one row per
+ * product, each followed by a row per variant. Server-only.
+ */
+
+type CatalogRow = Partial<Record<CatalogField, string | number>>
+
+function catalogRows(products: Product[]): CatalogRow[] {
+  return products.flatMap((product) => [
+    {
+      sku: product.sku,
+      id: product.id,
+      title: product.title,
+      description: product.description,
+      status: product.status,
+      price: product.price,
+      compareAtPrice: product.compareAtPrice,
+      category: product.category,
+      image: product.image,
+      taxClass: product.taxClass,
+      weight: product.weight,
+    },
+    ...(product.variants ?? []).map((variant) => ({
+      sku: variant.sku,
+      parentId: product.id,
+      title: displayTitle(product, variant),
+      price: variant.price,
+      compareAtPrice: variant.compareAtPrice,
+      image: variant.image,
+      weight: variant.weight,
+    })),
+  ])
+}
+
+export interface CatalogExport {
+  filename: string
+  contentType: string
+  body: string
+}
+
+/** Every product (drafts and archived included) in featured order. */
+export async function exportCatalog(format: CatalogFileFormat): Promise<CatalogExport> {
+  const rows = catalogRows(await (await getEditableProductRepository()).list())
+  const date = new Date().toISOString().slice(0, 10)
+  if (format === 'csv') {
+    const cells = rows.map((row) => CATALOG_FIELDS.map((field) => String(row[field] ?? '')))
+    return {
+      filename: `catalog-${date}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: toCsv([[...CATALOG_FIELDS], ...cells]),
+    }
+  }
+  // JSON.stringify drops the fields a row leaves undefined
+  return {
+    filename: `catalog-${date}.json`,
+    contentType: 'application/json; charset=utf-8',
+    body: `${JSON.stringify(rows, null, 2)}\n`,
+  }
+}
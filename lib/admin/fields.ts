@@ -0,0 +1,85 @@
+import { HttpError } from '../http'
+
+/**
+ * Field parsers shared by the product and category services. Each takes the
+ * raw JSON value and a label for error messages; the optional ones map null
+ * and "" to undefined, which the services treat as "clear this field".
+ */
+
+const TAX_CLASS = /^[a-z0-9-]{1,40}$/
+const SKU = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/
+const MAX_IMAGE_URL_LENGTH = 500
+
+export function has(input: object, field: string) {
+  return Object.prototype.hasOwnProperty.call(input, field)
+}
+
+export function requiredText(value: unknown, max: number, label: string): string {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${label} is required.`)
+  const text = value.trim()
+  if (text.length > max) throw new HttpError(400, `${label} must be at most ${max} characters.`)
+  return text
+}
+
+export function optionalText(value: unknown, max: number, label: string): string | undefined {
+  if (value === null || value === '') return undefined
+  return requiredText(value, max, label)
+}
+
+export function optionalPositiveNumber(value: unknown, label: string): number | undefined {
+  if (value === null || value === '') return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new HttpError(400, `${label} must be a positive number.`)
+  }
+  return value
+}
+
+/** Prices are kept to whole cents. */
+export function price(value: unknown, label: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new HttpError(400, `${label} must be a number of zero or more.`)
+  }
+  return Math.round(value * 100) / 100
+}
+
+/** Site-relative paths (uploads, /public files) or absolute http(s) URLs. */
+export function optionalImageUrl(value: unknown, label: string): string | undefined {
+  const url = optionalText(value, MAX_IMAGE_URL_LENGTH, label)
+  if (url && !/^(\/(?!\/)|https?:\/\/)/.test(url)) {
+    throw new HttpError(400, `${label} must be a path starting with "/" or an http(s) URL.`)
+  }
+  return url
+}
+
+export function optionalSku(value: unknown): string | undefined {
+  if (value === null || value === '') return undefined
+  if (typeof value !== 'string' || !SKU.test(value.trim())) {
+    throw new HttpError(400, 'SKU must be up to 64 letters, digits, dots, dashes or underscores.')
+  }
+  return value.trim()
+}
+
+export function optionalTaxClass(value: unknown): string | undefined {
+  if (value === null || value === '') return undefined
+  if (typeof value !== 'string' || !TAX_CLASS.test(value)) {
+    throw new HttpError(400, 'Tax class must be lowercase letters, digits and dashes.')
+  }
+  return value
+}
+
+export function stringList(value: unknown, max: number, label: string): string[] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every((v) => typeof v === 'string')) {
+    throw new HttpError(400, `${label} must be a non-empty list of ids.`)
+  }
+  if (value.length > max) throw new HttpError(400, `${label} can have at most ${max} entries.`)
+  if (new Set(value).size !== value.length) throw new HttpError(400, `${label} must not repeat an id.`)
+  return value
+}
+
+/** Assign parsed fields onto `target`, deleting the ones parsed as undefined. */
+export function applyFields<T extends object>(target: T, fields: Partial<T>) {
+  for (const [key, value] of Object.entries(fields) as [keyof T, T[keyof T] | undefined][]) {
+    if (value === undefined) delete target[key]
+    else target[key] = value
+  }
+}
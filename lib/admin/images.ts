@@ -0,0 +1,20 @@
+import { createImageDirectory } from '../images'
+
+/**
+ * Product and category images uploaded from /admin, kept under
+ * DATA_DIR/catalog-images and served by GET /api/images/:name. Server-only.
+ */
+
+export const MAX_CATALOG_IMAGE_BYTES = 5 * 1024 * 1024 // 5 MB
+
+const images = createImageDirectory('catalog-images', '/api/images/', MAX_CATALOG_IMAGE_BYTES)
+
+/** Store one uploaded image (a data URL); resolves to its URL. */
+export async function saveCatalogImage(input: unknown): Promise<string> {
+  const [url] = await images.save([images.decode(input, 'image')])
+  return url
+}
+
+export function readCatalogImage(name: string) {
+  return images.read(name)
+}
@@ -0,0 +1,403 @@
+import { randomBytes } from 'crypto'
+import type { User } from '../auth/types'
+import { getCatalog } from '../catalog/service'
+import type { Category } from '../catalog/types'
+import { HttpError } from '../http'
+import { getEditableProductRepository } from '../products/repository'
+import type { Product, ProductVariant } from '../products/types'
+import { displayTitle } from '../products/variants'
+import { diffFields, newBatchId, recordAudit, type AuditRecord } from './audit'
+import { CsvError, parseCsv } from './csv'
+import { applyFields, optionalImageUrl, optionalPositiveNumber, optionalSku, price } from './fields'
+import { EDITABLE_FIELDS, assertPrices, findSku, parseProductFields, productTarget } from './products'
+import {
+  CATALOG_FIELDS,
+  type CatalogField,
+  type CatalogFileFormat,
+  type ImportIssue,
+  type ImportMapping,
+  type ImportReport,
+  type ImportRequest,
+  type ImportRowResult,
+} from './types'
+
+/**
+ * Bulk catalog import from CSV or JSON, shared by the /admin import page and
+ * scripts/catalog.ts. Rows are matched to products by SKU (product or
+ * variant), then by id, so importing the same file twice changes nothing the
+ * second time. Every row is validated before anything is saved and one bad
+ * row rejects the whole file. Server-only.
+ */
+
+const MAX_IMPORT_ROWS = 5000
+const ID = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/
+
+const NUMBER_FIELDS: CatalogField[] = ['price', 'compareAtPrice', 'weight']
+const VARIANT_FIELDS = ['price', 'compareAtPrice', 'image', 'weight'] as const
+
+/**
+ * Column names each field is recognized by, compared in lowercase without
+ * punctuation, so "imageUrl", "image_url" and "Image URL" all map to image.
+ */
+const COLUMN_ALIASES: Record<CatalogField, string[]> = {
+  sku: ['sku', 'variantsku'],
+  id: ['id', 'slug', 'handle'],
+  parentId: ['parentid', 'productid'],
+  title: ['title', 'name'],
+  description: ['description', 'body'],
+  status: ['status'],
+  price: ['price'],
+  compareAtPrice: ['compareatprice', 'listprice', 'msrp'],
+  category: ['category', 'producttype', 'type'],
+  image: ['image', 'imageurl', 'imagesrc'],
+  taxClass: ['taxclass'],
+  weight: ['weight', 'weightkg'],
+}
+
+interface SourceRecord {
+  row: number
+  values: Record<string, unknown>
+}
+
+interface PlannedRow extends ImportRowResult {
+  /** The product as it will be saved, including this row's changes. */
+  product: Product
+}
+
+interface ImportPlan {
+  rows: PlannedRow[]
+  errors: ImportIssue[]
+}
+
+function normalizeColumn(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function readRecords(format: CatalogFileFormat, data: unknown): { columns: string[]; records: SourceRecord[] } {
+  if (typeof data !== 'string' || !data.trim()) throw new HttpError(400, 'The file is empty.')
+  if (format === 'csv') {
+    let rows
+    try {
+      rows = parseCsv(data)
+    } catch (err) {
+      if (err instanceof CsvError) throw new HttpError(400, err.message)
+      throw err
+    }
+    if (rows.length === 0) throw new HttpError(400, 'The file has no header row.')
+    const [header, ...body] = rows
+    const columns = header.cells.map((cell) => cell.trim())
+    const records = body.map(({ line, cells }) => ({
+      row: line,
+      values: Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])),
+    }))
+    return { columns, records }
+  }
+  if (format === 'json') {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(data)
+    } catch {
+      throw new HttpError(400, 'The file is not valid JSON.')
+    }
+    const envelope = parsed as { products?: unknown; items?: unknown } | null
+    const list = Array.isArray(parsed) ? parsed : (envelope?.products ?? envelope?.items)
+    if (!Array.isArray(list)) {
+      throw new HttpError(400, 'A JSON import must be a list of products or an object with a "products" list.')
+    }
+    const columns = new Set<string>()
+    const records = list.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new HttpError(400, `Record ${index + 1} is not an object.`)
+      }
+      Object.keys(item).forEach((key) => columns.add(key))
+      return { row: index + 1, values: item as Record<string, unknown> }
+    })
+    return { columns: [...columns], records }
+  }
+  throw new HttpError(400, 'Format must be csv or json.')
+}
+
+/**
+ * The columns each field is read from, first match first. Guessed fields list
+ * every column that looks like them, so a JSON file mixing "id" and "_id"
+ * keys works; overrides name exactly one column.
+ */
+type ColumnSources = Partial<Record<CatalogField, string[]>>
+
+/** Columns guessed from the headers, with `overrides` applied on top. */
+function resolveMapping(columns: string[], overrides: unknown): { mapping: ImportMapping; sources: ColumnSources } {
+  const sources: ColumnSources = {}
+  for (const field of CATALOG_FIELDS) {
+    const aliases = COLUMN_ALIASES[field]
+    const matches = columns
+      .filter((column) => aliases.includes(normalizeColumn(column)))
+      .sort((a, b) => aliases.indexOf(normalizeColumn(a)) - aliases.indexOf(normalizeColumn(b)))
+    if (matches.length > 0) sources[field] = matches
+  }
+  if (overrides !== undefined && overrides !== null) {
+    if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+      throw new HttpError(400, 'Mapping must be an object of field names to columns.')
+    }
+    for (const [field, column] of Object.entries(overrides)) {
+      if (!CATALOG_FIELDS.includes(field as CatalogField)) {
+        throw new HttpError(400, `Unknown field "${field}" in the mapping.`)
+      }
+      if (column === '' || column === null) {
+        delete sources[field as CatalogField]
+      } else if (typeof column === 'string' && columns.includes(column)) {
+        sources[field as CatalogField] = [column]
+      } else {
+        throw new HttpError(400, `Column "${column}" (mapped to ${field}) isn't in the file.`)
+      }
+    }
+  }
+  const mapping: ImportMapping = {}
+  for (const field of CATALOG_FIELDS) {
+    const [column] = sources[field] ?? []
+    if (column) mapping[field] = column
+  }
+  return { mapping, sources }
+}
+
+/**
+ * A cell as the field parsers expect it: undefined when the field isn't
+ * mapped (or a JSON record leaves the key out), null when it's blank.
+ */
+function cellValue(record: SourceRecord, sources: ColumnSources, field: CatalogField): unknown {
+  const column = sources[field]?.find((name) => name in record.values)
+  if (column === undefined) return undefined
+  const raw = record.values[column]
+  const value = typeof raw === 'string' ? raw.trim() : raw
+  if (value === '' || value === null || value === undefined) return null
+  if (NUMBER_FIELDS.includes(field)) {
+    return typeof value === 'string' && !Number.isNaN(Number(value)) ? Number(value) : value
+  }
+  // Numeric ids and SKUs in JSON
+  return typeof value === 'number' ? String(value) : value
+}
+
+function optionalId(value: unknown, label: string): string | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value !== 'string' || !ID.test(value)) {
+    throw new HttpError(400, `${label} must be up to 64 letters, digits, dashes or underscores.`)
+  }
+  return value
+}
+
+/** Work out what each record changes without touching `products`. */
+function planImport(
+  products: Product[],
+  categories: Category[],
+  records: SourceRecord[],
+  sources: ColumnSources,
+): ImportPlan {
+  const rows: PlannedRow[] = []
+  const errors: ImportIssue[] = []
+  // Products as earlier rows left them, so several rows can touch one product
+  const working = new Map(products.map((p) => [p.id, p]))
+  const skuRows = new Map<string, number>()
+  const productRows = new Map<string, number>()
+  const now = new Date().toISOString()
+
+  for (const record of records) {
+    const errorCount = errors.length
+    const failed = () => errors.length > errorCount
+    const issue = (message: string, field?: CatalogField) => errors.push({ row: record.row, field, message })
+    const attempt = <T>(field: CatalogField, parse: () => T): T | undefined => {
+      try {
+        return parse()
+      } catch (err) {
+        if (!(err instanceof HttpError)) throw err
+        issue(err.message, field)
+        return undefined
+      }
+    }
+    const value = (field: CatalogField) => cellValue(record, sources, field)
+
+    const sku = attempt('sku', () => optionalSku(value('sku') ?? null))
+    const id = attempt('id', () => optionalId(value('id'), 'Id'))
+    const parentId = attempt('parentId', () => optionalId(value('parentId'), 'Parent id'))
+    if (failed()) continue
+    if (!sku && !id) {
+      issue(parentId ? 'Variant rows need the variant SKU.' : 'Each row needs a SKU or an id.', 'sku')
+      continue
+    }
+    if (sku) {
+      const earlier = skuRows.get(sku)
+      if (earlier) {
+        issue(`Duplicate SKU "${sku}" (also on row ${earlier}).`, 'sku')
+        continue
+      }
+      skuRows.set(sku, record.row)
+    }
+
+    const owner = sku ? findSku([...working.values()], sku) : null
+    if (owner?.variant) {
+      if (parentId && parentId !== owner.product.id) {
+        issue(`SKU "${sku}" belongs to a variant of "${owner.product.id}", not "${parentId}".`, 'parentId')
+        continue
+      }
+      if (id && id !== owner.product.id) {
+        issue(`SKU "${sku}" belongs to a variant of "${owner.product.id}", not "${id}".`, 'id')
+        continue
+      }
+      const planned = planVariantRow(owner.product, owner.variant, value, attempt, issue)
+      if (failed() || !planned) continue
+      if (planned.action === 'update') working.set(planned.product.id, planned.product)
+      rows.push({ row: record.row, ...planned })
+      continue
+    }
+    if (parentId) {
+      issue(`No variant has SKU "${sku}"; variants can't be added by import.`, 'sku')
+      continue
+    }
+
+    // Product rows: match by SKU, then by id, else create
+    if (owner && id && id !== owner.product.id) {
+      issue(`SKU "${sku}" belongs to product "${owner.product.id}", not "${id}".`, 'id')
+      continue
+    }
+    const existing = owner?.product ?? (id ? working.get(id) : undefined)
+    const productId = existing?.id ?? id ?? `prod_${randomBytes(6).toString('hex')}`
+    const earlier = productRows.get(productId)
+    if (earlier) {
+      issue(`Row ${earlier} already imports product "${productId}".`, 'id')
+      continue
+    }
+    productRows.set(productId, record.row)
+
+    if (!existing) {
+      if (value('title') == null) issue('Title is missing.', 'title')
+      if (value('price') == null) issue('Price is missing.', 'price')
+    }
+    const fields: Partial<Product> = {}
+    for (const field of EDITABLE_FIELDS) {
+      const raw = value(field)
+      // A blank status keeps the current one (or the default for new products)
+      if (raw === undefined || (raw === null && (field === 'status' || !existing))) continue
+      Object.assign(fields, attempt(field, () => parseProductFields({ [field]: raw }, categories, [field])))
+    }
+    if (failed()) continue
+
+    const next: Product = existing
+      ? { ...existing }
+      : { id: productId, title: '', description: '', status: 'draft', price: 0, createdAt: now }
+    applyFields(next, fields)
+    attempt('compareAtPrice', () => assertPrices(next))
+    if (failed()) continue
+    const changes = diffFields(existing ?? ({} as Product), next, EDITABLE_FIELDS)
+    const action = !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged'
+    if (action !== 'unchanged') {
+      next.updatedAt = now
+      working.set(next.id, next)
+    }
+    rows.push({ row: record.row, action, productId: next.id, label: next.title, changes, product: next })
+  }
+  return { rows, errors }
+}
+
+/** Variant rows only set the variant's own price, compare-at price, image and weight. */
+function planVariantRow(
+  product: Product,
+  variant: ProductVariant,
+  value: (field: CatalogField) => unknown,
+  attempt: <T>(field: CatalogField, parse: () => T) => T | undefined,
+  issue: (message: string, field?: CatalogField) => void,
+): Omit<PlannedRow, 'row'> | null {
+  const next: ProductVariant = { ...variant }
+  let valid = true
+  for (const field of VARIANT_FIELDS) {
+    const raw = value(field)
+    if (raw === undefined) continue
+    const parsed = attempt(field, () => {
+      if (field === 'image') return optionalImageUrl(raw, 'Image')
+      if (field === 'weight') return optionalPositiveNumber(raw, 'Weight')
+      return raw === null ? undefined : price(raw, field === 'price' ? 'Price' : 'Compare-at price')
+    })
+    if (parsed === undefined && raw !== null) valid = false
+    else applyFields(next, { [field]: parsed })
+  }
+  if (!valid) return null
+  if (next.compareAtPrice !== undefined && next.compareAtPrice <= (next.price ?? product.price)) {
+    issue(`Compare-at price must be higher than the price of "${displayTitle(product, next)}".`, 'compareAtPrice')
+    return null
+  }
+
+  const changes = diffFields(variant, next, VARIANT_FIELDS).map((change) => ({
+    ...change,
+    field: `${variant.sku} ${change.field}`,
+  }))
+  const updated: Product =
+    changes.length > 0
+      ? { ...product, variants: product.variants?.map((v) => (v.id === variant.id ? next : v)) }
+      : product
+  return {
+    action: changes.length > 0 ? 'update' : 'unchanged',
+    productId: product.id,
+    variantId: variant.id,
+    label: displayTitle(product, next),
+    changes,
+    product: updated,
+  }
+}
+
+/** Save every product the plan touches, in its final state; new products go last. */
+function applyPlan(products: Product[], plan: ImportPlan) {
+  const final = new Map<string, Product>()
+  for (const row of plan.rows) if (row.action !== 'unchanged') final.set(row.productId, row.product)
+  products.forEach((product, index) => {
+    const next = final.get(product.id)
+    if (!next) return
+    products[index] = next
+    final.delete(product.id)
+  })
+  products.push(...final.values())
+}
+
+/**
+ * Validate a catalog file and, unless it's a dry run or any row has an
+ * error, save it. The report lists what each row changes either way.
+ */
+export async function importCatalog(user: User, request: ImportRequest): Promise<ImportReport> {
+  const input = (request ?? {}) as Partial<ImportRequest>
+  const format = input.format as CatalogFileFormat
+  const { columns, records } = readRecords(format, input.data)
+  if (records.length === 0) throw new HttpError(400, 'The file has no products in it.')
+  if (records.length > MAX_IMPORT_ROWS) throw new HttpError(400, `Import at most ${MAX_IMPORT_ROWS} rows at a time.`)
+  const { mapping, sources } = resolveMapping(columns, input.mapping)
+  if (!mapping.sku && !mapping.id) throw new HttpError(400, 'Map a column to sku or id so rows can be matched.')
+  const dryRun = input.dryRun === true
+
+  const { categories } = await getCatalog()
+  const repository = await getEditableProductRepository()
+  const plan = dryRun
+    ? planImport(await repository.list(), categories, records, sources)
+    : await repository.update((products) => {
+        const plan = planImport(products, categories, records, sources)
+        if (plan.errors.length === 0) applyPlan(products, plan)
+        return plan
+      })
+  const applied = !dryRun && plan.errors.length === 0
+
+  if (applied) {
+    const records: AuditRecord[] = plan.rows
+      .filter((row) => row.action !== 'unchanged')
+      .map((row) => ({
+        action: row.action === 'create' ? 'product.created' : 'product.updated',
+        target: productTarget(row.product),
+        changes: row.changes,
+      }))
+    await recordAudit(user, records, records.length > 1 ? newBatchId() : undefined)
+  }
+
+  const count = (action: ImportRowResult['action']) => plan.rows.filter((row) => row.action === action).length
+  return {
+    dryRun,
+    applied,
+    columns,
+    mapping,
+    rows: plan.rows.map(({ product: _product, ...row }) => row),
+    errors: plan.errors,
+    summary: { total: records.length, created: count('create'), updated: count('update'), unchanged: count('unchanged') },
+  }
+}
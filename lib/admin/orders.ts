@@ -0,0 +1,301 @@
+import { randomBytes } from 'crypto'
+import type { User } from '../auth/types'
+import { HttpError } from '../http'
+import { restock } from '../inventory/service'
+import { formatMoney, money, type Money } from '../money'
+import { sendOrderUpdate, type OrderUpdate } from '../orders/emails'
+import {
+  CANCELLABLE_STATUSES,
+  SHIPPABLE_STATUSES,
+  lineKey,
+  refundableAmount,
+  unshippedItems,
+} from '../orders/fulfillment'
+import { ORDER_STATUS_LABELS } from '../orders/status'
+import { getOrder, ordersStore } from '../orders/store'
+import type {
+  AdminOrderQuery,
+  Order,
+  OrderItemQuantity,
+  OrderListPage,
+  OrderRefund,
+  OrderStatus,
+  OrderStatusEvent,
+  OrderStatusFilter,
+  Shipment,
+} from '../orders/types'
+import { getPaymentProvider } from '../payments'
+import { toPositiveInt } from '../validation'
+import { optionalText, price, requiredText } from './fields'
+
+/**
+ * Order fulfillment for the /admin order queue: pick, pack, ship (in one or
+ * more shipments), deliver, cancel and refund. Each transition is added to
+ * the order's history and emailed to the customer. Server-only.
+ */
+
+export const DEFAULT_ORDER_PAGE_SIZE = 25
+const MAX_ORDER_PAGE_SIZE = 100
+const MAX_NOTE_LENGTH = 200
+
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/** Statuses an admin sets directly, and the statuses they can be set from. */
+const MANUAL_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  picking: ['paid'],
+  packed: ['paid', 'picking'],
+  delivered: ['shipped'],
+  cancelled: CANCELLABLE_STATUSES,
+}
+
+function parseDate(value: string | null): string | undefined {
+  return value && DATE.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined
+}
+
+export function parseOrderStatusFilter(value: unknown): OrderStatusFilter | null {
+  if (value === 'open') return 'open'
+  return ORDER_STATUSES.includes(value as OrderStatus) ? (value as OrderStatus) : null
+}
+
+/** Parse an AdminOrderQuery out of URL search params (`status`, `from`, `to`, `page`, `pageSize`). */
+export function parseOrderQuery(params: URLSearchParams): AdminOrderQuery {
+  return {
+    status: parseOrderStatusFilter(params.get('status')) ?? undefined,
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    page: toPositiveInt(params.get('page'), 1),
+    pageSize: Math.min(toPositiveInt(params.get('pageSize'), DEFAULT_ORDER_PAGE_SIZE), MAX_ORDER_PAGE_SIZE),
+  }
+}
+
+/**
+ * Every customer's orders, newest first. The `open` queue lists the oldest
+ * first instead, so the orders that have waited longest are shipped first.
+ */
+export async function listOrdersForAdmin({
+  status,
+  from,
+  to,
+  page,
+  pageSize,
+}: AdminOrderQuery): Promise<OrderListPage> {
+  const data = await ordersStore.read()
+  const matchesStatus = (order: Order) =>
+    !status || (status === 'open' ? SHIPPABLE_STATUSES.includes(order.status) : order.status === status)
+  const orders = Object.values(data.orders)
+    .filter((order) => {
+      const day = order.createdAt.slice(0, 10)
+      return matchesStatus(order) && (!from || day >= from) && (!to || day <= to)
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  if (status === 'open') orders.reverse()
+  const start = (page - 1) * pageSize
+  return {
+    items: orders.slice(start, start + pageSize),
+    total: orders.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(orders.length / pageSize)),
+  }
+}
+
+async function findOrder(id: string): Promise<Order> {
+  const order = await getOrder(id)
+  if (!order) throw new HttpError(404, 'Order not found.')
+  return order
+}
+
+function assertStatus(order: Order, allowed: OrderStatus[], action: string) {
+  if (!allowed.includes(order.status)) {
+    const status = ORDER_STATUS_LABELS[order.status].toLowerCase()
+    throw new HttpError(409, `Order #${order.number} is ${status} and can't be ${action}.`)
+  }
+}
+
+/**
+ * Record `event` in the stored order's history, then apply `fn` to it. `fn`
+ * runs while the store is locked, so checks made in it can't race another
+ * transition; if it throws, nothing is saved.
+ */
+function transition(
+  id: string,
+  user: User,
+  event: Omit<OrderStatusEvent, 'at' | 'by'>,
+  fn: (order: Order, at: string) => void | Promise<void>,
+): Promise<Order> {
+  return ordersStore.update(async (data) => {
+    const order = data.orders[id]
+    if (!order) throw new HttpError(404, 'Order not found.')
+    const at = new Date().toISOString()
+    order.history.push({ ...event, at, by: { id: user.id, name: user.name } })
+    await fn(order, at)
+    return order
+  })
+}
+
+/** The transition already happened, so a mail failure is logged rather than reported. */
+async function notify(order: Order, update: OrderUpdate) {
+  try {
+    await sendOrderUpdate(order, update)
+  } catch (err) {
+    console.error(`Order email for ${order.id} failed`, err)
+  }
+}
+
+/** Refund `amount` of the order's payment through the payment provider. */
+async function refundPayment(order: Order, amount: Money, reason?: string): Promise<OrderRefund> {
+  const result = await getPaymentProvider().refund(order.payment.id, amount.amount)
+  if (result.status !== 'succeeded') {
+    throw new HttpError(502, `The refund failed: ${result.failureMessage ?? 'the payment provider declined it.'}`)
+  }
+  return { id: result.id, amount: { ...amount, amount: result.amount }, reason, at: new Date().toISOString() }
+}
+
+/**
+ * Move an order to picking, packed or delivered, or cancel it. Cancelling
+ * refunds whatever is left of the payment and puts the items back in stock;
+ * orders with shipped items can only be refunded.
+ */
+export async function updateOrderStatus(user: User, id: string, input: unknown): Promise<Order> {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const status = parseOrderStatusFilter(raw.status)
+  const from = status && status !== 'open' ? MANUAL_TRANSITIONS[status] : undefined
+  if (!status || status === 'open' || !from) {
+    throw new HttpError(400, 'Status must be picking, packed, delivered or cancelled.')
+  }
+  const note = optionalText(raw.note ?? null, MAX_NOTE_LENGTH, 'Note')
+  const current = await findOrder(id)
+  const action = status === 'cancelled' ? 'cancelled' : `marked ${ORDER_STATUS_LABELS[status].toLowerCase()}`
+  assertStatus(current, from, action)
+
+  if (status !== 'cancelled') {
+    const order = await transition(id, user, { status, note }, (order) => {
+      assertStatus(order, from, action)
+      order.status = status
+    })
+    await notify(order, { type: status as 'picking' | 'packed' | 'delivered' })
+    return order
+  }
+
+  // Refunded inside the transition so a concurrent shipment or refund can't slip in between
+  let refund: OrderRefund | undefined
+  const order = await transition(id, user, { status, note }, async (order, at) => {
+    assertStatus(order, from, action)
+    order.status = 'cancelled'
+    const amount = refundableAmount(order)
+    if (amount.amount <= 0) return
+    refund = await refundPayment(order, amount, note)
+    order.refunds = [...(order.refunds ?? []), refund]
+    order.history.push({
+      status: 'refunded',
+      at,
+      note: `${formatMoney(refund.amount)} refunded`,
+      by: { id: user.id, name: user.name },
+    })
+  })
+  await restock(
+    unshippedItems(order).map(({ productId, variantId, remaining }) => ({ productId, variantId, quantity: remaining })),
+  )
+  await notify(order, { type: 'cancelled', reason: note, refund })
+  return order
+}
+
+function parseShipmentItems(order: Order, value: unknown): OrderItemQuantity[] {
+  const remaining = unshippedItems(order)
+  if (value === undefined || value === null) {
+    return remaining.map(({ productId, variantId, remaining: quantity }) => ({ productId, variantId, quantity }))
+  }
+  if (!Array.isArray(value)) throw new HttpError(400, 'Items must be a list.')
+  const quantities = new Map<string, OrderItemQuantity>()
+  for (const entry of value) {
+    const item = (entry ?? {}) as Partial<OrderItemQuantity>
+    const line = remaining.find((l) => l.productId === item.productId && (l.variantId ?? '') === (item.variantId ?? ''))
+    if (!line) throw new HttpError(400, 'Every shipped item must be an unshipped item on the order.')
+    if (!Number.isInteger(item.quantity) || (item.quantity as number) < 0) {
+      throw new HttpError(400, 'Quantities must be whole numbers.')
+    }
+    const key = lineKey(line)
+    const quantity = (quantities.get(key)?.quantity ?? 0) + (item.quantity as number)
+    if (quantity > line.remaining) {
+      throw new HttpError(400, `Only ${line.remaining} of "${line.title}" are left to ship.`)
+    }
+    quantities.set(key, { productId: line.productId, variantId: line.variantId, quantity })
+  }
+  return [...quantities.values()].filter((item) => item.quantity > 0)
+}
+
+/**
+ * Record a shipment with its tracking number. Without `items` it ships
+ * everything not shipped yet; the order becomes `shipped` once nothing is
+ * left and `partially_shipped` until then.
+ */
+export async function shipOrder(user: User, id: string, input: unknown): Promise<Order> {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const carrier = requiredText(raw.carrier, 40, 'Carrier')
+  const trackingNumber = requiredText(raw.trackingNumber, 60, 'Tracking number')
+  const current = await findOrder(id)
+  assertStatus(current, SHIPPABLE_STATUSES, 'shipped')
+  const items = parseShipmentItems(current, raw.items)
+  if (items.length === 0) throw new HttpError(400, 'Choose at least one item to ship.')
+
+  const { order, shipment } = await ordersStore.update((data) => {
+    const order = data.orders[id]
+    if (!order) throw new HttpError(404, 'Order not found.')
+    assertStatus(order, SHIPPABLE_STATUSES, 'shipped')
+    // Re-checked against the stored order in case another shipment went out meanwhile
+    parseShipmentItems(order, items)
+    const at = new Date().toISOString()
+    const shipment: Shipment = {
+      id: `shp_${randomBytes(6).toString('hex')}`,
+      carrier,
+      trackingNumber,
+      items,
+      shippedAt: at,
+    }
+    order.shipments = [...(order.shipments ?? []), shipment]
+    order.status = unshippedItems(order).length === 0 ? 'shipped' : 'partially_shipped'
+    order.history.push({
+      status: order.status,
+      at,
+      note: `${carrier} ${trackingNumber}`,
+      by: { id: user.id, name: user.name },
+    })
+    return { order, shipment }
+  })
+  await notify(order, { type: 'shipped', shipment })
+  return order
+}
+
+/**
+ * Refund part or all of the remaining payment. A refund that returns the
+ * whole payment marks the order `refunded` (cancelled orders stay cancelled).
+ */
+export async function refundOrder(user: User, id: string, input: unknown): Promise<Order> {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const requested = price(raw.amount, 'Refund amount')
+  const reason = optionalText(raw.reason ?? null, MAX_NOTE_LENGTH, 'Reason')
+  if (requested <= 0) throw new HttpError(400, 'Refund amount must be more than zero.')
+
+  // Checked and refunded under the store lock so concurrent refunds can't exceed the payment
+  let refund: OrderRefund | undefined
+  const order = await transition(id, user, { status: 'refunded' }, async (order) => {
+    const amount = money(requested, order.currency)
+    const refundable = refundableAmount(order)
+    if (amount.amount > refundable.amount) {
+      throw new HttpError(
+        400,
+        refundable.amount > 0
+          ? `Only ${formatMoney(refundable)} of this order can still be refunded.`
+          : 'This order has been refunded in full.',
+      )
+    }
+    refund = await refundPayment(order, amount, reason)
+    order.history[order.history.length - 1].note =
+      `${formatMoney(refund.amount)} refunded${reason ? `: ${reason}` : ''}`
+    order.refunds = [...(order.refunds ?? []), refund]
+    if (refundableAmount(order).amount === 0 && order.status !== 'cancelled') order.status = 'refunded'
+  })
+  await notify(order, { type: 'refunded', refund: refund as OrderRefund })
+  return order
+}
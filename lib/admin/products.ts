@@ -0,0 +1,272 @@
+import { randomBytes } from 'crypto'
+import type { User } from '../auth/types'
+import { getCatalog } from '../catalog/service'
+import { categoryForProduct } from '../catalog/tree'
+import type { Category } from '../catalog/types'
+import { HttpError } from '../http'
+import { getEditableProductRepository } from '../products/repository'
+import { PRODUCT_STATUSES, type Product, type ProductStatus, type ProductVariant } from '../products/types'
+import { diffFields, newBatchId, recordAudit, type AuditRecord } from './audit'
+import {
+  applyFields,
+  has,
+  optionalImageUrl,
+  optionalPositiveNumber,
+  optionalSku,
+  optionalTaxClass,
+  optionalText,
+  price,
+  requiredText,
+  stringList,
+} from './fields'
+import type { BulkProductUpdate, ProductInput } from './types'
+
+/**
+ * Product management for the /admin dashboard: create, edit, archive,
+ * bulk-edit and reorder products. Every change is written to the audit log
+ * with the user who made it. Server-only.
+ */
+
+const MAX_TITLE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 5000
+const MAX_BULK_PRODUCTS = 500
+const MAX_REORDER_PRODUCTS = 5000
+
+/** Product fields the dashboard edits, in the order the audit log lists them. */
+export const EDITABLE_FIELDS = [
+  'title',
+  'sku',
+  'description',
+  'status',
+  'price',
+  'compareAtPrice',
+  'category',
+  'image',
+  'taxClass',
+  'weight',
+] as const
+
+const BULK_FIELDS = ['status', 'category', 'taxClass'] as const
+
+type EditableFields = Partial<Pick<Product, (typeof EDITABLE_FIELDS)[number]>>
+
+export function parseProductStatus(value: unknown): ProductStatus | null {
+  return PRODUCT_STATUSES.includes(value as ProductStatus) ? (value as ProductStatus) : null
+}
+
+/** Stores the category's own name, so a slug typed into the form still groups with the rest. */
+function parseCategory(value: unknown, categories: Category[]): string | undefined {
+  const text = optionalText(value, 100, 'Category')
+  if (!text) return undefined
+  const category = categoryForProduct(categories, { category: text } as Product)
+  if (!category) throw new HttpError(400, `Unknown category "${text}".`)
+  return category.name
+}
+
+export function parseProductFields(input: unknown, categories: Category[], allowed: readonly string[]): EditableFields {
+  if (!input || typeof input !== 'object') throw new HttpError(400, 'Product details must be an object.')
+  const raw = input as Record<string, unknown>
+  const present = (field: string) => allowed.includes(field) && has(raw, field)
+  const fields: EditableFields = {}
+  if (present('title')) fields.title = requiredText(raw.title, MAX_TITLE_LENGTH, 'Title')
+  if (present('sku')) fields.sku = optionalSku(raw.sku)
+  if (present('description')) {
+    fields.description = optionalText(raw.description, MAX_DESCRIPTION_LENGTH, 'Description') ?? ''
+  }
+  if (present('status')) {
+    const status = parseProductStatus(raw.status)
+    if (!status) throw new HttpError(400, 'Status must be draft, published or archived.')
+    fields.status = status
+  }
+  if (present('price')) fields.price = price(raw.price, 'Price')
+  if (present('compareAtPrice')) {
+    const cleared = raw.compareAtPrice === null || raw.compareAtPrice === ''
+    fields.compareAtPrice = cleared ? undefined : price(raw.compareAtPrice, 'Compare-at price')
+  }
+  if (present('category')) fields.category = parseCategory(raw.category, categories)
+  if (present('image')) fields.image = optionalImageUrl(raw.image, 'Image')
+  if (present('taxClass')) fields.taxClass = optionalTaxClass(raw.taxClass)
+  if (present('weight')) fields.weight = optionalPositiveNumber(raw.weight, 'Weight')
+  return fields
+}
+
+export function assertPrices(product: Product) {
+  if (product.compareAtPrice !== undefined && product.compareAtPrice <= product.price) {
+    throw new HttpError(400, `Compare-at price must be higher than the price of "${product.title}".`)
+  }
+}
+
+/** The product or variant using `sku`, if any. */
+export function findSku(products: Product[], sku: string): { product: Product; variant?: ProductVariant } | null {
+  for (const product of products) {
+    if (product.sku === sku) return { product }
+    const variant = product.variants?.find((v) => v.sku === sku)
+    if (variant) return { product, variant }
+  }
+  return null
+}
+
+function assertUniqueSku(products: Product[], product: Product) {
+  if (!product.sku) return
+  const owner = findSku(products, product.sku)
+  if (owner && (owner.product.id !== product.id || owner.variant)) {
+    throw new HttpError(409, `SKU "${product.sku}" is already used by "${owner.product.title}".`)
+  }
+}
+
+export function productTarget(product: Product): AuditRecord['target'] {
+  return { type: 'product', id: product.id, label: product.title }
+}
+
+/** Every product in featured order, optionally only those with `status`. */
+export async function listProductsForAdmin(status?: ProductStatus): Promise<Product[]> {
+  const products = await (await getEditableProductRepository()).list()
+  return status ? products.filter((p) => (p.status ?? 'published') === status) : products
+}
+
+export async function getProductForAdmin(id: string): Promise<Product | null> {
+  return (await getEditableProductRepository()).get(id)
+}
+
+export async function countProductsByStatus(): Promise<Record<ProductStatus, number>> {
+  const counts: Record<ProductStatus, number> = { draft: 0, published: 0, archived: 0 }
+  for (const product of await listProductsForAdmin()) counts[product.status ?? 'published']++
+  return counts
+}
+
+/** New products start as drafts at the end of the featured order unless `status` says otherwise. */
+export async function createProduct(user: User, input: ProductInput): Promise<Product> {
+  const { categories } = await getCatalog()
+  const raw = (input ?? {}) as Record<string, unknown>
+  const title = requiredText(raw.title, MAX_TITLE_LENGTH, 'Title')
+  if (raw.price === undefined) throw new HttpError(400, 'Price is required.')
+  const now = new Date().toISOString()
+  const product: Product = {
+    id: `prod_${randomBytes(6).toString('hex')}`,
+    title,
+    description: '',
+    status: 'draft',
+    price: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+  applyFields(product, parseProductFields(input, categories, EDITABLE_FIELDS))
+  assertPrices(product)
+
+  await (await getEditableProductRepository()).update((products) => {
+    assertUniqueSku(products, product)
+    products.push(product)
+  })
+  const changes = diffFields({} as Product, product, EDITABLE_FIELDS)
+  await recordAudit(user, [{ action: 'product.created', target: productTarget(product), changes }])
+  return product
+}
+
+export async function updateProduct(user: User, id: string, input: ProductInput): Promise<Product> {
+  const { categories } = await getCatalog()
+  const fields = parseProductFields(input, categories, EDITABLE_FIELDS)
+  const { product, changes } = await (await getEditableProductRepository()).update((products) => {
+    const index = products.findIndex((p) => p.id === id)
+    if (index < 0) throw new HttpError(404, 'Product not found.')
+    const next = { ...products[index] }
+    applyFields(next, fields)
+    assertPrices(next)
+    assertUniqueSku(products, next)
+    const changes = diffFields(products[index], next, EDITABLE_FIELDS)
+    if (changes.length > 0) {
+      next.updatedAt = new Date().toISOString()
+      products[index] = next
+    }
+    return { product: products[index], changes }
+  })
+  if (changes.length > 0) {
+    await recordAudit(user, [{ action: 'product.updated', target: productTarget(product), changes }])
+  }
+  return product
+}
+
+/**
+ * Apply the same status, category or tax class to many products at once.
+ * All-or-nothing: an unknown id or an invalid value rejects the whole edit.
+ */
+export async function bulkUpdateProducts(user: User, input: BulkProductUpdate): Promise<Product[]> {
+  const ids = stringList(input?.ids, MAX_BULK_PRODUCTS, 'ids')
+  const { categories } = await getCatalog()
+  const fields = parseProductFields(input.changes, categories, BULK_FIELDS)
+  if (Object.keys(fields).length === 0) throw new HttpError(400, 'Choose at least one change to apply.')
+
+  const now = new Date().toISOString()
+  const { updated, records } = await (await getEditableProductRepository()).update((products) => {
+    const missing = ids.filter((id) => !products.some((p) => p.id === id))
+    if (missing.length > 0) throw new HttpError(404, `Unknown products: ${missing.join(', ')}.`)
+    const updated: Product[] = []
+    const records: AuditRecord[] = []
+    products.forEach((product, index) => {
+      if (!ids.includes(product.id)) return
+      const next = { ...product }
+      applyFields(next, fields)
+      const changes = diffFields(product, next, EDITABLE_FIELDS)
+      if (changes.length > 0) {
+        next.updatedAt = now
+        products[index] = next
+        records.push({ action: 'product.updated', target: productTarget(next), changes })
+      }
+      updated.push(products[index])
+    })
+    return { updated, records }
+  })
+  await recordAudit(user, records, records.length > 1 ? newBatchId() : undefined)
+  return updated
+}
+
+/**
+ * Set the "featured" order. Listed products move to the front in the given
+ * order; the rest follow in their current order.
+ */
+export async function reorderProducts(user: User, input: { ids?: unknown }): Promise<string[]> {
+  const ids = stringList(input?.ids, MAX_REORDER_PRODUCTS, 'ids')
+  const { before, after } = await (await getEditableProductRepository()).update((products) => {
+    const byId = new Map(products.map((p) => [p.id, p]))
+    const missing = ids.filter((id) => !byId.has(id))
+    if (missing.length > 0) throw new HttpError(404, `Unknown products: ${missing.join(', ')}.`)
+    const before = products.map((p) => p.id)
+    const listed = new Set(ids)
+    const reordered = [...ids.map((id) => byId.get(id) as Product), ...products.filter((p) => !listed.has(p.id))]
+    products.splice(0, products.length, ...reordered)
+    return { before, after: reordered.map((p) => p.id) }
+  })
+  if (before.join() !== after.join()) {
+    await recordAudit(user, [
+      {
+        action: 'product.reordered',
+        target: { type: 'catalog', id: 'featured', label: 'Featured order' },
+        changes: [{ field: 'order', from: before, to: after }],
+      },
+    ])
+  }
+  return after
+}
+
+/**
+ * Point every product filed under `category` at its new `name` after a
+ * rename. Returns the audit records for the caller to write alongside the
+ * category's own entry.
+ */
+export async function reassignCategory(
+  category: Category,
+  categories: Category[],
+  name: string,
+): Promise<AuditRecord[]> {
+  const now = new Date().toISOString()
+  return (await getEditableProductRepository()).update((products) => {
+    const records: AuditRecord[] = []
+    products.forEach((product, index) => {
+      if (categoryForProduct(categories, product)?.id !== category.id || product.category === name) return
+      const next = { ...product, category: name, updatedAt: now }
+      products[index] = next
+      const changes = diffFields(product, next, ['category'])
+      records.push({ action: 'product.updated', target: productTarget(next), changes })
+    })
+    return records
+  })
+}
@@ -0,0 +1,168 @@
+import type { Category } from '../catalog/types'
+import type { ProductStatus } from '../products/types'
+
+/**
+ * Types for the catalog dashboard under /admin: the inputs its forms send
+ * and the audit log of who changed what.
+ */
+
+/**
+ * Fields the product editor sends. Omitted fields are left unchanged and
+ * null clears an optional one; everything else on a product (variants,
+ * translations, stock) is kept as-is.
+ */
+export interface ProductInput {
+  title?: string
+  sku?: string | null
+  description?: string
+  status?: ProductStatus
+  price?: number
+  compareAtPrice?: number | null
+  /** Category name or slug. */
+  category?: string | null
+  image?: string | null
+  taxClass?: string | null
+  /** Shipping weight in kg. */
+  weight?: number | null
+}
+
+/** Changes a bulk edit applies to every selected product. */
+export type BulkProductChanges = Pick<ProductInput, 'status' | 'category' | 'taxClass'>
+
+export interface BulkProductUpdate {
+  ids: string[]
+  changes: BulkProductChanges
+}
+
+/** A row in the category manager: the category plus where it sits in the tree. */
+export interface AdminCategory extends Category {
+  /** 0 for top-level categories. */
+  depth: number
+  /** Products filed directly under it, whatever their status. */
+  productCount: number
+}
+
+/** Fields the category manager sends, with the same omit/null rules as ProductInput. */
+export interface CategoryInput {
+  name?: string
+  /** Derived from the name when a category is created without one. */
+  slug?: string
+  description?: string | null
+  heroImage?: string | null
+  parentId?: string | null
+  taxClass?: string | null
+}
+
+export type AuditAction =
+  | 'product.created'
+  | 'product.updated'
+  | 'product.reordered'
+  | 'category.created'
+  | 'category.updated'
+  | 'category.deleted'
+
+export type AuditTargetType = 'product' | 'category' | 'catalog'
+
+export interface AuditChange {
+  field: string
+  from?: unknown
+  to?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  at: string
+  /** Copied at the time of the change, so renamed or deleted users still read correctly. */
+  actor: { id: string; name: string; email: string }
+  action: AuditAction
+  target: { type: AuditTargetType; id: string; label: string }
+  changes: AuditChange[]
+  /** Shared by every entry written by one bulk edit or category rename. */
+  batchId?: string
+}
+
+export interface AuditQuery {
+  type?: AuditTargetType
+  targetId?: string
+  page?: number
+  pageSize?: number
+}
+
+export interface AuditPage {
+  items: AuditEntry[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export type CatalogFileFormat = 'csv' | 'json'
+
+/**
+ * Columns of a catalog import or export, in export order. One row per
+ * product; products with variants get a row per variant after their own,
+ * with `parentId` set and only the variant fields (sku, price,
+ * compareAtPrice, image, weight) read back on import.
+ */
+export const CATALOG_FIELDS = [
+  'sku',
+  'id',
+  'parentId',
+  'title',
+  'description',
+  'status',
+  'price',
+  'compareAtPrice',
+  'category',
+  'image',
+  'taxClass',
+  'weight',
+] as const
+
+export type CatalogField = (typeof CATALOG_FIELDS)[number]
+
+/** Catalog field -> source column (CSV header or JSON key). */
+export type ImportMapping = Partial<Record<CatalogField, string>>
+
+/** Body accepted by POST /api/admin/catalog/import. */
+export interface ImportRequest {
+  format: CatalogFileFormat
+  /** The file's contents. */
+  data: string
+  /**
+   * Overrides the columns guessed from the headers ("name" for title,
+   * "imageUrl" for image, ...). Fields mapped to "" are skipped; fields
+   * without a column are left unchanged.
+   */
+  mapping?: ImportMapping
+  /** Validate and report without saving anything. */
+  dryRun?: boolean
+}
+
+export interface ImportIssue {
+  /** Spreadsheet row for CSV (the header is row 1), 1-based record number for JSON. */
+  row: number
+  field?: CatalogField
+  message: string
+}
+
+export interface ImportRowResult {
+  row: number
+  action: 'create' | 'update' | 'unchanged'
+  productId: string
+  /** Set for rows that update a variant. */
+  variantId?: string
+  label: string
+  changes: AuditChange[]
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  /** False on dry runs and whenever a row has an error; imports are all-or-nothing. */
+  applied: boolean
+  columns: string[]
+  mapping: ImportMapping
+  rows: ImportRowResult[]
+  errors: ImportIssue[]
+  summary: { total: number; created: number; updated: number; unchanged: number }
+}
@@ -0,0 +1,16 @@
+/**
+ * Browser fetch helper for the JSON route handlers. Rejects with the API's
+ * `{ message }` so callers can show it as-is.
+ */
+export async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) {
+    throw new Error(data?.message || 'Something went wrong. Please try again later.')
+  }
+  return data as T
+}
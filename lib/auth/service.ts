@@ -0,0 +1,189 @@
+import { createHash, randomBytes } from 'crypto'
+import { HttpError } from '../http'
+import { isValidEmail } from '../validation'
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from './password'
+import { passwordResetsStore, sessionsStore, usersStore } from './store'
+import type { User, UserRecord, UserRole } from './types'
+
+/**
+ * Account, session and password-reset operations. Cookie handling lives in
+ * ./session so this module stays usable outside a request.
+ */
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000 // 1 hour
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function newToken() {
+  return randomBytes(32).toString('base64url')
+}
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+function emailsFromEnv(name: string): string[] {
+  return (process.env[name] ?? '').split(',').map(normalizeEmail).filter(Boolean)
+}
+
+/**
+ * Emails listed in ADMIN_EMAILS (or MERCHANDISER_EMAILS, both comma-separated)
+ * always get that role, so a fresh store can be bootstrapped without editing
+ * users.json by hand.
+ */
+function roleFor(record: UserRecord): UserRole {
+  if (emailsFromEnv('ADMIN_EMAILS').includes(record.email)) return 'admin'
+  if (emailsFromEnv('MERCHANDISER_EMAILS').includes(record.email)) return 'merchandiser'
+  return record.role ?? 'customer'
+}
+
+export function toPublicUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    name: record.name,
+    email: record.email,
+    avatarUrl: record.avatarUrl,
+    role: roleFor(record),
+  }
+}
+
+export function isAdmin(user: User | null): boolean {
+  return user?.role === 'admin'
+}
+
+/** Merchandisers and admins can edit products and categories in /admin. */
+export function canManageCatalog(user: User | null): boolean {
+  return user?.role === 'admin' || user?.role === 'merchandiser'
+}
+
+function assertPassword(password: unknown): string {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`)
+  }
+  return password
+}
+
+async function findUserByEmail(email: string): Promise<UserRecord | null> {
+  const users = await usersStore.read()
+  return Object.values(users).find((u) => u.email === email) ?? null
+}
+
+export async function getUserById(id: string): Promise<User | null> {
+  const users = await usersStore.read()
+  return users[id] ? toPublicUser(users[id]) : null
+}
+
+export async function signUp(input: { name?: unknown; email?: unknown; password?: unknown }): Promise<User> {
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (!name) throw new HttpError(400, 'Please enter your name.')
+  if (!isValidEmail(input.email)) throw new HttpError(400, 'Please enter a valid email address.')
+  const email = normalizeEmail(input.email)
+  const passwordHash = await hashPassword(assertPassword(input.password))
+
+  return usersStore.update((users) => {
+    if (Object.values(users).some((u) => u.email === email)) {
+      throw new HttpError(409, 'An account with this email already exists.')
+    }
+    const record: UserRecord = {
+      id: `usr_${randomBytes(8).toString('hex')}`,
+      name,
+      email,
+      passwordHash,
+      createdAt: new Date().toISOString(),
+    }
+    users[record.id] = record
+    return toPublicUser(record)
+  })
+}
+
+export async function signIn(input: { email?: unknown; password?: unknown }): Promise<User> {
+  const invalid = new HttpError(401, 'Incorrect email or password.')
+  if (typeof input.email !== 'string' || typeof input.password !== 'string') throw invalid
+  const record = await findUserByEmail(normalizeEmail(input.email))
+  if (!record || !(await verifyPassword(input.password, record.passwordHash))) throw invalid
+  return toPublicUser(record)
+}
+
+/** Creates a session and returns the opaque token to put in the cookie. */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = newToken()
+  const now = Date.now()
+  const expiresAt = new Date(now + SESSION_TTL_MS)
+  await sessionsStore.update((sessions) => {
+    // Drop expired sessions while we're here
+    for (const [key, s] of Object.entries(sessions)) {
+      if (Date.parse(s.expiresAt) <= now) delete sessions[key]
+    }
+    sessions[hashToken(token)] = {
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    }
+  })
+  return { token, expiresAt }
+}
+
+export async function getUserBySessionToken(token: string): Promise<User | null> {
+  const sessions = await sessionsStore.read()
+  const session = sessions[hashToken(token)]
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return null
+  return getUserById(session.userId)
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await sessionsStore.update((sessions) => {
+    delete sessions[hashToken(token)]
+  })
+}
+
+/**
+ * Issue a password reset token. Returns null for unknown emails; callers
+ * must respond identically either way so accounts can't be enumerated.
+ */
+export async function requestPasswordReset(
+  email: unknown,
+): Promise<{ token: string; user: User } | null> {
+  if (!isValidEmail(email)) throw new HttpError(400, 'Please enter a valid email address.')
+  const record = await findUserByEmail(normalizeEmail(email))
+  if (!record) return null
+  const token = newToken()
+  await passwordResetsStore.update((resets) => {
+    resets[hashToken(token)] = {
+      userId: record.id,
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString(),
+    }
+  })
+  return { token, user: toPublicUser(record) }
+}
+
+/** Consume a reset token, set the new password and sign out every session. */
+export async function resetPassword(token: unknown, password: unknown): Promise<User> {
+  const newPassword = assertPassword(password)
+  const invalid = new HttpError(400, 'This reset link is invalid or has expired.')
+  if (typeof token !== 'string' || !token) throw invalid
+
+  const userId = await passwordResetsStore.update((resets) => {
+    const key = hashToken(token)
+    const reset = resets[key]
+    delete resets[key]
+    return reset && Date.parse(reset.expiresAt) > Date.now() ? reset.userId : null
+  })
+  if (!userId) throw invalid
+
+  const passwordHash = await hashPassword(newPassword)
+  const user = await usersStore.update((users) => {
+    const record = users[userId]
+    if (!record) throw invalid
+    record.passwordHash = passwordHash
+    return toPublicUser(record)
+  })
+  await sessionsStore.update((sessions) => {
+    for (const [key, s] of Object.entries(sessions)) {
+      if (s.userId === userId) delete sessions[key]
+    }
+  })
+  return user
+}
@@ -0,0 +1,33 @@
+import { cookies } from 'next/headers'
+import { createSession, deleteSession, getUserBySessionToken } from './service'
+import type { User } from './types'
+
+/**
+ * HTTP-only session cookie helpers. getCurrentUser() works in server
+ * components; startSession()/endSession() need a route handler or server action.
+ */
+
+export const SESSION_COOKIE = 'session'
+
+export async function getCurrentUser(): Promise<User | null> {
+  const token = cookies().get(SESSION_COOKIE)?.value
+  return token ? getUserBySessionToken(token) : null
+}
+
+export async function startSession(userId: string): Promise<void> {
+  const { token, expiresAt } = await createSession(userId)
+  cookies().set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+export async function endSession(): Promise<void> {
+  const jar = cookies()
+  const token = jar.get(SESSION_COOKIE)?.value
+  if (token) await deleteSession(token)
+  jar.delete(SESSION_COOKIE)
+}
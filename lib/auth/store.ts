@@ -0,0 +1,13 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { PasswordResetRecord, SessionRecord, UserRecord } from './types'
+
+/** Users keyed by id. */
+export const usersStore = createJsonStore<Record<string, UserRecord>>('users', () => ({}))
+
+/** Sessions and reset tokens are keyed by the SHA-256 of the token, never the token itself. */
+export const sessionsStore = createJsonStore<Record<string, SessionRecord>>('sessions', () => ({}))
+
+export const passwordResetsStore = createJsonStore<Record<string, PasswordResetRecord>>(
+  'password-resets',
+  () => ({}),
+)
@@ -0,0 +1,36 @@
+/**
+ * Auth types. `User` is the public shape handed to components (see Header);
+ * `UserRecord` adds the fields that never leave the server.
+ */
+
+/**
+ * `merchandiser` unlocks the catalog dashboard, `admin` unlocks it plus
+ * review moderation; everyone else is a `customer`.
+ */
+export type UserRole = 'customer' | 'merchandiser' | 'admin'
+
+export interface User {
+  id: string
+  name: string
+  email: string
+  avatarUrl?: string
+  role: UserRole
+}
+
+export interface UserRecord extends Omit<User, 'role'> {
+  /** Absent on accounts that were never granted a role; see roleFor(). */
+  role?: UserRole
+  passwordHash: string
+  createdAt: string
+}
+
+export interface SessionRecord {
+  userId: string
+  createdAt: string
+  expiresAt: string
+}
+
+export interface PasswordResetRecord {
+  userId: string
+  expiresAt: string
+}
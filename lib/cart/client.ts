@@ -0,0 +1,57 @@
+import { clearLegacyCart, readLegacyCart } from './legacy'
+import type { CartLineRef, CartView } from './types'
+
+/**
+ * Browser helpers for /api/cart. Each resolves to the updated CartView and
+ * rejects with the API's `{ message }` on failure.
+ */
+
+async function request(method: string, body?: unknown, query = '', path = ''): Promise<CartView> {
+  const res = await fetch(`/api/cart${path}${query}`, {
+    method,
+    cache: 'no-store',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(data?.message || 'Failed to update cart.')
+  return data as CartView
+}
+
+/**
+ * Load the cart, first migrating any legacy `ecom_cart_v1` payload from
+ * localStorage into the server-side cart.
+ */
+export async function fetchCart(): Promise<CartView> {
+  const legacy = readLegacyCart()
+  if (legacy.length === 0) return request('GET')
+  const cart = await request('POST', { items: legacy })
+  clearLegacyCart()
+  return cart
+}
+
+export function addCartItem(item: CartLineRef, quantity = 1) {
+  return request('POST', { productId: item.productId, variantId: item.variantId, quantity })
+}
+
+export function updateCartItem(line: CartLineRef, quantity: number) {
+  return request('PATCH', { productId: line.productId, variantId: line.variantId, quantity })
+}
+
+export function removeCartItem(line: CartLineRef) {
+  const params = new URLSearchParams({ productId: line.productId })
+  if (line.variantId) params.set('variantId', line.variantId)
+  return request('DELETE', undefined, `?${params}`)
+}
+
+export function clearCartItems() {
+  return request('DELETE')
+}
+
+export function applyCartCoupon(code: string) {
+  return request('POST', { code }, '', '/coupon')
+}
+
+export function removeCartCoupon() {
+  return request('DELETE', undefined, '', '/coupon')
+}
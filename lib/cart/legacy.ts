@@ -0,0 +1,38 @@
+import type { Product } from '../products/types'
+import type { CartLine } from './types'
+
+/**
+ * The cart used to live only in localStorage under `ecom_cart_v1`, storing
+ * whole Product objects. Client-only: reads that payload once so it can be
+ * migrated into the server-side cart.
+ */
+
+export const CART_STORAGE_KEY = 'ecom_cart_v1'
+
+interface LegacyCartItem {
+  product: Product
+  quantity: number
+}
+
+/** Returns the legacy cart as id/quantity lines, or [] when there is none. */
+export function readLegacyCart(): CartLine[] {
+  try {
+    const raw = localStorage.getItem(CART_STORAGE_KEY)
+    if (!raw) return []
+    const parsed = JSON.parse(raw) as LegacyCartItem[]
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter((it) => typeof it?.product?.id === 'string' && Number(it.quantity) > 0)
+      .map((it) => ({ productId: it.product.id, quantity: Math.floor(Number(it.quantity)) }))
+  } catch {
+    return []
+  }
+}
+
+export function clearLegacyCart() {
+  try {
+    localStorage.removeItem(CART_STORAGE_KEY)
+  } catch {
+    // ignore storage errors
+  }
+}
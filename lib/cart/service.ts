@@ -0,0 +1,294 @@
+import { HttpError } from '../http'
+import { getAvailability, stockKey } from '../inventory/service'
+import { UNTRACKED_STOCK, maxPurchasable } from '../inventory/status'
+import type { StockInfo } from '../inventory/types'
+import { localizedPrice } from '../currency/prices'
+import { BASE_CURRENCY, money, multiplyMoney, subtractMoney, type CurrencyCode } from '../money'
+import { getProductRepository } from '../products/repository'
+import type { Product, ProductVariant } from '../products/types'
+import { displayTitle, findVariant, hasVariants } from '../products/variants'
+import { normalizeCouponCode } from '../promotions/engine'
+import { priceWithPromotions } from '../promotions/service'
+import { estimateShipping } from '../shipping/service'
+import { calculateTax, summarizeTax } from '../tax/service'
+import { cartsStore } from './store'
+import type { CartLine, CartLineRef, CartView, CartViewLine, StoredCart } from './types'
+
+/**
+ * Server-side cart operations. Every mutation returns the hydrated CartView,
+ * priced in the shopper's currency, so route handlers can respond with the
+ * fresh cart in one round trip.
+ * Quantities are clamped to available stock whenever the cart is written or
+ * read, with a notice explaining the change.
+ */
+
+export const MAX_LINE_QUANTITY = 99
+
+export function userCartId(userId: string) {
+  return `user:${userId}`
+}
+
+function emptyCart(id: string): StoredCart {
+  return { id, lines: [], updatedAt: new Date().toISOString() }
+}
+
+function assertQuantity(quantity: unknown, { allowZero = false } = {}): number {
+  const n = Number(quantity)
+  if (!Number.isInteger(n) || n < (allowZero ? 0 : 1)) {
+    throw new HttpError(400, 'Quantity must be a positive whole number.')
+  }
+  return Math.min(n, MAX_LINE_QUANTITY)
+}
+
+function sameLine(a: CartLineRef, b: CartLineRef) {
+  return a.productId === b.productId && (a.variantId ?? '') === (b.variantId ?? '')
+}
+
+/**
+ * The variant a line refers to. Products with variants must be bought as one;
+ * a variant id sent for a simple product is ignored. Returns null when the
+ * variant doesn't exist (any more).
+ */
+function lineVariant(product: Product, variantId: unknown): ProductVariant | undefined | null {
+  if (!hasVariants(product)) return undefined
+  return findVariant(product, typeof variantId === 'string' ? variantId : undefined) ?? null
+}
+
+async function assertPurchasable(productId: unknown, variantId: unknown): Promise<CartLineRef> {
+  if (typeof productId !== 'string' || !productId) {
+    throw new HttpError(400, 'productId is required.')
+  }
+  const repo = await getProductRepository()
+  const product = await repo.get(productId)
+  if (!product) {
+    throw new HttpError(404, 'Product not found.')
+  }
+  const variant = lineVariant(product, variantId)
+  if (variant === null) {
+    const names = (product.options ?? []).map((o) => o.name.toLowerCase()).join(' and ')
+    throw new HttpError(400, `Please choose a ${names || 'variant'}.`)
+  }
+  const ref = { productId, variantId: variant?.id }
+  const stock = (await getAvailability([ref])).get(stockKey(productId, ref.variantId))
+  if (stock?.available === 0) {
+    throw new HttpError(409, `Sorry, ${displayTitle(product, variant)} is out of stock.`)
+  }
+  return ref
+}
+
+function addLines(cart: StoredCart, lines: CartLine[]) {
+  for (const { productId, variantId, quantity } of lines) {
+    const existing = cart.lines.find((l) => sameLine(l, { productId, variantId }))
+    if (existing) {
+      existing.quantity = Math.min(existing.quantity + quantity, MAX_LINE_QUANTITY)
+    } else {
+      cart.lines.push({ productId, variantId, quantity: Math.min(quantity, MAX_LINE_QUANTITY) })
+    }
+  }
+}
+
+/** Stock per line, ignoring the cart's own checkout reservation. */
+async function cartStock(cart: StoredCart): Promise<Map<string, StockInfo>> {
+  return getAvailability(cart.lines, { excludeOwner: cart.id })
+}
+
+/**
+ * Reduce lines to what's available (removing sold-out lines) and describe
+ * each change. Mutates `cart`.
+ */
+async function clampToStock(cart: StoredCart, stock: Map<string, StockInfo>): Promise<string[]> {
+  const repo = await getProductRepository()
+  const notices: string[] = []
+  for (const line of cart.lines) {
+    const limit = maxPurchasable(stock.get(stockKey(line.productId, line.variantId)), MAX_LINE_QUANTITY)
+    if (line.quantity <= limit) continue
+    const product = await repo.get(line.productId)
+    const title = product ? displayTitle(product, findVariant(product, line.variantId)) : 'An item'
+    notices.push(
+      limit === 0
+        ? `${title} is out of stock and was removed from your cart.`
+        : `Only ${limit} of ${title} ${limit === 1 ? 'is' : 'are'} available, so we've updated your cart.`,
+    )
+    line.quantity = limit
+  }
+  cart.lines = cart.lines.filter((l) => l.quantity > 0)
+  return notices
+}
+
+async function mutate(
+  cartId: string,
+  currency: CurrencyCode | undefined,
+  fn: (cart: StoredCart) => void,
+): Promise<CartView> {
+  let notices: string[] = []
+  const cart = await cartsStore.update(async (carts) => {
+    const draft = carts[cartId] ?? emptyCart(cartId)
+    fn(draft)
+    notices = await clampToStock(draft, await cartStock(draft))
+    draft.updatedAt = new Date().toISOString()
+    carts[cartId] = draft
+    return draft
+  })
+  return hydrateCart(cart, { currency, notices })
+}
+
+/**
+ * Join stored lines with current catalog data, stock, promotions and
+ * shipping and tax estimates. Lines whose product or variant has been
+ * removed from the catalog are dropped from the view.
+ */
+export async function hydrateCart(
+  cart: StoredCart | null,
+  { currency = BASE_CURRENCY, notices = [] }: { currency?: CurrencyCode; notices?: string[] } = {},
+): Promise<CartView> {
+  const repo = await getProductRepository()
+  const stock = cart ? await cartStock(cart) : new Map<string, StockInfo>()
+  const lines: CartViewLine[] = []
+  for (const line of cart?.lines ?? []) {
+    const product = await repo.get(line.productId)
+    if (!product) continue
+    const variant = lineVariant(product, line.variantId)
+    if (variant === null) continue
+    const unitPrice = money(localizedPrice(product, variant, currency), currency)
+    const key = stockKey(line.productId, variant?.id)
+    lines.push({
+      ...line,
+      key,
+      product,
+      variant,
+      unitPrice,
+      lineTotal: multiplyMoney(unitPrice, line.quantity),
+      stock: stock.get(key) ?? UNTRACKED_STOCK,
+    })
+  }
+  const pricing = await priceWithPromotions(lines, { couponCode: cart?.couponCode, currency })
+  const shipping = await estimateShipping(lines, pricing.total)
+  const taxable = lines.map(({ key, product, lineTotal, quantity }) => ({
+    key,
+    product,
+    quantity,
+    amount: pricing.lineDiscounts[key] ? subtractMoney(lineTotal, pricing.lineDiscounts[key]) : lineTotal,
+  }))
+  const tax = shipping
+    ? summarizeTax(
+        await calculateTax(taxable, shipping.option.price, { country: shipping.country }, currency),
+        currency,
+      )
+    : null
+  return {
+    currency,
+    lines,
+    itemCount: lines.reduce((sum, l) => sum + l.quantity, 0),
+    subtotal: pricing.subtotal,
+    discounts: pricing.discounts,
+    discountTotal: pricing.discountTotal,
+    total: pricing.total,
+    couponCode: cart?.couponCode,
+    couponError: pricing.couponError,
+    shipping,
+    tax,
+    notices,
+  }
+}
+
+export async function getStoredCart(cartId: string): Promise<StoredCart | null> {
+  const carts = await cartsStore.read()
+  return carts[cartId] ?? null
+}
+
+/** Read the cart, persisting any clamps if stock has dropped since it was last written. */
+export async function getCart(cartId: string, currency: CurrencyCode = BASE_CURRENCY): Promise<CartView> {
+  const cart = await getStoredCart(cartId)
+  if (!cart) return hydrateCart(null, { currency })
+  const preview = structuredClone(cart)
+  if ((await clampToStock(preview, await cartStock(cart))).length === 0) return hydrateCart(cart, { currency })
+  return mutate(cartId, currency, () => {})
+}
+
+export async function addToCart(cartId: string, item: Partial<CartLine>, currency?: CurrencyCode) {
+  const ref = await assertPurchasable(item.productId, item.variantId)
+  const qty = assertQuantity(item.quantity ?? 1)
+  return mutate(cartId, currency, (cart) => addLines(cart, [{ ...ref, quantity: qty }]))
+}
+
+/** Merge many lines at once, e.g. when migrating the legacy localStorage cart. */
+export async function addManyToCart(cartId: string, items: unknown, currency?: CurrencyCode) {
+  if (!Array.isArray(items)) throw new HttpError(400, 'items must be an array.')
+  const repo = await getProductRepository()
+  const lines: CartLine[] = []
+  for (const item of items as Partial<CartLine>[]) {
+    const quantity = Number(item?.quantity)
+    if (typeof item?.productId !== 'string' || !Number.isInteger(quantity) || quantity < 1) continue
+    // Unknown products and variants are skipped so one stale line doesn't block the rest
+    const product = await repo.get(item.productId)
+    const variant = product && lineVariant(product, item.variantId)
+    if (product && variant !== null) lines.push({ productId: item.productId, variantId: variant?.id, quantity })
+  }
+  return mutate(cartId, currency, (cart) => addLines(cart, lines))
+}
+
+/** Set a line's quantity; 0 removes the line. */
+export async function updateCartLine(
+  cartId: string,
+  ref: Partial<CartLineRef>,
+  quantity: unknown,
+  currency?: CurrencyCode,
+) {
+  const qty = assertQuantity(quantity, { allowZero: true })
+  return mutate(cartId, currency, (cart) => {
+    const line = cart.lines.find((l) => sameLine(l, { productId: String(ref.productId), variantId: ref.variantId }))
+    if (!line) throw new HttpError(404, 'That item is not in your cart.')
+    line.quantity = qty
+    cart.lines = cart.lines.filter((l) => l.quantity > 0)
+  })
+}
+
+export async function removeCartLine(cartId: string, ref: CartLineRef, currency?: CurrencyCode) {
+  return mutate(cartId, currency, (cart) => {
+    cart.lines = cart.lines.filter((l) => !sameLine(l, ref))
+  })
+}
+
+export async function clearCart(cartId: string, currency?: CurrencyCode) {
+  return mutate(cartId, currency, (cart) => {
+    cart.lines = []
+    delete cart.couponCode
+  })
+}
+
+/** Validate a coupon against the current cart and remember it; 400 with the reason if it doesn't apply. */
+export async function applyCoupon(cartId: string, code: unknown, currency?: CurrencyCode) {
+  if (typeof code !== 'string' || !code.trim()) throw new HttpError(400, 'Please enter a coupon code.')
+  const couponCode = normalizeCouponCode(code)
+  const stored = (await getStoredCart(cartId)) ?? emptyCart(cartId)
+  const preview = await hydrateCart({ ...stored, couponCode }, { currency })
+  if (preview.couponError) throw new HttpError(400, preview.couponError)
+  return mutate(cartId, currency, (cart) => {
+    cart.couponCode = couponCode
+  })
+}
+
+export async function removeCoupon(cartId: string, currency?: CurrencyCode) {
+  return mutate(cartId, currency, (cart) => {
+    delete cart.couponCode
+  })
+}
+
+/**
+ * Fold a guest cart into the user's account cart on sign-in. Quantities for
+ * the same product variant are added together; the guest cart is deleted.
+ */
+export async function mergeGuestCart(guestCartId: string, userId: string): Promise<void> {
+  const accountCartId = userCartId(userId)
+  if (guestCartId === accountCartId) return
+  await cartsStore.update((carts) => {
+    const guest = carts[guestCartId]
+    if (!guest) return
+    const account = carts[accountCartId] ?? emptyCart(accountCartId)
+    addLines(account, guest.lines)
+    account.couponCode ??= guest.couponCode
+    account.updatedAt = new Date().toISOString()
+    carts[accountCartId] = account
+    delete carts[guestCartId]
+  })
+}
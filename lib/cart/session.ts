@@ -0,0 +1,58 @@
+import { randomBytes } from 'crypto'
+import { cookies } from 'next/headers'
+import { getCurrentUser } from '../auth/session'
+import { mergeGuestCart, userCartId } from './service'
+
+/**
+ * Resolves which cart a request operates on: the account cart for signed-in
+ * users, otherwise a cookie-identified guest cart. Only usable from route
+ * handlers and server components (relies on next/headers).
+ */
+
+export const CART_COOKIE = 'cart_id'
+const CART_COOKIE_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+const GUEST_CART_ID = /^[a-f0-9]{32}$/
+
+/**
+ * Guest cart id from the cookie. With `create`, a new guest cart cookie is
+ * issued when none is present (only allowed where cookies can be set).
+ */
+export function getGuestCartId(options: { create: true }): string
+export function getGuestCartId(options?: { create?: false }): string | null
+export function getGuestCartId({ create = false }: { create?: boolean } = {}): string | null {
+  const jar = cookies()
+  const existing = jar.get(CART_COOKIE)?.value
+  // Reject anything that isn't a guest id so a forged cookie can't address an account cart
+  if (existing && GUEST_CART_ID.test(existing)) return existing
+  if (!create) return null
+
+  const id = randomBytes(16).toString('hex')
+  jar.set(CART_COOKIE, id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CART_COOKIE_MAX_AGE,
+  })
+  return id
+}
+
+/** Cart id for the current request, preferring the signed-in user's cart. */
+export async function resolveCartId(options: { create: true }): Promise<string>
+export async function resolveCartId(options?: { create?: false }): Promise<string | null>
+export async function resolveCartId({ create = false }: { create?: boolean } = {}) {
+  const user = await getCurrentUser()
+  if (user) return userCartId(user.id)
+  return create ? getGuestCartId({ create: true }) : getGuestCartId()
+}
+
+/**
+ * Call right after signing a user in: folds the guest cart into their account
+ * cart and drops the guest cookie.
+ */
+export async function adoptGuestCart(userId: string): Promise<void> {
+  const guestId = getGuestCartId()
+  if (!guestId) return
+  await mergeGuestCart(guestId, userId)
+  cookies().delete(CART_COOKIE)
+}
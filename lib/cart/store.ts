@@ -0,0 +1,5 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { StoredCart } from './types'
+
+/** Carts keyed by id: random ids for guests, `user:<userId>` for accounts. */
+export const cartsStore = createJsonStore<Record<string, StoredCart>>('carts', () => ({}))
@@ -0,0 +1,65 @@
+import type { StockInfo } from '../inventory/types'
+import type { CurrencyCode, Money } from '../money'
+import type { Product, ProductVariant } from '../products/types'
+import type { AppliedDiscount } from '../promotions/types'
+import type { ShippingEstimate } from '../shipping/types'
+import type { TaxSummary } from '../tax/types'
+
+/**
+ * Cart types. The server stores only product/variant ids and quantities;
+ * prices and titles are looked up from the catalog whenever the cart is read.
+ * Lines are keyed by variant, so two sizes of the same shirt are two lines.
+ */
+
+export interface CartLine {
+  productId: string
+  /** Required for products with variants, absent otherwise. */
+  variantId?: string
+  quantity: number
+}
+
+/** Identifies a line for updates and removal. */
+export type CartLineRef = Pick<CartLine, 'productId' | 'variantId'>
+
+export interface StoredCart {
+  id: string
+  lines: CartLine[]
+  /** Normalized coupon code the shopper entered. */
+  couponCode?: string
+  updatedAt: string
+}
+
+export interface CartViewLine extends CartLine {
+  /** Stable per-line key, e.g. for React lists. */
+  key: string
+  product: Product
+  variant?: ProductVariant
+  unitPrice: Money
+  lineTotal: Money
+  stock: StockInfo
+}
+
+/** Shape returned by every /api/cart method. Amounts are in `currency`. */
+export interface CartView {
+  currency: CurrencyCode
+  lines: CartViewLine[]
+  itemCount: number
+  subtotal: Money
+  /** Automatic promotions and the coupon, if it applies. */
+  discounts: AppliedDiscount[]
+  discountTotal: Money
+  /** Subtotal less discounts, before shipping. */
+  total: Money
+  couponCode?: string
+  /** Why the stored coupon doesn't currently apply, e.g. the cart is under its minimum spend. */
+  couponError?: string
+  /** Cheapest shipping to the store's default country; null for an empty cart. */
+  shipping: ShippingEstimate | null
+  /**
+   * Tax for the default country when it doesn't depend on the shopper's
+   * state or region; otherwise null and worked out at checkout.
+   */
+  tax: TaxSummary | null
+  /** Changes the server made on the shopper's behalf, e.g. quantities reduced to what's in stock. */
+  notices?: string[]
+}
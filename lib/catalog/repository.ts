@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createJsonStore } from '../db/jsonStore'
+import { SAMPLE_CATALOG } from './sample'
+import type { Catalog } from './types'
+
+/**
+ * Where categories and collections come from. Mirrors the product repository:
+ * CATALOG_FILE (or data/catalog.json when present) is read from disk and
+ * re-read when it changes, otherwise the built-in sample catalog is used.
+ * Category edits from /admin are layered on top. Server-only.
+ */
+
+export interface CatalogRepository {
+  load(): Promise<Catalog>
+}
+
+/** A repository the admin dashboard can write to (see lib/admin/categories). */
+export interface EditableCatalogRepository extends CatalogRepository {
+  /** Mutate a draft of the catalog; persisted once `fn` resolves. */
+  update<R>(fn: (catalog: Catalog) => R | Promise<R>): Promise<R>
+}
+
+export function createMemoryCatalogRepository(catalog: Catalog): CatalogRepository {
+  return {
+    async load() {
+      return catalog
+    },
+  }
+}
+
+export function createJsonFileCatalogRepository(filePath: string): CatalogRepository {
+  let cache: { mtimeMs: number; catalog: Catalog } | null = null
+
+  return {
+    async load() {
+      const stat = await fs.stat(filePath)
+      if (cache && cache.mtimeMs === stat.mtimeMs) return cache.catalog
+      const raw = JSON.parse(await fs.readFile(filePath, 'utf8')) as Partial<Catalog>
+      if (!Array.isArray(raw.categories) || !Array.isArray(raw.collections)) {
+        throw new Error(`Catalog file ${filePath} must have "categories" and "collections" arrays`)
+      }
+      const catalog = { categories: raw.categories, collections: raw.collections }
+      cache = { mtimeMs: stat.mtimeMs, catalog }
+      return catalog
+    },
+  }
+}
+
+const editsStore = createJsonStore<{ catalog: Catalog | null }>('catalog', () => ({ catalog: null }))
+
+/**
+ * Serves the source until the first dashboard edit, which copies it into
+ * DATA_DIR; that copy is the catalog from then on.
+ */
+export function createEditableCatalogRepository(source: CatalogRepository): EditableCatalogRepository {
+  return {
+    async load() {
+      const { catalog } = await editsStore.read()
+      return catalog ?? source.load()
+    },
+    update(fn) {
+      return editsStore.update(async (draft) => {
+        draft.catalog ??= structuredClone(await source.load())
+        return fn(draft.catalog)
+      })
+    },
+  }
+}
+
+let repository: EditableCatalogRepository | null = null
+
+export async function getCatalogRepository(): Promise<EditableCatalogRepository> {
+  if (repository) return repository
+  const filePath = process.env.CATALOG_FILE ?? path.join(process.cwd(), 'data', 'catalog.json')
+  const exists = await fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false)
+  repository = createEditableCatalogRepository(
+    exists ? createJsonFileCatalogRepository(filePath) : createMemoryCatalogRepository(SAMPLE_CATALOG),
+  )
+  return repository
+}
+
+/** Override the source repository, e.g. to plug in a database-backed implementation. */
+export function setCatalogRepository(next: CatalogRepository) {
+  repository = createEditableCatalogRepository(next)
+}
@@ -0,0 +1,82 @@
+import type { Catalog } from './types'
+
+/** Built-in categories and collections matching SAMPLE_PRODUCTS. */
+export const SAMPLE_CATALOG: Catalog = {
+  categories: [
+    {
+      id: 'fashion',
+      slug: 'fashion',
+      name: 'Fashion',
+      description: 'Everyday clothing and the accessories that go with it.',
+      heroImage: '/categories/fashion.jpg',
+    },
+    {
+      id: 'clothing',
+      slug: 'clothing',
+      name: 'Clothing',
+      description: 'Soft basics and wardrobe staples.',
+      heroImage: '/categories/clothing.jpg',
+      parentId: 'fashion',
+      taxClass: 'clothing',
+    },
+    {
+      id: 'accessories',
+      slug: 'accessories',
+      name: 'Accessories',
+      description: 'Wallets, bags and small leather goods.',
+      heroImage: '/categories/accessories.jpg',
+      parentId: 'fashion',
+    },
+    {
+      id: 'electronics',
+      slug: 'electronics',
+      name: 'Electronics',
+      description: 'Audio and gadgets for work and play.',
+      heroImage: '/categories/electronics.jpg',
+    },
+    {
+      id: 'home',
+      slug: 'home',
+      name: 'Home',
+      description: 'Kitchen and living essentials.',
+      heroImage: '/categories/home.jpg',
+    },
+  ],
+  collections: [
+    {
+      id: 'all',
+      slug: 'all',
+      title: 'All Products',
+      description: 'Everything in the store.',
+      rule: { type: 'all' },
+      path: '/shop',
+    },
+    {
+      id: 'new',
+      slug: 'new',
+      title: 'New Arrivals',
+      description: 'The latest additions to the catalog.',
+      heroImage: '/collections/new.jpg',
+      rule: { type: 'newest', limit: 12 },
+      path: '/shop/new',
+      showInNav: true,
+    },
+    {
+      id: 'sale',
+      slug: 'sale',
+      title: 'Sale',
+      description: 'Marked-down favourites while stocks last.',
+      heroImage: '/collections/sale.jpg',
+      rule: { type: 'on-sale' },
+      path: '/shop/sale',
+      showInNav: true,
+    },
+    {
+      id: 'everyday-essentials',
+      slug: 'everyday-essentials',
+      title: 'Everyday Essentials',
+      description: 'The things we reach for every day.',
+      rule: { type: 'products', productIds: ['p1', 'p2', 'p4'] },
+    },
+  ],
+}
@@ -0,0 +1,66 @@
+import { withAvailability } from '../inventory/service'
+import { getProductRepository } from '../products/repository'
+import type { Product } from '../products/types'
+import { getCatalogRepository } from './repository'
+import {
+  categoryBreadcrumbs,
+  categoryPath,
+  childCategories,
+  collectionPath,
+  findCategory,
+  productsInCategory,
+  productsInCollection,
+} from './tree'
+import type { Category, Collection, Crumb, NavCategory } from './types'
+
+/**
+ * Server-side loaders for the category and collection listing pages.
+ */
+
+export interface CategoryListing {
+  category: Category
+  breadcrumbs: Crumb[]
+  subcategories: Category[]
+  products: Product[]
+}
+
+export interface CollectionListing {
+  collection: Collection
+  products: Product[]
+}
+
+export async function getCatalog() {
+  return (await getCatalogRepository()).load()
+}
+
+/** Top-level categories followed by the collections flagged `showInNav`. */
+export async function getNavCategories(): Promise<NavCategory[]> {
+  const { categories, collections } = await getCatalog()
+  return [
+    ...childCategories(categories, null).map((c) => ({ id: c.id, name: c.name, href: categoryPath(c) })),
+    ...collections
+      .filter((c) => c.showInNav)
+      .map((c) => ({ id: `collection:${c.id}`, name: c.title, href: collectionPath(c) })),
+  ]
+}
+
+export async function loadCategoryListing(idOrSlug: string): Promise<CategoryListing | null> {
+  const { categories } = await getCatalog()
+  const category = findCategory(categories, idOrSlug)
+  if (!category) return null
+  const products = await (await getProductRepository()).list()
+  return {
+    category,
+    breadcrumbs: categoryBreadcrumbs(categories, category),
+    subcategories: childCategories(categories, category.id),
+    products: await withAvailability(productsInCategory(categories, category, products)),
+  }
+}
+
+export async function loadCollectionListing(slug: string): Promise<CollectionListing | null> {
+  const { categories, collections } = await getCatalog()
+  const collection = collections.find((c) => c.slug === slug)
+  if (!collection) return null
+  const products = await (await getProductRepository()).list()
+  return { collection, products: await withAvailability(productsInCollection(categories, collection, products)) }
+}
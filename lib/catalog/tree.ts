@@ -0,0 +1,101 @@
+import type { Product } from '../products/types'
+import type { Category, Collection, Crumb } from './types'
+
+/**
+ * Pure helpers over the category tree and collection rules.
+ */
+
+export function categoryPath(category: Category) {
+  return `/category/${encodeURIComponent(category.slug)}`
+}
+
+export function collectionPath(collection: Collection) {
+  return collection.path ?? `/collections/${encodeURIComponent(collection.slug)}`
+}
+
+/** Look a category up by id or slug. */
+export function findCategory(categories: Category[], idOrSlug: string): Category | null {
+  return categories.find((c) => c.id === idOrSlug || c.slug === idOrSlug) ?? null
+}
+
+export function childCategories(categories: Category[], parentId: string | null): Category[] {
+  return categories.filter((c) => (c.parentId ?? null) === parentId)
+}
+
+/** The category and all of its descendants, guarding against cycles in hand-edited data. */
+export function descendantCategories(categories: Category[], root: Category): Category[] {
+  const result: Category[] = []
+  const seen = new Set<string>()
+  const queue = [root]
+  while (queue.length) {
+    const current = queue.shift()!
+    if (seen.has(current.id)) continue
+    seen.add(current.id)
+    result.push(current)
+    queue.push(...childCategories(categories, current.id))
+  }
+  return result
+}
+
+/** Root-first chain of ancestors ending with the category itself. */
+export function categoryAncestry(categories: Category[], category: Category): Category[] {
+  const chain: Category[] = []
+  const seen = new Set<string>()
+  let current: Category | null = category
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    chain.unshift(current)
+    current = current.parentId ? findCategory(categories, current.parentId) : null
+  }
+  return chain
+}
+
+export function categoryBreadcrumbs(categories: Category[], category: Category): Crumb[] {
+  return [
+    { label: 'Home', href: '/' },
+    { label: 'Shop', href: '/shop' },
+    ...categoryAncestry(categories, category).map((c) => ({ label: c.name, href: categoryPath(c) })),
+  ]
+}
+
+/** The category a product's free-text `category` field refers to, if any. */
+export function categoryForProduct(categories: Category[], product: Product): Category | null {
+  const name = product.category?.trim().toLowerCase()
+  if (!name) return null
+  return categories.find((c) => c.name.toLowerCase() === name || c.slug === name) ?? null
+}
+
+export function productsInCategory(categories: Category[], category: Category, products: Product[]) {
+  const ids = new Set(descendantCategories(categories, category).map((c) => c.id))
+  return products.filter((p) => {
+    const match = categoryForProduct(categories, p)
+    return match ? ids.has(match.id) : false
+  })
+}
+
+export function productsInCollection(
+  categories: Category[],
+  collection: Collection,
+  products: Product[],
+): Product[] {
+  const { rule } = collection
+  switch (rule.type) {
+    case 'all':
+      return products
+    case 'newest':
+      return products
+        .filter((p) => p.createdAt)
+        .sort((a, b) => Date.parse(b.createdAt!) - Date.parse(a.createdAt!))
+        .slice(0, rule.limit)
+    case 'on-sale':
+      return products.filter((p) => p.compareAtPrice !== undefined && p.compareAtPrice > p.price)
+    case 'category': {
+      const category = findCategory(categories, rule.categoryId)
+      return category ? productsInCategory(categories, category, products) : []
+    }
+    case 'products': {
+      const byId = new Map(products.map((p) => [p.id, p]))
+      return rule.productIds.map((id) => byId.get(id)).filter((p): p is Product => !!p)
+    }
+  }
+}
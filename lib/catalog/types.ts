@@ -0,0 +1,60 @@
+/**
+ * Category and collection model behind the /category, /shop and /collections
+ * listing pages and the Header's category menu.
+ */
+
+/**
+ * A node in the category tree. Products belong to a category when their
+ * `Product.category` matches its name or slug (case-insensitive); a category
+ * page also lists everything in its descendants.
+ */
+export interface Category {
+  id: string
+  slug: string
+  name: string
+  description?: string
+  heroImage?: string
+  /** Omitted or null for top-level categories. */
+  parentId?: string | null
+  /** Tax class for products in this category and its descendants (see lib/tax). */
+  taxClass?: string
+}
+
+/** How a collection picks its products. */
+export type CollectionRule =
+  | { type: 'all' }
+  | { type: 'newest'; limit: number }
+  | { type: 'on-sale' }
+  | { type: 'category'; categoryId: string }
+  | { type: 'products'; productIds: string[] }
+
+/** A curated or rule-based product list, e.g. "New Arrivals" or "Sale". */
+export interface Collection {
+  id: string
+  slug: string
+  title: string
+  description?: string
+  heroImage?: string
+  rule: CollectionRule
+  /** Canonical path when it isn't /collections/<slug>, e.g. "/shop/new". */
+  path?: string
+  /** Listed in the Header's category menu after the top-level categories. */
+  showInNav?: boolean
+}
+
+export interface Catalog {
+  categories: Category[]
+  collections: Collection[]
+}
+
+export interface Crumb {
+  label: string
+  href: string
+}
+
+/** Entry in the Header's category menu. */
+export interface NavCategory {
+  id: string
+  name: string
+  href: string
+}
@@ -0,0 +1,47 @@
+import { BASE_CURRENCY, fromCents, toCents, type CurrencyCode } from '../money'
+import type { Product, ProductVariant } from '../products/types'
+import { hasVariants, variantCompareAtPrice, variantPrice } from '../products/variants'
+
+/**
+ * Prices in the shopper's currency. A product's catalog price list
+ * (`prices`) wins; anything else is converted from the base currency at
+ * fixed FX rates and rounded to the cent. Products themselves always stay in
+ * the base currency. Safe to import from client components.
+ */
+
+/** Units of each currency per US dollar. Fixed, so a price can't move between the product page and checkout. */
+export const FX_RATES: Record<CurrencyCode, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+}
+
+/** Convert a base-currency amount, e.g. a shipping rate or a fixed discount. */
+export function convertAmount(amount: number, currency: CurrencyCode): number {
+  if (currency === BASE_CURRENCY) return amount
+  return fromCents(Math.round(toCents(amount) * FX_RATES[currency]))
+}
+
+/** `variantPrice` in `currency`. A variant without its own price shares the product's price list. */
+export function localizedPrice(product: Product, variant: ProductVariant | undefined, currency: CurrencyCode): number {
+  const listed = variant?.price === undefined ? product.prices?.[currency] : variant.prices?.[currency]
+  return listed ?? convertAmount(variantPrice(product, variant), currency)
+}
+
+export function localizedCompareAtPrice(
+  product: Product,
+  variant: ProductVariant | undefined,
+  currency: CurrencyCode,
+): number | undefined {
+  const compareAt = variantCompareAtPrice(product, variant)
+  return compareAt === undefined ? undefined : convertAmount(compareAt, currency)
+}
+
+/** `priceRange` in `currency`. */
+export function localizedPriceRange(product: Product, currency: CurrencyCode): { min: number; max: number } {
+  const prices = hasVariants(product)
+    ? product.variants!.map((v) => localizedPrice(product, v, currency))
+    : [localizedPrice(product, undefined, currency)]
+  return { min: Math.min(...prices), max: Math.max(...prices) }
+}
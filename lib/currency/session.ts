@@ -0,0 +1,26 @@
+import { cookies } from 'next/headers'
+import { BASE_CURRENCY, isCurrencyCode, type CurrencyCode } from '../money'
+
+/**
+ * The shopper's chosen currency, kept in a cookie so it survives sign-in and
+ * sign-out and reaches server components, the cart and the order API. Only
+ * usable from route handlers and server components (relies on next/headers).
+ */
+
+export const CURRENCY_COOKIE = 'currency'
+const CURRENCY_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 // 1 year
+
+export function getCurrency(): CurrencyCode {
+  const value = cookies().get(CURRENCY_COOKIE)?.value
+  return isCurrencyCode(value) ? value : BASE_CURRENCY
+}
+
+/** Only allowed where cookies can be set (route handlers, server actions). */
+export function setCurrency(currency: CurrencyCode) {
+  cookies().set(CURRENCY_COOKIE, currency, {
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CURRENCY_COOKIE_MAX_AGE,
+  })
+}
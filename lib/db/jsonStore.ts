@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Tiny JSON-file persistence used by the local stores (orders, payments, ...).
+ * Each store is one file under DATA_DIR. Writes are serialized per store and
+ * applied to a copy, so a failing update never leaves half-written state.
+ * Server-only: this module reads from and writes to disk.
+ */
+
+export const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), '.data')
+
+export interface JsonStore<T> {
+  /** Snapshot of the current data; mutating it has no effect on the store. */
+  read(): Promise<T>
+  /** Mutate a draft of the data; the draft is persisted once `fn` resolves. */
+  update<R>(fn: (draft: T) => R | Promise<R>): Promise<R>
+}
+
+// Kept on globalThis so route handlers and server components share one cache
+// even when the bundler instantiates this module more than once.
+const globalForStores = globalThis as unknown as {
+  __jsonStores?: Map<string, JsonStore<unknown>>
+}
+const stores = (globalForStores.__jsonStores ??= new Map())
+
+/**
+ * `upgrade` brings data written by an older version of the app up to date
+ * (in place) when the file is loaded, so callers only ever see the current
+ * shape; it's persisted with the next update.
+ */
+export function createJsonStore<T>(
+  name: string,
+  initial: () => T,
+  { upgrade }: { upgrade?: (data: T) => void } = {},
+): JsonStore<T> {
+  const existing = stores.get(name)
+  if (existing) return existing as JsonStore<T>
+
+  const file = path.join(DATA_DIR, `${name}.json`)
+  let data: T | null = null
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function load(): Promise<T> {
+    if (data) return data
+    try {
+      data = JSON.parse(await fs.readFile(file, 'utf8')) as T
+      upgrade?.(data)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+      data = initial()
+    }
+    return data
+  }
+
+  async function persist(value: T) {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    const tmp = `${file}.${process.pid}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(value, null, 2))
+    await fs.rename(tmp, file)
+  }
+
+  function enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const run = queue.then(task, task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const store: JsonStore<T> = {
+    read: () => enqueue(async () => structuredClone(await load())),
+    update: (fn) =>
+      enqueue(async () => {
+        const draft = structuredClone(await load())
+        const result = await fn(draft)
+        await persist(draft)
+        data = draft
+        return result
+      }),
+  }
+  stores.set(name, store as JsonStore<unknown>)
+  return store
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * Helpers for route handlers. Errors are always returned as `{ message }`
+ * so client code can surface them directly (see Footer.handleSubmit).
+ */
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+export function errorResponse(err: unknown, context: string) {
+  if (err instanceof HttpError) {
+    return NextResponse.json({ message: err.message }, { status: err.status })
+  }
+  console.error(context, err)
+  return NextResponse.json(
+    { message: 'Something went wrong. Please try again later.' },
+    { status: 500 },
+  )
+}
+
+export async function readJson<T>(req: Request): Promise<T> {
+  try {
+    return (await req.json()) as T
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.')
+  }
+}
+
+/** Best-effort client address for rate limiting; trusts the first X-Forwarded-For hop. */
+export function clientIp(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || req.headers.get('x-real-ip') || 'unknown'
+}
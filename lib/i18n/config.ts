@@ -0,0 +1,65 @@
+/**
+ * Supported UI locales and locale-prefixed paths. The default locale is
+ * served without a prefix (/products/p1), every other locale under its code
+ * (/de/products/p1). No Node APIs: middleware.ts imports this on the edge.
+ */
+
+export type Locale = 'en' | 'de'
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export interface LocaleInfo {
+  code: Locale
+  /** Name in the language itself, for the language switcher. */
+  name: string
+  /** Open Graph locale, e.g. "en_US". */
+  ogLocale: string
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { code: 'en', name: 'English', ogLocale: 'en_US' },
+  de: { code: 'de', name: 'Deutsch', ogLocale: 'de_DE' },
+}
+
+export const LOCALE_CODES = Object.keys(LOCALES) as Locale[]
+
+export const LOCALE_COOKIE = 'locale'
+
+/** Request headers middleware.ts adds for server components. */
+export const LOCALE_HEADER = 'x-locale'
+export const PATHNAME_HEADER = 'x-pathname'
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALE_CODES.includes(value as Locale)
+}
+
+/** "/de/products/p1" -> { locale: 'de', path: '/products/p1' }; unprefixed paths have no locale. */
+export function splitLocalePath(pathname: string): { locale?: Locale; path: string } {
+  const [, first, ...rest] = pathname.split('/')
+  if (!isLocale(first)) return { path: pathname }
+  return { locale: first, path: `/${rest.join('/')}` }
+}
+
+/**
+ * Prefix an app path ("/cart") for `locale`. External URLs, anchors and
+ * files ("/sitemap.xml", which middleware doesn't route) are returned as-is.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE || !path.startsWith('/') || path.startsWith('//')) return path
+  if (/\.[^/]*$/.test(path.split(/[?#]/)[0])) return path
+  return path === '/' ? `/${locale}` : `/${locale}${path}`
+}
+
+/** Best match for an Accept-Language header, by quality then order. */
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+  const ranked = (acceptLanguage ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.find((p) => p.trim().startsWith('q='))
+      return { language: tag.split('-')[0].toLowerCase(), q: q ? Number(q.trim().slice(2)) || 0 : 1 }
+    })
+    .filter((entry) => entry.language && entry.q > 0)
+    .sort((a, b) => b.q - a.q)
+  return ranked.map((entry) => entry.language).find(isLocale) ?? DEFAULT_LOCALE
+}
@@ -0,0 +1,88 @@
+/**
+ * A small subset of ICU MessageFormat, enough for storefront copy:
+ *
+ *   "Hello {name}"
+ *   "{count, plural, =0 {No items} one {# item} other {# items}}"
+ *
+ * Plural categories come from Intl.PluralRules for the locale, and `#` is
+ * the count formatted for the locale. Missing arguments render as
+ * "{name}" so they stand out instead of disappearing.
+ */
+
+export type MessageValues = Record<string, string | number>
+
+const pluralRules = new Map<string, Intl.PluralRules>()
+
+function pluralCategory(count: number, locale: string) {
+  let rules = pluralRules.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(locale)
+    pluralRules.set(locale, rules)
+  }
+  return rules.select(count)
+}
+
+function formatNumber(value: number, locale: string) {
+  return new Intl.NumberFormat(locale).format(value)
+}
+
+/** Index of the "}" closing the "{" at `start`. */
+function closingBrace(message: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++
+    else if (message[i] === '}' && --depth === 0) return i
+  }
+  throw new Error(`Unbalanced braces in message "${message}"`)
+}
+
+/** "=0 {...} one {...} other {...}" -> selector -> text */
+function pluralBranches(source: string): Map<string, string> {
+  const branches = new Map<string, string>()
+  let i = 0
+  while (i < source.length) {
+    const open = source.indexOf('{', i)
+    if (open < 0) break
+    const selector = source.slice(i, open).trim()
+    const close = closingBrace(source, open)
+    branches.set(selector, source.slice(open + 1, close))
+    i = close + 1
+  }
+  return branches
+}
+
+function formatArgument(body: string, values: MessageValues, locale: string): string {
+  const [name, type] = body.split(',', 2).map((part) => part.trim())
+  const value = values[name]
+  if (type === undefined) {
+    if (value === undefined) return `{${name}}`
+    return typeof value === 'number' ? formatNumber(value, locale) : value
+  }
+  if (type !== 'plural') throw new Error(`Unsupported argument type "${type}" in {${body}}`)
+
+  const count = Number(value ?? 0)
+  const branches = pluralBranches(body.slice(body.indexOf(',', body.indexOf(',') + 1) + 1))
+  const branch = branches.get(`=${count}`) ?? branches.get(pluralCategory(count, locale)) ?? branches.get('other')
+  return branch === undefined ? '' : render(branch, values, locale, count)
+}
+
+function render(message: string, values: MessageValues, locale: string, count?: number): string {
+  let out = ''
+  for (let i = 0; i < message.length; i++) {
+    const ch = message[i]
+    if (ch === '{') {
+      const close = closingBrace(message, i)
+      out += formatArgument(message.slice(i + 1, close), values, locale)
+      i = close
+    } else if (ch === '#' && count !== undefined) {
+      out += formatNumber(count, locale)
+    } else {
+      out += ch
+    }
+  }
+  return out
+}
+
+export function formatMessage(message: string, locale: string, values: MessageValues = {}): string {
+  return render(message, values, locale)
+}
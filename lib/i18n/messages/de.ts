@@ -0,0 +1,125 @@
+import type { Messages } from './en'
+
+/** German UI strings. Typed against the English catalog, so a missing key fails the type-check. */
+export const de: Messages = {
+  // Header
+  'nav.home': 'Startseite',
+  'nav.shop': 'Shop',
+  'nav.categories': 'Kategorien',
+  'nav.about': 'Über uns',
+  'nav.contact': 'Kontakt',
+  'nav.toggleMenu': 'Menü öffnen oder schließen',
+  'search.label': 'Produkte suchen',
+  'search.placeholder': 'Produkte, Marken und Kategorien suchen',
+  'search.placeholderShort': 'Produkte suchen',
+  'search.submit': 'Suchen',
+  'header.cart': 'Warenkorb',
+  'header.viewCart': 'Warenkorb anzeigen',
+  'header.currency': 'Währung',
+  'header.language': 'Sprache',
+  'account.account': 'Konto',
+  'account.options': 'Kontooptionen',
+  'account.myAccount': 'Mein Konto',
+  'account.orders': 'Bestellungen',
+  'account.wishlist': 'Wunschliste',
+  'account.signIn': 'Anmelden',
+  'account.signOut': 'Abmelden',
+  'account.createAccount': 'Konto erstellen',
+
+  // Footer
+  'footer.tagline':
+    'Handverlesene Produkte, schneller Versand, einfache Rücksendung. Für alle, die Qualität und Tempo schätzen.',
+  'footer.shop': 'Shop',
+  'footer.collections': 'Kollektionen',
+  'footer.allProducts': 'Alle Produkte',
+  'footer.sale': 'Sale',
+  'footer.giftCards': 'Geschenkkarten',
+  'footer.support': 'Hilfe',
+  'footer.aboutUs': 'Über uns',
+  'footer.contact': 'Kontakt',
+  'footer.faq': 'FAQ',
+  'footer.shippingReturns': 'Versand & Rückgabe',
+  'footer.weAccept': 'Wir akzeptieren',
+  'footer.copyright': '© {year} E-Shop. Alle Rechte vorbehalten.',
+  'footer.terms': 'AGB',
+  'footer.privacy': 'Datenschutz',
+  'footer.sitemap': 'Sitemap',
+  'newsletter.title': 'Newsletter abonnieren',
+  'newsletter.description': 'Neue Produkte, Angebote und mehr — einmal pro Woche in Ihrem Postfach.',
+  'newsletter.emailLabel': 'E-Mail-Adresse',
+  'newsletter.subscribe': 'Abonnieren',
+  'newsletter.subscribing': 'Wird abonniert...',
+  'newsletter.invalidEmail': 'Bitte geben Sie eine gültige E-Mail-Adresse ein.',
+  'newsletter.success': 'Erfolgreich abonniert. Schauen Sie in Ihr Postfach!',
+  'newsletter.failed': 'Beim Abonnieren ist etwas schiefgelaufen. Bitte versuchen Sie es später erneut.',
+  'newsletter.networkError': 'Netzwerkfehler. Bitte versuchen Sie es später erneut.',
+
+  // Home page
+  'home.title': 'Moderne Essentials entdecken',
+  'home.intro': 'Ausgewählte Qualitätsprodukte für jeden Tag. Mit schnellem Versand und einfacher Rückgabe.',
+  'home.shopNow': 'Jetzt shoppen',
+  'home.deals': 'Angebote des Tages',
+  'home.freeShipping': 'Kostenloser Versand',
+  'home.freeShippingOver': 'Für Bestellungen ab 50 $',
+  'home.searchPlaceholder': 'Produkte, Kategorien, Marken suchen...',
+  'home.filterCategory': 'Nach Kategorie filtern',
+  'home.allCategories': 'Alle',
+  'home.sort': 'Produkte sortieren',
+  'home.cartButton': 'Warenkorb ({count})',
+  'home.loading': 'Produkte werden geladen...',
+  'home.loadFailed': 'Produkte konnten nicht geladen werden.',
+  'home.degraded':
+    'Der Katalog ist gerade nicht erreichbar, daher siehst du Beispielprodukte. Preise und Bestand sind eventuell nicht aktuell.',
+  'home.noProducts': 'Keine Produkte gefunden.',
+  'home.showing': '{shown} von {total, plural, one {# Produkt} other {# Produkten}}',
+  'home.loadMore': 'Mehr laden',
+  'sort.featured': 'Empfohlen',
+  'sort.priceAsc': 'Preis: aufsteigend',
+  'sort.priceDesc': 'Preis: absteigend',
+  'sort.rating': 'Bewertung',
+
+  // Product cards and quick view
+  'product.noImage': 'Kein Bild',
+  'product.from': 'Ab',
+  'product.add': 'Hinzufügen',
+  'product.options': 'Optionen',
+  'product.soldOut': 'Ausverkauft',
+  'product.outOfStock': 'Nicht vorrätig',
+  'product.addToCart': 'In den Warenkorb',
+  'product.quickView': 'Schnellansicht',
+  'product.closeQuickView': 'Schnellansicht schließen',
+  'product.viewDetails': 'Alle Details ansehen',
+
+  // Cart
+  'cart.title': 'Ihr Warenkorb',
+  'cart.itemCount': '{count, plural, one {# Artikel} other {# Artikel}}',
+  'cart.empty': 'Ihr Warenkorb ist leer.',
+  'cart.loading': 'Warenkorb wird geladen...',
+  'cart.browse': 'Produkte ansehen',
+  'cart.clear': 'Leeren',
+  'cart.clearCart': 'Warenkorb leeren',
+  'cart.close': 'Schließen',
+  'cart.remove': 'Entfernen',
+  'cart.saveForLater': 'Für später speichern',
+  'cart.each': 'je {price}',
+  'cart.orderSummary': 'Bestellübersicht',
+  'cart.subtotal': 'Zwischensumme',
+  'cart.subtotalItems': 'Zwischensumme ({count, plural, one {# Artikel} other {# Artikel}})',
+  'cart.coupon': 'Gutschein',
+  'cart.couponCode': 'Gutscheincode',
+  'cart.apply': 'Einlösen',
+  'cart.applying': 'Wird eingelöst...',
+  'cart.estimatedShipping': 'Voraussichtlicher Versand ({method})',
+  'cart.free': 'Kostenlos',
+  'cart.estimatedTax': 'Voraussichtliche {tax}',
+  'cart.tax': 'Steuern',
+  'cart.taxAtCheckout': 'Wird an der Kasse berechnet',
+  'cart.total': 'Gesamt',
+  'cart.estimatedTotal': 'Voraussichtlich gesamt',
+  'cart.includesTax': 'Inkl. {amount} {tax}',
+  'cart.freeShippingRemaining': 'Noch {amount} bis zum kostenlosen Versand',
+  'cart.freeShippingReached': 'Ihre Bestellung wird kostenlos versendet!',
+  'cart.freeShippingProgress': 'Fortschritt bis zum kostenlosen Versand',
+  'cart.checkout': 'Zur Kasse',
+  'cart.continueShopping': 'Weiter einkaufen',
+}
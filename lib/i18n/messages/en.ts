@@ -0,0 +1,128 @@
+/**
+ * English UI strings: the source catalog every other locale is checked
+ * against. Values use ICU message syntax (see lib/i18n/format.ts).
+ */
+export const en = {
+  // Header
+  'nav.home': 'Home',
+  'nav.shop': 'Shop',
+  'nav.categories': 'Categories',
+  'nav.about': 'About',
+  'nav.contact': 'Contact',
+  'nav.toggleMenu': 'Toggle menu',
+  'search.label': 'Search products',
+  'search.placeholder': 'Search products, brands and categories',
+  'search.placeholderShort': 'Search products',
+  'search.submit': 'Search',
+  'header.cart': 'Cart',
+  'header.viewCart': 'View cart',
+  'header.currency': 'Currency',
+  'header.language': 'Language',
+  'account.account': 'Account',
+  'account.options': 'Account options',
+  'account.myAccount': 'My Account',
+  'account.orders': 'Orders',
+  'account.wishlist': 'Wishlist',
+  'account.signIn': 'Sign in',
+  'account.signOut': 'Sign out',
+  'account.createAccount': 'Create account',
+
+  // Footer
+  'footer.tagline': 'Hand-picked products, fast shipping, easy returns. Built for shoppers who want quality and speed.',
+  'footer.shop': 'Shop',
+  'footer.collections': 'Collections',
+  'footer.allProducts': 'All Products',
+  'footer.sale': 'Sale',
+  'footer.giftCards': 'Gift Cards',
+  'footer.support': 'Support',
+  'footer.aboutUs': 'About Us',
+  'footer.contact': 'Contact',
+  'footer.faq': 'FAQ',
+  'footer.shippingReturns': 'Shipping & Returns',
+  'footer.weAccept': 'We accept',
+  'footer.copyright': '© {year} E-Shop. All rights reserved.',
+  'footer.terms': 'Terms',
+  'footer.privacy': 'Privacy',
+  'footer.sitemap': 'Sitemap',
+  'newsletter.title': 'Subscribe to our newsletter',
+  'newsletter.description': 'Get updates on new products, sales and more — delivered to your inbox once a week.',
+  'newsletter.emailLabel': 'Email address',
+  'newsletter.subscribe': 'Subscribe',
+  'newsletter.subscribing': 'Subscribing...',
+  'newsletter.invalidEmail': 'Please enter a valid email address.',
+  'newsletter.success': 'Subscribed successfully. Check your inbox!',
+  'newsletter.failed': 'Something went wrong while subscribing. Please try again later.',
+  'newsletter.networkError': 'Network error. Please try again later.',
+
+  // Home page
+  'home.title': 'Discover modern essentials',
+  'home.intro': 'Quality products curated for everyday life. Shop with fast shipping and easy returns.',
+  'home.shopNow': 'Shop Now',
+  'home.deals': "Today's deals",
+  'home.freeShipping': 'Free shipping',
+  'home.freeShippingOver': 'On orders over $50',
+  'home.searchPlaceholder': 'Search products, categories, brands...',
+  'home.filterCategory': 'Filter by category',
+  'home.allCategories': 'All',
+  'home.sort': 'Sort products',
+  'home.cartButton': 'Cart ({count})',
+  'home.loading': 'Loading products...',
+  'home.loadFailed': 'Failed to load products.',
+  'home.degraded': "We can't reach the catalog right now, so these are sample products. Prices and stock may be out of date.",
+  'home.noProducts': 'No products found.',
+  'home.showing': 'Showing {shown} of {total, plural, one {# product} other {# products}}',
+  'home.loadMore': 'Load more',
+  'sort.featured': 'Featured',
+  'sort.priceAsc': 'Price: Low to high',
+  'sort.priceDesc': 'Price: High to low',
+  'sort.rating': 'Rating',
+
+  // Product cards and quick view
+  'product.noImage': 'No image',
+  'product.from': 'From',
+  'product.add': 'Add',
+  'product.options': 'Options',
+  'product.soldOut': 'Sold out',
+  'product.outOfStock': 'Out of stock',
+  'product.addToCart': 'Add to cart',
+  'product.quickView': 'Quick view',
+  'product.closeQuickView': 'Close quick view',
+  'product.viewDetails': 'View full details',
+
+  // Cart
+  'cart.title': 'Your Cart',
+  'cart.itemCount': '{count, plural, one {# item} other {# items}}',
+  'cart.empty': 'Your cart is empty.',
+  'cart.loading': 'Loading cart...',
+  'cart.browse': 'Browse products',
+  'cart.clear': 'Clear',
+  'cart.clearCart': 'Clear cart',
+  'cart.close': 'Close',
+  'cart.remove': 'Remove',
+  'cart.saveForLater': 'Save for later',
+  'cart.each': '{price} each',
+  'cart.orderSummary': 'Order summary',
+  'cart.subtotal': 'Subtotal',
+  'cart.subtotalItems': 'Subtotal ({count, plural, one {# item} other {# items}})',
+  'cart.coupon': 'Coupon',
+  'cart.couponCode': 'Coupon code',
+  'cart.apply': 'Apply',
+  'cart.applying': 'Applying...',
+  'cart.estimatedShipping': 'Estimated shipping ({method})',
+  'cart.free': 'Free',
+  'cart.estimatedTax': 'Estimated {tax}',
+  'cart.tax': 'Tax',
+  'cart.taxAtCheckout': 'Calculated at checkout',
+  'cart.total': 'Total',
+  'cart.estimatedTotal': 'Estimated total',
+  'cart.includesTax': 'Includes {amount} {tax}',
+  'cart.freeShippingRemaining': 'Spend {amount} more for free shipping',
+  'cart.freeShippingReached': 'Your order ships free!',
+  'cart.freeShippingProgress': 'Progress towards free shipping',
+  'cart.checkout': 'Checkout',
+  'cart.continueShopping': 'Continue shopping',
+}
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, string>
@@ -0,0 +1,14 @@
+import { DEFAULT_LOCALE, LOCALE_CODES, localizePath, type Locale } from './config'
+
+/** hreflang alternates for an unprefixed page path: one per locale plus x-default. */
+export function languageAlternates(path: string): Record<string, string> {
+  const languages: Record<string, string> = {}
+  for (const code of LOCALE_CODES) languages[code] = localizePath(path, code)
+  languages['x-default'] = localizePath(path, DEFAULT_LOCALE)
+  return languages
+}
+
+/** `alternates` metadata for a page with a canonical URL, as served in `locale`. */
+export function localeAlternates(path: string, locale: Locale) {
+  return { canonical: localizePath(path, locale), languages: languageAlternates(path) }
+}
@@ -0,0 +1,16 @@
+import type { Product } from '../products/types'
+import type { Locale } from './config'
+
+/**
+ * `product` with its title and description in `locale` where the catalog
+ * has a translation, else as entered. Safe to import from client components.
+ */
+export function localizeProduct<T extends Product>(product: T, locale: Locale): T {
+  const translation = product.translations?.[locale]
+  if (!translation) return product
+  return {
+    ...product,
+    title: translation.title ?? product.title,
+    description: translation.description ?? product.description,
+  }
+}
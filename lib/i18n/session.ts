@@ -0,0 +1,26 @@
+import { cookies, headers } from 'next/headers'
+import { DEFAULT_LOCALE, LOCALE_COOKIE, LOCALE_HEADER, PATHNAME_HEADER, isLocale, type Locale } from './config'
+import { createTranslator, type Translate } from './translate'
+
+/**
+ * The request's UI locale. Pages get it from the URL prefix, passed on by
+ * middleware.ts in a header; API routes (which aren't prefixed) fall back to
+ * the `locale` cookie middleware keeps. Only usable from route handlers and
+ * server components (relies on next/headers).
+ */
+
+export function getLocale(): Locale {
+  const fromUrl = headers().get(LOCALE_HEADER)
+  if (isLocale(fromUrl)) return fromUrl
+  const saved = cookies().get(LOCALE_COOKIE)?.value
+  return isLocale(saved) ? saved : DEFAULT_LOCALE
+}
+
+export function getTranslator(): Translate {
+  return createTranslator(getLocale())
+}
+
+/** The page's path without its locale prefix, e.g. "/products/p1" for /de/products/p1. */
+export function getPathname(): string {
+  return headers().get(PATHNAME_HEADER) ?? '/'
+}
@@ -0,0 +1,20 @@
+import type { Locale } from './config'
+import { formatMessage, type MessageValues } from './format'
+import { de } from './messages/de'
+import { en, type MessageKey, type Messages } from './messages/en'
+
+/**
+ * Translators over the message catalogs. Safe to import from client
+ * components; the catalogs are small enough to ship together.
+ */
+
+export type { MessageKey, Messages }
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string
+
+const CATALOGS: Record<Locale, Messages> = { en, de }
+
+export function createTranslator(locale: Locale): Translate {
+  const messages = CATALOGS[locale]
+  return (key, values) => formatMessage(messages[key], locale, values)
+}
@@ -0,0 +1,87 @@
+import { randomBytes } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DATA_DIR } from './db/jsonStore'
+import { HttpError } from './http'
+
+/**
+ * Uploaded image storage shared by review photos and catalog images. Images
+ * arrive as base64 data URLs, are checked against their file signature and
+ * written under a directory in DATA_DIR with a random name; a route handler
+ * serves them back. Server-only.
+ */
+
+const IMAGE_TYPES = {
+  jpg: { contentType: 'image/jpeg', matches: (b: Buffer) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  png: { contentType: 'image/png', matches: (b: Buffer) => b.subarray(0, 4).toString('hex') === '89504e47' },
+  webp: {
+    contentType: 'image/webp',
+    matches: (b: Buffer) => b.subarray(0, 4).toString() === 'RIFF' && b.subarray(8, 12).toString() === 'WEBP',
+  },
+}
+
+type ImageExtension = keyof typeof IMAGE_TYPES
+
+const DATA_URL = /^data:image\/(jpeg|png|webp);base64,([A-Za-z0-9+/]+={0,2})$/
+const IMAGE_NAME = /^[a-f0-9]{32}\.(jpg|png|webp)$/
+
+export interface DecodedImage {
+  ext: ImageExtension
+  bytes: Buffer
+}
+
+export interface ImageDirectory {
+  /**
+   * Check a data URL without writing it. `noun` names the image in error
+   * messages ("photo", "image").
+   */
+  decode(value: unknown, noun: string): DecodedImage
+  /** Write decoded images; resolves to their URLs. */
+  save(images: DecodedImage[]): Promise<string[]>
+  /** A stored image by file name, or null for unknown or malformed names. */
+  read(name: string): Promise<{ bytes: Buffer; contentType: string } | null>
+}
+
+/** Images under DATA_DIR/`dirName`, served at `${urlPrefix}<name>`. */
+export function createImageDirectory(dirName: string, urlPrefix: string, maxBytes: number): ImageDirectory {
+  const dir = path.join(DATA_DIR, dirName)
+
+  return {
+    decode(value, noun) {
+      const label = noun[0].toUpperCase() + noun.slice(1)
+      const invalid = new HttpError(400, `${label}s must be JPEG, PNG or WebP files.`)
+      const match = typeof value === 'string' ? DATA_URL.exec(value) : null
+      if (!match) throw invalid
+      const ext: ImageExtension = match[1] === 'jpeg' ? 'jpg' : (match[1] as ImageExtension)
+      const bytes = Buffer.from(match[2], 'base64')
+      if (bytes.length > maxBytes) {
+        throw new HttpError(400, `Each ${noun} must be under ${maxBytes / 1024 / 1024} MB.`)
+      }
+      if (!IMAGE_TYPES[ext].matches(bytes)) throw invalid
+      return { ext, bytes }
+    },
+
+    async save(images) {
+      await fs.mkdir(dir, { recursive: true })
+      const urls: string[] = []
+      for (const { ext, bytes } of images) {
+        const name = `${randomBytes(16).toString('hex')}.${ext}`
+        await fs.writeFile(path.join(dir, name), bytes)
+        urls.push(`${urlPrefix}${name}`)
+      }
+      return urls
+    },
+
+    async read(name) {
+      const match = IMAGE_NAME.exec(name)
+      if (!match) return null
+      try {
+        const bytes = await fs.readFile(path.join(dir, name))
+        return { bytes, contentType: IMAGE_TYPES[match[1] as ImageExtension].contentType }
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw err
+      }
+    },
+  }
+}
@@ -0,0 +1,224 @@
+import { randomBytes } from 'crypto'
+import { HttpError } from '../http'
+import { getProductRepository } from '../products/repository'
+import type { Product, ProductVariant } from '../products/types'
+import { displayTitle, findVariant, hasVariants } from '../products/variants'
+import { UNTRACKED_STOCK, stockInfo } from './status'
+import { inventoryStore } from './store'
+import type { InventoryData, Reservation, StockInfo, StockItem } from './types'
+
+/**
+ * Stock levels and checkout reservations.
+ *
+ * On-hand quantities are seeded from the catalog (`Product.stock`, or
+ * `ProductVariant.stock` for products with variants) the first time an item
+ * is reserved and tracked in the inventory store from then on.
+ * Available = on hand - active reservations. Reservations belong to a cart,
+ * expire after RESERVATION_TTL_MS and are turned into a stock decrement when
+ * the order is paid. Server-only.
+ */
+
+export const RESERVATION_TTL_MS = 15 * 60 * 1000 // 15 minutes
+
+type StockRef = Pick<StockItem, 'productId' | 'variantId'>
+
+interface Seed {
+  title: string
+  /** undefined = untracked */
+  stock?: number
+}
+
+export function stockKey(productId: string, variantId?: string) {
+  return variantId ? `${productId}:${variantId}` : productId
+}
+
+function seedFromProduct(product: Product, variant?: ProductVariant): Seed {
+  return { title: displayTitle(product, variant), stock: variant ? variant.stock : product.stock }
+}
+
+/** A product with variants is only stocked as its variants. */
+function seedFor(product: Product | null, variantId?: string): Seed {
+  if (!product) return { title: 'This item', stock: 0 }
+  if (!hasVariants(product)) return seedFromProduct(product)
+  const variant = findVariant(product, variantId)
+  return variant ? seedFromProduct(product, variant) : { title: product.title, stock: 0 }
+}
+
+async function loadSeeds(refs: StockRef[]): Promise<Map<string, Seed>> {
+  const repo = await getProductRepository()
+  const seeds = new Map<string, Seed>()
+  for (const { productId, variantId } of refs) {
+    const key = stockKey(productId, variantId)
+    if (seeds.has(key)) continue
+    seeds.set(key, seedFor(await repo.get(productId), variantId))
+  }
+  return seeds
+}
+
+function onHand(data: InventoryData, key: string, seed: Seed | undefined): number | null {
+  if (key in data.levels) return data.levels[key]
+  return seed?.stock === undefined ? null : seed.stock
+}
+
+function isActive(reservation: Reservation, now: number) {
+  return Date.parse(reservation.expiresAt) > now
+}
+
+function reservedQuantity(data: InventoryData, key: string, now: number, excludeOwner?: string) {
+  let total = 0
+  for (const reservation of Object.values(data.reservations)) {
+    if (reservation.ownerId === excludeOwner || !isActive(reservation, now)) continue
+    for (const item of reservation.items) if (item.key === key) total += item.quantity
+  }
+  return total
+}
+
+function pruneExpired(data: InventoryData, now: number) {
+  for (const [id, reservation] of Object.entries(data.reservations)) {
+    if (!isActive(reservation, now)) delete data.reservations[id]
+  }
+}
+
+function availability(
+  data: InventoryData,
+  seeds: Map<string, Seed>,
+  excludeOwner?: string,
+): Map<string, StockInfo> {
+  const now = Date.now()
+  const result = new Map<string, StockInfo>()
+  seeds.forEach((seed, key) => {
+    const hand = onHand(data, key, seed)
+    result.set(key, hand === null ? UNTRACKED_STOCK : stockInfo(hand - reservedQuantity(data, key, now, excludeOwner)))
+  })
+  return result
+}
+
+/**
+ * Availability per stock key. Pass `excludeOwner` (a cart id) to ignore that
+ * shopper's own reservation, so holding stock at checkout doesn't shrink
+ * their cart.
+ */
+export async function getAvailability(
+  refs: StockRef[],
+  { excludeOwner }: { excludeOwner?: string } = {},
+): Promise<Map<string, StockInfo>> {
+  const seeds = await loadSeeds(refs)
+  return availability(await inventoryStore.read(), seeds, excludeOwner)
+}
+
+/** Sum of variant availability; untracked if any variant is. */
+function totalStock(variants: ProductVariant[]): StockInfo {
+  let total = 0
+  for (const { availability } of variants) {
+    if (!availability || availability.available === null) return UNTRACKED_STOCK
+    total += availability.available
+  }
+  return stockInfo(total)
+}
+
+/**
+ * Attach live `availability` to products about to be served, and to each of
+ * their variants.
+ */
+export async function withAvailability(products: Product[]): Promise<Product[]> {
+  const seeds = new Map<string, Seed>()
+  for (const product of products) {
+    if (!hasVariants(product)) seeds.set(stockKey(product.id), seedFromProduct(product))
+    for (const variant of product.variants ?? []) {
+      seeds.set(stockKey(product.id, variant.id), seedFromProduct(product, variant))
+    }
+  }
+  const stock = availability(await inventoryStore.read(), seeds)
+  return products.map((product) => {
+    if (!hasVariants(product)) {
+      return { ...product, availability: stock.get(stockKey(product.id)) ?? UNTRACKED_STOCK }
+    }
+    const variants = product.variants!.map((variant) => ({
+      ...variant,
+      availability: stock.get(stockKey(product.id, variant.id)) ?? UNTRACKED_STOCK,
+    }))
+    return { ...product, variants, availability: totalStock(variants) }
+  })
+}
+
+/**
+ * Hold stock for `ownerId` (a cart id), replacing any reservation it already
+ * has. Throws 409 naming the first item that can't be covered.
+ */
+export async function reserveStock(ownerId: string, items: StockItem[]): Promise<Reservation> {
+  const quantities = new Map<string, number>()
+  for (const item of items) {
+    const key = stockKey(item.productId, item.variantId)
+    quantities.set(key, (quantities.get(key) ?? 0) + item.quantity)
+  }
+  const seeds = await loadSeeds(items)
+
+  return inventoryStore.update((data) => {
+    const now = Date.now()
+    pruneExpired(data, now)
+    for (const [id, reservation] of Object.entries(data.reservations)) {
+      if (reservation.ownerId === ownerId) delete data.reservations[id]
+    }
+
+    const reserved: Reservation['items'] = []
+    quantities.forEach((quantity, key) => {
+      const seed = seeds.get(key)
+      const hand = onHand(data, key, seed)
+      if (hand === null) return // untracked
+      const available = Math.max(0, hand - reservedQuantity(data, key, now))
+      if (quantity > available) {
+        const title = seed?.title ?? 'This item'
+        throw new HttpError(
+          409,
+          available === 0 ? `${title} is out of stock.` : `Only ${available} of ${title} left in stock.`,
+        )
+      }
+      // Start tracking the level so later decrements have something to work from
+      data.levels[key] = hand
+      reserved.push({ key, quantity })
+    })
+
+    const reservation: Reservation = {
+      id: `res_${randomBytes(8).toString('hex')}`,
+      ownerId,
+      items: reserved,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + RESERVATION_TTL_MS).toISOString(),
+    }
+    data.reservations[reservation.id] = reservation
+    return reservation
+  })
+}
+
+/** Drop the owner's reservation, e.g. when the shopper leaves checkout. */
+export async function releaseReservation(ownerId: string): Promise<void> {
+  await inventoryStore.update((data) => {
+    for (const [id, reservation] of Object.entries(data.reservations)) {
+      if (reservation.ownerId === ownerId) delete data.reservations[id]
+    }
+  })
+}
+
+/** Turn a reservation into a permanent decrement once the order is paid. */
+export async function commitReservation(reservationId: string): Promise<void> {
+  await inventoryStore.update((data) => {
+    const reservation = data.reservations[reservationId]
+    if (!reservation) {
+      throw new HttpError(409, 'Your checkout session expired. Please review your cart and try again.')
+    }
+    for (const { key, quantity } of reservation.items) {
+      data.levels[key] = Math.max(0, (data.levels[key] ?? 0) - quantity)
+    }
+    delete data.reservations[reservationId]
+  })
+}
+
+/** Put stock back, e.g. for a cancelled order. Untracked items are ignored. */
+export async function restock(items: StockItem[]): Promise<void> {
+  await inventoryStore.update((data) => {
+    for (const item of items) {
+      const key = stockKey(item.productId, item.variantId)
+      if (key in data.levels) data.levels[key] += item.quantity
+    }
+  })
+}
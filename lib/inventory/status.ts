@@ -0,0 +1,42 @@
+import type { StockInfo, StockStatus } from './types'
+
+/**
+ * Stock status helpers shared by server and client. Safe to import anywhere.
+ */
+
+export const LOW_STOCK_THRESHOLD = 5
+
+export const UNTRACKED_STOCK: StockInfo = { status: 'in_stock', available: null }
+
+export function stockInfo(available: number | null): StockInfo {
+  if (available === null) return UNTRACKED_STOCK
+  const n = Math.max(0, available)
+  const status: StockStatus = n === 0 ? 'out_of_stock' : n <= LOW_STOCK_THRESHOLD ? 'low_stock' : 'in_stock'
+  return { status, available: n }
+}
+
+export function isOutOfStock(stock: StockInfo | undefined) {
+  return stock?.status === 'out_of_stock'
+}
+
+/** Largest quantity that can be put in a cart line, given `cap` (e.g. MAX_LINE_QUANTITY). */
+export function maxPurchasable(stock: StockInfo | undefined, cap: number) {
+  return stock?.available === null || stock?.available === undefined ? cap : Math.min(cap, stock.available)
+}
+
+export function stockLabel(stock: StockInfo): string {
+  if (stock.status === 'out_of_stock') return 'Out of stock'
+  if (stock.status === 'low_stock') return `Only ${stock.available} left`
+  return 'In stock'
+}
+
+export const STOCK_BADGE_CLASSES: Record<StockStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  low_stock: 'bg-amber-100 text-amber-800',
+  out_of_stock: 'bg-gray-200 text-gray-600',
+}
+
+/** True when a cart line already holds every unit that's available. */
+export function atStockLimit(stock: StockInfo | undefined, quantity: number) {
+  return stock?.available != null && quantity >= stock.available
+}
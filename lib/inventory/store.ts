@@ -0,0 +1,7 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { InventoryData } from './types'
+
+export const inventoryStore = createJsonStore<InventoryData>('inventory', () => ({
+  levels: {},
+  reservations: {},
+}))
@@ -0,0 +1,33 @@
+/**
+ * Inventory types. Stock is tracked per stock key: the product id, or
+ * `productId:variantId` for variant-level stock.
+ */
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock'
+
+/** What shoppers may still buy. `available` is null for untracked items (unlimited). */
+export interface StockInfo {
+  status: StockStatus
+  available: number | null
+}
+
+export interface StockItem {
+  productId: string
+  variantId?: string
+  quantity: number
+}
+
+/** Stock held for one shopper (keyed by cart id) while they pay. */
+export interface Reservation {
+  id: string
+  ownerId: string
+  items: { key: string; quantity: number }[]
+  createdAt: string
+  expiresAt: string
+}
+
+export interface InventoryData {
+  /** On-hand quantity per stock key, once it has been seeded from the catalog. */
+  levels: Record<string, number>
+  reservations: Record<string, Reservation>
+}
@@ -0,0 +1,28 @@
+import path from 'path'
+import { DATA_DIR } from '../db/jsonStore'
+import { SITE_NAME } from '../site'
+import { createConsoleMailer, createFileMailer } from './transports'
+import type { Mailer } from './types'
+
+export type { MailMessage, Mailer } from './types'
+
+export const MAIL_FROM = process.env.MAIL_FROM ?? `${SITE_NAME} <no-reply@example.com>`
+
+let mailer: Mailer | null = null
+
+/**
+ * Returns the configured mailer. Only local transports ship with the app:
+ * MAIL_TRANSPORT=file writes .eml files to MAIL_DIR (default .data/mail),
+ * anything else logs to the console. Register a real one with setMailer().
+ */
+export function getMailer(): Mailer {
+  mailer ??=
+    process.env.MAIL_TRANSPORT === 'file'
+      ? createFileMailer(MAIL_FROM, process.env.MAIL_DIR ?? path.join(DATA_DIR, 'mail'))
+      : createConsoleMailer(MAIL_FROM)
+  return mailer
+}
+
+export function setMailer(next: Mailer) {
+  mailer = next
+}
@@ -0,0 +1,47 @@
+import { randomBytes } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { MailMessage, Mailer } from './types'
+
+/**
+ * Development transports. Neither delivers anything: the console transport
+ * logs each message, the file transport writes it to disk as an .eml file
+ * that any mail client can open.
+ */
+
+function formatMessage(from: string, message: MailMessage, date = new Date()) {
+  const headers: Record<string, string> = {
+    From: from,
+    To: message.to,
+    Subject: message.subject,
+    Date: date.toUTCString(),
+    'MIME-Version': '1.0',
+    'Content-Type': 'text/plain; charset=utf-8',
+    ...message.headers,
+  }
+  const head = Object.entries(headers)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\r\n')
+  return `${head}\r\n\r\n${message.text}\r\n`
+}
+
+export function createConsoleMailer(from: string): Mailer {
+  return {
+    name: 'console',
+    async send(message) {
+      console.info(`--- mail (not sent) ---\n${formatMessage(from, message)}--- end mail ---`)
+    },
+  }
+}
+
+export function createFileMailer(from: string, dir: string): Mailer {
+  return {
+    name: 'file',
+    async send(message) {
+      const now = new Date()
+      await fs.mkdir(dir, { recursive: true })
+      const file = path.join(dir, `${now.getTime()}-${randomBytes(4).toString('hex')}.eml`)
+      await fs.writeFile(file, formatMessage(from, message, now))
+    },
+  }
+}
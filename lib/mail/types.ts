@@ -0,0 +1,17 @@
+/**
+ * Outgoing email. Transports only need to understand this shape.
+ */
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+  /** Extra headers, e.g. List-Unsubscribe. */
+  headers?: Record<string, string>
+}
+
+export interface Mailer {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
@@ -0,0 +1,108 @@
+/**
+ * Money helpers. Everything the store works out (cart, order and pricing
+ * totals, shipping quotes, tax) is a Money: integer minor units (cents)
+ * tagged with their currency, so sums are exact and amounts in different
+ * currencies can't be added together. Amounts people type or configure
+ * (catalog prices, promotion and shipping rate tables, refund amounts) are
+ * plain numbers in major units; `money()` turns one into a Money and
+ * `toMajor()` goes back. Every supported currency has two decimal places, so
+ * `toCents` works for all of them. Safe to import from client components.
+ */
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CAD'
+
+/** The currency catalog prices, promotions and shipping rates are set in. */
+export const BASE_CURRENCY: CurrencyCode = 'USD'
+
+export interface CurrencyInfo {
+  code: CurrencyCode
+  name: string
+  /** Locale used to format amounts, so "€12.50" reads as "12,50 €". */
+  locale: string
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US dollar', locale: 'en-US' },
+  EUR: { code: 'EUR', name: 'Euro', locale: 'de-DE' },
+  GBP: { code: 'GBP', name: 'British pound', locale: 'en-GB' },
+  CAD: { code: 'CAD', name: 'Canadian dollar', locale: 'en-CA' },
+}
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[]
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return CURRENCY_CODES.includes(value as CurrencyCode)
+}
+
+/** Major units to integer minor units, e.g. 12.5 to 1250. */
+export function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/** Integer minor units back to major units. */
+export function fromCents(cents: number): number {
+  return cents / 100
+}
+
+export interface Money {
+  /** Integer minor units, e.g. 1250 for $12.50. */
+  amount: number
+  currency: CurrencyCode
+}
+
+/** An amount in major units as Money, rounded to the cent. */
+export function money(amount: number, currency: CurrencyCode): Money {
+  return { amount: toCents(amount), currency }
+}
+
+/** Back to major units, e.g. for a form field or a provider that takes dollars. */
+export function toMajor(value: Money): number {
+  return fromCents(value.amount)
+}
+
+function assertCurrency(value: Money, currency: CurrencyCode) {
+  if (value.currency !== currency) throw new Error(`Can't combine ${value.currency} with ${currency}`)
+}
+
+export function sumMoney(amounts: Money[], currency: CurrencyCode): Money {
+  let total = 0
+  for (const value of amounts) {
+    assertCurrency(value, currency)
+    total += value.amount
+  }
+  return { amount: total, currency }
+}
+
+export function subtractMoney(value: Money, minus: Money): Money {
+  assertCurrency(minus, value.currency)
+  return { amount: value.amount - minus.amount, currency: value.currency }
+}
+
+export function multiplyMoney(value: Money, quantity: number): Money {
+  return { amount: value.amount * quantity, currency: value.currency }
+}
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+function formatter(currency: CurrencyCode, locale: string) {
+  const key = `${locale}:${currency}`
+  let format = formatters.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { style: 'currency', currency })
+    formatters.set(key, format)
+  }
+  return format
+}
+
+/**
+ * Format an amount for display, e.g. "$12.50" or "12,50 €": a Money, or an
+ * amount in major units with its currency. `locale` defaults to the
+ * currency's own.
+ */
+export function formatMoney(value: Money): string
+export function formatMoney(amount: number, currency: CurrencyCode, locale?: string): string
+export function formatMoney(value: Money | number, currency?: CurrencyCode, locale?: string): string {
+  if (typeof value !== 'number') return formatMoney(fromCents(value.amount), value.currency)
+  const code = currency as CurrencyCode
+  return formatter(code, locale ?? CURRENCIES[code].locale).format(value)
+}
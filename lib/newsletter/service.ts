@@ -0,0 +1,147 @@
+import { HttpError } from '../http'
+import { getMailer } from '../mail'
+import { createRateLimiter } from '../rateLimit'
+import { signToken, verifyToken } from '../signing'
+import { SITE_NAME, absoluteUrl } from '../site'
+import { isValidEmail } from '../validation'
+import { subscribersStore } from './store'
+import type { Subscriber } from './types'
+
+/**
+ * Newsletter subscriptions with double opt-in: subscribing stores a pending
+ * subscriber and emails a signed confirmation link; only confirmed
+ * subscribers receive mail. Every email carries a signed unsubscribe link.
+ */
+
+const CONFIRM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+const RESEND_INTERVAL_MS = 60 * 1000
+
+// Per client address, across all emails
+const requestLimiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 })
+
+type LinkAction = 'confirm' | 'unsubscribe'
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+function linkToken(action: LinkAction, email: string) {
+  return encodeURIComponent(
+    signToken({ action, email }, action === 'confirm' ? CONFIRM_TOKEN_TTL_MS : undefined),
+  )
+}
+
+/**
+ * Links for an email: `confirm`, `unsubscribe` (a page with a button, so link
+ * scanners can't unsubscribe anyone) and `oneClickUnsubscribe` (the RFC 8058
+ * List-Unsubscribe POST target).
+ */
+export function newsletterLinks(email: string) {
+  const unsubscribeToken = linkToken('unsubscribe', email)
+  return {
+    confirm: absoluteUrl(`/api/newsletter/confirm?token=${linkToken('confirm', email)}`),
+    unsubscribe: absoluteUrl(`/newsletter/unsubscribe?token=${unsubscribeToken}`),
+    oneClickUnsubscribe: absoluteUrl(`/api/newsletter/unsubscribe?token=${unsubscribeToken}`),
+  }
+}
+
+function readLink(action: LinkAction, token: unknown): string | null {
+  const payload = verifyToken<{ action?: string; email?: string }>(token)
+  return payload?.action === action && typeof payload.email === 'string' ? payload.email : null
+}
+
+async function sendConfirmation(email: string) {
+  const links = newsletterLinks(email)
+  await getMailer().send({
+    to: email,
+    subject: `Confirm your ${SITE_NAME} newsletter subscription`,
+    text: [
+      `Thanks for signing up for the ${SITE_NAME} newsletter!`,
+      '',
+      'Please confirm your subscription by opening this link:',
+      links.confirm,
+      '',
+      "If you didn't sign up, ignore this email and you won't hear from us again.",
+      `Unsubscribe: ${links.unsubscribe}`,
+    ].join('\n'),
+    headers: {
+      'List-Unsubscribe': `<${links.oneClickUnsubscribe}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  })
+}
+
+/**
+ * Start (or restart) a subscription and send the confirmation email.
+ * Throws 409 for already-confirmed emails and 429 when rate limited.
+ */
+export async function subscribe(rawEmail: unknown, { ip }: { ip: string }): Promise<Subscriber> {
+  if (!isValidEmail(rawEmail)) throw new HttpError(400, 'Please enter a valid email address.')
+  if (!requestLimiter.hit(ip)) {
+    throw new HttpError(429, 'Too many subscription attempts. Please try again in a few minutes.')
+  }
+  const email = normalizeEmail(rawEmail)
+  const now = new Date()
+
+  const subscriber = await subscribersStore.update((subscribers) => {
+    const existing = subscribers[email]
+    if (existing?.status === 'confirmed') {
+      throw new HttpError(409, 'This email is already subscribed.')
+    }
+    if (
+      existing?.status === 'pending' &&
+      existing.confirmationSentAt &&
+      now.getTime() - Date.parse(existing.confirmationSentAt) < RESEND_INTERVAL_MS
+    ) {
+      throw new HttpError(429, 'We just sent a confirmation email. Please check your inbox.')
+    }
+    const next: Subscriber = {
+      ...existing,
+      email,
+      status: 'pending',
+      createdAt: existing?.createdAt ?? now.toISOString(),
+      updatedAt: now.toISOString(),
+      confirmationSentAt: now.toISOString(),
+    }
+    subscribers[email] = next
+    return next
+  })
+
+  await sendConfirmation(email)
+  return subscriber
+}
+
+/** Confirm from an emailed link. Returns null when the link is invalid or expired. */
+export async function confirmSubscription(token: unknown): Promise<Subscriber | null> {
+  const email = readLink('confirm', token)
+  if (!email) return null
+  return subscribersStore.update((subscribers) => {
+    const subscriber = subscribers[email]
+    // A later unsubscribe wins over an old confirmation link
+    if (!subscriber || subscriber.status === 'unsubscribed') return null
+    if (subscriber.status === 'pending') {
+      const now = new Date().toISOString()
+      subscriber.status = 'confirmed'
+      subscriber.confirmedAt = now
+      subscriber.updatedAt = now
+    }
+    return subscriber
+  })
+}
+
+/** Unsubscribe from an emailed link. Returns null when the link is invalid. */
+export async function unsubscribe(token: unknown): Promise<Subscriber | null> {
+  const email = readLink('unsubscribe', token)
+  if (!email) return null
+  return subscribersStore.update((subscribers) => {
+    const subscriber = subscribers[email]
+    if (!subscriber) return null
+    if (subscriber.status !== 'unsubscribed') {
+      const now = new Date().toISOString()
+      subscriber.status = 'unsubscribed'
+      subscriber.unsubscribedAt = now
+      subscriber.updatedAt = now
+    }
+    return subscriber
+  })
+}
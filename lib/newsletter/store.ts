@@ -0,0 +1,5 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { Subscriber } from './types'
+
+/** Subscribers keyed by lowercased email. */
+export const subscribersStore = createJsonStore<Record<string, Subscriber>>('newsletter', () => ({}))
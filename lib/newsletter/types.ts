@@ -0,0 +1,11 @@
+export type SubscriberStatus = 'pending' | 'confirmed' | 'unsubscribed'
+
+export interface Subscriber {
+  email: string
+  status: SubscriberStatus
+  createdAt: string
+  updatedAt: string
+  confirmationSentAt?: string
+  confirmedAt?: string
+  unsubscribedAt?: string
+}
@@ -0,0 +1,91 @@
+import { getMailer } from '../mail'
+import { formatMoney } from '../money'
+import { SITE_NAME, absoluteUrl } from '../site'
+import { trackingUrl } from './fulfillment'
+import type { Order, OrderItemQuantity, OrderRefund, Shipment } from './types'
+
+/**
+ * Emails telling customers their order moved on: sent by the admin order
+ * workflow (lib/admin/orders) after each transition. Server-only.
+ */
+
+export type OrderUpdate =
+  | { type: 'picking' | 'packed' | 'delivered' }
+  | { type: 'shipped'; shipment: Shipment }
+  | { type: 'cancelled'; reason?: string; refund?: OrderRefund }
+  | { type: 'refunded'; refund: OrderRefund }
+
+function itemList(order: Order, items: OrderItemQuantity[]): string[] {
+  return items.map((item) => {
+    const line = order.lines.find((l) => l.productId === item.productId && l.variantId === item.variantId)
+    const title = line ? [line.title, line.variantTitle].filter(Boolean).join(' - ') : item.productId
+    return `- ${item.quantity} × ${title}`
+  })
+}
+
+function contentFor(order: Order, update: OrderUpdate): { subject: string; body: string[] } {
+  const ref = `order #${order.number}`
+  switch (update.type) {
+    case 'picking':
+      return { subject: `We're preparing your ${ref}`, body: ["We've started picking the items in your order."] }
+    case 'packed':
+      return { subject: `Your ${ref} is packed`, body: ['Your order is packed and will be on its way soon.'] }
+    case 'delivered':
+      return {
+        subject: `Your ${ref} has been delivered`,
+        body: ['Your order has been delivered. We hope you enjoy it!'],
+      }
+    case 'shipped': {
+      const { shipment } = update
+      const url = trackingUrl(shipment)
+      return {
+        subject: order.status === 'shipped' ? `Your ${ref} has shipped` : `Part of your ${ref} has shipped`,
+        body: [
+          order.status === 'shipped'
+            ? 'Good news - your order is on its way:'
+            : "Part of your order is on its way; we'll email you again when the rest ships:",
+          ...itemList(order, shipment.items),
+          '',
+          `${shipment.carrier} tracking number: ${shipment.trackingNumber}`,
+          ...(url ? [url] : []),
+        ],
+      }
+    }
+    case 'cancelled':
+      return {
+        subject: `Your ${ref} has been cancelled`,
+        body: [
+          `Your order has been cancelled${update.reason ? `: ${update.reason}` : '.'}`,
+          ...(update.refund
+            ? [`We've refunded ${formatMoney(update.refund.amount)} to your original payment method.`]
+            : []),
+        ],
+      }
+    case 'refunded':
+      return {
+        subject: `Refund for your ${ref}`,
+        body: [
+          `We've refunded ${formatMoney(update.refund.amount)} to your original payment method` +
+            (update.refund.reason ? ` (${update.refund.reason}).` : '.'),
+          'Refunds usually take 5-10 business days to show up on your statement.',
+        ],
+      }
+  }
+}
+
+export async function sendOrderUpdate(order: Order, update: OrderUpdate): Promise<void> {
+  const { subject, body } = contentFor(order, update)
+  await getMailer().send({
+    to: order.email,
+    subject: `${subject} - ${SITE_NAME}`,
+    text: [
+      `Hi ${order.shippingAddress.name},`,
+      '',
+      ...body,
+      '',
+      // Guest orders have no account page to link to
+      ...(order.userId ? ['Order details:', absoluteUrl(`/orders/${order.id}`), ''] : []),
+      `Thanks for shopping with ${SITE_NAME}.`,
+    ].join('\n'),
+  })
+}
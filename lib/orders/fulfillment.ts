@@ -0,0 +1,70 @@
+import { sumMoney, type Money } from '../money'
+import type { Order, OrderItemQuantity, OrderLine, OrderStatus, Shipment } from './types'
+
+/**
+ * Fulfillment bookkeeping derived from an order: what has shipped, what is
+ * left to ship and how much can still be refunded. Safe to import from
+ * client components.
+ */
+
+export interface Carrier {
+  name: string
+  /** Tracking page for a tracking number; absent for carriers without one. */
+  trackingUrl?: (trackingNumber: string) => string
+}
+
+export const CARRIERS: Carrier[] = [
+  { name: 'UPS', trackingUrl: (n) => `https://www.ups.com/track?tracknum=${encodeURIComponent(n)}` },
+  { name: 'USPS', trackingUrl: (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encodeURIComponent(n)}` },
+  { name: 'FedEx', trackingUrl: (n) => `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(n)}` },
+  {
+    name: 'DHL',
+    trackingUrl: (n) => `https://www.dhl.com/global-en/home/tracking.html?tracking-id=${encodeURIComponent(n)}`,
+  },
+]
+
+/** Orders in these states can still ship (some of) their items. */
+export const SHIPPABLE_STATUSES: OrderStatus[] = ['paid', 'picking', 'packed', 'partially_shipped']
+
+/** Orders in these states can be cancelled; nothing has left the warehouse yet. */
+export const CANCELLABLE_STATUSES: OrderStatus[] = ['placed', 'paid', 'picking', 'packed']
+
+export function trackingUrl(shipment: Shipment): string | null {
+  const carrier = CARRIERS.find((c) => c.name.toLowerCase() === shipment.carrier.toLowerCase())
+  return carrier?.trackingUrl?.(shipment.trackingNumber) ?? null
+}
+
+export function lineKey(item: Pick<OrderItemQuantity, 'productId' | 'variantId'>) {
+  return `${item.productId}:${item.variantId ?? ''}`
+}
+
+/** Quantity shipped so far per line, keyed by lineKey. */
+export function shippedQuantities(order: Order): Record<string, number> {
+  const shipped: Record<string, number> = {}
+  for (const shipment of order.shipments ?? []) {
+    for (const item of shipment.items) {
+      shipped[lineKey(item)] = (shipped[lineKey(item)] ?? 0) + item.quantity
+    }
+  }
+  return shipped
+}
+
+/** Lines with their quantities still to ship; fully shipped lines are left out. */
+export function unshippedItems(order: Order): (OrderLine & { remaining: number })[] {
+  const shipped = shippedQuantities(order)
+  return order.lines
+    .map((line) => ({ ...line, remaining: line.quantity - (shipped[lineKey(line)] ?? 0) }))
+    .filter((line) => line.remaining > 0)
+}
+
+export function refundedTotal(order: Order): Money {
+  return sumMoney(
+    (order.refunds ?? []).map((refund) => refund.amount),
+    order.currency,
+  )
+}
+
+/** What is left of the captured payment, in the order's currency. */
+export function refundableAmount(order: Order): Money {
+  return { amount: Math.max(0, order.payment.amount - refundedTotal(order).amount), currency: order.currency }
+}
@@ -0,0 +1,325 @@
+import { randomBytes } from 'crypto'
+import { HttpError } from '../http'
+import { commitReservation, releaseReservation, reserveStock, restock } from '../inventory/service'
+import { localizedPrice } from '../currency/prices'
+import { BASE_CURRENCY, money, multiplyMoney, subtractMoney, sumMoney, type CurrencyCode } from '../money'
+import { getPaymentProvider, type PaymentResult } from '../payments'
+import { getProductRepository } from '../products/repository'
+import { findVariant, hasVariants, variantImage, variantTitle } from '../products/variants'
+import { normalizeCouponCode } from '../promotions/engine'
+import {
+  priceWithPromotions,
+  redeemPromotions,
+  releasePromotions,
+  type PriceableLine,
+} from '../promotions/service'
+import type { PricingResult } from '../promotions/types'
+import { quoteShipping, type ShippableLine } from '../shipping/service'
+import { calculateTax, summarizeTax, type TaxableLine } from '../tax/service'
+import type { ShippingDestination, ShippingQuote } from '../shipping/types'
+import { isValidEmail } from '../validation'
+import { ordersStore } from './store'
+import type {
+  CreateOrderInput,
+  Order,
+  OrderItemInput,
+  OrderLine,
+  OrderQuote,
+  ShippingAddress,
+} from './types'
+
+/**
+ * Order pricing and placement. Prices always come from the product
+ * repository, in the shopper's currency; the client only tells us which
+ * products (and variants) and how many.
+ */
+
+const MAX_LINE_QUANTITY = 99
+
+const REQUIRED_ADDRESS_FIELDS: (keyof ShippingAddress)[] = [
+  'name',
+  'email',
+  'line1',
+  'city',
+  'region',
+  'postalCode',
+  'country',
+]
+
+function normalizeItems(items: unknown): OrderItemInput[] {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new HttpError(400, 'Your cart is empty.')
+  }
+  // Keyed by product and variant so two sizes of a shirt stay separate lines
+  const merged = new Map<string, OrderItemInput>()
+  for (const item of items as Partial<OrderItemInput>[]) {
+    const quantity = Number(item?.quantity)
+    if (typeof item?.productId !== 'string' || !Number.isInteger(quantity) || quantity < 1) {
+      throw new HttpError(400, 'Each item needs a productId and a positive whole quantity.')
+    }
+    const variantId = typeof item.variantId === 'string' && item.variantId ? item.variantId : undefined
+    const key = `${item.productId}:${variantId ?? ''}`
+    const line = merged.get(key) ?? { productId: item.productId, variantId, quantity: 0 }
+    line.quantity += quantity
+    merged.set(key, line)
+  }
+  return Array.from(merged.values(), (line) => {
+    if (line.quantity > MAX_LINE_QUANTITY) {
+      throw new HttpError(400, `You can order at most ${MAX_LINE_QUANTITY} of each item.`)
+    }
+    return line
+  })
+}
+
+export function validateShippingAddress(input: unknown): ShippingAddress {
+  const raw = (input ?? {}) as Record<string, unknown>
+  const missing = REQUIRED_ADDRESS_FIELDS.filter(
+    (field) => typeof raw[field] !== 'string' || !(raw[field] as string).trim(),
+  )
+  if (missing.length) {
+    throw new HttpError(400, `Shipping address is missing: ${missing.join(', ')}.`)
+  }
+  if (!isValidEmail(raw.email)) {
+    throw new HttpError(400, 'Please enter a valid email address.')
+  }
+  const optional = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined
+  return {
+    name: String(raw.name).trim(),
+    email: String(raw.email).trim(),
+    line1: String(raw.line1).trim(),
+    line2: optional(raw.line2),
+    city: String(raw.city).trim(),
+    region: String(raw.region).trim(),
+    postalCode: String(raw.postalCode).trim(),
+    country: String(raw.country).trim().toUpperCase(),
+    phone: optional(raw.phone),
+  }
+}
+
+function lineKey(productId: string, variantId?: string) {
+  return `${productId}:${variantId ?? ''}`
+}
+
+interface PricedItems {
+  lines: OrderLine[]
+  shippable: ShippableLine[]
+  taxable: TaxableLine[]
+  pricing: PricingResult
+  couponCode?: string
+}
+
+/**
+ * Re-price a cart from the repository and apply promotions. Unknown products
+ * and variants are rejected so the shopper can fix their cart rather than
+ * silently losing lines, and so is a coupon that doesn't apply. Pass `email`
+ * to enforce per-customer coupon limits.
+ */
+async function priceItems(
+  items: unknown,
+  { couponCode, email, currency }: { couponCode?: unknown; email?: string; currency: CurrencyCode },
+): Promise<PricedItems> {
+  const normalized = normalizeItems(items)
+  const repo = await getProductRepository()
+
+  const lines: OrderLine[] = []
+  const shippable: ShippableLine[] = []
+  const priceable: PriceableLine[] = []
+  for (const { productId, variantId, quantity } of normalized) {
+    const product = await repo.get(productId)
+    const variant = product ? findVariant(product, variantId) : undefined
+    if (!product || (hasVariants(product) && !variant)) {
+      throw new HttpError(409, 'Some items in your cart are no longer available.')
+    }
+    const unitPrice = money(localizedPrice(product, variant, currency), currency)
+    lines.push({
+      productId,
+      variantId: variant?.id,
+      title: product.title,
+      variantTitle: variantTitle(product, variant) || undefined,
+      sku: variant?.sku,
+      image: variantImage(product, variant),
+      unitPrice,
+      quantity,
+      lineTotal: multiplyMoney(unitPrice, quantity),
+    })
+    shippable.push({ product, variant, quantity })
+    priceable.push({ key: lineKey(productId, variant?.id), product, unitPrice, quantity })
+  }
+
+  const code = typeof couponCode === 'string' && couponCode.trim() ? normalizeCouponCode(couponCode) : undefined
+  const pricing = await priceWithPromotions(priceable, { couponCode: code, email, currency })
+  if (pricing.couponError) throw new HttpError(400, pricing.couponError)
+  for (const line of lines) {
+    const discount = pricing.lineDiscounts[lineKey(line.productId, line.variantId)]
+    if (discount) line.discount = discount
+  }
+  const taxable: TaxableLine[] = priceable.map(({ key, product, unitPrice, quantity }) => {
+    const lineTotal = multiplyMoney(unitPrice, quantity)
+    const discount = pricing.lineDiscounts[key]
+    return { key, product, quantity, amount: discount ? subtractMoney(lineTotal, discount) : lineTotal }
+  })
+  return { lines, shippable, taxable, pricing, couponCode: code }
+}
+
+export interface QuoteOptions {
+  couponCode?: unknown
+  email?: string
+  currency?: CurrencyCode
+  /** Where the order ships; shipping is priced for the default country without one. */
+  destination?: ShippingDestination
+}
+
+/**
+ * Server-side totals for a cart. Shipping is only added once a method is
+ * chosen, and must be one offered for the destination; tax is only worked
+ * out once the destination is known.
+ */
+export async function quoteOrder(
+  items: unknown,
+  shippingMethodId?: string,
+  { couponCode, email, currency = BASE_CURRENCY, destination }: QuoteOptions = {},
+): Promise<OrderQuote> {
+  const priced = await priceItems(items, { couponCode, email, currency })
+  const { pricing } = priced
+
+  let shippingMethod: OrderQuote['shippingMethod'] = null
+  if (shippingMethodId) {
+    const { options } = await quoteShipping(priced.shippable, pricing.total, destination)
+    const option = options.find((o) => o.id === shippingMethodId)
+    if (!option) throw new HttpError(400, "That shipping method isn't available for your address.")
+    shippingMethod = { id: option.id, label: option.label, price: option.price }
+  }
+
+  const shippingTotal = shippingMethod?.price ?? money(0, currency)
+  let tax: OrderQuote['tax']
+  if (destination) {
+    const result = await calculateTax(priced.taxable, shippingTotal, destination, currency)
+    for (const line of priced.lines) {
+      const lineTax = result.lines.find((l) => l.key === lineKey(line.productId, line.variantId))?.tax
+      if (lineTax) line.tax = money(lineTax, currency)
+    }
+    tax = summarizeTax(result, currency) ?? undefined
+  }
+
+  return {
+    lines: priced.lines,
+    subtotal: pricing.subtotal,
+    discounts: pricing.discounts,
+    discountTotal: pricing.discountTotal,
+    couponCode: priced.couponCode,
+    shippingMethod,
+    shippingTotal,
+    tax,
+    total: sumMoney([pricing.total, shippingTotal, ...(tax && !tax.inclusive ? [tax.amount] : [])], currency),
+    currency,
+  }
+}
+
+/** Shipping methods and prices for a cart going to `destination`, for the checkout delivery step. */
+export async function quoteShippingOptions(
+  items: unknown,
+  destination: ShippingDestination,
+  { couponCode, email, currency = BASE_CURRENCY }: Omit<QuoteOptions, 'destination'> = {},
+): Promise<ShippingQuote> {
+  const { shippable, pricing } = await priceItems(items, { couponCode, email, currency })
+  return quoteShipping(shippable, pricing.total, destination)
+}
+
+/**
+ * Validate, price and pay for an order. Promotion redemptions are counted
+ * and stock is reserved for the shopper's cart before charging (taking over
+ * the hold made when they reached the payment step); both are released if
+ * the charge fails or throws. Stock is only decremented once the payment
+ * provider has accepted the charge, and the order is persisted after that;
+ * if either step fails the charge is refunded.
+ */
+export async function placeOrder(
+  input: Partial<CreateOrderInput>,
+  { userId, cartId, currency }: { userId?: string; cartId?: string | null; currency?: CurrencyCode } = {},
+): Promise<Order> {
+  const shippingAddress = validateShippingAddress(input.shippingAddress)
+  if (!input.shippingMethodId) {
+    throw new HttpError(400, 'Please choose a shipping method.')
+  }
+  if (typeof input.paymentToken !== 'string' || !input.paymentToken.trim()) {
+    throw new HttpError(400, 'Payment details are required.')
+  }
+  const quote = await quoteOrder(input.items, input.shippingMethodId, {
+    couponCode: input.couponCode,
+    email: shippingAddress.email,
+    currency,
+    destination: { country: shippingAddress.country, region: shippingAddress.region },
+  })
+  const discounts = quote.discounts ?? []
+
+  // Without a cart (plain API clients) hold stock under a one-off owner
+  const stockOwner = cartId ?? `checkout:${randomBytes(8).toString('hex')}`
+  await redeemPromotions(discounts, shippingAddress.email)
+  const reservation = await reserveStock(stockOwner, quote.lines).catch(async (err) => {
+    await releasePromotions(discounts, shippingAddress.email)
+    throw err
+  })
+
+  // A retry reserves and redeems again, so a failed charge gives both back
+  const rollBack = async () => {
+    await releaseReservation(stockOwner)
+    await releasePromotions(discounts, shippingAddress.email)
+  }
+  const provider = getPaymentProvider()
+  let payment: PaymentResult
+  try {
+    payment = await provider.charge({
+      amount: quote.total.amount,
+      currency: quote.currency,
+      source: input.paymentToken,
+      description: `Order for ${shippingAddress.email}`,
+    })
+  } catch (err) {
+    await rollBack()
+    throw err
+  }
+  if (payment.status !== 'succeeded') {
+    await rollBack()
+    throw new HttpError(402, payment.failureMessage ?? 'Payment failed.')
+  }
+
+  // Paid from here on, so if the order can't be recorded (e.g. a second submit
+  // from the same cart took over the stock hold) the charge is given back
+  let committed = false
+  try {
+    await commitReservation(reservation.id)
+    committed = true
+    const now = new Date().toISOString()
+    return await ordersStore.update((data) => {
+      data.seq += 1
+      const order: Order = {
+        ...quote,
+        id: `ord_${randomBytes(8).toString('hex')}`,
+        number: data.seq,
+        createdAt: now,
+        userId,
+        email: shippingAddress.email,
+        shippingAddress,
+        status: 'paid',
+        history: [
+          { status: 'placed', at: now },
+          { status: 'paid', at: now },
+        ],
+        payment: { provider: provider.name, id: payment.id, amount: payment.amount },
+      }
+      data.orders[order.id] = order
+      return order
+    })
+  } catch (err) {
+    try {
+      const refund = await provider.refund(payment.id, payment.amount)
+      if (refund.status !== 'succeeded') throw new Error(refund.failureMessage ?? 'The refund was declined.')
+    } catch (refundErr) {
+      console.error(`Refunding payment ${payment.id} for an unrecorded order failed`, refundErr)
+    }
+    if (committed) await restock(quote.lines)
+    await rollBack()
+    throw err
+  }
+}
@@ -0,0 +1,65 @@
+import type { Order, OrderStatus } from './types'
+
+/**
+ * Display helpers for order statuses, shared by the customer order pages and
+ * the admin order queue.
+ */
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  placed: 'Placed',
+  paid: 'Paid',
+  picking: 'Picking',
+  packed: 'Packed',
+  partially_shipped: 'Partially shipped',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+}
+
+export const ORDER_STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  placed: 'bg-gray-100 text-gray-700',
+  paid: 'bg-indigo-50 text-indigo-700',
+  picking: 'bg-purple-50 text-purple-700',
+  packed: 'bg-purple-50 text-purple-700',
+  partially_shipped: 'bg-blue-50 text-blue-700',
+  shipped: 'bg-blue-50 text-blue-700',
+  delivered: 'bg-green-50 text-green-700',
+  cancelled: 'bg-red-50 text-red-700',
+  refunded: 'bg-yellow-50 text-yellow-800',
+}
+
+const HAPPY_PATH: OrderStatus[] = ['placed', 'paid', 'picking', 'packed', 'partially_shipped', 'shipped', 'delivered']
+
+export interface TimelineStep {
+  status: OrderStatus
+  at?: string
+  note?: string
+  reached: boolean
+}
+
+/**
+ * The happy path (placed -> paid -> picking -> packed -> shipped ->
+ * delivered) with the steps reached so far, followed by any cancellation or
+ * refund events. Steps an order skipped count as reached once a later one
+ * is; "Partially shipped" only appears for orders that shipped in parts.
+ */
+export function buildOrderTimeline(order: Order): TimelineStep[] {
+  const latest = (status: OrderStatus) =>
+    [...order.history].reverse().find((event) => event.status === status)
+
+  let laterReached = false
+  const steps: TimelineStep[] = []
+  for (const status of [...HAPPY_PATH].reverse()) {
+    const event = latest(status)
+    if (!event && status === 'partially_shipped') continue
+    laterReached ||= !!event
+    steps.unshift({ status, at: event?.at, note: event?.note, reached: laterReached })
+  }
+  for (const event of order.history) {
+    if (event.status === 'cancelled' || event.status === 'refunded') {
+      steps.push({ status: event.status, at: event.at, note: event.note, reached: true })
+    }
+  }
+  return steps
+}
@@ -0,0 +1,56 @@
+import { createJsonStore } from '../db/jsonStore'
+import { money, type Money } from '../money'
+import type { Order, OrderListPage } from './types'
+
+interface OrdersData {
+  /** Last issued human-readable order number. */
+  seq: number
+  orders: Record<string, Order>
+}
+
+/** Orders placed before amounts were Money have them as plain numbers in major units. */
+function upgradeOrder(order: Order) {
+  const upgrade = (value: Money | number): Money => (typeof value === 'number' ? money(value, order.currency) : value)
+  for (const line of order.lines) {
+    line.unitPrice = upgrade(line.unitPrice)
+    line.lineTotal = upgrade(line.lineTotal)
+    if (line.discount !== undefined) line.discount = upgrade(line.discount)
+    if (line.tax !== undefined) line.tax = upgrade(line.tax)
+  }
+  order.subtotal = upgrade(order.subtotal)
+  for (const discount of order.discounts ?? []) discount.amount = upgrade(discount.amount)
+  if (order.discountTotal !== undefined) order.discountTotal = upgrade(order.discountTotal)
+  if (order.shippingMethod) order.shippingMethod.price = upgrade(order.shippingMethod.price)
+  order.shippingTotal = upgrade(order.shippingTotal)
+  if (order.tax) order.tax.amount = upgrade(order.tax.amount)
+  order.total = upgrade(order.total)
+  for (const refund of order.refunds ?? []) refund.amount = upgrade(refund.amount)
+}
+
+export const ordersStore = createJsonStore<OrdersData>('orders', () => ({ seq: 1000, orders: {} }), {
+  upgrade: (data) => Object.values(data.orders).forEach(upgradeOrder),
+})
+
+export async function getOrder(id: string): Promise<Order | null> {
+  const data = await ordersStore.read()
+  return data.orders[id] ?? null
+}
+
+/** A user's orders, newest first. */
+export async function listOrdersForUser(
+  userId: string,
+  { page = 1, pageSize = 10 }: { page?: number; pageSize?: number } = {},
+): Promise<OrderListPage> {
+  const data = await ordersStore.read()
+  const orders = Object.values(data.orders)
+    .filter((o) => o.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  const start = (page - 1) * pageSize
+  return {
+    items: orders.slice(start, start + pageSize),
+    total: orders.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(orders.length / pageSize)),
+  }
+}
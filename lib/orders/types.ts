@@ -0,0 +1,176 @@
+import type { CurrencyCode, Money } from '../money'
+import type { AppliedDiscount } from '../promotions/types'
+import type { TaxSummary } from '../tax/types'
+
+/**
+ * Order types shared by the order API, the checkout page and order history.
+ * Amounts are Money in the quote's or order's `currency`; amounts typed in by
+ * an admin (RefundInput) are in major units.
+ */
+
+export type OrderStatus =
+  | 'placed'
+  | 'paid'
+  | 'picking'
+  | 'packed'
+  | 'partially_shipped'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+
+export interface ShippingAddress {
+  name: string
+  email: string
+  line1: string
+  line2?: string
+  city: string
+  region: string
+  postalCode: string
+  country: string
+  phone?: string
+}
+
+export interface OrderItemInput {
+  productId: string
+  /** Required for products with variants. */
+  variantId?: string
+  quantity: number
+}
+
+export interface OrderLine {
+  productId: string
+  variantId?: string
+  title: string
+  /** Option values at the time of purchase, e.g. "M / Black". */
+  variantTitle?: string
+  sku?: string
+  image?: string
+  unitPrice: Money
+  quantity: number
+  lineTotal: Money
+  /** This line's share of the order's discounts. */
+  discount?: Money
+  /** Tax on the line after discounts; already part of `lineTotal` when the tax is inclusive. */
+  tax?: Money
+}
+
+export interface OrderQuote {
+  lines: OrderLine[]
+  subtotal: Money
+  /** Absent on orders placed before promotions existed. */
+  discounts?: AppliedDiscount[]
+  discountTotal?: Money
+  couponCode?: string
+  shippingMethod: { id: string; label: string; price: Money } | null
+  shippingTotal: Money
+  /**
+   * Absent when no tax is due, and on orders placed before tax was
+   * calculated. Inclusive tax (VAT) is already part of the prices and isn't
+   * added to `total`.
+   */
+  tax?: TaxSummary
+  total: Money
+  /** Orders placed before multi-currency pricing are all USD. */
+  currency: CurrencyCode
+}
+
+/**
+ * One step in an order's history. Partial refunds are recorded as `refunded`
+ * events too, although the order's status only becomes `refunded` once the
+ * whole payment has been returned.
+ */
+export interface OrderStatusEvent {
+  status: OrderStatus
+  at: string
+  note?: string
+  /** The admin who made the change; absent for checkout events. Not shown to customers. */
+  by?: { id: string; name: string }
+}
+
+/** Quantities of one order line, e.g. the items in a shipment. */
+export interface OrderItemQuantity {
+  productId: string
+  variantId?: string
+  quantity: number
+}
+
+export interface Shipment {
+  id: string
+  /** Carrier name as shown to the customer, e.g. "UPS". */
+  carrier: string
+  trackingNumber: string
+  items: OrderItemQuantity[]
+  shippedAt: string
+}
+
+export interface OrderRefund {
+  /** The payment provider's refund id. */
+  id: string
+  amount: Money
+  reason?: string
+  at: string
+}
+
+export interface Order extends OrderQuote {
+  id: string
+  number: number
+  createdAt: string
+  /** Set when the order was placed while signed in. */
+  userId?: string
+  email: string
+  shippingAddress: ShippingAddress
+  status: OrderStatus
+  history: OrderStatusEvent[]
+  /** `amount` is what the provider charged, in minor units. */
+  payment: { provider: string; id: string; amount: number }
+  /** Absent until the first shipment. */
+  shipments?: Shipment[]
+  /** Absent until the first refund. */
+  refunds?: OrderRefund[]
+}
+
+/** Body accepted by POST /api/orders. */
+export interface CreateOrderInput {
+  items: OrderItemInput[]
+  shippingAddress: ShippingAddress
+  shippingMethodId: string
+  /** Passed to the payment provider as the charge source. */
+  paymentToken: string
+  couponCode?: string
+}
+
+/** Body accepted by POST /api/admin/orders/:id/shipments. */
+export interface ShipmentInput {
+  carrier: string
+  trackingNumber: string
+  /** Defaults to everything not shipped yet. */
+  items?: OrderItemQuantity[]
+}
+
+/** Body accepted by POST /api/admin/orders/:id/refunds. */
+export interface RefundInput {
+  /** In the order's currency, in major units (e.g. 12.5). */
+  amount: number
+  reason?: string
+}
+
+/** `open` matches every order still waiting to be shipped. */
+export type OrderStatusFilter = OrderStatus | 'open'
+
+export interface AdminOrderQuery {
+  status?: OrderStatusFilter
+  /** Inclusive YYYY-MM-DD bounds on the order date (UTC). */
+  from?: string
+  to?: string
+  page: number
+  pageSize: number
+}
+
+export interface OrderListPage {
+  items: Order[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
@@ -0,0 +1,15 @@
+import { notFound } from 'next/navigation'
+
+/**
+ * Reading dynamic route segments in pages. Server-only: it answers a bad
+ * segment with the not-found page.
+ */
+
+/** The URL segment decoded; a malformed escape such as "%E0%A4" is a 404 rather than a crash. */
+export function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    notFound()
+  }
+}
@@ -0,0 +1,87 @@
+import { randomBytes } from 'crypto'
+import { createJsonStore } from '../db/jsonStore'
+import type { ChargeRequest, PaymentProvider, PaymentResult, RefundResult } from './types'
+
+/**
+ * Local fake payment provider so checkout works fully offline.
+ *
+ * The `source` is a test card number. Any Luhn-valid number succeeds except:
+ * - 4000000000000002: card declined
+ * - 4000000000009995: insufficient funds
+ */
+
+export const FAKE_DECLINED_CARD = '4000000000000002'
+export const FAKE_INSUFFICIENT_FUNDS_CARD = '4000000000009995'
+
+interface FakePayment {
+  id: string
+  amount: number
+  currency: string
+  refunded: number
+  createdAt: string
+}
+
+const payments = createJsonStore<Record<string, FakePayment>>('fake-payments', () => ({}))
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return sum % 10 === 0
+}
+
+function newId(prefix: string) {
+  return `${prefix}_fake_${randomBytes(8).toString('hex')}`
+}
+
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    name: 'fake',
+
+    async charge(request: ChargeRequest): Promise<PaymentResult> {
+      const id = newId('pay')
+      const card = request.source.replace(/[\s-]/g, '')
+      const fail = (failureMessage: string): PaymentResult => ({
+        id,
+        status: 'failed',
+        amount: request.amount,
+        currency: request.currency,
+        failureMessage,
+      })
+
+      if (!/^\d{12,19}$/.test(card) || !passesLuhn(card)) return fail('Your card number is invalid.')
+      if (card === FAKE_DECLINED_CARD) return fail('Your card was declined.')
+      if (card === FAKE_INSUFFICIENT_FUNDS_CARD) return fail('Your card has insufficient funds.')
+
+      await payments.update((draft) => {
+        draft[id] = {
+          id,
+          amount: request.amount,
+          currency: request.currency,
+          refunded: 0,
+          createdAt: new Date().toISOString(),
+        }
+      })
+      return { id, status: 'succeeded', amount: request.amount, currency: request.currency }
+    },
+
+    async refund(paymentId: string, amount: number): Promise<RefundResult> {
+      return payments.update<RefundResult>((draft) => {
+        const payment = draft[paymentId]
+        const result = { id: newId('re'), paymentId, amount }
+        if (!payment) return { ...result, status: 'failed', failureMessage: 'Unknown payment.' }
+        if (amount <= 0 || payment.refunded + amount > payment.amount) {
+          return { ...result, status: 'failed', failureMessage: 'Refund exceeds the captured amount.' }
+        }
+        payment.refunded += amount
+        return { ...result, status: 'succeeded' }
+      })
+    },
+  }
+}
@@ -0,0 +1,19 @@
+import { createFakePaymentProvider } from './fake'
+import type { PaymentProvider } from './types'
+
+export type { ChargeRequest, PaymentProvider, PaymentResult, RefundResult } from './types'
+
+let provider: PaymentProvider | null = null
+
+/**
+ * Returns the configured payment provider. Only the local fake provider ships
+ * with the app; register a real one with setPaymentProvider().
+ */
+export function getPaymentProvider(): PaymentProvider {
+  provider ??= createFakePaymentProvider()
+  return provider
+}
+
+export function setPaymentProvider(next: PaymentProvider) {
+  provider = next
+}
@@ -0,0 +1,35 @@
+/**
+ * Payment provider interface. Amounts are in the currency's minor units
+ * (cents for USD), as most real providers expect.
+ */
+
+export interface ChargeRequest {
+  amount: number
+  currency: string
+  /** Provider-specific payment source, e.g. a token from the provider's client SDK. */
+  source: string
+  description?: string
+  metadata?: Record<string, string>
+}
+
+export interface PaymentResult {
+  id: string
+  status: 'succeeded' | 'failed'
+  amount: number
+  currency: string
+  failureMessage?: string
+}
+
+export interface RefundResult {
+  id: string
+  paymentId: string
+  amount: number
+  status: 'succeeded' | 'failed'
+  failureMessage?: string
+}
+
+export interface PaymentProvider {
+  readonly name: string
+  charge(request: ChargeRequest): Promise<PaymentResult>
+  refund(paymentId: string, amount: number): Promise<RefundResult>
+}
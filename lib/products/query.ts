@@ -0,0 +1,78 @@
+import { toPositiveInt } from '../validation'
+import { PRODUCT_SORTS, type Product, type ProductPage, type ProductQuery, type ProductSort } from './types'
+
+/**
+ * Pure filtering, sorting and pagination over a product list.
+ * Shared by the /api/products route and the storefront's offline fallback.
+ */
+
+export const DEFAULT_PAGE_SIZE = 24
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Parse a ProductQuery out of URL search params. Unknown sort values fall back
+ * to 'featured' and page sizes are clamped to MAX_PAGE_SIZE.
+ */
+export function parseProductQuery(params: URLSearchParams): Required<ProductQuery> {
+  const sort = params.get('sort') as ProductSort | null
+  return {
+    q: params.get('q')?.trim() ?? '',
+    category: params.get('category')?.trim() ?? '',
+    sort: sort && PRODUCT_SORTS.includes(sort) ? sort : 'featured',
+    page: toPositiveInt(params.get('page'), 1),
+    pageSize: Math.min(toPositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+  }
+}
+
+/** Inverse of parseProductQuery; omits defaults so URLs stay short. */
+export function toProductSearchParams(query: ProductQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.q) params.set('q', query.q)
+  if (query.category && query.category !== 'All') params.set('category', query.category)
+  if (query.sort && query.sort !== 'featured') params.set('sort', query.sort)
+  if (query.page && query.page > 1) params.set('page', String(query.page))
+  if (query.pageSize) params.set('pageSize', String(query.pageSize))
+  return params
+}
+
+export function listCategories(products: Product[]): string[] {
+  const set = new Set<string>()
+  products.forEach((p) => {
+    if (p.category) set.add(p.category)
+  })
+  return Array.from(set).sort()
+}
+
+export function queryProducts(products: Product[], query: ProductQuery = {}): ProductPage {
+  const page = Math.max(1, query.page ?? 1)
+  const pageSize = Math.min(Math.max(1, query.pageSize ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+
+  let list = products.slice()
+  const q = query.q?.trim().toLowerCase()
+  if (q) {
+    list = list.filter((p) => p.title.toLowerCase().includes(q) || p.description.toLowerCase().includes(q))
+  }
+  if (query.category && query.category !== 'All') {
+    const category = query.category.toLowerCase()
+    list = list.filter((p) => p.category?.toLowerCase() === category)
+  }
+  if (query.sort === 'price-asc') {
+    list.sort((a, b) => a.price - b.price)
+  } else if (query.sort === 'price-desc') {
+    list.sort((a, b) => b.price - a.price)
+  } else if (query.sort === 'rating') {
+    list.sort((a, b) => (b.rating?.rate ?? 0) - (a.rating?.rate ?? 0))
+  }
+  // featured = repository order
+
+  const total = list.length
+  const start = (page - 1) * pageSize
+  return {
+    items: list.slice(start, start + pageSize),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    categories: listCategories(products),
+  }
+}
@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createJsonStore } from '../db/jsonStore'
+import { withReviewRatings } from '../reviews/ratings'
+import { SAMPLE_PRODUCTS } from './sample'
+import { describeIssues, parseProducts } from './schema'
+import type { Product } from './types'
+
+/**
+ * Product repositories. Route handlers and server components go through
+ * getProductRepository() so the catalog source can be swapped without
+ * touching callers. Server-only: this module reads from disk.
+ */
+
+export interface ProductRepository {
+  /** All products in "featured" order. */
+  list(): Promise<Product[]>
+  get(id: string): Promise<Product | null>
+}
+
+/** A repository the admin dashboard can write to (see lib/admin/products). */
+export interface EditableProductRepository extends ProductRepository {
+  /**
+   * Mutate the full product list, drafts and archived products included;
+   * array order is the "featured" order. Persisted once `fn` resolves.
+   */
+  update<R>(fn: (products: Product[]) => R | Promise<R>): Promise<R>
+}
+
+export function createMemoryProductRepository(products: Product[]): ProductRepository {
+  return {
+    async list() {
+      return products.slice()
+    },
+    async get(id) {
+      return products.find((p) => p.id === id) ?? null
+    },
+  }
+}
+
+/**
+ * Reads products from a JSON array on disk. The file is re-read when its
+ * modification time changes, so edits show up without a restart. Records
+ * that fail the product schema are left out and logged; records without an
+ * id get one derived from their SKU or title.
+ *
+ * Dashboard edits are written back to the file (normalized, so legacy keys
+ * such as `_id` become `id`). Writes are serialized and go through a temp
+ * file like lib/db/jsonStore; records that failed the schema are kept at the
+ * end of the file so they can still be fixed by hand.
+ */
+export function createJsonFileProductRepository(filePath: string): EditableProductRepository {
+  let cache: { mtimeMs: number; products: Product[]; rejected: unknown[] } | null = null
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function load() {
+    const stat = await fs.stat(filePath)
+    if (cache && cache.mtimeMs === stat.mtimeMs) return cache
+    const raw = JSON.parse(await fs.readFile(filePath, 'utf8'))
+    if (!Array.isArray(raw)) throw new Error(`Products file ${filePath} must contain a JSON array`)
+    const { products, issues } = parseProducts(raw)
+    if (issues.length > 0) console.warn(`Skipped invalid products in ${filePath}:\n${describeIssues(issues)}`)
+    const rejected = [...new Set(issues.map((issue) => issue.index))].map((index) => raw[index])
+    cache = { mtimeMs: stat.mtimeMs, products, rejected }
+    return cache
+  }
+
+  return {
+    async list() {
+      return (await load()).products.slice()
+    },
+    async get(id) {
+      return (await load()).products.find((p) => p.id === id) ?? null
+    },
+    update(fn) {
+      const run = queue.then(async () => {
+        const { products, rejected } = await load()
+        const draft = structuredClone(products)
+        const result = await fn(draft)
+        const tmp = `${filePath}.${process.pid}.tmp`
+        await fs.writeFile(tmp, `${JSON.stringify([...draft, ...rejected], null, 2)}\n`)
+        await fs.rename(tmp, filePath)
+        cache = { mtimeMs: (await fs.stat(filePath)).mtimeMs, products: draft, rejected }
+        return result
+      })
+      queue = run.catch(() => undefined)
+      return run
+    },
+  }
+}
+
+function isEditable(repository: ProductRepository): repository is EditableProductRepository {
+  return typeof (repository as Partial<EditableProductRepository>).update === 'function'
+}
+
+const editsStore = createJsonStore<{ products: Product[] | null }>('catalog-products', () => ({ products: null }))
+
+/**
+ * Where dashboard edits go. A source that can be written to (the products
+ * file, or a database plugged in with setProductRepository) is used as-is,
+ * so edits land in it. A read-only source, such as the sample catalog, gets
+ * an overlay instead: it is served as-is until the first edit, which copies
+ * it into DATA_DIR, and from then on that copy is the catalog.
+ */
+export function createEditableProductRepository(source: ProductRepository): EditableProductRepository {
+  if (isEditable(source)) return source
+  return {
+    async list() {
+      const { products } = await editsStore.read()
+      return products ?? source.list()
+    },
+    async get(id) {
+      const { products } = await editsStore.read()
+      return products ? products.find((p) => p.id === id) ?? null : source.get(id)
+    },
+    update(fn) {
+      return editsStore.update(async (draft) => {
+        draft.products ??= structuredClone(await source.list())
+        return fn(draft.products)
+      })
+    },
+  }
+}
+
+export function isPublished(product: Product) {
+  return (product.status ?? 'published') === 'published'
+}
+
+/** Hides drafts and archived products from the storefront. */
+function publishedOnly(repository: ProductRepository): ProductRepository {
+  return {
+    async list() {
+      return (await repository.list()).filter(isPublished)
+    },
+    async get(id) {
+      const product = await repository.get(id)
+      return product && isPublished(product) ? product : null
+    },
+  }
+}
+
+let editable: EditableProductRepository | null = null
+let repository: ProductRepository | null = null
+
+/**
+ * Returns every product, whatever its status, with dashboard edits applied:
+ * PRODUCTS_FILE (or data/products.json when present) backs a JSON file
+ * repository that edits are written to, otherwise the sample catalog is
+ * served from memory with edits kept in DATA_DIR.
+ */
+export async function getEditableProductRepository(): Promise<EditableProductRepository> {
+  if (editable) return editable
+  const filePath = process.env.PRODUCTS_FILE ?? path.join(process.cwd(), 'data', 'products.json')
+  const exists = await fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false)
+  editable = createEditableProductRepository(
+    exists ? createJsonFileProductRepository(filePath) : createMemoryProductRepository(SAMPLE_PRODUCTS),
+  )
+  return editable
+}
+
+/**
+ * The storefront's view of the catalog: published products only, with
+ * ratings overlaid from product reviews.
+ */
+export async function getProductRepository(): Promise<ProductRepository> {
+  if (repository) return repository
+  repository = withReviewRatings(publishedOnly(await getEditableProductRepository()))
+  return repository
+}
+
+/**
+ * Override the source repository, e.g. to plug in a database-backed
+ * implementation. Give it an `update` (EditableProductRepository) to have
+ * dashboard edits written to it; otherwise they are kept in DATA_DIR.
+ */
+export function setProductRepository(next: ProductRepository) {
+  editable = createEditableProductRepository(next)
+  repository = withReviewRatings(publishedOnly(editable))
+}
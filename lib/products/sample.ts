@@ -0,0 +1,106 @@
+import type { Product, ProductVariant } from './types'
+
+function teeVariant(size: string, color: string, stock: number, extra: Partial<ProductVariant> = {}): ProductVariant {
+  return {
+    id: `p2-${size}-${color}`.toLowerCase(),
+    sku: `TEE-${size}-${color.slice(0, 3)}`.toUpperCase(),
+    options: { Size: size, Color: color },
+    image: `/products/tshirt-${color.toLowerCase()}.jpg`,
+    stock,
+    ...extra,
+  }
+}
+
+/**
+ * Built-in catalog used when no products file is configured, and by the
+ * storefront as an offline fallback.
+ */
+export const SAMPLE_PRODUCTS: Product[] = [
+  {
+    id: 'p1',
+    title: 'Minimal Leather Wallet',
+    description: 'Handcrafted full-grain leather wallet with RFID protection.',
+    translations: {
+      de: {
+        title: 'Schlichte Lederbörse',
+        description: 'Handgefertigte Börse aus Vollnarbenleder mit RFID-Schutz.',
+      },
+    },
+    price: 49.0,
+    category: 'Accessories',
+    image: '/products/wallet.jpg',
+    rating: { rate: 4.6, count: 132 },
+    createdAt: '2024-03-02T00:00:00.000Z',
+    weight: 0.15,
+    stock: 25,
+  },
+  {
+    id: 'p2',
+    title: 'Cotton Crew T-Shirt',
+    description: 'Soft, breathable cotton tee with modern fit.',
+    translations: {
+      de: {
+        title: 'Baumwoll-T-Shirt mit Rundhals',
+        description: 'Weiches, atmungsaktives Baumwoll-Shirt mit moderner Passform.',
+      },
+    },
+    price: 19.99,
+    category: 'Clothing',
+    image: '/products/tshirt.jpg',
+    rating: { rate: 4.3, count: 210 },
+    compareAtPrice: 24.99,
+    createdAt: '2024-05-18T00:00:00.000Z',
+    weight: 0.2,
+    options: [
+      { name: 'Size', values: ['S', 'M', 'L', 'XL'] },
+      { name: 'Color', values: ['White', 'Black'] },
+    ],
+    variants: [
+      teeVariant('S', 'White', 4),
+      teeVariant('M', 'White', 8),
+      teeVariant('L', 'White', 6),
+      teeVariant('XL', 'White', 0, { price: 21.99 }),
+      teeVariant('S', 'Black', 3),
+      teeVariant('M', 'Black', 10),
+      teeVariant('L', 'Black', 5),
+      teeVariant('XL', 'Black', 2, { price: 21.99 }),
+    ],
+  },
+  {
+    id: 'p3',
+    title: 'Wireless Headphones',
+    description: 'Noise-cancelling over-ear headphones with 30h battery.',
+    translations: {
+      de: {
+        title: 'Kabellose Kopfhörer',
+        description: 'Over-Ear-Kopfhörer mit Geräuschunterdrückung und 30 Stunden Akkulaufzeit.',
+      },
+    },
+    price: 129.0,
+    category: 'Electronics',
+    image: '/products/headphones.jpg',
+    rating: { rate: 4.7, count: 540 },
+    createdAt: '2024-06-10T00:00:00.000Z',
+    weight: 0.4,
+    stock: 12,
+  },
+  {
+    id: 'p4',
+    title: 'Ceramic Coffee Mug',
+    description: '350ml mug, dishwasher safe with matte finish.',
+    translations: {
+      de: {
+        title: 'Keramik-Kaffeebecher',
+        description: 'Becher mit 350 ml, spülmaschinenfest, mit matter Oberfläche.',
+      },
+    },
+    price: 12.5,
+    category: 'Home',
+    image: '/products/mug.jpg',
+    rating: { rate: 4.5, count: 88 },
+    compareAtPrice: 16.0,
+    createdAt: '2024-01-22T00:00:00.000Z',
+    weight: 0.45,
+    stock: 40,
+  },
+]
@@ -0,0 +1,318 @@
+import type { StockInfo } from '../inventory/types'
+import {
+  PRODUCT_STATUSES,
+  type Product,
+  type ProductOption,
+  type ProductPage,
+  type ProductStatus,
+  type ProductVariant,
+} from './types'
+
+/**
+ * Runtime schema for product records that arrive untyped: the products file
+ * on the server and the /api/products response in the browser. Records are
+ * normalized (the legacy `_id`/`slug`, `name` and `imageUrl` keys are still
+ * read) and anything that doesn't fit is set aside with its reasons instead
+ * of being patched up. Safe to import from client components.
+ */
+
+export interface ProductIssue {
+  /** Position of the record in the source list. */
+  index: number
+  /** The record's id, when it has one. */
+  id?: string
+  message: string
+}
+
+export interface ProductParseResult {
+  products: Product[]
+  /** Why each left-out record was rejected; a record can have several. */
+  issues: ProductIssue[]
+}
+
+type RawRecord = Record<string, unknown>
+
+interface RecordReader {
+  problems: string[]
+  fail(key: string, message: string): void
+  value(...keys: string[]): unknown
+  string(key: string, ...aliases: string[]): string | undefined
+  number(key: string, options?: { integer?: boolean; required?: boolean }): number | undefined
+  object(key: string): RawRecord | undefined
+  list(key: string): unknown[] | undefined
+  numbers<K extends string>(key: string): Partial<Record<K, number>> | undefined
+  stock(key: string): StockInfo | undefined
+  nested<T>(key: string, value: unknown, read: (nested: RecordReader) => T): T | undefined
+}
+
+/** Field readers for one record that collect its problems so they can all be reported together. */
+function recordReader(raw: RawRecord, path = ''): RecordReader {
+  const problems: string[] = []
+  const fail = (key: string, message: string) => {
+    problems.push(`${path}${key} ${message}`)
+  }
+  /** The first of `keys` that is set, so older key names keep working. */
+  const value = (...keys: string[]): unknown => {
+    const key = keys.find((k) => raw[k] !== undefined && raw[k] !== null)
+    return key === undefined ? undefined : raw[key]
+  }
+
+  const reader: RecordReader = {
+    problems,
+    fail,
+    value,
+
+    string(key: string, ...aliases: string[]): string | undefined {
+      const v = value(key, ...aliases)
+      if (v === undefined || v === '') return undefined
+      if (typeof v === 'string') return v
+      fail(key, 'must be text.')
+      return undefined
+    },
+
+    /** Numbers may arrive as numeric strings, e.g. from a CSV-fed API. */
+    number(key: string, { integer = false, required = false } = {}): number | undefined {
+      const v = value(key)
+      if (v === undefined || v === '') {
+        if (required) fail(key, 'is missing.')
+        return undefined
+      }
+      const n = typeof v === 'string' ? Number(v) : v
+      if (typeof n !== 'number' || !Number.isFinite(n) || n < 0 || (integer && !Number.isInteger(n))) {
+        fail(key, integer ? 'must be a whole number of zero or more.' : 'must be a number of zero or more.')
+        return undefined
+      }
+      return n
+    },
+
+    object(key: string): RawRecord | undefined {
+      const v = value(key)
+      if (v === undefined) return undefined
+      if (isRecord(v)) return v
+      fail(key, 'must be an object.')
+      return undefined
+    },
+
+    list(key: string): unknown[] | undefined {
+      const v = value(key)
+      if (v === undefined) return undefined
+      if (Array.isArray(v)) return v
+      fail(key, 'must be a list.')
+      return undefined
+    },
+
+    /** A record of numbers, such as per-currency prices. */
+    numbers<K extends string>(key: string): Partial<Record<K, number>> | undefined {
+      const v = reader.object(key)
+      if (!v) return undefined
+      if (!Object.values(v).every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0)) {
+        fail(key, 'must map to numbers of zero or more.')
+        return undefined
+      }
+      return v as Partial<Record<K, number>>
+    },
+
+    stock(key: string): StockInfo | undefined {
+      const v = reader.object(key)
+      if (!v) return undefined
+      const { status, available } = v
+      const validStatus = status === 'in_stock' || status === 'low_stock' || status === 'out_of_stock'
+      if (!validStatus || (available !== null && typeof available !== 'number')) {
+        fail(key, 'must have a stock status and an available count.')
+        return undefined
+      }
+      return { status, available: available as number | null }
+    },
+
+    /** Reads a nested record, reporting its problems under `key`. */
+    nested<T>(key: string, v: unknown, read: (nested: RecordReader) => T): T | undefined {
+      if (!isRecord(v)) {
+        fail(key, 'must be an object.')
+        return undefined
+      }
+      const nested = recordReader(v, `${path}${key}.`)
+      const result = read(nested)
+      problems.push(...nested.problems)
+      return result
+    },
+  }
+  return reader
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/** Drops undefined fields so parsed records match what the server writes. */
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T
+}
+
+/** 32-bit FNV-1a, as 8 hex digits. */
+function hash(text: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * An id for a record that has none, derived from its SKU or title so it is
+ * the same on every load (cart lines and wishlists keep pointing at it).
+ */
+export function deriveProductId(seed: string): string {
+  const slug = seed
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+  return `${slug || 'product'}-${hash(seed)}`
+}
+
+function readOption(reader: RecordReader): ProductOption | undefined {
+  const name = reader.string('name')
+  const values = reader.list('values')
+  if (!name) reader.fail('name', 'is missing.')
+  if (values && !values.every((v) => typeof v === 'string')) reader.fail('values', 'must be a list of text.')
+  return name && values ? { name, values: values as string[] } : undefined
+}
+
+function readVariant(reader: RecordReader): ProductVariant | undefined {
+  const id = reader.string('id')
+  const sku = reader.string('sku')
+  const options = reader.object('options')
+  if (!id) reader.fail('id', 'is missing.')
+  if (!sku) reader.fail('sku', 'is missing.')
+  if (options && !Object.values(options).every((v) => typeof v === 'string')) {
+    reader.fail('options', 'must map option names to values.')
+  }
+  const variant = compact<ProductVariant>({
+    id: id ?? '',
+    sku: sku ?? '',
+    options: (options ?? {}) as Record<string, string>,
+    price: reader.number('price'),
+    compareAtPrice: reader.number('compareAtPrice'),
+    prices: reader.numbers('prices'),
+    image: reader.string('image', 'imageUrl'),
+    weight: reader.number('weight'),
+    stock: reader.number('stock', { integer: true }),
+    availability: reader.stock('availability'),
+  })
+  return id && sku ? variant : undefined
+}
+
+/** Validate and normalize one record; `problems` is empty when it can be used. */
+export function parseProduct(raw: unknown): { product?: Product; id?: string; problems: string[] } {
+  if (!isRecord(raw)) return { problems: ['Product must be an object.'] }
+  const reader = recordReader(raw)
+
+  const rawId = reader.value('id', '_id', 'slug')
+  const title = reader.string('title', 'name')?.trim()
+  const sku = reader.string('sku')
+  const price = reader.number('price', { required: true })
+  if (!title) reader.fail('title', 'is missing.')
+  const explicitId = typeof rawId === 'number' ? String(rawId) : typeof rawId === 'string' ? rawId.trim() : undefined
+  if (rawId !== undefined && !explicitId) reader.fail('id', 'must be text or a number.')
+  const id = explicitId || (title || sku ? deriveProductId(sku ?? title ?? '') : undefined)
+
+  const status = reader.value('status')
+  if (status !== undefined && !PRODUCT_STATUSES.includes(status as ProductStatus)) {
+    reader.fail('status', `must be one of ${PRODUCT_STATUSES.join(', ')}.`)
+  }
+  const description = reader.string('description') ?? ''
+
+  const rating = reader.object('rating')
+  if (rating && !(typeof rating.rate === 'number' && typeof rating.count === 'number')) {
+    reader.fail('rating', 'must have a numeric rate and count.')
+  }
+  const options = reader
+    .list('options')
+    ?.map((option, i) => reader.nested(`options[${i}]`, option, readOption))
+  const variants = reader
+    .list('variants')
+    ?.map((variant, i) => reader.nested(`variants[${i}]`, variant, readVariant))
+
+  const product = compact<Product>({
+    id: id ?? '',
+    sku,
+    title: title ?? '',
+    description,
+    status: status as ProductStatus | undefined,
+    translations: reader.object('translations') as Product['translations'],
+    price: price ?? 0,
+    image: reader.string('image', 'imageUrl'),
+    category: reader.string('category'),
+    rating: rating as Product['rating'],
+    compareAtPrice: reader.number('compareAtPrice'),
+    prices: reader.numbers('prices'),
+    createdAt: reader.string('createdAt'),
+    updatedAt: reader.string('updatedAt'),
+    weight: reader.number('weight'),
+    taxClass: reader.string('taxClass'),
+    stock: reader.number('stock', { integer: true }),
+    availability: reader.stock('availability'),
+    options: options as ProductOption[] | undefined,
+    variants: variants as ProductVariant[] | undefined,
+  })
+  return reader.problems.length > 0 ? { id, problems: reader.problems } : { product, id, problems: [] }
+}
+
+/**
+ * Parse a list of records, keeping the valid ones in order. Later records
+ * that repeat an earlier id are rejected too, so every id stays unique.
+ */
+export function parseProducts(records: unknown[]): ProductParseResult {
+  const products: Product[] = []
+  const issues: ProductIssue[] = []
+  const seen = new Set<string>()
+  records.forEach((raw, index) => {
+    const { product, id, problems } = parseProduct(raw)
+    if (product && seen.has(product.id)) problems.push(`Duplicate id "${product.id}".`)
+    if (!product || problems.length > 0) {
+      issues.push(...problems.map((message) => ({ index, id, message })))
+      return
+    }
+    seen.add(product.id)
+    products.push(product)
+  })
+  return { products, issues }
+}
+
+/** One line per rejected record, for logs. */
+export function describeIssues(issues: ProductIssue[]): string {
+  const byRecord = new Map<number, ProductIssue[]>()
+  for (const issue of issues) byRecord.set(issue.index, [...(byRecord.get(issue.index) ?? []), issue])
+  return [...byRecord]
+    .map(([index, list]) => {
+      const name = list[0].id ? ` (${list[0].id})` : ''
+      return `#${index}${name}: ${list.map((issue) => issue.message).join(' ')}`
+    })
+    .join('\n')
+}
+
+/**
+ * Validate a GET /api/products response. Null when the envelope itself is
+ * malformed; otherwise invalid items are dropped from the page and listed.
+ */
+export function parseProductPage(value: unknown): { page: ProductPage; issues: ProductIssue[] } | null {
+  if (!isRecord(value) || !Array.isArray(value.items)) return null
+  const { total, page, pageSize, totalPages, categories } = value
+  const counts = [total, page, pageSize, totalPages]
+  if (!counts.every((n) => typeof n === 'number' && Number.isInteger(n) && n >= 0)) return null
+  if (!Array.isArray(categories) || !categories.every((c) => typeof c === 'string')) return null
+  const { products, issues } = parseProducts(value.items)
+  return {
+    page: {
+      items: products,
+      total: total as number,
+      page: page as number,
+      pageSize: pageSize as number,
+      totalPages: totalPages as number,
+      categories,
+    },
+    issues,
+  }
+}
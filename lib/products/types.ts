@@ -0,0 +1,119 @@
+import type { Locale } from '../i18n/config'
+import type { StockInfo } from '../inventory/types'
+import type { CurrencyCode } from '../money'
+
+/**
+ * Shared product types used by the storefront, the API route handlers and
+ * the product repositories.
+ */
+
+/** Title and description in another language; unset fields show the catalog's own. */
+export interface ProductTranslation {
+  title?: string
+  description?: string
+}
+
+/** A choice the shopper makes, e.g. Size, with its values in display order. */
+export interface ProductOption {
+  name: string
+  values: string[]
+}
+
+/**
+ * One purchasable combination of option values. Price, image and stock
+ * override the product's own; unset fields fall back to it.
+ */
+export interface ProductVariant {
+  id: string
+  sku: string
+  /** Option name -> value, one entry per ProductOption. */
+  options: Record<string, string>
+  price?: number
+  compareAtPrice?: number
+  /** Catalog price per currency, overriding the converted `price`. */
+  prices?: Partial<Record<CurrencyCode, number>>
+  image?: string
+  /** Shipping weight in kg. */
+  weight?: number
+  /** Units on hand when first stocked; omit for untracked (unlimited). */
+  stock?: number
+  /** Live availability, attached alongside `Product.availability`. */
+  availability?: StockInfo
+}
+
+/**
+ * Where a product is in its lifecycle. Only published products reach the
+ * storefront; drafts and archived ones are visible in /admin only.
+ */
+export type ProductStatus = 'draft' | 'published' | 'archived'
+
+export const PRODUCT_STATUSES: ProductStatus[] = ['draft', 'published', 'archived']
+
+export interface Product {
+  id: string
+  /** Stock-keeping unit, unique across products and variants; products with variants use the variants' SKUs. */
+  sku?: string
+  title: string
+  description: string
+  /** Omitted on imported catalogs, which count as published. */
+  status?: ProductStatus
+  /** Localized copy per UI locale (see lib/i18n/products). */
+  translations?: Partial<Record<Locale, ProductTranslation>>
+  price: number
+  image?: string
+  category?: string
+  rating?: { rate: number; count: number }
+  /** Original price when the product is on sale (greater than `price`). */
+  compareAtPrice?: number
+  /**
+   * Catalog price per currency. `price` and `compareAtPrice` are in the base
+   * currency (USD); currencies not listed here use fixed FX rates.
+   */
+  prices?: Partial<Record<CurrencyCode, number>>
+  /** ISO date the product was added, used for "New Arrivals". */
+  createdAt?: string
+  /** ISO date of the last edit in /admin. */
+  updatedAt?: string
+  /** Shipping weight in kg; products without one use the shipping config's default. */
+  weight?: number
+  /** How the product is taxed; defaults to its category's class, then "standard". */
+  taxClass?: string
+  /**
+   * Units on hand when the product is first stocked; omit for untracked
+   * (unlimited) items. Ignored when the product has variants.
+   */
+  stock?: number
+  /**
+   * Live availability, attached by the server when products are served (see
+   * lib/inventory). For products with variants this totals every variant.
+   */
+  availability?: StockInfo
+  /** Options and the variants built from them; a product with variants must be bought as one. */
+  options?: ProductOption[]
+  variants?: ProductVariant[]
+}
+
+export type ProductSort = 'featured' | 'price-asc' | 'price-desc' | 'rating'
+
+export const PRODUCT_SORTS: ProductSort[] = ['featured', 'price-asc', 'price-desc', 'rating']
+
+export interface ProductQuery {
+  q?: string
+  category?: string
+  sort?: ProductSort
+  page?: number
+  pageSize?: number
+}
+
+/**
+ * Envelope returned by GET /api/products.
+ * `total` counts every product matching the filters, not just this page.
+ */
+export interface ProductPage {
+  items: Product[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+  categories: string[]
+}
@@ -0,0 +1,84 @@
+import type { Product, ProductVariant } from './types'
+
+/**
+ * Helpers for products with options (size, color, ...) and variants. Pure and
+ * safe to import from client components.
+ */
+
+export function hasVariants(product: Product): boolean {
+  return (product.variants?.length ?? 0) > 0
+}
+
+export function findVariant(product: Product, variantId: string | undefined): ProductVariant | undefined {
+  return variantId ? product.variants?.find((v) => v.id === variantId) : undefined
+}
+
+/** "M / Black", following the order of `product.options`. */
+export function variantTitle(product: Product, variant: ProductVariant | undefined): string {
+  if (!variant) return ''
+  return (product.options ?? [])
+    .map((option) => variant.options[option.name])
+    .filter(Boolean)
+    .join(' / ')
+}
+
+/** "Cotton Crew T-Shirt (M / Black)" for messages that name a single line. */
+export function displayTitle(product: Product, variant: ProductVariant | undefined): string {
+  const label = variantTitle(product, variant)
+  return label ? `${product.title} (${label})` : product.title
+}
+
+export function variantPrice(product: Product, variant: ProductVariant | undefined): number {
+  return variant?.price ?? product.price
+}
+
+export function variantCompareAtPrice(product: Product, variant: ProductVariant | undefined): number | undefined {
+  return variant?.compareAtPrice ?? product.compareAtPrice
+}
+
+export function variantImage(product: Product, variant: ProductVariant | undefined): string | undefined {
+  return variant?.image ?? product.image
+}
+
+export function variantWeight(product: Product, variant: ProductVariant | undefined): number | undefined {
+  return variant?.weight ?? product.weight
+}
+
+/** Lowest and highest price across variants (both `price` for simple products). */
+export function priceRange(product: Product): { min: number; max: number } {
+  const prices = hasVariants(product) ? product.variants!.map((v) => variantPrice(product, v)) : [product.price]
+  return { min: Math.min(...prices), max: Math.max(...prices) }
+}
+
+function isAvailable(variant: ProductVariant) {
+  return variant.availability?.available !== 0
+}
+
+/** The variant to show first: the first one in stock, else the first one. */
+export function defaultVariant(product: Product): ProductVariant | undefined {
+  return product.variants?.find(isAvailable) ?? product.variants?.[0]
+}
+
+/**
+ * The variant to switch to when the shopper picks `value` for option `name`:
+ * among variants with that value, the one keeping most of the current
+ * selection, preferring ones in stock. Always returns a real variant, so the
+ * pickers never land on a combination that doesn't exist.
+ */
+export function selectOption(
+  product: Product,
+  current: ProductVariant | undefined,
+  name: string,
+  value: string,
+): ProductVariant | undefined {
+  const score = (v: ProductVariant) => {
+    const kept = Object.entries(current?.options ?? {}).filter(([k, val]) => k !== name && v.options[k] === val).length
+    return kept * 2 + (isAvailable(v) ? 1 : 0)
+  }
+  let best: ProductVariant | undefined
+  for (const variant of product.variants ?? []) {
+    if (variant.options[name] !== value) continue
+    if (!best || score(variant) > score(best)) best = variant
+  }
+  return best
+}
@@ -0,0 +1,213 @@
+/**
+ * Tests for the pricing engine, on Node's built-in test runner. The imports
+ * are extensionless TypeScript, so run them through tsx rather than plain
+ * `node --test`:
+ *
+ *   npx tsx --test lib/promotions/engine.test.ts
+ */
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { money } from '../money'
+import { priceLines, type PricingContext } from './engine'
+import type { PricingLine, Promotion } from './types'
+
+const context: PricingContext = { now: new Date('2024-06-01T12:00:00Z') }
+
+/** Dollars as Money, which is what the engine works in. */
+function usd(amount: number) {
+  return money(amount, 'USD')
+}
+
+function line(key: string, unitPrice: number, quantity = 1, categoryIds: string[] = []): PricingLine {
+  return { key, productId: key, categoryIds, unitPrice: usd(unitPrice), quantity }
+}
+
+function promotion(id: string, discount: Promotion['discount'], extra: Partial<Promotion> = {}): Promotion {
+  return { id, title: id, discount, ...extra }
+}
+
+describe('priceLines', () => {
+  describe('buy X get Y', () => {
+    it('discounts the cheapest unit of each group', () => {
+      const result = priceLines(
+        [line('a', 10, 2), line('b', 5)],
+        [promotion('3for2', { type: 'buy-x-get-y', buy: 2, get: 1 })],
+        context,
+      )
+      assert.deepEqual(result.lineDiscounts, { b: usd(5) })
+      assert.deepEqual(result.total, usd(20))
+    })
+
+    it('counts units across lines and only completes whole groups', () => {
+      const result = priceLines(
+        [line('a', 30, 3), line('b', 20, 2)],
+        [promotion('bogo', { type: 'buy-x-get-y', buy: 1, get: 1, percent: 50 })],
+        context,
+      )
+      // Units by price: 30 30 30 20 20; the 2nd and 4th are half off
+      assert.deepEqual(result.lineDiscounts, { a: usd(15), b: usd(10) })
+      assert.deepEqual(result.discountTotal, usd(25))
+    })
+
+    it('does nothing for groups of less than one unit', () => {
+      const result = priceLines(
+        [line('a', 10, 4)],
+        [promotion('broken', { type: 'buy-x-get-y', buy: 0, get: 1 })],
+        context,
+      )
+      assert.deepEqual(result.discounts, [])
+      assert.deepEqual(result.total, usd(40))
+    })
+  })
+
+  describe('per-line allocation and rounding', () => {
+    it('splits a fixed amount by line value, giving leftover cents to the largest remainders', () => {
+      const result = priceLines(
+        [line('a', 20), line('b', 10)],
+        [promotion('ten-off', { type: 'fixed', amount: 10 })],
+        context,
+      )
+      assert.deepEqual(result.lineDiscounts, { a: usd(6.67), b: usd(3.33) })
+      assert.deepEqual(result.discountTotal, usd(10))
+    })
+
+    it('never loses or invents a cent when the split is even', () => {
+      const result = priceLines(
+        [line('a', 1), line('b', 1), line('c', 1)],
+        [promotion('dollar-off', { type: 'fixed', amount: 1 })],
+        context,
+      )
+      const allocated = Object.values(result.lineDiscounts).reduce((sum, discount) => sum + discount.amount, 0)
+      assert.equal(allocated, 100)
+      assert.deepEqual(result.total, usd(2))
+    })
+
+    it('caps a fixed amount at the eligible value', () => {
+      const result = priceLines([line('a', 4)], [promotion('big', { type: 'fixed', amount: 10 })], context)
+      assert.deepEqual(result.discountTotal, usd(4))
+      assert.deepEqual(result.total, usd(0))
+    })
+
+    it('rounds percentage discounts to the nearest cent per line', () => {
+      const result = priceLines([line('a', 9.99)], [promotion('fifteen', { type: 'percentage', percent: 15 })], context)
+      assert.deepEqual(result.lineDiscounts, { a: usd(1.5) })
+      assert.deepEqual(result.total, usd(8.49))
+    })
+
+    it('leaves lines outside the scope alone', () => {
+      const result = priceLines(
+        [line('shirt', 20, 1, ['apparel']), line('mug', 10, 1, ['kitchen'])],
+        [promotion('apparel', { type: 'percentage', percent: 50 }, { scope: { categoryIds: ['apparel'] } })],
+        context,
+      )
+      assert.deepEqual(result.lineDiscounts, { shirt: usd(10) })
+    })
+  })
+
+  describe('stacking and exclusivity', () => {
+    it('applies automatic promotions in order, each to what is left', () => {
+      const result = priceLines(
+        [line('a', 100)],
+        [
+          promotion('tenth', { type: 'percentage', percent: 10 }),
+          promotion('five-off', { type: 'fixed', amount: 5 }),
+          promotion('half', { type: 'percentage', percent: 50 }),
+        ],
+        context,
+      )
+      assert.deepEqual(
+        result.discounts.map((d) => [d.promotionId, d.amount]),
+        [
+          ['tenth', usd(10)],
+          ['five-off', usd(5)],
+          ['half', usd(42.5)],
+        ],
+      )
+      assert.deepEqual(result.total, usd(42.5))
+    })
+
+    it('gives buy X get Y units at what is left of their line', () => {
+      const result = priceLines(
+        [line('a', 10, 2)],
+        [
+          promotion('tenth', { type: 'percentage', percent: 10 }),
+          promotion('bogo', { type: 'buy-x-get-y', buy: 1, get: 1 }),
+        ],
+        context,
+      )
+      assert.deepEqual(
+        result.discounts.map((d) => [d.promotionId, d.amount]),
+        [
+          ['tenth', usd(2)],
+          ['bogo', usd(9)],
+        ],
+      )
+      assert.deepEqual(result.total, usd(9))
+    })
+
+    it('never takes a line below zero and leaves out promotions with nothing left to discount', () => {
+      const result = priceLines(
+        [line('a', 10)],
+        [promotion('free', { type: 'percentage', percent: 100 }), promotion('more', { type: 'fixed', amount: 5 })],
+        context,
+      )
+      assert.deepEqual(
+        result.discounts.map((d) => d.promotionId),
+        ['free'],
+      )
+      assert.deepEqual(result.total, usd(0))
+    })
+
+    it('applies coupon promotions only when their code is entered, after the automatic ones', () => {
+      const promotions = [
+        promotion('coupon', { type: 'fixed', amount: 5 }, { code: 'SAVE5' }),
+        promotion('auto', { type: 'percentage', percent: 10 }),
+      ]
+      assert.deepEqual(priceLines([line('a', 50)], promotions, context).total, usd(45))
+
+      const withCode = priceLines([line('a', 50)], promotions, { ...context, couponCode: ' save5 ' })
+      assert.deepEqual(
+        withCode.discounts.map((d) => d.promotionId),
+        ['auto', 'coupon'],
+      )
+      assert.deepEqual(withCode.total, usd(40))
+      assert.equal(withCode.couponError, undefined)
+    })
+
+    it('applies at most one coupon', () => {
+      const promotions = [
+        promotion('first', { type: 'fixed', amount: 5 }, { code: 'SAVE' }),
+        promotion('second', { type: 'fixed', amount: 5 }, { code: 'SAVE' }),
+      ]
+      const result = priceLines([line('a', 50)], promotions, { ...context, couponCode: 'SAVE' })
+      assert.deepEqual(
+        result.discounts.map((d) => d.promotionId),
+        ['first'],
+      )
+    })
+
+    it('skips automatic promotions that are not live or used up', () => {
+      const result = priceLines(
+        [line('a', 50)],
+        [
+          promotion('later', { type: 'fixed', amount: 5 }, { startsAt: '2024-07-01T00:00:00Z' }),
+          promotion('over', { type: 'fixed', amount: 5 }, { endsAt: '2024-05-01T00:00:00Z' }),
+          promotion('used', { type: 'fixed', amount: 5 }, { usageLimit: 1 }),
+        ],
+        { ...context, usage: { used: { count: 1, byCustomer: {} } } },
+      )
+      assert.deepEqual(result.discounts, [])
+    })
+
+    it('explains why an entered coupon did not apply', () => {
+      const promotions = [promotion('min', { type: 'fixed', amount: 5 }, { code: 'BIG', minSubtotal: 60 })]
+      const short = priceLines([line('a', 50)], promotions, { ...context, couponCode: 'BIG' })
+      assert.equal(short.couponError, 'Spend $10.00 more on eligible items to use BIG.')
+      assert.deepEqual(short.total, usd(50))
+
+      const unknown = priceLines([line('a', 50)], promotions, { ...context, couponCode: 'NOPE' })
+      assert.equal(unknown.couponError, '"NOPE" isn\'t a valid coupon code.')
+    })
+  })
+})
@@ -0,0 +1,216 @@
+import { BASE_CURRENCY, formatMoney, toCents, type CurrencyCode, type Money } from '../money'
+import type { AppliedDiscount, PricingLine, PricingResult, Promotion, PromotionUsage } from './types'
+
+/**
+ * Pure discount calculation shared by the cart and the order API.
+ *
+ * Automatic promotions apply in the order they're listed, followed by at
+ * most one coupon. Each promotion discounts what is left of a line after the
+ * promotions before it, so stacked discounts never take a line below zero.
+ * All arithmetic is done in integer cents. Line prices must be in the
+ * context's currency and promotion amounts already converted to it.
+ */
+
+export interface PricingContext {
+  now: Date
+  /** Currency the lines are priced in and results are given in. Defaults to the base currency. */
+  currency?: CurrencyCode
+  /** Coupon code entered by the shopper, in any case. */
+  couponCode?: string
+  /** Normalized customer email, for per-customer limits. */
+  customer?: string
+  /** Redemptions so far, keyed by promotion id. */
+  usage?: Record<string, PromotionUsage>
+}
+
+interface LineState {
+  line: PricingLine
+  totalCents: number
+  remainingCents: number
+}
+
+type Outcome =
+  | { ok: true; discounts: Map<string, number> }
+  | { ok: false; reason: 'no-lines' }
+  | { ok: false; reason: 'min-spend'; shortfallCents: number }
+
+export function normalizeCouponCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+export function normalizeCustomer(email: string) {
+  return email.trim().toLowerCase()
+}
+
+/** `null` when live, otherwise whether it hasn't started or has ended. */
+export function scheduleStatus(promotion: Promotion, now: Date): 'upcoming' | 'ended' | null {
+  if (promotion.startsAt && Date.parse(promotion.startsAt) > now.getTime()) return 'upcoming'
+  if (promotion.endsAt && Date.parse(promotion.endsAt) <= now.getTime()) return 'ended'
+  return null
+}
+
+/** Whether usage limits still allow another redemption, and if not which one ran out. */
+export function usageStatus(
+  promotion: Promotion,
+  usage: PromotionUsage | undefined,
+  customer?: string,
+): 'exhausted' | 'customer-limit' | null {
+  if (promotion.usageLimit !== undefined && (usage?.count ?? 0) >= promotion.usageLimit) return 'exhausted'
+  if (
+    customer &&
+    promotion.perCustomerLimit !== undefined &&
+    (usage?.byCustomer[customer] ?? 0) >= promotion.perCustomerLimit
+  ) {
+    return 'customer-limit'
+  }
+  return null
+}
+
+/** Whether a product (with its category ancestry) falls in the promotion's scope. */
+export function inScope(promotion: Promotion, productId: string, categoryIds: string[]) {
+  const { scope } = promotion
+  if (!scope || (!scope.categoryIds?.length && !scope.productIds?.length)) return true
+  return !!scope.productIds?.includes(productId) || categoryIds.some((id) => scope.categoryIds?.includes(id))
+}
+
+function clampPercent(percent: number | undefined) {
+  return Math.min(100, Math.max(0, percent ?? 100))
+}
+
+/** Split `cents` across lines in proportion to what's left of each, largest remainders first. */
+function allocate(cents: number, lines: LineState[]): Map<string, number> {
+  const pool = lines.reduce((sum, s) => sum + s.remainingCents, 0)
+  const result = new Map<string, number>()
+  if (pool === 0) return result
+  const shares = lines.map((s) => {
+    const exact = (cents * s.remainingCents) / pool
+    return { key: s.line.key, cents: Math.floor(exact), fraction: exact - Math.floor(exact) }
+  })
+  let leftover = cents - shares.reduce((sum, s) => sum + s.cents, 0)
+  for (const share of [...shares].sort((a, b) => b.fraction - a.fraction)) {
+    if (leftover === 0) break
+    share.cents += 1
+    leftover -= 1
+  }
+  for (const share of shares) if (share.cents > 0) result.set(share.key, share.cents)
+  return result
+}
+
+function computeDiscount(promotion: Promotion, states: LineState[]): Outcome {
+  const eligible = states.filter((s) => inScope(promotion, s.line.productId, s.line.categoryIds))
+  if (eligible.length === 0) return { ok: false, reason: 'no-lines' }
+  const eligibleCents = eligible.reduce((sum, s) => sum + s.totalCents, 0)
+  const minCents = toCents(promotion.minSubtotal ?? 0)
+  if (eligibleCents < minCents) return { ok: false, reason: 'min-spend', shortfallCents: minCents - eligibleCents }
+
+  const discounts = new Map<string, number>()
+  const { discount } = promotion
+  switch (discount.type) {
+    case 'percentage': {
+      const percent = clampPercent(discount.percent)
+      for (const s of eligible) discounts.set(s.line.key, Math.round((s.remainingCents * percent) / 100))
+      break
+    }
+    case 'fixed': {
+      const pool = eligible.reduce((sum, s) => sum + s.remainingCents, 0)
+      return { ok: true, discounts: allocate(Math.min(toCents(discount.amount), pool), eligible) }
+    }
+    case 'buy-x-get-y': {
+      const buy = Math.floor(discount.buy)
+      const get = Math.floor(discount.get)
+      if (buy < 1 || get < 1) return { ok: true, discounts }
+      const percent = clampPercent(discount.percent)
+      // Units at what is left of their line after earlier promotions, most
+      // expensive first, so each group's discounted units are its cheapest
+      const units = eligible
+        .flatMap((s) =>
+          Array.from({ length: s.line.quantity }, () => ({ s, cents: s.remainingCents / s.line.quantity })),
+        )
+        .sort((a, b) => b.cents - a.cents)
+      units.forEach(({ s, cents }, i) => {
+        if (i % (buy + get) < buy) return
+        const key = s.line.key
+        discounts.set(key, (discounts.get(key) ?? 0) + Math.round((cents * percent) / 100))
+      })
+      break
+    }
+  }
+  return { ok: true, discounts }
+}
+
+function couponError(promotion: Promotion | undefined, code: string, context: PricingContext) {
+  if (!promotion) return `"${code}" isn't a valid coupon code.`
+  const schedule = scheduleStatus(promotion, context.now)
+  if (schedule === 'upcoming') return `${promotion.code} isn't active yet.`
+  if (schedule === 'ended') return `${promotion.code} has expired.`
+  const usage = usageStatus(promotion, context.usage?.[promotion.id], context.customer)
+  if (usage === 'exhausted') return `${promotion.code} is no longer available.`
+  if (usage === 'customer-limit') return `You've already used ${promotion.code}.`
+  return undefined
+}
+
+/** Apply live promotions (and the shopper's coupon, if any) to `lines`. */
+export function priceLines(lines: PricingLine[], promotions: Promotion[], context: PricingContext): PricingResult {
+  const currency = context.currency ?? BASE_CURRENCY
+  const inCurrency = (cents: number): Money => ({ amount: cents, currency })
+  const states: LineState[] = lines.map((line) => {
+    if (line.unitPrice.currency !== currency) throw new Error(`Line ${line.key} is not priced in ${currency}`)
+    const totalCents = line.unitPrice.amount * line.quantity
+    return { line, totalCents, remainingCents: totalCents }
+  })
+  const subtotalCents = states.reduce((sum, s) => sum + s.totalCents, 0)
+  const applied: AppliedDiscount[] = []
+  let error: string | undefined
+
+  const apply = (promotion: Promotion): Outcome => {
+    const outcome = computeDiscount(promotion, states)
+    if (!outcome.ok) return outcome
+    let totalCents = 0
+    for (const s of states) {
+      const cents = Math.min(outcome.discounts.get(s.line.key) ?? 0, s.remainingCents)
+      s.remainingCents -= cents
+      totalCents += cents
+    }
+    if (totalCents > 0) {
+      const { id: promotionId, title, code } = promotion
+      applied.push({ promotionId, title, code, amount: inCurrency(totalCents) })
+    }
+    return outcome
+  }
+
+  for (const promotion of promotions) {
+    if (promotion.code || scheduleStatus(promotion, context.now)) continue
+    if (usageStatus(promotion, context.usage?.[promotion.id], context.customer)) continue
+    apply(promotion)
+  }
+
+  const code = context.couponCode ? normalizeCouponCode(context.couponCode) : ''
+  if (code) {
+    const coupon = promotions.find((p) => p.code && normalizeCouponCode(p.code) === code)
+    error = couponError(coupon, code, context)
+    if (coupon && !error) {
+      const before = applied.length
+      const outcome = apply(coupon)
+      if (!outcome.ok && outcome.reason === 'min-spend') {
+        const shortfall = formatMoney(inCurrency(outcome.shortfallCents))
+        error = `Spend ${shortfall} more on eligible items to use ${coupon.code}.`
+      } else if (applied.length === before) {
+        error = `${coupon.code} doesn't apply to the items in your cart.`
+      }
+    }
+  }
+
+  const lineDiscounts: Record<string, Money> = {}
+  for (const s of states) {
+    if (s.remainingCents < s.totalCents) lineDiscounts[s.line.key] = inCurrency(s.totalCents - s.remainingCents)
+  }
+  const discountCents = applied.reduce((sum, d) => sum + d.amount.amount, 0)
+  return {
+    subtotal: inCurrency(subtotalCents),
+    discounts: applied,
+    discountTotal: inCurrency(discountCents),
+    total: inCurrency(subtotalCents - discountCents),
+    lineDiscounts,
+    couponError: error,
+  }
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { SAMPLE_PROMOTIONS } from './sample'
+import type { Promotion } from './types'
+
+/**
+ * Where promotions come from. Mirrors the catalog repository:
+ * PROMOTIONS_FILE (or data/promotions.json when present) is read from disk
+ * and re-read when it changes, otherwise SAMPLE_PROMOTIONS are used.
+ * Server-only.
+ */
+
+export interface PromotionRepository {
+  list(): Promise<Promotion[]>
+}
+
+export function createMemoryPromotionRepository(promotions: Promotion[]): PromotionRepository {
+  return {
+    async list() {
+      return promotions.slice()
+    },
+  }
+}
+
+function isPromotion(value: unknown): value is Promotion {
+  const p = value as Promotion
+  return !!p && typeof p.id === 'string' && typeof p.title === 'string' && typeof p.discount?.type === 'string'
+}
+
+export function createJsonFilePromotionRepository(filePath: string): PromotionRepository {
+  let cache: { mtimeMs: number; promotions: Promotion[] } | null = null
+
+  return {
+    async list() {
+      const stat = await fs.stat(filePath)
+      if (!cache || cache.mtimeMs !== stat.mtimeMs) {
+        const raw = JSON.parse(await fs.readFile(filePath, 'utf8'))
+        if (!Array.isArray(raw)) throw new Error(`Promotions file ${filePath} must contain a JSON array`)
+        cache = { mtimeMs: stat.mtimeMs, promotions: raw.filter(isPromotion) }
+      }
+      return cache.promotions.slice()
+    },
+  }
+}
+
+let repository: PromotionRepository | null = null
+
+export async function getPromotionRepository(): Promise<PromotionRepository> {
+  if (repository) return repository
+  const filePath = process.env.PROMOTIONS_FILE ?? path.join(process.cwd(), 'data', 'promotions.json')
+  const exists = await fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false)
+  repository = exists
+    ? createJsonFilePromotionRepository(filePath)
+    : createMemoryPromotionRepository(SAMPLE_PROMOTIONS)
+  return repository
+}
+
+/** Override the repository, e.g. to plug in a database-backed implementation. */
+export function setPromotionRepository(next: PromotionRepository) {
+  repository = next
+}
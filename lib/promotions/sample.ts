@@ -0,0 +1,36 @@
+import type { Promotion } from './types'
+
+/** Built-in promotions matching SAMPLE_PRODUCTS and SAMPLE_CATALOG. */
+export const SAMPLE_PROMOTIONS: Promotion[] = [
+  {
+    id: 'accessories-15',
+    title: '15% off accessories',
+    description: 'Wallets, bags and small leather goods, automatically discounted at checkout.',
+    discount: { type: 'percentage', percent: 15 },
+    scope: { categoryIds: ['accessories'] },
+  },
+  {
+    id: 'tees-3-for-2',
+    title: 'Tees: buy 2, get 1 free',
+    description: 'Mix and match sizes and colors; the cheapest tee in every three is on us.',
+    discount: { type: 'buy-x-get-y', buy: 2, get: 1 },
+    scope: { productIds: ['p2'] },
+  },
+  {
+    id: 'save10-over-100',
+    title: '$10 off orders over $100',
+    code: 'SAVE10',
+    discount: { type: 'fixed', amount: 10 },
+    minSubtotal: 100,
+    usageLimit: 500,
+  },
+  {
+    id: 'welcome',
+    title: '10% off your first order',
+    description: 'Sent to new newsletter subscribers.',
+    code: 'WELCOME10',
+    discount: { type: 'percentage', percent: 10 },
+    perCustomerLimit: 1,
+    hidden: true,
+  },
+]
@@ -0,0 +1,160 @@
+import { getCatalog } from '../catalog/service'
+import { categoryAncestry, categoryForProduct } from '../catalog/tree'
+import type { Category } from '../catalog/types'
+import { convertAmount } from '../currency/prices'
+import { HttpError } from '../http'
+import { withAvailability } from '../inventory/service'
+import { isOutOfStock } from '../inventory/status'
+import { BASE_CURRENCY, type CurrencyCode, type Money } from '../money'
+import { getProductRepository } from '../products/repository'
+import type { Product } from '../products/types'
+import { inScope, normalizeCustomer, priceLines, scheduleStatus, usageStatus } from './engine'
+import { getPromotionRepository } from './repository'
+import { promotionUsageStore } from './store'
+import type { AppliedDiscount, PricingLine, PricingResult, Promotion } from './types'
+
+/**
+ * Server-side glue around the pricing engine: loads promotions, usage counts
+ * and category ancestry, converts promotion amounts to the shopper's
+ * currency, and records redemptions when an order is placed.
+ */
+
+/** A priced line before it is turned into a PricingLine. */
+export interface PriceableLine {
+  key: string
+  product: Product
+  unitPrice: Money
+  quantity: number
+}
+
+export async function getPromotions(): Promise<Promotion[]> {
+  return (await getPromotionRepository()).list()
+}
+
+export interface Deal {
+  promotion: Promotion
+  /** A few in-stock-first products the promotion applies to; empty for store-wide deals. */
+  products: Product[]
+}
+
+const DEAL_PRODUCT_LIMIT = 3
+
+function categoryIdsFor(categories: Category[], product: Product): string[] {
+  const category = categoryForProduct(categories, product)
+  return category ? categoryAncestry(categories, category).map((c) => c.id) : []
+}
+
+async function toPricingLines(lines: PriceableLine[]): Promise<PricingLine[]> {
+  const { categories } = await getCatalog()
+  return lines.map(({ key, product, unitPrice, quantity }) => ({
+    key,
+    productId: product.id,
+    categoryIds: categoryIdsFor(categories, product),
+    unitPrice,
+    quantity,
+  }))
+}
+
+/** A promotion with its fixed amounts (set in the base currency) converted to `currency`. */
+export function localizePromotion(promotion: Promotion, currency: CurrencyCode): Promotion {
+  if (currency === BASE_CURRENCY) return promotion
+  const { discount, minSubtotal } = promotion
+  return {
+    ...promotion,
+    discount: discount.type === 'fixed' ? { ...discount, amount: convertAmount(discount.amount, currency) } : discount,
+    minSubtotal: minSubtotal === undefined ? undefined : convertAmount(minSubtotal, currency),
+  }
+}
+
+/**
+ * Apply current promotions to a cart or order priced in `currency`. `email`
+ * enables per-customer limits.
+ */
+export async function priceWithPromotions(
+  lines: PriceableLine[],
+  {
+    couponCode,
+    email,
+    currency = BASE_CURRENCY,
+  }: { couponCode?: string; email?: string; currency?: CurrencyCode } = {},
+): Promise<PricingResult> {
+  const [pricingLines, promotions, usage] = await Promise.all([
+    toPricingLines(lines),
+    getPromotions(),
+    promotionUsageStore.read(),
+  ])
+  const localized = promotions.map((p) => localizePromotion(p, currency))
+  return priceLines(pricingLines, localized, {
+    now: new Date(),
+    currency,
+    couponCode,
+    customer: email ? normalizeCustomer(email) : undefined,
+    usage,
+  })
+}
+
+/**
+ * Promotions to advertise on /deals: live, not used up and not hidden, each
+ * with a few of the products it covers.
+ */
+export async function listActiveDeals(): Promise<Deal[]> {
+  const now = new Date()
+  const [promotions, usage, { categories }, repo] = await Promise.all([
+    getPromotions(),
+    promotionUsageStore.read(),
+    getCatalog(),
+    getProductRepository(),
+  ])
+  const live = promotions.filter((p) => !p.hidden && !scheduleStatus(p, now) && !usageStatus(p, usage[p.id]))
+  const products = await withAvailability(await repo.list())
+  return live.map((promotion) => {
+    if (!promotion.scope?.categoryIds?.length && !promotion.scope?.productIds?.length) {
+      return { promotion, products: [] }
+    }
+    const covered = products
+      .filter((p) => inScope(promotion, p.id, categoryIdsFor(categories, p)))
+      .sort((a, b) => Number(isOutOfStock(a.availability)) - Number(isOutOfStock(b.availability)))
+    return { promotion, products: covered.slice(0, DEAL_PRODUCT_LIMIT) }
+  })
+}
+
+/**
+ * Count one use of each applied promotion against its limits. Throws 409 if
+ * a limit was reached since the order was priced; call
+ * releasePromotions() if the order then fails.
+ */
+export async function redeemPromotions(discounts: AppliedDiscount[], email: string): Promise<void> {
+  if (discounts.length === 0) return
+  const customer = normalizeCustomer(email)
+  const promotions = new Map((await getPromotions()).map((p) => [p.id, p]))
+  await promotionUsageStore.update((usage) => {
+    for (const { promotionId, title } of discounts) {
+      const promotion = promotions.get(promotionId)
+      if (promotion && usageStatus(promotion, usage[promotionId], customer)) {
+        throw new HttpError(409, `${promotion.code ?? title} is no longer available. Please review your order.`)
+      }
+    }
+    for (const { promotionId } of discounts) {
+      const entry = (usage[promotionId] ??= { count: 0, byCustomer: {} })
+      entry.count += 1
+      entry.byCustomer[customer] = (entry.byCustomer[customer] ?? 0) + 1
+    }
+  })
+}
+
+/** Undo redeemPromotions(), e.g. when the payment is declined. */
+export async function releasePromotions(discounts: AppliedDiscount[], email: string): Promise<void> {
+  if (discounts.length === 0) return
+  const customer = normalizeCustomer(email)
+  await promotionUsageStore.update((usage) => {
+    for (const { promotionId } of discounts) {
+      const entry = usage[promotionId]
+      if (!entry) continue
+      entry.count = Math.max(0, entry.count - 1)
+      const uses = (entry.byCustomer[customer] ?? 0) - 1
+      if (uses > 0) entry.byCustomer[customer] = uses
+      else delete entry.byCustomer[customer]
+      if (entry.count === 0) delete usage[promotionId]
+    }
+  })
+}
@@ -0,0 +1,5 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { PromotionUsage } from './types'
+
+/** Redemption counts keyed by promotion id. */
+export const promotionUsageStore = createJsonStore<Record<string, PromotionUsage>>('promotion-usage', () => ({}))
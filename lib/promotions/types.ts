@@ -0,0 +1,82 @@
+import type { Money } from '../money'
+
+/**
+ * Promotion types shared by the pricing engine, the cart, the order API and
+ * /deals. Promotion amounts are set in dollars; prices and discounts worked
+ * out from them are Money.
+ */
+
+export type PromotionDiscount =
+  /** `percent` off each eligible line. */
+  | { type: 'percentage'; percent: number }
+  /** `amount` off the eligible lines, spread across them by value. */
+  | { type: 'fixed'; amount: number }
+  /**
+   * For every `buy` eligible units, the next `get` cheapest units are
+   * `percent` off (100 = free).
+   */
+  | { type: 'buy-x-get-y'; buy: number; get: number; percent?: number }
+
+/** Which cart lines a promotion applies to; omitted means everything. */
+export interface PromotionScope {
+  /** Catalog category ids; a category includes its subcategories. */
+  categoryIds?: string[]
+  productIds?: string[]
+}
+
+export interface Promotion {
+  id: string
+  title: string
+  description?: string
+  /** Shoppers must enter this code; promotions without one apply automatically. */
+  code?: string
+  discount: PromotionDiscount
+  scope?: PromotionScope
+  /** Minimum spend on eligible lines, before discounts. */
+  minSubtotal?: number
+  /** ISO timestamps bounding when the promotion is live. */
+  startsAt?: string
+  endsAt?: string
+  /** Total number of orders that may use the promotion. */
+  usageLimit?: number
+  /** Orders per customer (by email). */
+  perCustomerLimit?: number
+  /** Keep a coupon off /deals, e.g. codes handed out by email. */
+  hidden?: boolean
+}
+
+/** A cart or order line as the pricing engine sees it. */
+export interface PricingLine {
+  key: string
+  productId: string
+  /** The product's category and all of its ancestors. */
+  categoryIds: string[]
+  unitPrice: Money
+  quantity: number
+}
+
+/** Redemptions so far, used to enforce usage limits. */
+export interface PromotionUsage {
+  count: number
+  /** Keyed by normalized customer email. */
+  byCustomer: Record<string, number>
+}
+
+export interface AppliedDiscount {
+  promotionId: string
+  title: string
+  code?: string
+  amount: Money
+}
+
+export interface PricingResult {
+  subtotal: Money
+  discounts: AppliedDiscount[]
+  discountTotal: Money
+  /** Subtotal less discounts. */
+  total: Money
+  /** Discount per line key, for lines that got one. */
+  lineDiscounts: Record<string, Money>
+  /** Why the entered coupon didn't apply, if it didn't. */
+  couponError?: string
+}
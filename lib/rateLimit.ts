@@ -0,0 +1,32 @@
+/**
+ * Fixed-window, in-memory rate limiting. Per server process only, which is
+ * enough to blunt form spam on a single instance.
+ */
+
+export interface RateLimiter {
+  /** Records a hit for `key`; returns false once the window's limit is used up. */
+  hit(key: string): boolean
+}
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    hit(key) {
+      const now = Date.now()
+      // Drop stale windows so the map can't grow without bound
+      if (windows.size > 10_000) {
+        windows.forEach((w, k) => {
+          if (w.resetAt <= now) windows.delete(k)
+        })
+      }
+      const current = windows.get(key)
+      if (!current || current.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs })
+        return true
+      }
+      current.count += 1
+      return current.count <= limit
+    },
+  }
+}
@@ -0,0 +1,40 @@
+import type { ModerationReview, PublicReview, ReviewInput, ReviewStatus } from './types'
+
+/**
+ * Browser helpers for the reviews API. Each rejects with the API's
+ * `{ message }` on failure.
+ */
+
+async function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    cache: 'no-store',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(data?.message || 'Something went wrong. Please try again later.')
+  return data as T
+}
+
+export function submitReview(productId: string, input: ReviewInput) {
+  return request<PublicReview>(`/api/products/${encodeURIComponent(productId)}/reviews`, 'POST', input)
+}
+
+export function voteHelpful(reviewId: string, helpful: boolean) {
+  return request<PublicReview>(`/api/reviews/${encodeURIComponent(reviewId)}/helpful`, helpful ? 'POST' : 'DELETE')
+}
+
+export function moderateReview(reviewId: string, status: Exclude<ReviewStatus, 'pending'>, note?: string) {
+  return request<ModerationReview>(`/api/reviews/${encodeURIComponent(reviewId)}`, 'PATCH', { status, note })
+}
+
+/** Read an image file as a data URL for ReviewInput.photos. */
+export function readPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(new Error(`Couldn't read ${file.name}.`))
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,29 @@
+import { HttpError } from '../http'
+import { createImageDirectory } from '../images'
+import { MAX_PHOTO_BYTES, MAX_REVIEW_PHOTOS } from './types'
+
+/**
+ * Review photo storage: files live under DATA_DIR/review-photos (see
+ * lib/images) and GET /api/reviews/photos/:name serves them back.
+ * Server-only.
+ */
+
+const photos = createImageDirectory('review-photos', '/api/reviews/photos/', MAX_PHOTO_BYTES)
+
+/**
+ * Validate every photo before writing any of them; resolves to the URLs to
+ * store on the review.
+ */
+export async function saveReviewPhotos(input: unknown): Promise<string[]> {
+  if (input === undefined) return []
+  if (!Array.isArray(input)) throw new HttpError(400, 'Photos must be a list of images.')
+  if (input.length > MAX_REVIEW_PHOTOS) {
+    throw new HttpError(400, `You can add at most ${MAX_REVIEW_PHOTOS} photos.`)
+  }
+  return photos.save(input.map((value) => photos.decode(value, 'photo')))
+}
+
+/** A stored photo by file name, or null for unknown or malformed names. */
+export function readReviewPhoto(name: string) {
+  return photos.read(name)
+}
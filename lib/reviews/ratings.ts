@@ -0,0 +1,30 @@
+import type { ProductRepository } from '../products/repository'
+import type { Product } from '../products/types'
+import { ratingsStore } from './store'
+import type { RatingSummary } from './types'
+
+/**
+ * Overlays review aggregates onto `Product.rating`. getProductRepository()
+ * wraps every repository with this, so sorting, search facets and JSON-LD
+ * all see the same numbers. Products without approved reviews keep the
+ * rating their catalog entry was imported with. Server-only.
+ */
+
+function applyRating(product: Product, ratings: Record<string, RatingSummary>): Product {
+  const summary = ratings[product.id]
+  if (!summary || summary.count === 0) return product
+  return { ...product, rating: { rate: summary.rate, count: summary.count } }
+}
+
+export function withReviewRatings(repository: ProductRepository): ProductRepository {
+  return {
+    async list() {
+      const [products, ratings] = await Promise.all([repository.list(), ratingsStore.read()])
+      return products.map((product) => applyRating(product, ratings))
+    },
+    async get(id) {
+      const [product, ratings] = await Promise.all([repository.get(id), ratingsStore.read()])
+      return product ? applyRating(product, ratings) : null
+    },
+  }
+}
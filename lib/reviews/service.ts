@@ -0,0 +1,291 @@
+import { randomBytes } from 'crypto'
+import type { User } from '../auth/types'
+import { HttpError } from '../http'
+import { ordersStore } from '../orders/store'
+import type { OrderLine, OrderStatus } from '../orders/types'
+import { getProductRepository } from '../products/repository'
+import { toPositiveInt } from '../validation'
+import { saveReviewPhotos } from './photos'
+import { ratingsStore, reviewsStore } from './store'
+import {
+  REVIEW_SORTS,
+  REVIEW_STATUSES,
+  type ModerationReview,
+  type ProductReviews,
+  type PublicReview,
+  type RatingSummary,
+  type Review,
+  type ReviewEligibility,
+  type ReviewPage,
+  type ReviewQuery,
+  type ReviewSort,
+  type ReviewStatus,
+  type StoredReview,
+} from './types'
+
+/**
+ * Product reviews. Only verified purchasers can write one (one per product),
+ * new reviews wait in the moderation queue, and approving or rejecting a
+ * review recomputes the product's rating aggregate (see ./ratings).
+ */
+
+export const DEFAULT_REVIEW_PAGE_SIZE = 10
+const MAX_REVIEW_PAGE_SIZE = 50
+const MAX_TITLE_LENGTH = 120
+const MAX_BODY_LENGTH = 5000
+
+/** Orders in these states count as a purchase. */
+const PURCHASED_STATUSES: OrderStatus[] = ['paid', 'picking', 'packed', 'partially_shipped', 'shipped', 'delivered']
+
+const EMPTY_SUMMARY: RatingSummary = { rate: 0, count: 0, histogram: [0, 0, 0, 0, 0] }
+
+/** Parse a ReviewQuery out of URL search params, falling back to newest first. */
+export function parseReviewQuery(params: URLSearchParams): ReviewQuery {
+  const sort = params.get('sort') as ReviewSort | null
+  const stars = Number.parseInt(params.get('stars') ?? '', 10)
+  return {
+    sort: sort && REVIEW_SORTS.includes(sort) ? sort : 'newest',
+    stars: stars >= 1 && stars <= 5 ? stars : undefined,
+    withPhotos: params.get('photos') === '1',
+    page: toPositiveInt(params.get('page'), 1),
+    pageSize: Math.min(toPositiveInt(params.get('pageSize'), DEFAULT_REVIEW_PAGE_SIZE), MAX_REVIEW_PAGE_SIZE),
+  }
+}
+
+/** "Alex Smith" -> "Alex S." so reviews don't publish full names. */
+function authorNameFor(name: string) {
+  const parts = name.trim().split(/\s+/)
+  return parts.length > 1 ? `${parts[0]} ${parts[parts.length - 1][0].toUpperCase()}.` : parts[0]
+}
+
+function optionalText(value: unknown, max: number, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string') throw new HttpError(400, `${field} must be text.`)
+  const text = value.trim()
+  if (text.length > max) throw new HttpError(400, `${field} must be at most ${max} characters.`)
+  return text || undefined
+}
+
+function paginate<T>(items: T[], page: number, pageSize: number): ReviewPage<T> {
+  const start = (page - 1) * pageSize
+  return {
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(items.length / pageSize)),
+  }
+}
+
+/** The fields of a stored review that are safe to send to the browser. */
+function toReview(review: StoredReview): Review {
+  return {
+    id: review.id,
+    productId: review.productId,
+    variantTitle: review.variantTitle,
+    authorName: review.authorName,
+    rating: review.rating,
+    title: review.title,
+    body: review.body,
+    photos: review.photos,
+    status: review.status,
+    helpfulCount: review.helpfulCount,
+    createdAt: review.createdAt,
+  }
+}
+
+function toPublicReview(review: StoredReview, viewerId?: string): PublicReview {
+  return { ...toReview(review), votedHelpful: !!viewerId && review.helpfulVoterIds.includes(viewerId) }
+}
+
+function toModerationReview(review: StoredReview, productTitle: string | undefined): ModerationReview {
+  return { ...toReview(review), productTitle: productTitle ?? review.productId, moderation: review.moderation }
+}
+
+function summarize(reviews: StoredReview[]): RatingSummary {
+  const histogram = [0, 0, 0, 0, 0]
+  let total = 0
+  for (const review of reviews) {
+    histogram[review.rating - 1] += 1
+    total += review.rating
+  }
+  const count = reviews.length
+  return { rate: count ? Math.round((total / count) * 10) / 10 : 0, count, histogram }
+}
+
+function approvedFor(reviews: Record<string, StoredReview>, productId: string) {
+  return Object.values(reviews).filter((r) => r.productId === productId && r.status === 'approved')
+}
+
+async function recomputeRating(productId: string) {
+  const summary = summarize(approvedFor(await reviewsStore.read(), productId))
+  await ratingsStore.update((ratings) => {
+    if (summary.count) ratings[productId] = summary
+    else delete ratings[productId]
+  })
+}
+
+const SORTERS: Record<ReviewSort, (a: StoredReview, b: StoredReview) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  helpful: (a, b) => b.helpfulCount - a.helpfulCount || b.createdAt.localeCompare(a.createdAt),
+  'rating-desc': (a, b) => b.rating - a.rating || b.createdAt.localeCompare(a.createdAt),
+  'rating-asc': (a, b) => a.rating - b.rating || b.createdAt.localeCompare(a.createdAt),
+}
+
+/** Approved reviews for the product page, with the rating summary. */
+export async function listProductReviews(
+  productId: string,
+  query: ReviewQuery,
+  viewerId?: string,
+): Promise<ProductReviews> {
+  const approved = approvedFor(await reviewsStore.read(), productId)
+  const matching = approved
+    .filter((r) => (!query.stars || r.rating === query.stars) && (!query.withPhotos || r.photos.length > 0))
+    .sort(SORTERS[query.sort])
+  const page = paginate(matching, query.page, query.pageSize)
+  return {
+    ...page,
+    items: page.items.map((review) => toPublicReview(review, viewerId)),
+    summary: approved.length ? summarize(approved) : EMPTY_SUMMARY,
+  }
+}
+
+/** The most recent paid order line for this product, if the user bought it. */
+async function findPurchase(userId: string, productId: string): Promise<OrderLine | null> {
+  const data = await ordersStore.read()
+  const orders = Object.values(data.orders)
+    .filter((o) => o.userId === userId && PURCHASED_STATUSES.includes(o.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  for (const order of orders) {
+    const line = order.lines.find((l) => l.productId === productId)
+    if (line) return line
+  }
+  return null
+}
+
+async function hasReviewed(userId: string, productId: string) {
+  const reviews = await reviewsStore.read()
+  return Object.values(reviews).some((r) => r.userId === userId && r.productId === productId)
+}
+
+export async function getReviewEligibility(user: User | null, productId: string): Promise<ReviewEligibility> {
+  if (!user) return { canReview: false, reason: 'signed-out' }
+  if (!(await findPurchase(user.id, productId))) return { canReview: false, reason: 'not-purchased' }
+  if (await hasReviewed(user.id, productId)) return { canReview: false, reason: 'already-reviewed' }
+  return { canReview: true }
+}
+
+/**
+ * Submit a review for moderation. Photos are validated and stored before
+ * the review itself is saved.
+ */
+export async function submitReview(
+  user: User,
+  productId: string,
+  input: { rating?: unknown; title?: unknown; body?: unknown; photos?: unknown },
+): Promise<PublicReview> {
+  const repo = await getProductRepository()
+  if (!(await repo.get(productId))) throw new HttpError(404, 'Product not found.')
+  const purchase = await findPurchase(user.id, productId)
+  if (!purchase) throw new HttpError(403, 'Only customers who bought this item can review it.')
+  if (await hasReviewed(user.id, productId)) {
+    throw new HttpError(409, 'You have already reviewed this product.')
+  }
+
+  const rating = Number(input.rating)
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new HttpError(400, 'Please choose a rating from 1 to 5 stars.')
+  }
+  const title = optionalText(input.title, MAX_TITLE_LENGTH, 'Title')
+  const body = optionalText(input.body, MAX_BODY_LENGTH, 'Review')
+  if (!body) throw new HttpError(400, 'Please tell other shoppers what you thought.')
+  const photos = await saveReviewPhotos(input.photos)
+
+  return reviewsStore.update((reviews) => {
+    // Re-check inside the write in case of a double submit
+    if (Object.values(reviews).some((r) => r.userId === user.id && r.productId === productId)) {
+      throw new HttpError(409, 'You have already reviewed this product.')
+    }
+    const review: StoredReview = {
+      id: `rev_${randomBytes(8).toString('hex')}`,
+      productId,
+      variantTitle: purchase.variantTitle,
+      userId: user.id,
+      authorName: authorNameFor(user.name),
+      rating,
+      title,
+      body,
+      photos,
+      status: 'pending',
+      helpfulCount: 0,
+      helpfulVoterIds: [],
+      createdAt: new Date().toISOString(),
+    }
+    reviews[review.id] = review
+    return toPublicReview(review, user.id)
+  })
+}
+
+/**
+ * Mark (or unmark) an approved review as helpful. One vote per user, and
+ * not on your own review.
+ */
+export async function setHelpfulVote(reviewId: string, userId: string, helpful: boolean): Promise<PublicReview> {
+  return reviewsStore.update((reviews) => {
+    const review = reviews[reviewId]
+    if (!review || review.status !== 'approved') throw new HttpError(404, 'Review not found.')
+    if (review.userId === userId) throw new HttpError(400, "You can't vote on your own review.")
+    const voters = new Set(review.helpfulVoterIds)
+    if (helpful) voters.add(userId)
+    else voters.delete(userId)
+    review.helpfulVoterIds = Array.from(voters)
+    review.helpfulCount = voters.size
+    return toPublicReview(review, userId)
+  })
+}
+
+export function parseReviewStatus(value: string | null | undefined): ReviewStatus | undefined {
+  return REVIEW_STATUSES.find((status) => status === value)
+}
+
+/** Reviews in one moderation state, oldest first so the queue is worked in order. */
+export async function listReviewsForModeration(
+  status: ReviewStatus,
+  { page = 1, pageSize = 20 }: { page?: number; pageSize?: number } = {},
+): Promise<ReviewPage<ModerationReview>> {
+  const reviews = Object.values(await reviewsStore.read())
+    .filter((r) => r.status === status)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  const result = paginate(reviews, page, pageSize)
+  const repo = await getProductRepository()
+  const items: ModerationReview[] = []
+  for (const review of result.items) {
+    items.push(toModerationReview(review, (await repo.get(review.productId))?.title))
+  }
+  return { ...result, items }
+}
+
+/** Approve or reject a review and refresh the product's rating. */
+export async function moderateReview(
+  reviewId: string,
+  moderator: User,
+  input: { status?: unknown; note?: unknown },
+): Promise<ModerationReview> {
+  const status = parseReviewStatus(typeof input.status === 'string' ? input.status : undefined)
+  if (!status || status === 'pending') {
+    throw new HttpError(400, 'Status must be "approved" or "rejected".')
+  }
+  const note = optionalText(input.note, MAX_TITLE_LENGTH, 'Note')
+
+  const review = await reviewsStore.update((reviews) => {
+    const review = reviews[reviewId]
+    if (!review) throw new HttpError(404, 'Review not found.')
+    review.status = status
+    review.moderation = { by: moderator.id, at: new Date().toISOString(), note }
+    return review
+  })
+  await recomputeRating(review.productId)
+
+  const product = await (await getProductRepository()).get(review.productId)
+  return toModerationReview(review, product?.title)
+}
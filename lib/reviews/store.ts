@@ -0,0 +1,12 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { RatingSummary, StoredReview } from './types'
+
+/** Reviews keyed by id. */
+export const reviewsStore = createJsonStore<Record<string, StoredReview>>('reviews', () => ({}))
+
+/**
+ * Rating aggregates keyed by product id, rewritten by the review service
+ * whenever a product's approved reviews change. Kept apart from the reviews
+ * so serving a product doesn't mean reading every review.
+ */
+export const ratingsStore = createJsonStore<Record<string, RatingSummary>>('product-ratings', () => ({}))
@@ -0,0 +1,99 @@
+/**
+ * Review types shared by the reviews API, the product page and the
+ * moderation queue. `StoredReview` adds the fields that never leave the server.
+ */
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected']
+
+export type ReviewSort = 'newest' | 'helpful' | 'rating-desc' | 'rating-asc'
+
+export const REVIEW_SORTS: ReviewSort[] = ['newest', 'helpful', 'rating-desc', 'rating-asc']
+
+export const MAX_REVIEW_PHOTOS = 4
+export const MAX_PHOTO_BYTES = 2 * 1024 * 1024 // 2 MB
+
+export interface Review {
+  id: string
+  productId: string
+  /** Option values of the purchased variant, e.g. "M / Black". */
+  variantTitle?: string
+  authorName: string
+  /** Whole stars, 1-5. */
+  rating: number
+  title?: string
+  body: string
+  /** URLs served by /api/reviews/photos. */
+  photos: string[]
+  status: ReviewStatus
+  helpfulCount: number
+  createdAt: string
+}
+
+export interface ReviewModeration {
+  by: string
+  at: string
+  note?: string
+}
+
+export interface StoredReview extends Review {
+  userId: string
+  helpfulVoterIds: string[]
+  moderation?: ReviewModeration
+}
+
+/** Review as shown to a shopper; `votedHelpful` is relative to the viewer. */
+export interface PublicReview extends Review {
+  votedHelpful: boolean
+}
+
+/** Review as shown in the moderation queue. */
+export interface ModerationReview extends Review {
+  productTitle: string
+  moderation?: ReviewModeration
+}
+
+/** Aggregate over a product's approved reviews. */
+export interface RatingSummary {
+  /** Mean rating rounded to one decimal. */
+  rate: number
+  count: number
+  /** Review counts per star, `histogram[0]` being one star. */
+  histogram: number[]
+}
+
+export interface ReviewQuery {
+  sort: ReviewSort
+  /** Only reviews with exactly this many stars. */
+  stars?: number
+  withPhotos: boolean
+  page: number
+  pageSize: number
+}
+
+export interface ReviewPage<T = PublicReview> {
+  items: T[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface ProductReviews extends ReviewPage {
+  summary: RatingSummary
+}
+
+/** Body accepted by POST /api/products/:id/reviews. */
+export interface ReviewInput {
+  rating: number
+  title?: string
+  body: string
+  /** Images as `data:image/...;base64,` URLs. */
+  photos?: string[]
+}
+
+/** Whether the viewer may write a review, and if not why. */
+export type ReviewEligibility =
+  | { canReview: true }
+  | { canReview: false; reason: 'signed-out' | 'not-purchased' | 'already-reviewed' }
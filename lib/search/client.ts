@@ -0,0 +1,12 @@
+import type { SearchSuggestions } from './engine'
+
+/**
+ * Browser helper for /api/search/suggest. Pass an AbortSignal so stale
+ * keystrokes can be cancelled.
+ */
+export async function fetchSuggestions(query: string, signal?: AbortSignal): Promise<SearchSuggestions> {
+  const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(query)}`, { signal })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(data?.message || 'Failed to load suggestions.')
+  return data as SearchSuggestions
+}
@@ -0,0 +1,348 @@
+import type { Product } from '../products/types'
+import { tokenize } from './tokenize'
+
+/**
+ * In-process full-text search over the product catalog.
+ *
+ * - Inverted index over title, category and description (field-weighted BM25)
+ * - Prefix matching, so "head" finds "headphones"
+ * - Typo tolerance via bounded edit distance (1 edit from 4 chars, 2 from 8)
+ * - Facet counts for category, price bucket and minimum rating
+ *
+ * Pure: build once with buildSearchIndex() and query as often as needed.
+ */
+
+type SearchField = 'title' | 'category' | 'description'
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, category: 2, description: 1 }
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[]
+
+// BM25 tuning
+const K1 = 1.2
+const B = 0.75
+
+// Relative weight of a query token matching an index term exactly, by prefix, or with typos
+const EXACT_MATCH = 1
+const PREFIX_MATCH = 0.75
+const FUZZY_MATCH = [1, 0.6, 0.4]
+
+export type PriceBucketId = 'under-25' | '25-50' | '50-100' | '100-plus'
+
+export const PRICE_BUCKETS: { id: PriceBucketId; label: string; min: number; max: number }[] = [
+  { id: 'under-25', label: 'Under $25', min: 0, max: 25 },
+  { id: '25-50', label: '$25 to $50', min: 25, max: 50 },
+  { id: '50-100', label: '$50 to $100', min: 50, max: 100 },
+  { id: '100-plus', label: '$100 & above', min: 100, max: Infinity },
+]
+
+export const RATING_THRESHOLDS = [4, 3, 2, 1]
+
+interface Posting {
+  doc: number
+  field: SearchField
+  tf: number
+}
+
+export interface SearchIndex {
+  products: Product[]
+  postings: Map<string, Posting[]>
+  vocabulary: string[]
+  fieldLengths: Record<SearchField, number[]>
+  avgFieldLength: Record<SearchField, number>
+}
+
+export interface SearchFilters {
+  category?: string
+  price?: PriceBucketId
+  minRating?: number
+}
+
+export interface SearchOptions extends SearchFilters {
+  page?: number
+  pageSize?: number
+}
+
+export interface FacetValue<T = string> {
+  value: T
+  label: string
+  count: number
+}
+
+export interface SearchFacets {
+  category: FacetValue[]
+  price: FacetValue<PriceBucketId>[]
+  rating: FacetValue<number>[]
+}
+
+export interface SearchHit {
+  product: Product
+  score: number
+}
+
+export interface SearchResult {
+  query: string
+  items: SearchHit[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+  facets: SearchFacets
+}
+
+/* ----------------------------- Indexing -------------------------------------- */
+
+function fieldText(product: Product, field: SearchField): string {
+  if (field === 'title') return product.title
+  if (field === 'category') return product.category ?? ''
+  return product.description
+}
+
+export function buildSearchIndex(products: Product[]): SearchIndex {
+  const postings = new Map<string, Posting[]>()
+  const fieldLengths = { title: [], category: [], description: [] } as Record<SearchField, number[]>
+
+  products.forEach((product, doc) => {
+    for (const field of FIELDS) {
+      const terms = tokenize(fieldText(product, field))
+      fieldLengths[field][doc] = terms.length
+      const counts = new Map<string, number>()
+      terms.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1))
+      counts.forEach((tf, term) => {
+        const list = postings.get(term) ?? []
+        list.push({ doc, field, tf })
+        postings.set(term, list)
+      })
+    }
+  })
+
+  const avgFieldLength = {} as Record<SearchField, number>
+  for (const field of FIELDS) {
+    const lengths = fieldLengths[field]
+    avgFieldLength[field] = lengths.length ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0
+  }
+
+  return {
+    products,
+    postings,
+    vocabulary: Array.from(postings.keys()).sort(),
+    fieldLengths,
+    avgFieldLength,
+  }
+}
+
+/* ----------------------------- Matching -------------------------------------- */
+
+/** Levenshtein distance, giving up (returning max + 1) once it exceeds `max`. */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      rowMin = Math.min(rowMin, row[j])
+    }
+    if (rowMin > max) return max + 1
+    prev = row
+  }
+  return prev[b.length]
+}
+
+function maxEditsFor(token: string) {
+  if (token.length >= 8) return 2
+  if (token.length >= 4) return 1
+  return 0
+}
+
+/** Index terms a query token can match, each with its match weight. */
+function expandToken(index: SearchIndex, token: string): Map<string, number> {
+  const matches = new Map<string, number>()
+  const maxEdits = maxEditsFor(token)
+  for (const term of index.vocabulary) {
+    let weight = 0
+    if (term === token) {
+      weight = EXACT_MATCH
+    } else if (token.length >= 2 && term.startsWith(token)) {
+      weight = PREFIX_MATCH
+    } else if (maxEdits > 0) {
+      const edits = boundedEditDistance(token, term, maxEdits)
+      if (edits <= maxEdits) weight = FUZZY_MATCH[edits]
+    }
+    if (weight > 0) matches.set(term, weight)
+  }
+  return matches
+}
+
+/** Per-document score for one query token (best matching term wins). */
+function scoreToken(index: SearchIndex, token: string): Map<number, number> {
+  const n = index.products.length
+  const scores = new Map<number, number>()
+  expandToken(index, token).forEach((matchWeight, term) => {
+    const postings = index.postings.get(term) ?? []
+    const df = new Set(postings.map((p) => p.doc)).size
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5))
+    const perDoc = new Map<number, number>()
+    for (const { doc, field, tf } of postings) {
+      const len = index.fieldLengths[field][doc]
+      const avg = index.avgFieldLength[field] || 1
+      const bm25 = (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * len) / avg))
+      perDoc.set(doc, (perDoc.get(doc) ?? 0) + FIELD_WEIGHTS[field] * bm25)
+    }
+    perDoc.forEach((score, doc) => {
+      scores.set(doc, Math.max(scores.get(doc) ?? 0, matchWeight * score))
+    })
+  })
+  return scores
+}
+
+/**
+ * Score every product against the query. All tokens must match; if that finds
+ * nothing, fall back to partial matches ranked by how many tokens they hit.
+ */
+function rank(index: SearchIndex, query: string): SearchHit[] {
+  const tokens = Array.from(new Set(tokenize(query)))
+  if (tokens.length === 0) {
+    return index.products.map((product) => ({ product, score: 0 }))
+  }
+
+  const perToken = tokens.map((t) => scoreToken(index, t))
+  const totals = new Map<number, { score: number; matched: number }>()
+  perToken.forEach((scores) =>
+    scores.forEach((score, doc) => {
+      const entry = totals.get(doc) ?? { score: 0, matched: 0 }
+      entry.score += score
+      entry.matched += 1
+      totals.set(doc, entry)
+    }),
+  )
+
+  let hits = Array.from(totals, ([doc, t]) => ({ doc, ...t })).filter((h) => h.matched === tokens.length)
+  if (hits.length === 0) {
+    hits = Array.from(totals, ([doc, t]) => ({
+      doc,
+      matched: t.matched,
+      score: (t.score * t.matched) / tokens.length,
+    }))
+  }
+  return hits
+    .sort((a, b) => b.score - a.score || a.doc - b.doc)
+    .map((h) => ({ product: index.products[h.doc], score: h.score }))
+}
+
+/* ----------------------------- Facets ---------------------------------------- */
+
+function priceBucketOf(price: number): PriceBucketId {
+  return (PRICE_BUCKETS.find((b) => price >= b.min && price < b.max) ?? PRICE_BUCKETS[0]).id
+}
+
+function matchesFilters(product: Product, filters: SearchFilters, skip?: keyof SearchFilters) {
+  if (skip !== 'category' && filters.category && product.category?.toLowerCase() !== filters.category.toLowerCase()) {
+    return false
+  }
+  if (skip !== 'price' && filters.price && priceBucketOf(product.price) !== filters.price) {
+    return false
+  }
+  if (skip !== 'minRating' && filters.minRating && (product.rating?.rate ?? 0) < filters.minRating) {
+    return false
+  }
+  return true
+}
+
+/** Each facet is counted with every other active filter applied, but not its own. */
+function computeFacets(hits: SearchHit[], filters: SearchFilters): SearchFacets {
+  const byCategory = new Map<string, number>()
+  const byPrice = new Map<PriceBucketId, number>()
+  const ratings: number[] = []
+
+  for (const { product } of hits) {
+    if (product.category && matchesFilters(product, filters, 'category')) {
+      byCategory.set(product.category, (byCategory.get(product.category) ?? 0) + 1)
+    }
+    if (matchesFilters(product, filters, 'price')) {
+      const bucket = priceBucketOf(product.price)
+      byPrice.set(bucket, (byPrice.get(bucket) ?? 0) + 1)
+    }
+    if (matchesFilters(product, filters, 'minRating')) {
+      ratings.push(product.rating?.rate ?? 0)
+    }
+  }
+
+  return {
+    category: Array.from(byCategory, ([value, count]) => ({ value, label: value, count })).sort((a, b) =>
+      a.label.localeCompare(b.label),
+    ),
+    price: PRICE_BUCKETS.map((b) => ({ value: b.id, label: b.label, count: byPrice.get(b.id) ?? 0 })).filter(
+      (f) => f.count > 0,
+    ),
+    rating: RATING_THRESHOLDS.map((t) => ({
+      value: t,
+      label: `${t}★ & up`,
+      count: ratings.filter((r) => r >= t).length,
+    })).filter((f) => f.count > 0),
+  }
+}
+
+/* ----------------------------- Public API ------------------------------------ */
+
+export function searchProducts(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult {
+  const page = Math.max(1, options.page ?? 1)
+  const pageSize = Math.max(1, options.pageSize ?? 24)
+  const filters: SearchFilters = {
+    category: options.category,
+    price: options.price,
+    minRating: options.minRating,
+  }
+
+  const ranked = rank(index, query)
+  const filtered = ranked.filter((hit) => matchesFilters(hit.product, filters))
+  const start = (page - 1) * pageSize
+
+  return {
+    query,
+    items: filtered.slice(start, start + pageSize),
+    total: filtered.length,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(filtered.length / pageSize)),
+    facets: computeFacets(ranked, filters),
+  }
+}
+
+export interface SearchSuggestions {
+  query: string
+  products: Pick<Product, 'id' | 'title' | 'price' | 'prices' | 'image'>[]
+  categories: { name: string; count: number }[]
+}
+
+/**
+ * Lightweight lookup for search-as-you-type: the top ranked products plus any
+ * category whose name starts with (every word of) what has been typed so far.
+ */
+export function suggest(
+  index: SearchIndex,
+  query: string,
+  { limit = 6, categoryLimit = 3 }: { limit?: number; categoryLimit?: number } = {},
+): SearchSuggestions {
+  const tokens = tokenize(query)
+  if (tokens.length === 0) return { query, products: [], categories: [] }
+
+  const products = rank(index, query)
+    .slice(0, limit)
+    .map(({ product: { id, title, price, prices, image } }) => ({ id, title, price, prices, image }))
+
+  const counts = new Map<string, number>()
+  for (const product of index.products) {
+    if (product.category) counts.set(product.category, (counts.get(product.category) ?? 0) + 1)
+  }
+  const categories = Array.from(counts, ([name, count]) => ({ name, count }))
+    .filter(({ name }) => {
+      const words = tokenize(name)
+      return tokens.every((t) => words.some((w) => w.startsWith(t)))
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, categoryLimit)
+
+  return { query, products, categories }
+}
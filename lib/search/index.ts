@@ -0,0 +1,29 @@
+import { createHash } from 'crypto'
+import { getProductRepository } from '../products/repository'
+import type { Product } from '../products/types'
+import { buildSearchIndex, searchProducts, type SearchIndex, type SearchOptions, type SearchResult } from './engine'
+
+/**
+ * Server-side entry point for product search. The index is rebuilt only when
+ * the catalog returned by the repository actually changes.
+ */
+
+let cached: { signature: string; index: SearchIndex } | null = null
+
+function catalogSignature(products: Product[]) {
+  return createHash('sha1').update(JSON.stringify(products)).digest('hex')
+}
+
+export async function getSearchIndex(): Promise<SearchIndex> {
+  const repo = await getProductRepository()
+  const products = await repo.list()
+  const signature = catalogSignature(products)
+  if (!cached || cached.signature !== signature) {
+    cached = { signature, index: buildSearchIndex(products) }
+  }
+  return cached.index
+}
+
+export async function search(query: string, options?: SearchOptions): Promise<SearchResult> {
+  return searchProducts(await getSearchIndex(), query, options)
+}
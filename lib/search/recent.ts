@@ -0,0 +1,35 @@
+/**
+ * Recent header searches, kept per browser in localStorage. Client-only.
+ */
+
+export const RECENT_SEARCHES_KEY = 'ecom_recent_searches'
+const MAX_RECENT_SEARCHES = 5
+
+export function readRecentSearches(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) ?? '[]')
+    return Array.isArray(parsed) ? parsed.filter((q): q is string => typeof q === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/** Moves `query` to the front, de-duplicating case-insensitively. */
+export function addRecentSearch(query: string) {
+  const q = query.trim()
+  if (!q) return
+  const next = [q, ...readRecentSearches().filter((r) => r.toLowerCase() !== q.toLowerCase())]
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next.slice(0, MAX_RECENT_SEARCHES)))
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function clearRecentSearches() {
+  try {
+    localStorage.removeItem(RECENT_SEARCHES_KEY)
+  } catch {
+    // ignore storage errors
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Tokenizer shared by indexing and querying so both sides agree on terms.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'with',
+])
+
+/** Very light stemming: folds common English plurals onto their singular. */
+export function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`
+  if (term.length > 4 && /(ches|shes|sses|xes)$/.test(term)) return term.slice(0, -2)
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1)
+  return term
+}
+
+/** Lowercase, strip accents, split on anything that isn't a letter or digit. */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t && !STOPWORDS.has(t))
+    .map(stem)
+}
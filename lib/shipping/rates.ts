@@ -0,0 +1,78 @@
+import { money, toCents, type Money } from '../money'
+import type {
+  FreeShippingProgress,
+  Shipment,
+  ShippingConfig,
+  ShippingDestination,
+  ShippingOption,
+  ShippingRate,
+  ShippingZone,
+} from './types'
+
+/**
+ * Pure shipping rate calculation: which zone a destination falls in, what
+ * each of its methods costs for a shipment, and how far the order is from
+ * free shipping. Rate tables are in the shipment's currency; money
+ * comparisons are done in integer cents.
+ */
+
+export function normalizeDestination({ country, region }: ShippingDestination): ShippingDestination {
+  const normalizedRegion = region?.trim().toUpperCase()
+  return { country: country.trim().toUpperCase(), region: normalizedRegion || undefined }
+}
+
+export function findZone(config: ShippingConfig, destination: ShippingDestination): ShippingZone | undefined {
+  const { country, region } = normalizeDestination(destination)
+  return config.zones.find((zone) => {
+    const countries = zone.countries.map((c) => c.toUpperCase())
+    if (!countries.includes(country) && !countries.includes('*')) return false
+    if (!zone.regions?.length) return true
+    return !!region && zone.regions.some((r) => r.toUpperCase() === region)
+  })
+}
+
+/** The rate for `shipment`, or undefined when it's past the table's last tier. */
+function tierPrice(rate: ShippingRate, shipment: Shipment): number | undefined {
+  // Weights compare in grams and prices in cents, so tier bounds are exact
+  const scale = (n: number) => (rate.basis === 'weight' ? Math.round(n * 1000) : toCents(n))
+  const measure = rate.basis === 'weight' ? scale(shipment.weight) : shipment.subtotal.amount
+  return rate.tiers.find((tier) => tier.upTo === undefined || measure <= scale(tier.upTo))?.price
+}
+
+function qualifiesForFreeShipping(zone: ShippingZone, subtotal: Money) {
+  return !!zone.freeShipping && subtotal.amount >= toCents(zone.freeShipping.over)
+}
+
+/** Methods available in `zone` for `shipment`, in the order the zone lists them. */
+export function shippingOptions(zone: ShippingZone, shipment: Shipment): ShippingOption[] {
+  const { currency } = shipment.subtotal
+  const free = qualifiesForFreeShipping(zone, shipment.subtotal)
+  const options: ShippingOption[] = []
+  for (const rate of zone.rates) {
+    const price = tierPrice(rate, shipment)
+    if (price === undefined) continue
+    options.push({
+      id: rate.id,
+      label: rate.label,
+      description: rate.description,
+      price: money(free && zone.freeShipping!.methodIds.includes(rate.id) ? 0 : price, currency),
+      regularPrice: money(price, currency),
+    })
+  }
+  return options
+}
+
+/** The cheapest option, preferring the one listed first on a tie. */
+export function cheapestOption(options: ShippingOption[]): ShippingOption | undefined {
+  return options.reduce<ShippingOption | undefined>(
+    (best, option) => (!best || option.price.amount < best.price.amount ? option : best),
+    undefined,
+  )
+}
+
+/** Undefined when the zone has no free-shipping threshold. */
+export function freeShippingProgress(zone: ShippingZone, subtotal: Money): FreeShippingProgress | undefined {
+  if (!zone.freeShipping) return undefined
+  const threshold = money(zone.freeShipping.over, subtotal.currency)
+  return { threshold, remaining: { ...threshold, amount: Math.max(0, threshold.amount - subtotal.amount) } }
+}
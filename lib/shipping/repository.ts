@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { SAMPLE_SHIPPING } from './sample'
+import type { ShippingConfig } from './types'
+
+/**
+ * Where shipping zones and rates come from. Mirrors the catalog repository:
+ * SHIPPING_FILE (or data/shipping.json when present) is read from disk and
+ * re-read when it changes, otherwise SAMPLE_SHIPPING is used. Server-only.
+ */
+
+export interface ShippingRepository {
+  load(): Promise<ShippingConfig>
+}
+
+export function createMemoryShippingRepository(config: ShippingConfig): ShippingRepository {
+  return {
+    async load() {
+      return config
+    },
+  }
+}
+
+export function createJsonFileShippingRepository(filePath: string): ShippingRepository {
+  let cache: { mtimeMs: number; config: ShippingConfig } | null = null
+
+  return {
+    async load() {
+      const stat = await fs.stat(filePath)
+      if (cache && cache.mtimeMs === stat.mtimeMs) return cache.config
+      const raw = JSON.parse(await fs.readFile(filePath, 'utf8')) as Partial<ShippingConfig>
+      if (!Array.isArray(raw.zones)) {
+        throw new Error(`Shipping file ${filePath} must have a "zones" array`)
+      }
+      const config: ShippingConfig = {
+        zones: raw.zones,
+        defaultWeight: raw.defaultWeight ?? SAMPLE_SHIPPING.defaultWeight,
+        defaultCountry: raw.defaultCountry ?? SAMPLE_SHIPPING.defaultCountry,
+      }
+      cache = { mtimeMs: stat.mtimeMs, config }
+      return config
+    },
+  }
+}
+
+let repository: ShippingRepository | null = null
+
+export async function getShippingRepository(): Promise<ShippingRepository> {
+  if (repository) return repository
+  const filePath = process.env.SHIPPING_FILE ?? path.join(process.cwd(), 'data', 'shipping.json')
+  const exists = await fs
+    .access(filePath)
+    .then(() => true)
+    .catch(() => false)
+  repository = exists ? createJsonFileShippingRepository(filePath) : createMemoryShippingRepository(SAMPLE_SHIPPING)
+  return repository
+}
+
+/** Override the repository, e.g. to plug in a database-backed implementation. */
+export function setShippingRepository(next: ShippingRepository) {
+  repository = next
+}
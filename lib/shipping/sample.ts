@@ -0,0 +1,87 @@
+import type { ShippingConfig } from './types'
+
+/**
+ * Built-in shipping config used when no shipping file is configured. US
+ * orders of $50 or more ship free by standard post, as promised on the home
+ * page.
+ */
+export const SAMPLE_SHIPPING: ShippingConfig = {
+  defaultWeight: 0.5,
+  defaultCountry: 'US',
+  zones: [
+    {
+      id: 'us-remote',
+      name: 'Alaska, Hawaii and Puerto Rico',
+      countries: ['US'],
+      regions: ['AK', 'HI', 'PR'],
+      rates: [
+        {
+          id: 'standard',
+          label: 'Standard',
+          description: '5–8 business days',
+          basis: 'weight',
+          tiers: [{ upTo: 1, price: 9.99 }, { upTo: 5, price: 14.99 }, { price: 24.99 }],
+        },
+        {
+          id: 'express',
+          label: 'Express',
+          description: '2–3 business days',
+          basis: 'weight',
+          tiers: [{ upTo: 1, price: 24.99 }, { upTo: 5, price: 34.99 }, { price: 49.99 }],
+        },
+      ],
+      freeShipping: { over: 50, methodIds: ['standard'] },
+    },
+    {
+      id: 'us',
+      name: 'United States',
+      countries: ['US'],
+      rates: [
+        {
+          id: 'standard',
+          label: 'Standard',
+          description: '3–5 business days',
+          basis: 'price',
+          tiers: [{ upTo: 25, price: 4.99 }, { price: 5.99 }],
+        },
+        {
+          id: 'express',
+          label: 'Express',
+          description: '1–2 business days',
+          basis: 'weight',
+          tiers: [{ upTo: 1, price: 14.99 }, { upTo: 5, price: 19.99 }, { price: 29.99 }],
+        },
+      ],
+      freeShipping: { over: 50, methodIds: ['standard'] },
+    },
+    {
+      id: 'ca',
+      name: 'Canada',
+      countries: ['CA'],
+      rates: [
+        {
+          id: 'standard',
+          label: 'Standard',
+          description: '5–10 business days',
+          basis: 'weight',
+          tiers: [{ upTo: 1, price: 12.99 }, { upTo: 5, price: 19.99 }, { price: 34.99 }],
+        },
+      ],
+      freeShipping: { over: 100, methodIds: ['standard'] },
+    },
+    {
+      id: 'intl',
+      name: 'International',
+      countries: ['*'],
+      rates: [
+        {
+          id: 'standard',
+          label: 'International',
+          description: '7–21 business days',
+          basis: 'weight',
+          tiers: [{ upTo: 1, price: 19.99 }, { upTo: 5, price: 39.99 }, { price: 69.99 }],
+        },
+      ],
+    },
+  ],
+}
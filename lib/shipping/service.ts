@@ -0,0 +1,86 @@
+import { convertAmount } from '../currency/prices'
+import { HttpError } from '../http'
+import { BASE_CURRENCY, type CurrencyCode, type Money } from '../money'
+import type { Product, ProductVariant } from '../products/types'
+import { variantWeight } from '../products/variants'
+import { cheapestOption, findZone, freeShippingProgress, normalizeDestination, shippingOptions } from './rates'
+import { getShippingRepository } from './repository'
+import type { ShippingConfig, ShippingDestination, ShippingEstimate, ShippingQuote, ShippingZone } from './types'
+
+/**
+ * Server-side glue around the rate tables: loads the shipping config and
+ * works out shipment weights from the catalog. Used by the cart for its
+ * estimate and by the order API for the rates offered at checkout. Rate
+ * tables are set in the base currency and converted to the shopper's.
+ */
+
+/** A cart or order line as far as shipping is concerned. */
+export interface ShippableLine {
+  product: Product
+  variant?: ProductVariant
+  quantity: number
+}
+
+export async function getShippingConfig(): Promise<ShippingConfig> {
+  return (await getShippingRepository()).load()
+}
+
+function shipmentWeight(config: ShippingConfig, lines: ShippableLine[]): number {
+  const grams = lines.reduce((sum, { product, variant, quantity }) => {
+    const weight = variantWeight(product, variant) ?? config.defaultWeight
+    return sum + Math.round(weight * 1000) * quantity
+  }, 0)
+  return grams / 1000
+}
+
+/** A zone with its prices, price-based tier bounds and free-shipping threshold converted to `currency`. */
+function localizeZone(zone: ShippingZone, currency: CurrencyCode): ShippingZone {
+  if (currency === BASE_CURRENCY) return zone
+  const convert = (amount: number) => convertAmount(amount, currency)
+  return {
+    ...zone,
+    rates: zone.rates.map((rate) => ({
+      ...rate,
+      tiers: rate.tiers.map(({ upTo, price }) => ({
+        upTo: upTo !== undefined && rate.basis === 'price' ? convert(upTo) : upTo,
+        price: convert(price),
+      })),
+    })),
+    freeShipping: zone.freeShipping && { ...zone.freeShipping, over: convert(zone.freeShipping.over) },
+  }
+}
+
+/**
+ * Methods and prices for shipping `lines` to `destination` (the default
+ * country when omitted). `subtotal` is the merchandise total after
+ * discounts; prices are quoted in its currency. 400 when no zone covers the
+ * destination.
+ */
+export async function quoteShipping(
+  lines: ShippableLine[],
+  subtotal: Money,
+  destination?: ShippingDestination,
+): Promise<ShippingQuote> {
+  const config = await getShippingConfig()
+  const normalized = normalizeDestination(destination ?? { country: config.defaultCountry })
+  const found = findZone(config, normalized)
+  if (!found) throw new HttpError(400, `Sorry, we don't ship to ${normalized.country} yet.`)
+  const zone = localizeZone(found, subtotal.currency)
+  return {
+    destination: normalized,
+    options: shippingOptions(zone, { subtotal, weight: shipmentWeight(config, lines) }),
+    freeShipping: freeShippingProgress(zone, subtotal),
+  }
+}
+
+/** Cheapest shipping to the default country, for the cart. Null for an empty cart. */
+export async function estimateShipping(lines: ShippableLine[], subtotal: Money): Promise<ShippingEstimate | null> {
+  if (lines.length === 0) return null
+  const config = await getShippingConfig()
+  const found = findZone(config, { country: config.defaultCountry })
+  if (!found) return null
+  const zone = localizeZone(found, subtotal.currency)
+  const option = cheapestOption(shippingOptions(zone, { subtotal, weight: shipmentWeight(config, lines) }))
+  if (!option) return null
+  return { country: config.defaultCountry, option, freeShipping: freeShippingProgress(zone, subtotal) }
+}
@@ -0,0 +1,90 @@
+import type { Money } from '../money'
+
+/**
+ * Shipping configuration and rate types, shared by the cart, the order API
+ * and checkout. Rate tables are set in dollars and weights in kg; quoted
+ * prices are Money.
+ */
+
+/** One step of a rate table; the first tier whose `upTo` covers the shipment applies. */
+export interface RateTier {
+  /** Inclusive upper bound in kg or dollars (see `basis`); omit on the last tier. */
+  upTo?: number
+  price: number
+}
+
+export interface ShippingRate {
+  /** Method id, e.g. "standard"; the same id may be priced differently per zone. */
+  id: string
+  label: string
+  description: string
+  /** Whether tiers are keyed by total weight or by merchandise total after discounts. */
+  basis: 'weight' | 'price'
+  tiers: RateTier[]
+}
+
+export interface ShippingZone {
+  id: string
+  name: string
+  /** ISO country codes; "*" matches every country. */
+  countries: string[]
+  /** Region or state codes within those countries; omit to cover all of them. */
+  regions?: string[]
+  rates: ShippingRate[]
+  /** Merchandise total (after discounts) at which `methodIds` ship free. */
+  freeShipping?: { over: number; methodIds: string[] }
+}
+
+export interface ShippingConfig {
+  /** Checked in order; the first zone covering the destination wins. */
+  zones: ShippingZone[]
+  /** Weight assumed for products without one. */
+  defaultWeight: number
+  /** Used for cart estimates, before the shopper has entered an address. */
+  defaultCountry: string
+}
+
+export interface ShippingDestination {
+  country: string
+  region?: string
+}
+
+/** What the rate tables need to know about an order. */
+export interface Shipment {
+  /** Merchandise total after discounts. */
+  subtotal: Money
+  weight: number
+}
+
+/** A method offered for a particular shipment and destination. */
+export interface ShippingOption {
+  id: string
+  label: string
+  description: string
+  /** 0 when the order qualifies for free shipping. */
+  price: Money
+  /** Undiscounted rate, so free shipping can be shown against it. */
+  regularPrice: Money
+}
+
+/** Free-shipping threshold for a destination and how close the order is to it. */
+export interface FreeShippingProgress {
+  threshold: Money
+  /** 0 once the order qualifies. */
+  remaining: Money
+}
+
+/** Methods offered for a destination, returned by POST /api/shipping/rates. */
+export interface ShippingQuote {
+  destination: ShippingDestination
+  options: ShippingOption[]
+  freeShipping?: FreeShippingProgress
+}
+
+/** Shipping estimate shown in the cart, for the default country. */
+export interface ShippingEstimate {
+  country: string
+  /** Cheapest available method. */
+  option: ShippingOption
+  freeShipping?: FreeShippingProgress
+}
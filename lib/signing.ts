@@ -0,0 +1,47 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * HMAC-signed tokens for links sent by email (newsletter confirm and
+ * unsubscribe). The payload is readable but can't be forged without
+ * APP_SECRET. Server-only.
+ */
+
+const DEV_SECRET = 'dev-only-insecure-secret'
+
+function secret(): string {
+  const value = process.env.APP_SECRET
+  if (value) return value
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_SECRET must be set in production to sign links')
+  }
+  return DEV_SECRET
+}
+
+function hmac(data: string) {
+  return createHmac('sha256', secret()).update(data).digest('base64url')
+}
+
+/** Sign `payload`; pass `ttlMs` to make the token expire. */
+export function signToken(payload: Record<string, unknown>, ttlMs?: number): string {
+  const body = Buffer.from(
+    JSON.stringify(ttlMs ? { ...payload, exp: Date.now() + ttlMs } : payload),
+  ).toString('base64url')
+  return `${body}.${hmac(body)}`
+}
+
+/** Returns the payload, or null when the token is malformed, tampered with or expired. */
+export function verifyToken<T extends Record<string, unknown>>(token: unknown): T | null {
+  if (typeof token !== 'string') return null
+  const [body, signature, extra] = token.split('.')
+  if (!body || !signature || extra !== undefined) return null
+  const expected = Buffer.from(hmac(body))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T & { exp?: number }
+    if (typeof payload.exp === 'number' && payload.exp <= Date.now()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
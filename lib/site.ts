@@ -0,0 +1,12 @@
+/**
+ * Site-wide constants shared by metadata, structured data and emails.
+ */
+
+export const SITE_NAME = 'Acme Shop'
+
+/** Absolute origin used to build canonical URLs; override per environment. */
+export const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL ?? 'https://example.com'
+
+export function absoluteUrl(path: string): string {
+  return new URL(path, SITE_URL).toString()
+}
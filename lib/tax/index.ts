@@ -0,0 +1,31 @@
+import { createRulesTaxProvider } from './local'
+import { DEFAULT_TAX_RULES } from './rules'
+import type { TaxProvider } from './types'
+
+export type {
+  TaxClass,
+  TaxDestination,
+  TaxJurisdiction,
+  TaxProvider,
+  TaxRequest,
+  TaxRequestLine,
+  TaxResult,
+  TaxRules,
+  TaxSummary,
+} from './types'
+
+let provider: TaxProvider | null = null
+
+/**
+ * Returns the configured tax provider. The local rules-table provider
+ * (DEFAULT_TAX_RULES) ships with the app; register an external tax service,
+ * or the local provider with your own rules, with setTaxProvider().
+ */
+export function getTaxProvider(): TaxProvider {
+  provider ??= createRulesTaxProvider(DEFAULT_TAX_RULES)
+  return provider
+}
+
+export function setTaxProvider(next: TaxProvider) {
+  provider = next
+}
@@ -0,0 +1,79 @@
+import { fromCents, toCents } from '../money'
+import type { TaxDestination, TaxJurisdiction, TaxProvider, TaxRequest, TaxResult, TaxRules } from './types'
+
+/**
+ * Local tax provider backed by a rules table, so checkout works without an
+ * external tax service. Tax is calculated in cents; "order" rounding rounds
+ * the total once and spreads it back over the lines, largest remainders
+ * first, so line taxes always add up to the order's tax.
+ */
+
+/** A region-specific rule for the destination, else the country-wide one. */
+export function findJurisdiction(rules: TaxRules, destination: TaxDestination): TaxJurisdiction | undefined {
+  const country = destination.country.trim().toUpperCase()
+  const region = destination.region?.trim().toUpperCase()
+  const inCountry = rules.jurisdictions.filter((j) => j.country.toUpperCase() === country)
+  return inCountry.find((j) => !!j.region && j.region.toUpperCase() === region) ?? inCountry.find((j) => !j.region)
+}
+
+/** Unrounded tax in cents on `cents` at `rate` percent. */
+function exactTax(cents: number, rate: number, inclusive: boolean) {
+  return inclusive ? (cents * rate) / (100 + rate) : (cents * rate) / 100
+}
+
+/** Round `exact` amounts so they sum to their rounded total. */
+function roundToTotal(exact: number[]): number[] {
+  const total = Math.round(exact.reduce((sum, n) => sum + n, 0))
+  const rounded = exact.map((n) => Math.floor(n))
+  let leftover = total - rounded.reduce((sum, n) => sum + n, 0)
+  const byFraction = exact.map((n, i) => ({ i, fraction: n - Math.floor(n) })).sort((a, b) => b.fraction - a.fraction)
+  for (const { i } of byFraction) {
+    if (leftover <= 0) break
+    rounded[i] += 1
+    leftover -= 1
+  }
+  return rounded
+}
+
+export function createRulesTaxProvider(rules: TaxRules): TaxProvider {
+  return {
+    name: 'local',
+
+    async calculate({ destination, lines, shipping }: TaxRequest): Promise<TaxResult> {
+      const jurisdiction = findJurisdiction(rules, destination)
+      if (!jurisdiction) {
+        return {
+          label: 'Tax',
+          inclusive: false,
+          lines: lines.map(({ key }) => ({ key, rate: 0, tax: 0 })),
+          shippingTax: 0,
+          total: 0,
+        }
+      }
+
+      const inclusive = !!jurisdiction.pricesIncludeTax
+      const standard = jurisdiction.rates.standard
+      const items = lines.map(({ key, amount, taxClass }) => ({
+        key,
+        rate: jurisdiction.rates[taxClass] ?? standard,
+        cents: toCents(amount),
+      }))
+      const shippingRate = jurisdiction.taxShipping ? standard : 0
+      const exact = [
+        ...items.map((item) => exactTax(item.cents, item.rate, inclusive)),
+        exactTax(toCents(shipping), shippingRate, inclusive),
+      ]
+      const rounded = jurisdiction.rounding === 'order' ? roundToTotal(exact) : exact.map((n) => Math.round(n))
+      const shippingCents = rounded.pop() ?? 0
+
+      return {
+        jurisdiction: jurisdiction.name,
+        label: jurisdiction.label,
+        inclusive,
+        lines: items.map(({ key, rate }, i) => ({ key, rate, tax: fromCents(rounded[i]) })),
+        shippingTax: fromCents(shippingCents),
+        total: fromCents(rounded.reduce((sum, n) => sum + n, 0) + shippingCents),
+      }
+    },
+  }
+}
@@ -0,0 +1,65 @@
+import type { TaxJurisdiction, TaxRules } from './types'
+
+/**
+ * Built-in rules table for the local tax provider: statewide US sales tax
+ * (no county or city rates) and EU VAT. Catalog prices are treated as
+ * VAT-inclusive for EU shoppers and tax-exclusive for US ones.
+ */
+
+function salesTax(
+  region: string,
+  name: string,
+  standard: number,
+  extra: Partial<Pick<TaxJurisdiction, 'taxShipping'>> & { clothing?: number } = {},
+): TaxJurisdiction {
+  const { clothing, ...rest } = extra
+  return {
+    id: `US-${region}`,
+    name,
+    country: 'US',
+    region,
+    label: 'Sales tax',
+    rates: clothing === undefined ? { standard } : { standard, clothing },
+    // Most states compute tax on the invoice total
+    rounding: 'order',
+    ...rest,
+  }
+}
+
+function vat(country: string, name: string, standard: number, reduced: number): TaxJurisdiction {
+  return {
+    id: country,
+    name,
+    country,
+    label: 'VAT',
+    rates: { standard, reduced },
+    pricesIncludeTax: true,
+    taxShipping: true,
+    rounding: 'line',
+  }
+}
+
+export const DEFAULT_TAX_RULES: TaxRules = {
+  jurisdictions: [
+    salesTax('CA', 'California', 7.25),
+    salesTax('FL', 'Florida', 6),
+    salesTax('IL', 'Illinois', 6.25),
+    salesTax('MA', 'Massachusetts', 6.25, { clothing: 0 }),
+    salesTax('MN', 'Minnesota', 6.875, { clothing: 0, taxShipping: true }),
+    salesTax('NJ', 'New Jersey', 6.625, { clothing: 0, taxShipping: true }),
+    salesTax('NY', 'New York', 4, { clothing: 0, taxShipping: true }),
+    salesTax('PA', 'Pennsylvania', 6, { clothing: 0 }),
+    salesTax('TX', 'Texas', 6.25, { taxShipping: true }),
+    salesTax('WA', 'Washington', 6.5, { taxShipping: true }),
+    vat('AT', 'Austria', 20, 10),
+    vat('BE', 'Belgium', 21, 6),
+    vat('DE', 'Germany', 19, 7),
+    vat('ES', 'Spain', 21, 10),
+    vat('FR', 'France', 20, 5.5),
+    vat('IE', 'Ireland', 23, 13.5),
+    vat('IT', 'Italy', 22, 10),
+    vat('NL', 'Netherlands', 21, 9),
+    vat('PL', 'Poland', 23, 8),
+    vat('SE', 'Sweden', 25, 12),
+  ],
+}
@@ -0,0 +1,58 @@
+import { getCatalog } from '../catalog/service'
+import { categoryAncestry, categoryForProduct } from '../catalog/tree'
+import type { Category } from '../catalog/types'
+import { BASE_CURRENCY, money, toMajor, type CurrencyCode, type Money } from '../money'
+import type { Product } from '../products/types'
+import { getTaxProvider } from './index'
+import { DEFAULT_TAX_CLASS, type TaxClass, type TaxDestination, type TaxResult, type TaxSummary } from './types'
+
+/**
+ * Server-side glue around the tax provider: resolves each line's tax class
+ * from the product and its category, then asks the provider for the tax.
+ */
+
+/** A cart or order line as far as tax is concerned. */
+export interface TaxableLine {
+  key: string
+  product: Product
+  /** Line total after discounts. */
+  amount: Money
+  quantity: number
+}
+
+/** The product's own class, else the nearest category's, else "standard". */
+export function taxClassFor(categories: Category[], product: Product): TaxClass {
+  if (product.taxClass) return product.taxClass
+  const category = categoryForProduct(categories, product)
+  const ancestry = category ? categoryAncestry(categories, category) : []
+  return ancestry.reverse().find((c) => c.taxClass)?.taxClass ?? DEFAULT_TAX_CLASS
+}
+
+/** Tax on `lines` and `shipping`, from the provider (so in major units). */
+export async function calculateTax(
+  lines: TaxableLine[],
+  shipping: Money,
+  destination: TaxDestination,
+  currency: CurrencyCode = BASE_CURRENCY,
+): Promise<TaxResult> {
+  const { categories } = await getCatalog()
+  return getTaxProvider().calculate({
+    destination,
+    lines: lines.map(({ key, product, amount, quantity }) => ({
+      key,
+      amount: toMajor(amount),
+      quantity,
+      taxClass: taxClassFor(categories, product),
+    })),
+    shipping: toMajor(shipping),
+    currency,
+  })
+}
+
+/** The tax line to show, or null when no tax is due at the destination. */
+export function summarizeTax(
+  { jurisdiction, label, inclusive, total }: TaxResult,
+  currency: CurrencyCode,
+): TaxSummary | null {
+  return jurisdiction ? { jurisdiction, label, inclusive, amount: money(total, currency) } : null
+}
@@ -0,0 +1,94 @@
+import type { Money } from '../money'
+
+/**
+ * Tax provider interface and the rules table used by the built-in provider.
+ * Providers take and return amounts in major units (dollars); the tax line
+ * shown to shoppers is Money. Rates are percentages (7.25 = 7.25%).
+ */
+
+/**
+ * How a product is taxed, e.g. "standard", "reduced" or "clothing". Set on a
+ * product or its category; anything unset is "standard".
+ */
+export type TaxClass = string
+
+export const DEFAULT_TAX_CLASS: TaxClass = 'standard'
+
+export interface TaxJurisdiction {
+  id: string
+  /** Shown next to the tax line, e.g. "California" or "Germany". */
+  name: string
+  country: string
+  /** State or region code; omit for a country-wide rule. */
+  region?: string
+  /** e.g. "Sales tax" or "VAT". */
+  label: string
+  /** Rate per tax class; classes not listed fall back to `standard`. */
+  rates: { standard: number } & Record<TaxClass, number>
+  /** Catalog prices already include this tax (VAT style): it's extracted from them rather than added on top. */
+  pricesIncludeTax?: boolean
+  /** Shipping is taxed at the standard rate. */
+  taxShipping?: boolean
+  /**
+   * Round each line's tax to the cent ("line", the default) or only the
+   * order's total, spreading it back over the lines ("order").
+   */
+  rounding?: 'line' | 'order'
+}
+
+export interface TaxRules {
+  /** A region-specific rule wins over a country-wide one. */
+  jurisdictions: TaxJurisdiction[]
+}
+
+export interface TaxDestination {
+  country: string
+  region?: string
+  postalCode?: string
+}
+
+export interface TaxRequestLine {
+  key: string
+  /** Line total after discounts. */
+  amount: number
+  quantity: number
+  taxClass: TaxClass
+}
+
+export interface TaxRequest {
+  destination: TaxDestination
+  lines: TaxRequestLine[]
+  shipping: number
+  currency: string
+}
+
+export interface TaxLineResult {
+  key: string
+  rate: number
+  tax: number
+}
+
+export interface TaxResult {
+  /** Where the tax is owed; absent when nothing is due. */
+  jurisdiction?: string
+  label: string
+  /** The tax is already part of the prices, so it isn't added to the total. */
+  inclusive: boolean
+  lines: TaxLineResult[]
+  shippingTax: number
+  /** Line and shipping tax together. */
+  total: number
+}
+
+export interface TaxProvider {
+  readonly name: string
+  calculate(request: TaxRequest): Promise<TaxResult>
+}
+
+/** The tax line shown on carts, quotes and orders. */
+export interface TaxSummary {
+  jurisdiction?: string
+  label: string
+  inclusive: boolean
+  amount: Money
+}
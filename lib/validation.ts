@@ -0,0 +1,16 @@
+/**
+ * Validation rules shared by client forms and route handlers.
+ */
+
+export const EMAIL_REGEX =
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function isValidEmail(value: unknown): value is string {
+  return typeof value === 'string' && EMAIL_REGEX.test(value)
+}
+
+/** A positive whole number from a query param such as `page`, or `fallback`. */
+export function toPositiveInt(value: string | null | undefined, fallback: number): number {
+  const n = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
@@ -0,0 +1,48 @@
+import type { WishlistItemRef, WishlistView } from './types'
+
+/**
+ * Browser helpers for /api/wishlist. Each resolves to the updated
+ * WishlistView and rejects with the API's `{ message }` on failure.
+ */
+
+async function request(path: string, method: string, body?: unknown): Promise<WishlistView> {
+  const res = await fetch(`/api/wishlist${path}`, {
+    method,
+    cache: 'no-store',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new Error(data?.message || 'Failed to update your wishlist.')
+  return data as WishlistView
+}
+
+export function fetchWishlist() {
+  return request('', 'GET')
+}
+
+export function saveWishlistItem(item: WishlistItemRef) {
+  return request('', 'POST', { productId: item.productId, variantId: item.variantId })
+}
+
+/** Merge a guest's local list into the signed-in user's wishlist. */
+export function mergeWishlistItems(items: WishlistItemRef[]) {
+  return request('', 'POST', { items })
+}
+
+export function removeWishlistItem(productId: string) {
+  return request(`?productId=${encodeURIComponent(productId)}`, 'DELETE')
+}
+
+/** Product data for a guest's local list. */
+export function previewWishlist(items: WishlistItemRef[]) {
+  return request('/preview', 'POST', { items })
+}
+
+export function shareWishlist() {
+  return request('/share', 'POST')
+}
+
+export function stopSharingWishlist() {
+  return request('/share', 'DELETE')
+}
@@ -0,0 +1,36 @@
+import type { WishlistItem } from './types'
+
+/**
+ * Guest wishlist, kept per browser in localStorage until the shopper signs
+ * in and it is merged into their account. Client-only.
+ */
+
+export const WISHLIST_STORAGE_KEY = 'ecom_wishlist'
+
+export function readLocalWishlist(): WishlistItem[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(WISHLIST_STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (item): item is WishlistItem => typeof item?.productId === 'string' && typeof item?.addedAt === 'string',
+    )
+  } catch {
+    return []
+  }
+}
+
+export function writeLocalWishlist(items: WishlistItem[]) {
+  try {
+    localStorage.setItem(WISHLIST_STORAGE_KEY, JSON.stringify(items))
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function clearLocalWishlist() {
+  try {
+    localStorage.removeItem(WISHLIST_STORAGE_KEY)
+  } catch {
+    // ignore storage errors
+  }
+}
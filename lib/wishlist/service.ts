@@ -0,0 +1,162 @@
+import { randomBytes } from 'crypto'
+import { getUserById } from '../auth/service'
+import { HttpError } from '../http'
+import { withAvailability } from '../inventory/service'
+import { getProductRepository } from '../products/repository'
+import type { Product } from '../products/types'
+import { findVariant } from '../products/variants'
+import { wishlistsStore } from './store'
+import type {
+  SharedWishlist,
+  StoredWishlist,
+  WishlistItem,
+  WishlistItemRef,
+  WishlistView,
+  WishlistViewItem,
+} from './types'
+
+/**
+ * Server-side wishlist operations for signed-in users, plus hydration of
+ * guest (localStorage) lists. Every mutation returns the fresh WishlistView.
+ */
+
+export const MAX_WISHLIST_ITEMS = 200
+
+const SHARE_ID = /^[A-Za-z0-9_-]{22}$/
+
+function emptyWishlist(userId: string): StoredWishlist {
+  return { userId, items: [], updatedAt: new Date().toISOString() }
+}
+
+/** Validate refs sent by the client, keeping the first entry per product. */
+function normalizeRefs(items: unknown): WishlistItemRef[] {
+  if (!Array.isArray(items)) throw new HttpError(400, 'items must be an array.')
+  const seen = new Set<string>()
+  const refs: WishlistItemRef[] = []
+  for (const item of items as Partial<WishlistItemRef>[]) {
+    if (typeof item?.productId !== 'string' || !item.productId || seen.has(item.productId)) continue
+    seen.add(item.productId)
+    refs.push({
+      productId: item.productId,
+      variantId: typeof item.variantId === 'string' && item.variantId ? item.variantId : undefined,
+    })
+  }
+  return refs.slice(0, MAX_WISHLIST_ITEMS)
+}
+
+/** Put `ref` at the front, replacing any entry for the same product. */
+function upsert(wishlist: StoredWishlist, ref: WishlistItemRef, addedAt = new Date().toISOString()) {
+  wishlist.items = [
+    { productId: ref.productId, variantId: ref.variantId, addedAt },
+    ...wishlist.items.filter((i) => i.productId !== ref.productId),
+  ].slice(0, MAX_WISHLIST_ITEMS)
+}
+
+/**
+ * Join items with current catalog data and stock. Products that are no
+ * longer sold are dropped; a variant that's gone falls back to the product.
+ */
+export async function hydrateWishlistItems(items: WishlistItem[]): Promise<WishlistViewItem[]> {
+  const repo = await getProductRepository()
+  const products: Product[] = []
+  for (const item of items) {
+    const product = await repo.get(item.productId)
+    if (product) products.push(product)
+  }
+  const byId = new Map((await withAvailability(products)).map((p) => [p.id, p]))
+  const view: WishlistViewItem[] = []
+  for (const item of items) {
+    const product = byId.get(item.productId)
+    if (!product) continue
+    const variant = findVariant(product, item.variantId)
+    view.push({ ...item, variantId: variant?.id, product, variant })
+  }
+  return view
+}
+
+async function toView(wishlist: StoredWishlist | undefined): Promise<WishlistView> {
+  return {
+    items: await hydrateWishlistItems(wishlist?.items ?? []),
+    shareId: wishlist?.shareId,
+  }
+}
+
+async function mutate(userId: string, fn: (wishlist: StoredWishlist) => void): Promise<WishlistView> {
+  const wishlist = await wishlistsStore.update((lists) => {
+    const draft = lists[userId] ?? emptyWishlist(userId)
+    fn(draft)
+    draft.updatedAt = new Date().toISOString()
+    lists[userId] = draft
+    return draft
+  })
+  return toView(wishlist)
+}
+
+export async function getWishlist(userId: string): Promise<WishlistView> {
+  return toView((await wishlistsStore.read())[userId])
+}
+
+export async function saveToWishlist(userId: string, ref: Partial<WishlistItemRef>): Promise<WishlistView> {
+  const [item] = normalizeRefs([ref])
+  if (!item) throw new HttpError(400, 'productId is required.')
+  if (!(await (await getProductRepository()).get(item.productId))) {
+    throw new HttpError(404, 'Product not found.')
+  }
+  return mutate(userId, (wishlist) => upsert(wishlist, item))
+}
+
+export async function removeFromWishlist(userId: string, productId: string): Promise<WishlistView> {
+  return mutate(userId, (wishlist) => {
+    wishlist.items = wishlist.items.filter((i) => i.productId !== productId)
+  })
+}
+
+/**
+ * Fold a guest's local list into the account list on sign-in. Products
+ * already saved keep their account entry; unknown products are skipped.
+ */
+export async function mergeIntoWishlist(userId: string, items: unknown): Promise<WishlistView> {
+  const repo = await getProductRepository()
+  const refs: WishlistItemRef[] = []
+  for (const ref of normalizeRefs(items)) {
+    if (await repo.get(ref.productId)) refs.push(ref)
+  }
+  return mutate(userId, (wishlist) => {
+    const saved = new Set(wishlist.items.map((i) => i.productId))
+    const added = refs.filter((ref) => !saved.has(ref.productId))
+    const now = new Date().toISOString()
+    wishlist.items = [...added.map((ref) => ({ ...ref, addedAt: now })), ...wishlist.items].slice(
+      0,
+      MAX_WISHLIST_ITEMS,
+    )
+  })
+}
+
+/** Hydrate a guest list sent from the browser; nothing is stored. */
+export async function previewWishlist(items: unknown): Promise<WishlistView> {
+  const now = new Date().toISOString()
+  return { items: await hydrateWishlistItems(normalizeRefs(items).map((ref) => ({ ...ref, addedAt: now }))) }
+}
+
+/** Start sharing (or keep the existing link) and return the share id. */
+export async function shareWishlist(userId: string): Promise<WishlistView> {
+  return mutate(userId, (wishlist) => {
+    wishlist.shareId ??= randomBytes(16).toString('base64url')
+  })
+}
+
+/** Stop sharing; the old link stops working for good. */
+export async function stopSharingWishlist(userId: string): Promise<WishlistView> {
+  return mutate(userId, (wishlist) => {
+    delete wishlist.shareId
+  })
+}
+
+export async function getSharedWishlist(shareId: string): Promise<SharedWishlist | null> {
+  if (!SHARE_ID.test(shareId)) return null
+  const wishlist = Object.values(await wishlistsStore.read()).find((w) => w.shareId === shareId)
+  if (!wishlist) return null
+  const owner = await getUserById(wishlist.userId)
+  if (!owner) return null
+  return { ownerName: owner.name, items: await hydrateWishlistItems(wishlist.items) }
+}
@@ -0,0 +1,5 @@
+import { createJsonStore } from '../db/jsonStore'
+import type { StoredWishlist } from './types'
+
+/** Account wishlists keyed by user id. */
+export const wishlistsStore = createJsonStore<Record<string, StoredWishlist>>('wishlists', () => ({}))
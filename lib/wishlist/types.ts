@@ -0,0 +1,42 @@
+import type { Product, ProductVariant } from '../products/types'
+
+/**
+ * Wishlist types. A wishlist holds at most one entry per product; the variant
+ * is remembered when one was picked, e.g. for "Save for later" from the cart.
+ * Guests keep their list in localStorage (see ./local), signed-in users on
+ * the server.
+ */
+
+export interface WishlistItem {
+  productId: string
+  variantId?: string
+  addedAt: string
+}
+
+export type WishlistItemRef = Pick<WishlistItem, 'productId' | 'variantId'>
+
+export interface StoredWishlist {
+  userId: string
+  /** Newest first. */
+  items: WishlistItem[]
+  /** Set while the owner shares the list at /wishlist/<shareId>. */
+  shareId?: string
+  updatedAt: string
+}
+
+export interface WishlistViewItem extends WishlistItem {
+  product: Product
+  variant?: ProductVariant
+}
+
+/** Shape returned by /api/wishlist. */
+export interface WishlistView {
+  items: WishlistViewItem[]
+  shareId?: string
+}
+
+/** Read-only list shown at a share link. */
+export interface SharedWishlist {
+  ownerName: string
+  items: WishlistViewItem[]
+}
@@ -0,0 +1,63 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+  PATHNAME_HEADER,
+  isLocale,
+  localizePath,
+  negotiateLocale,
+  splitLocalePath,
+  type Locale,
+} from './lib/i18n/config'
+
+/**
+ * Locale routing for pages.
+ *
+ * /de/...   served by the unprefixed route, with the locale and path passed
+ *           on in request headers (see lib/i18n/session)
+ * /en/...   redirects to the unprefixed URL, the default locale's canonical form
+ * /...      redirects to the saved (or Accept-Language) locale's prefix when
+ *           that isn't the default, so plain links keep the shopper's language
+ *
+ * The locale is remembered in a cookie for API routes and later visits.
+ */
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 // 1 year
+
+function remember(req: NextRequest, res: NextResponse, locale: Locale) {
+  if (req.cookies.get(LOCALE_COOKIE)?.value !== locale) {
+    res.cookies.set(LOCALE_COOKIE, locale, { sameSite: 'lax', path: '/', maxAge: LOCALE_COOKIE_MAX_AGE })
+  }
+  return res
+}
+
+export function middleware(req: NextRequest) {
+  const { locale, path } = splitLocalePath(req.nextUrl.pathname)
+  const url = req.nextUrl.clone()
+
+  if (locale === DEFAULT_LOCALE) {
+    url.pathname = path
+    return remember(req, NextResponse.redirect(url), locale)
+  }
+  if (!locale) {
+    const saved = req.cookies.get(LOCALE_COOKIE)?.value
+    const preferred = isLocale(saved) ? saved : negotiateLocale(req.headers.get('accept-language'))
+    if (preferred !== DEFAULT_LOCALE) {
+      url.pathname = localizePath(path, preferred)
+      return NextResponse.redirect(url)
+    }
+  }
+
+  const headers = new Headers(req.headers)
+  headers.set(LOCALE_HEADER, locale ?? DEFAULT_LOCALE)
+  headers.set(PATHNAME_HEADER, path)
+  if (!locale) return NextResponse.next({ request: { headers } })
+  url.pathname = path
+  return remember(req, NextResponse.rewrite(url, { request: { headers } }), locale)
+}
+
+export const config = {
+  // Pages only: not API routes, Next.js internals or files like /favicon.ico
+  matcher: ['/((?!api|_next|.*\\..*).*)'],
+}
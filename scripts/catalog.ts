@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import type { User } from '../lib/auth/types'
+import { exportCatalog } from '../lib/admin/export'
+import { importCatalog } from '../lib/admin/import'
+import { CATALOG_FIELDS, type CatalogField, type CatalogFileFormat, type ImportMapping } from '../lib/admin/types'
+
+/**
+ * Catalog import and export from the command line, using the same files and
+ * validation as /admin/import:
+ *
+ *   npx tsx scripts/catalog.ts import <file> [--dry-run] [--format csv|json] [--map field=column ...]
+ *   npx tsx scripts/catalog.ts export [--format csv|json] [--out <file>]
+ *
+ * The format defaults to the file's extension (CSV for export). `--map` maps
+ * a field to a column, or skips it with `--map field=`. Changes are written
+ * to the audit log as "Catalog CLI". It reads and writes the same DATA_DIR as
+ * the app, so stop the server first: a running server keeps its own copy of
+ * the stores in memory and would overwrite the import.
+ */
+
+const USAGE = `Usage:
+  npx tsx scripts/catalog.ts import <file> [--dry-run] [--format csv|json] [--map field=column ...]
+  npx tsx scripts/catalog.ts export [--format csv|json] [--out <file>]`
+
+interface Options {
+  positional: string[]
+  dryRun: boolean
+  format?: CatalogFileFormat
+  out?: string
+  mapping: ImportMapping
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { positional: [], dryRun: false, mapping: {} }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const value = () => {
+      if (i + 1 >= args.length) throw new Error(`${arg} needs a value.`)
+      return args[++i]
+    }
+    if (arg === '--dry-run') {
+      options.dryRun = true
+    } else if (arg === '--format') {
+      const format = value()
+      if (format !== 'csv' && format !== 'json') throw new Error('--format must be csv or json.')
+      options.format = format
+    } else if (arg === '--out') {
+      options.out = value()
+    } else if (arg === '--map') {
+      const [field, ...column] = value().split('=')
+      if (!CATALOG_FIELDS.includes(field as CatalogField)) {
+        throw new Error(`Unknown field "${field}"; use one of ${CATALOG_FIELDS.join(', ')}.`)
+      }
+      options.mapping[field as CatalogField] = column.join('=')
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}.`)
+    } else {
+      options.positional.push(arg)
+    }
+  }
+  return options
+}
+
+const cliUser: User = {
+  id: 'cli',
+  name: `Catalog CLI (${os.userInfo().username})`,
+  email: '',
+  role: 'admin',
+}
+
+async function runImport(options: Options) {
+  const [file] = options.positional
+  if (!file) throw new Error(USAGE)
+  const format = options.format ?? (path.extname(file).toLowerCase() === '.json' ? 'json' : 'csv')
+  const data = await fs.readFile(file, 'utf8')
+  const mapping = Object.keys(options.mapping).length > 0 ? options.mapping : undefined
+  const report = await importCatalog(cliUser, { format, data, mapping, dryRun: options.dryRun })
+
+  const mapped = CATALOG_FIELDS.filter((field) => report.mapping[field])
+  console.log(`Columns: ${mapped.map((field) => `${field} <- ${report.mapping[field]}`).join(', ')}`)
+  for (const row of report.rows) {
+    if (row.action === 'unchanged') continue
+    const changes = row.changes.map((change) => change.field).join(', ')
+    console.log(`  row ${row.row}: ${row.action} ${row.label} (${changes})`)
+  }
+  for (const issue of report.errors) console.error(`  row ${issue.row}: ${issue.message}`)
+  const { total, created, updated, unchanged } = report.summary
+  const outcome = report.applied ? 'Imported' : report.dryRun && report.errors.length === 0 ? 'Dry run' : 'Not imported'
+  console.log(
+    `${outcome}: ${total} rows, ${created} new, ${updated} updated, ${unchanged} unchanged, ` +
+      `${report.errors.length} errors.`,
+  )
+  if (report.errors.length > 0) process.exitCode = 1
+}
+
+async function runExport(options: Options) {
+  const { body } = await exportCatalog(options.format ?? 'csv')
+  if (!options.out) {
+    process.stdout.write(body)
+    return
+  }
+  await fs.writeFile(options.out, body)
+  console.error(`Wrote the catalog to ${options.out}.`)
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2)
+  const options = parseArgs(rest)
+  if (command === 'import') return runImport(options)
+  if (command === 'export') return runExport(options)
+  throw new Error(USAGE)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})